@@ -0,0 +1,31 @@
+// Service worker for local game notifications
+// The app times each alert and shows it through this worker's registration; clicking a
+// notification focuses an open tab (or opens one) on the page the notification points to.
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url ?? '/', self.location.origin).href;
+
+  event.waitUntil(
+    (async () => {
+      const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+      const existing = windows.find((client) => new URL(client.url).origin === self.location.origin);
+      if (existing) {
+        await existing.focus();
+        if (existing.url !== url) {
+          await existing.navigate(url).catch(() => undefined);
+        }
+        return;
+      }
+      await self.clients.openWindow(url);
+    })()
+  );
+});
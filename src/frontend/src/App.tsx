@@ -1,18 +1,37 @@
 import React, { useEffect, useState } from 'react';
+import { createRootRoute, createRoute, createRouter, RouterProvider } from '@tanstack/react-router';
 import { useInternetIdentity } from './hooks/useInternetIdentity';
 import { useGetCallerUserProfile } from './hooks/useQueries';
 import { useActorWithInit } from './hooks/useActorWithInit';
 import LandingPage from './pages/LandingPage';
-import Dashboard from './pages/Dashboard';
+import Dashboard, { type TabType } from './pages/Dashboard';
 import ProfileSetup from './components/ProfileSetup';
 import CosmicBackground from './components/CosmicBackground';
 import ParticleBackground from './components/ParticleBackground';
 import ConfigValidator from './components/ConfigValidator';
+import SimulationControls from './components/SimulationControls';
+import LanguageSwitcher from './components/LanguageSwitcher';
 import ReinitializationProgress from './components/ReinitializationProgress';
 import { useActorReinitializer } from './hooks/useActorReinitializer';
+import { useI18n } from './hooks/useI18n';
+import type { MessageKey } from './i18n';
+import { CANISTER_NAMES, getCanisterEnvVar } from './config/canisters';
+import { useCanisterRegistry } from './hooks/useCanisterRegistry';
 import { Loader2, AlertTriangle, RefreshCw, Network, CheckCircle } from 'lucide-react';
 
-export default function App() {
+// Label/value message pairs listed on the connection screen.
+const CONNECTION_FEATURES: [MessageKey, MessageKey][] = [
+  ['app.connecting.timeoutLabel', 'app.connecting.timeoutValue'],
+  ['app.connecting.retriesLabel', 'app.connecting.retriesValue'],
+  ['app.connecting.primaryGatewayLabel', 'app.connecting.primaryGatewayValue'],
+  ['app.connecting.fallbackGatewaysLabel', 'app.connecting.fallbackGatewaysValue'],
+  ['app.connecting.pollingLabel', 'app.connecting.pollingValue'],
+  ['app.connecting.syncLabel', 'app.connecting.syncValue'],
+];
+
+function AppShell() {
+  const { t } = useI18n();
+  const { data: canisterRegistry } = useCanisterRegistry();
   const { identity, isInitializing: identityInitializing } = useInternetIdentity();
   const { isInitialized: actorInitialized, isInitializing: actorInitializing, error: actorError } = useActorWithInit();
   const reinitializer = useActorReinitializer();
@@ -62,60 +81,32 @@ export default function App() {
             <Loader2 className="w-16 h-16 animate-spin text-[#00ffff] mx-auto drop-shadow-[0_0_15px_rgba(0,255,255,0.8)]" />
             <div className="space-y-3">
               <h2 className="text-2xl font-bold text-[#00ffff] tracking-wider font-orbitron text-glow-cyan">
-                ИНИЦИАЛИЗАЦИЯ СИСТЕМЫ
+                {t('app.connecting.title')}
               </h2>
               <p className="text-[#9933ff] text-sm tracking-wide font-jetbrains">
-                {identityInitializing ? 'Загрузка аутентификации...' : 'Подключение к блокчейну Internet Computer...'}
+                {identityInitializing ? t('app.connecting.identity') : t('app.connecting.network')}
               </p>
               
               <div className="glassmorphism p-6 rounded neon-border mt-4">
                 <div className="flex items-center justify-center space-x-2 mb-4">
                   <Network className="w-6 h-6 text-[#00ffff]" />
-                  <h3 className="text-[#00ffff] font-bold text-base font-orbitron text-glow-cyan">МАКСИМАЛЬНАЯ СТАБИЛЬНОСТЬ</h3>
+                  <h3 className="text-[#00ffff] font-bold text-base font-orbitron text-glow-cyan">{t('app.connecting.stability')}</h3>
                 </div>
                 <div className="space-y-2 text-xs font-mono text-left font-jetbrains">
-                  <div className="flex items-start space-x-2">
-                    <CheckCircle className="w-4 h-4 text-[#00ff41] mt-0.5 flex-shrink-0" />
-                    <p className="text-[#00ff41]/90">
-                      <span className="text-[#00ffff] font-bold">Таймаут:</span> 120 секунд (максимально рекомендуемый)
-                    </p>
-                  </div>
-                  <div className="flex items-start space-x-2">
-                    <CheckCircle className="w-4 h-4 text-[#00ff41] mt-0.5 flex-shrink-0" />
-                    <p className="text-[#00ff41]/90">
-                      <span className="text-[#00ffff] font-bold">Попытки повтора:</span> 25 попыток с экспоненциальной задержкой (1с → 45с)
-                    </p>
-                  </div>
-                  <div className="flex items-start space-x-2">
-                    <CheckCircle className="w-4 h-4 text-[#00ff41] mt-0.5 flex-shrink-0" />
-                    <p className="text-[#00ff41]/90">
-                      <span className="text-[#00ffff] font-bold">Основной шлюз:</span> https://ic0.app (официальный DFINITY)
-                    </p>
-                  </div>
-                  <div className="flex items-start space-x-2">
-                    <CheckCircle className="w-4 h-4 text-[#00ff41] mt-0.5 flex-shrink-0" />
-                    <p className="text-[#00ff41]/90">
-                      <span className="text-[#00ffff] font-bold">Резервные шлюзы:</span> boundary.ic0.app, icp-api.io (автоматическое переключение)
-                    </p>
-                  </div>
-                  <div className="flex items-start space-x-2">
-                    <CheckCircle className="w-4 h-4 text-[#00ff41] mt-0.5 flex-shrink-0" />
-                    <p className="text-[#00ff41]/90">
-                      <span className="text-[#00ffff] font-bold">Опрос данных:</span> 25 попыток с 4 проверками работоспособности
-                    </p>
-                  </div>
-                  <div className="flex items-start space-x-2">
-                    <CheckCircle className="w-4 h-4 text-[#00ff41] mt-0.5 flex-shrink-0" />
-                    <p className="text-[#00ff41]/90">
-                      <span className="text-[#00ffff] font-bold">Синхронизация:</span> Полная синхронизация конфигурации фронтенда/бэкенда
-                    </p>
-                  </div>
+                  {CONNECTION_FEATURES.map(([labelKey, valueKey]) => (
+                    <div key={labelKey} className="flex items-start space-x-2">
+                      <CheckCircle className="w-4 h-4 text-[#00ff41] mt-0.5 flex-shrink-0" />
+                      <p className="text-[#00ff41]/90">
+                        <span className="text-[#00ffff] font-bold">{t(labelKey)}</span> {t(valueKey)}
+                      </p>
+                    </div>
+                  ))}
                 </div>
               </div>
 
               <div className="glassmorphism p-4 rounded border border-[#9933ff]/30 mt-4">
                 <p className="text-[#9933ff]/90 text-xs leading-relaxed font-jetbrains">
-                  Установка стабильного соединения с автоматическим переключением шлюзов и комплексными проверками подключения ко всем пяти канистрам...
+                  {t('app.connecting.details')}
                 </p>
               </div>
             </div>
@@ -137,47 +128,47 @@ export default function App() {
               <AlertTriangle className="w-12 h-12 text-red-500 flex-shrink-0 drop-shadow-[0_0_10px_rgba(239,68,68,0.8)]" />
               <div className="flex-1">
                 <h2 className="text-2xl font-bold text-red-500 mb-4 tracking-wider font-orbitron">
-                  ОШИБКА ПОДКЛЮЧЕНИЯ
+                  {t('app.error.title')}
                 </h2>
                 <p className="text-red-300 mb-4 leading-relaxed font-jetbrains">
-                  Не удалось установить стабильное соединение с сетью Internet Computer после множественных попыток повтора с таймаутом 120 секунд, экспоненциальной задержкой (25 попыток) и автоматическим переключением шлюзов.
+                  {t('app.error.description')}
                 </p>
                 
                 <div className="glassmorphism border border-red-500/30 rounded p-4 mb-4">
                   <p className="text-red-300 text-xs font-mono break-all font-jetbrains">
-                    <strong>Детали ошибки:</strong> {String(actorError)}
+                    <strong>{t('app.error.details')}</strong> {String(actorError)}
                   </p>
                 </div>
 
                 <div className="space-y-3 mb-6">
-                  <h3 className="text-red-100 font-bold text-sm font-orbitron">ШАГИ ПО УСТРАНЕНИЮ НЕПОЛАДОК:</h3>
+                  <h3 className="text-red-100 font-bold text-sm font-orbitron">{t('app.error.troubleshooting')}</h3>
                   <ul className="list-disc list-inside space-y-2 text-red-200 text-sm font-jetbrains">
-                    <li>Проверьте стабильность вашего интернет-соединения</li>
-                    <li>Убедитесь, что VITE_DFX_NETWORK установлен на "ic" в файле .env</li>
-                    <li>Подтвердите правильность настройки всех ID канистр:
+                    <li>{t('app.error.checkConnection')}</li>
+                    <li>{t('app.error.checkNetwork')}</li>
+                    <li>{t('app.error.checkCanisterIds')}
                       <ul className="list-circle list-inside ml-6 mt-1 space-y-1 text-xs">
-                        <li>VITE_LAND_CANISTER_ID (br5f7-7uaaa-aaaaa-qaaca-cai)</li>
-                        <li>VITE_ASSET_CANISTER_ID (bd3sg-teaaa-aaaaa-qaaba-cai)</li>
-                        <li>VITE_CYBER_TOKEN_CANISTER_ID (w4q3i-7yaaa-aaaam-ab3oq-cai)</li>
-                        <li>VITE_MARKETPLACE_CANISTER_ID (be2us-64aaa-aaaaa-qaabq-cai)</li>
-                        <li>VITE_GOVERNANCE_CANISTER_ID (bkyz2-fmaaa-aaaaa-qaaaq-cai)</li>
+                        {CANISTER_NAMES.map((name) => (
+                          <li key={name}>
+                            {getCanisterEnvVar(name)} ({canisterRegistry?.canisters[name] ?? t('app.error.notSet')})
+                          </li>
+                        ))}
                       </ul>
                     </li>
-                    <li>Убедитесь, что канистры развернуты и работают в основной сети IC</li>
-                    <li>Попробуйте очистить кэш браузера и перезагрузить страницу</li>
-                    <li>Проверьте доступность шлюзов: ic0.app, boundary.ic0.app, icp-api.io</li>
+                    <li>{t('app.error.checkDeployed')}</li>
+                    <li>{t('app.error.clearCache')}</li>
+                    <li>{t('app.error.checkGateways')}</li>
                   </ul>
                 </div>
 
                 <div className="glassmorphism p-4 rounded border border-red-500/30 mb-4">
-                  <h3 className="text-red-100 font-bold mb-2 text-sm font-orbitron">КОНФИГУРАЦИЯ СЕТИ:</h3>
+                  <h3 className="text-red-100 font-bold mb-2 text-sm font-orbitron">{t('app.error.networkConfig')}</h3>
                   <div className="space-y-1 text-xs font-mono font-jetbrains">
-                    <p className="text-red-200">Сеть: <span className="text-[#00ffff]">{import.meta.env.VITE_DFX_NETWORK || 'НЕ УСТАНОВЛЕНО'}</span></p>
-                    <p className="text-red-200">Основной шлюз: <span className="text-[#00ffff]">https://ic0.app (официальный DFINITY)</span></p>
-                    <p className="text-red-200">Резервные шлюзы: <span className="text-[#00ffff]">boundary.ic0.app, icp-api.io</span></p>
-                    <p className="text-red-200">Таймаут: <span className="text-[#00ffff]">120 секунд</span></p>
-                    <p className="text-red-200">Логика повтора: <span className="text-[#00ffff]">25 попыток с экспоненциальной задержкой</span></p>
-                    <p className="text-red-200">Опрос данных: <span className="text-[#00ffff]">25 попыток с 4 проверками работоспособности</span></p>
+                    <p className="text-red-200">{t('app.error.network')} <span className="text-[#00ffff]">{canisterRegistry?.profile ?? import.meta.env.VITE_DFX_NETWORK ?? t('app.error.notSet')}</span></p>
+                    <p className="text-red-200">{t('app.connecting.primaryGatewayLabel')} <span className="text-[#00ffff]">{t('app.connecting.primaryGatewayValue')}</span></p>
+                    <p className="text-red-200">{t('app.connecting.fallbackGatewaysLabel')} <span className="text-[#00ffff]">boundary.ic0.app, icp-api.io</span></p>
+                    <p className="text-red-200">{t('app.connecting.timeoutLabel')} <span className="text-[#00ffff]">{t('app.error.timeoutValue')}</span></p>
+                    <p className="text-red-200">{t('app.error.retryLogic')} <span className="text-[#00ffff]">{t('app.error.retryLogicValue')}</span></p>
+                    <p className="text-red-200">{t('app.connecting.pollingLabel')} <span className="text-[#00ffff]">{t('app.connecting.pollingValue')}</span></p>
                   </div>
                 </div>
 
@@ -186,7 +177,7 @@ export default function App() {
                   className="w-full px-6 py-3 btn-gradient-cyan text-black font-bold rounded-lg font-orbitron flex items-center justify-center space-x-2"
                 >
                   <RefreshCw className="w-5 h-5" />
-                  <span>Повторить подключение</span>
+                  <span>{t('app.error.retry')}</span>
                 </button>
               </div>
             </div>
@@ -202,6 +193,8 @@ export default function App() {
         <CosmicBackground />
         <ParticleBackground />
         <ConfigValidator />
+        <SimulationControls />
+        <LanguageSwitcher />
         <LandingPage />
       </>
     );
@@ -212,8 +205,79 @@ export default function App() {
       <CosmicBackground />
       <ParticleBackground />
       <ConfigValidator />
+      <SimulationControls />
+      <LanguageSwitcher />
       {showProfileSetup && <ProfileSetup />}
       {!showProfileSetup && <Dashboard />}
     </>
   );
 }
+
+interface MarketSearch {
+  type?: 'land' | 'modifier';
+  tier?: number;
+  min?: number;
+  max?: number;
+}
+
+function parseSearchNumber(value: unknown): number | undefined {
+  const parsed = typeof value === 'number' ? value : typeof value === 'string' ? parseFloat(value) : NaN;
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+// Dashboard tabs are URL-driven; each route only tells the Dashboard which tab is active.
+const rootRoute = createRootRoute({ component: AppShell });
+
+const indexRoute = createRoute({ getParentRoute: () => rootRoute, path: '/', staticData: { tab: 'land' } });
+const landRoute = createRoute({ getParentRoute: () => rootRoute, path: '/land/$landId', staticData: { tab: 'land' } });
+const discoveryRoute = createRoute({ getParentRoute: () => rootRoute, path: '/discovery', staticData: { tab: 'discovery' } });
+const collectionRoute = createRoute({ getParentRoute: () => rootRoute, path: '/collection', staticData: { tab: 'collection' } });
+const leaderboardRoute = createRoute({ getParentRoute: () => rootRoute, path: '/leaderboard', staticData: { tab: 'leaderboard' } });
+const marketRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/market',
+  validateSearch: (search: Record<string, unknown>): MarketSearch => {
+    const tier = parseSearchNumber(search.tier);
+    return {
+      type: search.type === 'land' || search.type === 'modifier' ? search.type : undefined,
+      tier: tier !== undefined && Number.isInteger(tier) && tier >= 1 && tier <= 4 ? tier : undefined,
+      min: parseSearchNumber(search.min),
+      max: parseSearchNumber(search.max),
+    };
+  },
+  staticData: { tab: 'marketplace' },
+});
+const governanceRoute = createRoute({ getParentRoute: () => rootRoute, path: '/governance', staticData: { tab: 'governance' } });
+const proposalRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/governance/proposal/$proposalId',
+  staticData: { tab: 'governance' },
+});
+const mapRoute = createRoute({ getParentRoute: () => rootRoute, path: '/map', staticData: { tab: 'map' } });
+
+const routeTree = rootRoute.addChildren([
+  indexRoute,
+  landRoute,
+  discoveryRoute,
+  collectionRoute,
+  leaderboardRoute,
+  marketRoute,
+  governanceRoute,
+  proposalRoute,
+  mapRoute,
+]);
+
+const router = createRouter({ routeTree });
+
+declare module '@tanstack/react-router' {
+  interface Register {
+    router: typeof router;
+  }
+  interface StaticDataRouteOption {
+    tab?: TabType;
+  }
+}
+
+export default function App() {
+  return <RouterProvider router={router} />;
+}
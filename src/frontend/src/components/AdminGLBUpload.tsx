@@ -5,8 +5,12 @@ import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Upload, FileUp, CheckCircle, XCircle, AlertCircle, ExternalLink, Loader2, RefreshCw, AlertTriangle, Shield } from 'lucide-react';
+import { useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
+import { formatNumber, t } from '@/i18n';
 import { useAssetActor } from '../hooks/useAssetActor';
+import { loadCanisterRegistry } from '../config';
+import { getCanisterHttpUrl } from '../config/canisters';
 import { useInternetIdentity } from '../hooks/useInternetIdentity';
 
 interface UploadedFile {
@@ -35,6 +39,7 @@ const VALID_LAND_TYPES = [
 export default function AdminGLBUpload() {
   const { actor, isFetching, error: actorError, isReady, envValidation } = useAssetActor();
   const { identity } = useInternetIdentity();
+  const queryClient = useQueryClient();
   const [files, setFiles] = useState<UploadedFile[]>([]);
   const [isDragging, setIsDragging] = useState(false);
   const [isAuthorized, setIsAuthorized] = useState<boolean | null>(null);
@@ -47,7 +52,7 @@ export default function AdminGLBUpload() {
     setIsCheckingHealth(true);
     try {
       const cacheBuster = Date.now();
-      const healthUrl = `https://bd3sg-teaaa-aaaaa-qaaba-cai.raw.ic0.app/health-fast?_=${cacheBuster}`;
+      const healthUrl = getCanisterHttpUrl(await loadCanisterRegistry(), 'asset', `/health-fast?_=${cacheBuster}`, true);
       
       console.log('[AdminGLBUpload] Checking Asset Canister health:', healthUrl);
       
@@ -71,21 +76,21 @@ export default function AdminGLBUpload() {
         const healthText = await healthResponse.text();
         console.log('[AdminGLBUpload] Asset Canister health check passed:', healthText);
         setIsAssetCanisterHealthy(true);
-        toast.success('Asset Canister доступен', {
-          description: 'Загрузка разблокирована',
+        toast.success(t('glbUpload.toast.available'), {
+          description: t('glbUpload.toast.availableDescription'),
         });
       } else {
         console.log('[AdminGLBUpload] Asset Canister health check failed:', healthResponse.status);
         setIsAssetCanisterHealthy(false);
-        toast.error('Asset Canister недоступен', {
-          description: 'Загрузка заблокирована',
+        toast.error(t('glbUpload.toast.unavailable'), {
+          description: t('glbUpload.toast.unavailableDescription'),
         });
       }
     } catch (error) {
       console.error('[AdminGLBUpload] Asset Canister health check error:', error);
       setIsAssetCanisterHealthy(false);
-      toast.error('Ошибка проверки Asset Canister', {
-        description: 'Не удалось проверить статус',
+      toast.error(t('glbUpload.toast.healthCheckFailed'), {
+        description: t('glbUpload.toast.healthCheckFailedDescription'),
       });
     } finally {
       setIsCheckingHealth(false);
@@ -145,23 +150,23 @@ export default function AdminGLBUpload() {
     if (!selectedFiles || selectedFiles.length === 0) return;
 
     if (!actor || !isReady) {
-      toast.error('Actor не готов', {
-        description: 'Пожалуйста, подождите завершения инициализации AssetCanister',
+      toast.error(t('glbUpload.toast.actorNotReady'), {
+        description: t('glbUpload.toast.actorNotReadyDescription'),
       });
       return;
     }
 
     if (isAuthorized === false) {
-      toast.error('Неавторизован', {
-        description: `Только Internet Identity principal ${AUTHORIZED_ADMIN_PRINCIPAL} может загружать GLB модели`,
+      toast.error(t('glbUpload.toast.unauthorized'), {
+        description: t('glbUpload.toast.unauthorizedDescription', { principal: AUTHORIZED_ADMIN_PRINCIPAL }),
       });
       return;
     }
 
     // Check Asset Canister health before upload
     if (!isAssetCanisterHealthy) {
-      toast.error('Asset Canister недоступен', {
-        description: 'Пожалуйста, проверьте статус Asset Canister перед загрузкой',
+      toast.error(t('glbUpload.toast.unavailable'), {
+        description: t('glbUpload.toast.checkBeforeUpload'),
       });
       await checkAssetCanisterHealth();
       return;
@@ -174,8 +179,8 @@ export default function AdminGLBUpload() {
       
       // Validate file type
       if (!file.name.toLowerCase().endsWith('.glb')) {
-        toast.error('Неверный тип файла', {
-          description: `${file.name} не является .glb файлом`,
+        toast.error(t('glbUpload.toast.invalidType'), {
+          description: t('glbUpload.toast.invalidTypeDescription', { name: file.name }),
         });
         continue;
       }
@@ -183,8 +188,8 @@ export default function AdminGLBUpload() {
       // Validate filename matches a valid land type
       const landTypeName = extractLandTypeName(file.name);
       if (!landTypeName) {
-        toast.error('Неверное имя файла', {
-          description: `${file.name} должен быть назван как один из типов земли: ${VALID_LAND_TYPES.join(', ')}`,
+        toast.error(t('glbUpload.toast.invalidName'), {
+          description: t('glbUpload.toast.invalidNameDescription', { name: file.name, types: VALID_LAND_TYPES.join(', ') }),
         });
         continue;
       }
@@ -192,8 +197,8 @@ export default function AdminGLBUpload() {
       // Validate file size (max 50MB to match backend validation)
       const maxSize = 50 * 1024 * 1024; // 50MB
       if (file.size > maxSize) {
-        toast.error('Файл слишком большой', {
-          description: `${file.name} превышает лимит в 50МБ`,
+        toast.error(t('glbUpload.toast.tooLarge'), {
+          description: t('glbUpload.toast.tooLargeDescription', { name: file.name }),
         });
         continue;
       }
@@ -220,8 +225,8 @@ export default function AdminGLBUpload() {
 
   const uploadFile = async (file: File, index: number) => {
     if (!actor) {
-      const errorMsg = 'Asset Actor не инициализирован';
-      console.error(`[Загрузка GLB] ${errorMsg}`);
+      const errorMsg = t('glbUpload.error.actorNotInitialized');
+      console.error('[AdminGLBUpload] Asset actor not initialized');
       
       setFiles(prev => prev.map((f, i) => 
         i === index 
@@ -229,8 +234,8 @@ export default function AdminGLBUpload() {
           : f
       ));
       
-      toast.error('Ошибка инициализации', {
-        description: 'Asset Actor не готов. Пожалуйста, обновите страницу.',
+      toast.error(t('glbUpload.toast.initFailed'), {
+        description: t('glbUpload.toast.initFailedDescription'),
       });
       return;
     }
@@ -239,8 +244,8 @@ export default function AdminGLBUpload() {
     await checkAssetCanisterHealth();
     
     if (!isAssetCanisterHealthy) {
-      const errorMsg = 'Asset Canister недоступен';
-      console.error(`[Загрузка GLB] ${errorMsg}`);
+      const errorMsg = t('glbUpload.toast.unavailable');
+      console.error('[AdminGLBUpload] Asset Canister unavailable');
       
       setFiles(prev => prev.map((f, i) => 
         i === index 
@@ -248,8 +253,8 @@ export default function AdminGLBUpload() {
           : f
       ));
       
-      toast.error('Ошибка загрузки', {
-        description: 'Asset Canister недоступен. Проверьте статус.',
+      toast.error(t('glbUpload.toast.uploadFailed'), {
+        description: t('glbUpload.toast.uploadBlockedDescription'),
       });
       return;
     }
@@ -260,7 +265,7 @@ export default function AdminGLBUpload() {
       // Extract land type name from filename
       const landTypeName = extractLandTypeName(file.name);
       if (!landTypeName) {
-        throw new Error(`Неверное имя файла: ${file.name}. Должно соответствовать типу земли.`);
+        throw new Error(t('glbUpload.error.invalidName', { name: file.name }));
       }
 
       // Update status to uploading
@@ -268,13 +273,13 @@ export default function AdminGLBUpload() {
         i === index ? { ...f, status: 'uploading' as const, progress: 10 } : f
       ));
 
-      console.log(`[Загрузка GLB] Начало загрузки для ${file.name} (${file.size} байт) как тип земли: ${landTypeName}`);
+      console.log(`[AdminGLBUpload] Uploading ${file.name} (${file.size} bytes) as land type ${landTypeName}`);
 
       // Read file as ArrayBuffer
       const arrayBuffer = await file.arrayBuffer();
       const uint8Array = new Uint8Array(arrayBuffer);
 
-      console.log(`[Загрузка GLB] Файл прочитан, размер: ${uint8Array.length} байт`);
+      console.log(`[AdminGLBUpload] File read: ${uint8Array.length} bytes`);
 
       // Simulate progress updates
       progressInterval = setInterval(() => {
@@ -286,7 +291,7 @@ export default function AdminGLBUpload() {
       }, 200);
 
       // Upload to AssetCanister using uploadLandModel (admin-only method)
-      console.log(`[Загрузка GLB] Вызов uploadLandModel для ${landTypeName}...`);
+      console.log(`[AdminGLBUpload] Calling uploadLandModel for ${landTypeName}...`);
       
       const stableUrl = await actor.uploadLandModel(landTypeName, uint8Array);
 
@@ -295,8 +300,7 @@ export default function AdminGLBUpload() {
         progressInterval = null;
       }
 
-      console.log(`[Загрузка GLB] ✓ uploadLandModel успешно завершен для ${landTypeName}`);
-      console.log(`[Загрузка GLB] ✓ Стабильный URL: ${stableUrl}`);
+      console.log(`[AdminGLBUpload] ✓ uploadLandModel finished for ${landTypeName}: ${stableUrl}`);
 
       // Update status to success with the returned stable URL
       setFiles(prev => prev.map((f, i) => 
@@ -305,10 +309,11 @@ export default function AdminGLBUpload() {
           : f
       ));
 
-      console.log(`[Загрузка GLB] ✓ Загрузка успешна: ${stableUrl}`);
+      // listGLBModels now returns the URL with the new upload time
+      queryClient.invalidateQueries({ queryKey: ['assetModels'] });
       
-      toast.success('✅ Загружено', {
-        description: `${file.name} успешно загружен как ${landTypeName}`,
+      toast.success(t('glbUpload.toast.uploaded'), {
+        description: t('glbUpload.toast.uploadedDescription', { name: file.name, landType: landTypeName }),
       });
 
     } catch (error) {
@@ -316,22 +321,22 @@ export default function AdminGLBUpload() {
         clearInterval(progressInterval);
       }
 
-      console.error(`[Загрузка GLB] ✗ Ошибка загрузки для ${file.name}:`, error);
+      console.error(`[AdminGLBUpload] ✗ Upload failed for ${file.name}:`, error);
       
-      let errorMessage = 'Неизвестная ошибка';
+      let errorMessage = t('common.unknownError');
       
       if (error instanceof Error) {
         errorMessage = error.message;
         
         // Parse common error messages
         if (errorMessage.includes('Unauthorized') || errorMessage.includes('authorized admin')) {
-          errorMessage = `Неавторизован: Только Internet Identity principal ${AUTHORIZED_ADMIN_PRINCIPAL} может загружать GLB модели`;
+          errorMessage = t('glbUpload.toast.unauthorizedDescription', { principal: AUTHORIZED_ADMIN_PRINCIPAL });
         } else if (errorMessage.includes('Invalid land type')) {
-          errorMessage = `Неверный тип земли. Допустимые типы: ${VALID_LAND_TYPES.join(', ')}`;
+          errorMessage = t('glbUpload.error.invalidLandType', { types: VALID_LAND_TYPES.join(', ') });
         } else if (errorMessage.includes('Invalid file data')) {
-          errorMessage = 'Файл не может быть пустым.';
+          errorMessage = t('glbUpload.error.emptyFile');
         } else if (errorMessage.includes('File size exceeds 50 MB limit')) {
-          errorMessage = 'Файл слишком большой: Максимальный размер 50МБ';
+          errorMessage = t('glbUpload.error.tooLarge');
         }
       }
       
@@ -341,7 +346,7 @@ export default function AdminGLBUpload() {
           : f
       ));
 
-      toast.error('Ошибка загрузки', {
+      toast.error(t('glbUpload.toast.uploadFailed'), {
         description: `${file.name}: ${errorMessage}`,
         duration: 5000,
       });
@@ -369,9 +374,10 @@ export default function AdminGLBUpload() {
   };
 
   const formatFileSize = (bytes: number): string => {
-    if (bytes < 1024) return `${bytes} Б`;
-    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(2)} КБ`;
-    return `${(bytes / (1024 * 1024)).toFixed(2)} МБ`;
+    const unit = { style: 'unit', unitDisplay: 'short', maximumFractionDigits: 2 } as const;
+    if (bytes < 1024) return formatNumber(bytes, { ...unit, unit: 'byte' });
+    if (bytes < 1024 * 1024) return formatNumber(bytes / 1024, { ...unit, unit: 'kilobyte' });
+    return formatNumber(bytes / (1024 * 1024), { ...unit, unit: 'megabyte' });
   };
 
   const getStatusIcon = (status: UploadedFile['status']) => {
@@ -390,13 +396,13 @@ export default function AdminGLBUpload() {
   const getStatusBadge = (status: UploadedFile['status']) => {
     switch (status) {
       case 'pending':
-        return <Badge variant="outline" className="font-jetbrains text-yellow-400">Ожидание</Badge>;
+        return <Badge variant="outline" className="font-jetbrains text-yellow-400">{t('glbUpload.status.pending')}</Badge>;
       case 'uploading':
-        return <Badge variant="default" className="font-jetbrains bg-primary">Загрузка</Badge>;
+        return <Badge variant="default" className="font-jetbrains bg-primary">{t('glbUpload.status.uploading')}</Badge>;
       case 'success':
-        return <Badge variant="default" className="font-jetbrains bg-green-600">✅ Загружено</Badge>;
+        return <Badge variant="default" className="font-jetbrains bg-green-600">{t('glbUpload.toast.uploaded')}</Badge>;
       case 'error':
-        return <Badge variant="destructive" className="font-jetbrains">Ошибка</Badge>;
+        return <Badge variant="destructive" className="font-jetbrains">{t('glbUpload.status.error')}</Badge>;
     }
   };
 
@@ -417,7 +423,7 @@ export default function AdminGLBUpload() {
             <div className="text-center space-y-4">
               <Loader2 className="h-12 w-12 text-primary animate-spin mx-auto" />
               <p className="font-jetbrains text-muted-foreground">
-                Инициализация AssetCanister...
+                {t('glbUpload.initializing')}
               </p>
             </div>
           </div>
@@ -437,10 +443,10 @@ export default function AdminGLBUpload() {
             {showEnvErrors ? (
               <Alert variant="destructive">
                 <AlertTriangle className="h-4 w-4" />
-                <AlertTitle className="font-orbitron">Ошибка конфигурации</AlertTitle>
+                <AlertTitle className="font-orbitron">{t('glbUpload.configError')}</AlertTitle>
                 <AlertDescription className="space-y-2">
                   <p className="font-jetbrains text-sm">
-                    Отсутствующие или неверные переменные окружения:
+                    {t('glbUpload.envErrors')}
                   </p>
                   <ul className="font-jetbrains text-xs space-y-1 list-disc list-inside">
                     {envValidation.errors.map((err, idx) => (
@@ -452,9 +458,9 @@ export default function AdminGLBUpload() {
             ) : (
               <Alert variant="destructive">
                 <AlertTriangle className="h-4 w-4" />
-                <AlertTitle className="font-orbitron">Ошибка подключения</AlertTitle>
+                <AlertTitle className="font-orbitron">{t('glbUpload.connectionError')}</AlertTitle>
                 <AlertDescription className="font-jetbrains text-sm">
-                  {actorError || 'Не удалось инициализировать Asset Canister actor'}
+                  {actorError || t('glbUpload.actorInitFailed')}
                 </AlertDescription>
               </Alert>
             )}
@@ -466,21 +472,21 @@ export default function AdminGLBUpload() {
 
   // Authorization check
   if (isAuthorized === false) {
-    const currentPrincipal = identity?.getPrincipal().toString() || 'неизвестно';
+    const currentPrincipal = identity?.getPrincipal().toString() || t('glbUpload.unknownPrincipal');
     
     return (
       <Card className="glassmorphism border-destructive/30">
         <CardContent className="py-6">
           <Alert variant="destructive">
             <Shield className="h-4 w-4" />
-            <AlertTitle className="font-orbitron">Неавторизованный доступ</AlertTitle>
+            <AlertTitle className="font-orbitron">{t('glbUpload.unauthorizedTitle')}</AlertTitle>
             <AlertDescription className="space-y-3">
               <p className="font-jetbrains text-sm">
-                Только principal <strong>{AUTHORIZED_ADMIN_PRINCIPAL}</strong> может загружать GLB модели.
+                {t('glbUpload.toast.unauthorizedDescription', { principal: AUTHORIZED_ADMIN_PRINCIPAL })}
               </p>
               <div className="glassmorphism p-3 rounded-lg border border-muted/20 mt-2">
                 <p className="font-jetbrains text-xs text-muted-foreground">
-                  <strong>Ваш Principal:</strong>
+                  <strong>{t('glbUpload.yourPrincipal')}</strong>
                 </p>
                 <code className="font-jetbrains text-xs bg-muted px-2 py-1 rounded block mt-1 break-all">
                   {currentPrincipal}
@@ -504,9 +510,9 @@ export default function AdminGLBUpload() {
             <div className="glassmorphism p-3 rounded-lg border border-green-500/30 flex items-center gap-3">
               <Shield className="h-5 w-5 text-green-500" />
               <div>
-                <p className="font-orbitron text-sm font-bold text-green-500">АВТОРИЗОВАН</p>
+                <p className="font-orbitron text-sm font-bold text-green-500">{t('glbUpload.authorized')}</p>
                 <p className="font-jetbrains text-xs text-muted-foreground">
-                  Principal подтвержден
+                  {t('glbUpload.principalConfirmed')}
                 </p>
               </div>
             </div>
@@ -528,7 +534,7 @@ export default function AdminGLBUpload() {
                 Asset Canister: {isAssetCanisterHealthy ? 'HEALTHY' : 'ERROR'}
               </p>
               <p className="font-jetbrains text-xs text-muted-foreground">
-                {isAssetCanisterHealthy ? 'Загрузка разблокирована' : 'Загрузка заблокирована'}
+                {isAssetCanisterHealthy ? t('glbUpload.toast.availableDescription') : t('glbUpload.toast.unavailableDescription')}
               </p>
             </div>
             <Button
@@ -550,7 +556,7 @@ export default function AdminGLBUpload() {
         {/* Valid Land Types Info */}
         <div className="glassmorphism p-4 rounded-lg border border-primary/20">
           <p className="font-orbitron text-sm font-bold text-primary mb-2">
-            Допустимые типы земли:
+            {t('glbUpload.validTypes')}
           </p>
           <div className="grid grid-cols-2 gap-2">
             {VALID_LAND_TYPES.map(type => (
@@ -590,16 +596,13 @@ export default function AdminGLBUpload() {
             <FileUp className={`h-16 w-16 ${isDragging ? 'text-primary animate-bounce' : 'text-muted-foreground'}`} />
             <div>
               <p className="font-orbitron text-lg font-bold text-primary mb-2">
-                {isDragging ? 'Перетащите файлы сюда' : 'Загрузить GLB модели'}
+                {isDragging ? t('glbUpload.dropHere') : t('glbUpload.uploadModels')}
               </p>
               <p className="font-jetbrains text-sm text-muted-foreground">
-                {isAssetCanisterHealthy 
-                  ? 'Перетащите .glb файлы или нажмите для выбора' 
-                  : 'Проверьте статус Asset Canister для разблокировки загрузки'
-                }
+                {isAssetCanisterHealthy ? t('glbUpload.dropHint') : t('glbUpload.blockedHint')}
               </p>
               <p className="font-jetbrains text-xs text-muted-foreground mt-2">
-                Максимальный размер файла: 50МБ
+                {t('glbUpload.maxSize')}
               </p>
             </div>
             {isAssetCanisterHealthy && (
@@ -613,7 +616,7 @@ export default function AdminGLBUpload() {
                 }}
               >
                 <FileUp className="mr-2 h-4 w-4" />
-                Выбрать файлы
+                {t('glbUpload.chooseFiles')}
               </Button>
             )}
           </div>
@@ -624,7 +627,7 @@ export default function AdminGLBUpload() {
           <div className="space-y-4">
             <div className="flex items-center justify-between">
               <p className="font-orbitron text-sm text-muted-foreground">
-                Загруженные файлы ({files.length})
+                {t('glbUpload.fileCount', { count: files.length })}
               </p>
               <div className="flex gap-2">
                 <Button
@@ -634,7 +637,7 @@ export default function AdminGLBUpload() {
                   className="font-jetbrains text-xs"
                   disabled={!files.some(f => f.status === 'success')}
                 >
-                  Очистить завершенные
+                  {t('glbUpload.clearCompleted')}
                 </Button>
                 <Button
                   onClick={clearAll}
@@ -642,7 +645,7 @@ export default function AdminGLBUpload() {
                   variant="outline"
                   className="font-jetbrains text-xs"
                 >
-                  Очистить все
+                  {t('glbUpload.clearAll')}
                 </Button>
               </div>
             </div>
@@ -665,14 +668,14 @@ export default function AdminGLBUpload() {
                       </div>
                       
                       <p className="font-jetbrains text-xs text-muted-foreground mb-2">
-                        Размер: {formatFileSize(file.size)}
+                        {t('glbUpload.fileSize', { size: formatFileSize(file.size) })}
                       </p>
 
                       {file.status === 'uploading' && (
                         <div className="space-y-1">
                           <Progress value={file.progress} className="h-2" />
                           <p className="font-jetbrains text-xs text-muted-foreground">
-                            {file.progress}% загружено
+                            {t('glbUpload.progress', { progress: file.progress })}
                           </p>
                         </div>
                       )}
@@ -693,7 +696,7 @@ export default function AdminGLBUpload() {
 
                       {file.status === 'error' && file.error && (
                         <p className="font-jetbrains text-xs text-destructive mt-2">
-                          Ошибка: {file.error}
+                          {t('glbUpload.fileError', { message: file.error })}
                         </p>
                       )}
                     </div>
@@ -1,10 +1,14 @@
 import React, { useState, useEffect } from 'react';
 import { Upload, ChevronDown, ChevronUp } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { loadCanisterRegistry } from '../config';
+import { getCanisterHttpUrl } from '../config/canisters';
+import { useCanisterRegistry } from '../hooks/useCanisterRegistry';
 
 type HealthStatus = 'CHECKING' | 'HEALTHY' | 'ERROR';
 
 export default function AdminPanel() {
+  const { data: registry } = useCanisterRegistry();
   const [isExpanded, setIsExpanded] = useState(false);
   const [healthStatus, setHealthStatus] = useState<HealthStatus>('CHECKING');
   const [selectedLandType, setSelectedLandType] = useState('FOREST_VALLEY');
@@ -28,7 +32,7 @@ export default function AdminPanel() {
     try {
       console.log('🔍 Starting Asset Canister health check...');
       const cacheBuster = Date.now();
-      const url = `https://bd3sg-teaaa-aaaaa-qaaba-cai.ic0.app/health?_=${cacheBuster}`;
+      const url = getCanisterHttpUrl(await loadCanisterRegistry(), 'asset', `/health?_=${cacheBuster}`);
       console.log('📡 Request URL:', url);
 
       const response = await fetch(url, {
@@ -275,7 +279,7 @@ export default function AdminPanel() {
 
         {/* Footer - Canister ID */}
         <div className="px-4 py-2 border-t border-cyan-500/30 text-xs text-gray-500 font-mono text-center">
-          bd3sg-teaaa-aaaaa-qaaba-cai
+          {registry?.canisters.asset}
         </div>
       </div>
     </div>
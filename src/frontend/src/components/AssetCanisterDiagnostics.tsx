@@ -4,9 +4,12 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { Loader2, RefreshCw, CheckCircle2, XCircle, AlertTriangle, Activity, Terminal, Zap } from 'lucide-react';
 import { toast } from 'sonner';
+import { t } from '@/i18n';
 import { useAssetActor } from '@/hooks/useAssetActor';
 import { useActor } from '@/hooks/useActor';
 import { useQueryClient } from '@tanstack/react-query';
+import { loadCanisterRegistry } from '../config';
+import { useCanisterRegistry } from '../hooks/useCanisterRegistry';
 
 interface DiagnosticTest {
   name: string;
@@ -21,11 +24,9 @@ interface CanisterLog {
   message: string;
 }
 
-const ASSET_CANISTER_ID = 'bd3sg-teaaa-aaaaa-qaaba-cai';
-const LAND_CANISTER_ID = 'br5f7-7uaaa-aaaaa-qaaca-cai';
-
 export default function AssetCanisterDiagnostics() {
   const queryClient = useQueryClient();
+  const { data: registry } = useCanisterRegistry();
   const { actor: assetActor, isFetching: assetFetching, connectionStatus } = useAssetActor();
   const { actor: landActor } = useActor();
   const [isRunning, setIsRunning] = useState(false);
@@ -82,7 +83,7 @@ export default function AssetCanisterDiagnostics() {
       if (!assetActor) {
         updateTest('Actor Initialization', 'failed', 'Actor not initialized', performance.now() - startTime1);
         addLog('error', '❌ Asset actor is not initialized. Connection status: ' + connectionStatus);
-        toast.error('Asset Canister actor not initialized');
+        toast.error(t('assetDiagnostics.toast.actorMissing'));
       } else {
         updateTest('Actor Initialization', 'passed', 'Actor successfully initialized', performance.now() - startTime1);
         addLog('info', '✅ Asset actor initialized successfully');
@@ -95,7 +96,8 @@ export default function AssetCanisterDiagnostics() {
       
       try {
         const cacheBuster = `v=force_refresh_${Date.now()}`;
-        const response = await fetch(`https://ic0.app/api/v2/canister/${ASSET_CANISTER_ID}/query?${cacheBuster}`, {
+        const { host, canisters } = await loadCanisterRegistry();
+        const response = await fetch(`${host}/api/v2/canister/${canisters.asset}/query?${cacheBuster}`, {
           method: 'POST',
           headers: { 
             'Content-Type': 'application/cbor',
@@ -268,14 +270,14 @@ export default function AssetCanisterDiagnostics() {
       const totalCount = diagnosticTests.length;
       
       if (passedCount === totalCount) {
-        toast.success(`✅ Asset Canister diagnostics completed - All ${totalCount} tests PASSED`);
+        toast.success(t('assetDiagnostics.toast.allPassed', { total: totalCount }));
       } else {
-        toast.warning(`⚠️ Asset Canister diagnostics completed - ${passedCount}/${totalCount} tests passed`);
+        toast.warning(t('assetDiagnostics.toast.somePassed', { passed: passedCount, total: totalCount }));
       }
 
     } catch (error: any) {
       addLog('error', '❌ Diagnostics failed: ' + error.message);
-      toast.error('Diagnostics failed: ' + error.message);
+      toast.error(t('assetDiagnostics.toast.failed', { message: error.message }));
     } finally {
       setIsRunning(false);
     }
@@ -347,7 +349,7 @@ export default function AssetCanisterDiagnostics() {
           <div className="grid grid-cols-3 gap-4">
             <div className="p-4 rounded-lg bg-black/30 border border-cyan-500/20">
               <div className="text-sm text-gray-400 mb-1">Canister ID</div>
-              <div className="text-xs font-mono text-cyan-400">{ASSET_CANISTER_ID}</div>
+              <div className="text-xs font-mono text-cyan-400">{registry?.canisters.asset}</div>
             </div>
             <div className="p-4 rounded-lg bg-black/30 border border-cyan-500/20">
               <div className="text-sm text-gray-400 mb-1">Connection Status</div>
@@ -4,6 +4,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { Loader2, RefreshCw, CheckCircle2, XCircle, AlertTriangle, Shield, Zap, Lock } from 'lucide-react';
 import { toast } from 'sonner';
+import { t } from '@/i18n';
 import { useAssetActor } from '@/hooks/useAssetActor';
 import { useActor } from '@/hooks/useActor';
 import { useInternetIdentity } from '@/hooks/useInternetIdentity';
@@ -61,19 +62,19 @@ export default function AssetCanisterReinitializer() {
 
   const runPreChecks = async () => {
     setPreCheckStatus('checking');
-    toast.info('Выполнение предварительных проверок...');
+    toast.info(t('assetReinit.toast.preChecksRunning'));
 
     try {
       // Check Asset Canister connectivity
       if (!assetActor) {
-        toast.error('Asset Canister недоступен');
+        toast.error(t('assetReinit.toast.assetUnavailable'));
         setPreCheckStatus('failed');
         return false;
       }
 
       // Check Land Canister connectivity
       if (!landActor) {
-        toast.error('Land Canister недоступен');
+        toast.error(t('assetReinit.toast.landUnavailable'));
         setPreCheckStatus('failed');
         return false;
       }
@@ -83,7 +84,7 @@ export default function AssetCanisterReinitializer() {
         await landActor.isCallerAdmin();
         console.log('[PreCheck] ✓ Land Canister operational');
       } catch (error) {
-        toast.error('Land Canister не отвечает');
+        toast.error(t('assetReinit.toast.landNotResponding'));
         setPreCheckStatus('failed');
         return false;
       }
@@ -97,11 +98,11 @@ export default function AssetCanisterReinitializer() {
       }
 
       setPreCheckStatus('ready');
-      toast.success('Предварительные проверки пройдены');
+      toast.success(t('assetReinit.toast.preChecksPassed'));
       return true;
     } catch (error: any) {
       console.error('[PreCheck] Failed:', error);
-      toast.error('Предварительные проверки не пройдены: ' + error.message);
+      toast.error(t('assetReinit.toast.preChecksFailed', { message: error.message }));
       setPreCheckStatus('failed');
       return false;
     }
@@ -109,7 +110,7 @@ export default function AssetCanisterReinitializer() {
 
   const runPostChecks = async () => {
     setPostCheckStatus('checking');
-    toast.info('Проверка состояния после реинициализации...');
+    toast.info(t('assetReinit.toast.postChecksRunning'));
 
     try {
       if (!assetActor || !landActor) {
@@ -146,14 +147,14 @@ export default function AssetCanisterReinitializer() {
 
       if (allPassed) {
         setPostCheckStatus('healthy');
-        toast.success('Asset Canister восстановлен и работает нормально', {
-          description: 'Все проверки работоспособности пройдены',
+        toast.success(t('assetReinit.toast.recovered'), {
+          description: t('assetReinit.toast.recoveredDescription'),
           duration: 5000,
         });
       } else {
         setPostCheckStatus('degraded');
-        toast.warning('Asset Canister частично восстановлен', {
-          description: 'Некоторые проверки не прошли',
+        toast.warning(t('assetReinit.toast.partiallyRecovered'), {
+          description: t('assetReinit.toast.partiallyRecoveredDescription'),
           duration: 5000,
         });
       }
@@ -162,7 +163,7 @@ export default function AssetCanisterReinitializer() {
     } catch (error: any) {
       console.error('[PostCheck] Failed:', error);
       setPostCheckStatus('degraded');
-      toast.error('Проверка после реинициализации не удалась: ' + error.message);
+      toast.error(t('assetReinit.toast.postChecksFailed', { message: error.message }));
       return false;
     }
   };
@@ -171,7 +172,7 @@ export default function AssetCanisterReinitializer() {
     // Run pre-checks first
     const preChecksPassed = await runPreChecks();
     if (!preChecksPassed) {
-      toast.error('Предварительные проверки не пройдены. Реинициализация отменена.');
+      toast.error(t('assetReinit.toast.aborted'));
       return;
     }
 
@@ -208,8 +209,8 @@ export default function AssetCanisterReinitializer() {
         await assetActor.initializeAccessControl();
         console.log('[Step 2/4] ✓ initializeAccessControl() completed successfully');
         updateStep('Вызов initializeAccessControl()', 'success', 'Контроль доступа реинициализирован');
-        toast.success('Asset Canister реинициализирован', {
-          description: 'Контроль доступа успешно восстановлен',
+        toast.success(t('assetReinit.toast.reinitialized'), {
+          description: t('assetReinit.toast.reinitializedDescription'),
           duration: 3000,
         });
       } catch (error: any) {
@@ -217,8 +218,8 @@ export default function AssetCanisterReinitializer() {
         if (error.message && error.message.includes('already initialized')) {
           console.log('[Step 2/4] ⚠ Access control already initialized (this is OK)');
           updateStep('Вызов initializeAccessControl()', 'success', 'Уже инициализирован');
-          toast.info('Asset Canister уже инициализирован', {
-            description: 'Контроль доступа уже настроен',
+          toast.info(t('assetReinit.toast.alreadyInitialized'), {
+            description: t('assetReinit.toast.alreadyInitializedDescription'),
             duration: 3000,
           });
         } else {
@@ -265,14 +266,14 @@ export default function AssetCanisterReinitializer() {
       // Run post-checks
       await runPostChecks();
 
-      toast.success('Реинициализация завершена успешно', {
-        description: 'Asset Canister восстановлен, Land Canister не затронут',
+      toast.success(t('assetReinit.toast.completed'), {
+        description: t('assetReinit.toast.completedDescription'),
         duration: 5000,
       });
 
     } catch (error: any) {
       console.error('[Asset Canister Reinitialization] Failed:', error);
-      toast.error('Реинициализация не удалась', {
+      toast.error(t('assetReinit.toast.failed'), {
         description: error.message,
         duration: 8000,
       });
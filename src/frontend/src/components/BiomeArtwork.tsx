@@ -0,0 +1,141 @@
+import { useId } from 'react';
+
+interface BiomeArtworkProps {
+  biome?: string;
+  className?: string;
+}
+
+interface BiomeArt {
+  sky: [string, string];
+  ground: string;
+  accent: string;
+  /** Skyline height across the picture: x and the result both run 0..1. */
+  profile: (x: number) => number;
+  /** Height of the water line, for biomes that have one. */
+  water?: number;
+}
+
+const WIDTH = 400;
+const HEIGHT = 240;
+const HORIZON = 200;
+const STEPS = 100;
+
+function peak(x: number, center: number, height: number, width: number): number {
+  return height * Math.max(0, 1 - Math.abs(x - center) / width);
+}
+
+// Accents follow the biome colours used for the beams on the world map
+const BIOME_ART: Record<string, BiomeArt> = {
+  SNOW_PEAK: {
+    sky: ['#0b1a3a', '#4a6fa5'],
+    ground: '#1c2a44',
+    accent: '#ffffff',
+    profile: (x) =>
+      Math.max(peak(x, 0.3, 0.85, 0.25), peak(x, 0.55, 0.62, 0.2), peak(x, 0.78, 0.74, 0.22), 0.12),
+  },
+  DESERT_DUNE: {
+    sky: ['#2a0a1a', '#ff8844'],
+    ground: '#5a2a0a',
+    accent: '#FF8800',
+    profile: (x) => 0.28 + 0.12 * Math.sin(x * 9 + 0.6) + 0.06 * Math.sin(x * 23),
+  },
+  ISLAND_ARCHIPELAGO: {
+    sky: ['#001a33', '#00aaff'],
+    ground: '#0a3a2a',
+    accent: '#00aaff',
+    profile: (x) => Math.max(peak(x, 0.22, 0.42, 0.14), peak(x, 0.52, 0.55, 0.16), peak(x, 0.8, 0.35, 0.12)),
+    water: 0.2,
+  },
+  VOLCANIC_CRAG: {
+    sky: ['#1a0000', '#661100'],
+    ground: '#1a0a0a',
+    accent: '#ff3300',
+    profile: (x) => Math.max(peak(x, 0.5, 0.85, 0.38) - peak(x, 0.5, 0.12, 0.06), 0.1 + 0.05 * Math.sin(x * 31)),
+  },
+  MYTHIC_VOID: {
+    sky: ['#05000f', '#3a0066'],
+    ground: '#12002a',
+    accent: '#9933FF',
+    profile: (x) => Math.floor((0.2 + peak(x, 0.5, 0.6, 0.45)) * 6) / 6,
+  },
+  MYTHIC_AETHER: {
+    sky: ['#001a2a', '#66ffff'],
+    ground: '#0a2a3a',
+    accent: '#00FFFF',
+    profile: (x) => 0.22 + 0.1 * Math.sin(x * 5) + 0.04 * Math.sin(x * 17),
+  },
+  FOREST_VALLEY: {
+    sky: ['#001a0a', '#1a6633'],
+    ground: '#0a2a12',
+    accent: '#00ff41',
+    profile: (x) => 0.15 + 0.55 * (2 * x - 1) ** 2 + 0.04 * Math.sin(x * 40),
+  },
+};
+
+function skylinePath(profile: BiomeArt['profile']): string {
+  const points = Array.from({ length: STEPS + 1 }, (_, i) => {
+    const x = i / STEPS;
+    return `L${(x * WIDTH).toFixed(1)},${(HORIZON - profile(x) * 150).toFixed(1)}`;
+  });
+  return `M0,${HEIGHT} ${points.join(' ')} L${WIDTH},${HEIGHT} Z`;
+}
+
+/**
+ * Flat neon illustration of a biome: a skyline shaped after the biome's terrain over a
+ * synthwave horizon. Shown where the 3D scene cannot run.
+ */
+export default function BiomeArtwork({ biome, className = '' }: BiomeArtworkProps) {
+  const id = useId();
+  const art = BIOME_ART[biome ?? ''] ?? BIOME_ART.FOREST_VALLEY;
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="xMidYMid slice" className={className} aria-hidden="true">
+      <defs>
+        <linearGradient id={`${id}-sky`} x1="0" y1="0" x2="0" y2="1">
+          <stop offset="0" stopColor={art.sky[0]} />
+          <stop offset="1" stopColor={art.sky[1]} />
+        </linearGradient>
+        <linearGradient id={`${id}-ground`} x1="0" y1="0" x2="0" y2="1">
+          <stop offset="0" stopColor={art.ground} />
+          <stop offset="1" stopColor="#000000" />
+        </linearGradient>
+        <filter id={`${id}-glow`} x="-20%" y="-20%" width="140%" height="140%">
+          <feGaussianBlur stdDeviation="3" result="blur" />
+          <feMerge>
+            <feMergeNode in="blur" />
+            <feMergeNode in="SourceGraphic" />
+          </feMerge>
+        </filter>
+      </defs>
+
+      <rect width={WIDTH} height={HEIGHT} fill={`url(#${id}-sky)`} />
+      <circle cx={WIDTH * 0.68} cy={HORIZON - 70} r={34} fill={art.accent} opacity={0.35} filter={`url(#${id}-glow)`} />
+
+      <path
+        d={skylinePath(art.profile)}
+        fill={`url(#${id}-ground)`}
+        stroke={art.accent}
+        strokeWidth={2}
+        strokeLinejoin="round"
+        filter={`url(#${id}-glow)`}
+      />
+
+      {/* Perspective grid over the ground below the horizon */}
+      <g stroke={art.accent} strokeOpacity={0.25} strokeWidth={1}>
+        {Array.from({ length: 5 }, (_, i) => {
+          const y = HORIZON + ((i + 1) ** 2 / 25) * (HEIGHT - HORIZON);
+          return <line key={`h${i}`} x1={0} y1={y} x2={WIDTH} y2={y} />;
+        })}
+        {Array.from({ length: 11 }, (_, i) => {
+          const x = (i / 10) * WIDTH;
+          return <line key={`v${i}`} x1={WIDTH / 2 + (x - WIDTH / 2) * 0.3} y1={HORIZON} x2={x} y2={HEIGHT} />;
+        })}
+      </g>
+
+      {/* Drawn over the skyline so island shores sink into it */}
+      {art.water !== undefined && (
+        <rect y={HORIZON - art.water * 150} width={WIDTH} height={HEIGHT} fill={art.accent} opacity={0.18} />
+      )}
+    </svg>
+  );
+}
@@ -0,0 +1,231 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { useOpenReadyCaches, useProcessCache } from '@/hooks/useQueries';
+import { useI18n } from '@/hooks/useI18n';
+import { tierName } from '@/i18n';
+import { ECONOMY } from '@/config/economy';
+import { cacheReadyAt, cacheTierColor, type CacheBatchProgress, type CacheOpenOutcome } from '@/lib/lootCache';
+import { Loader2, Package, Clock, Gift, Zap, Layers } from 'lucide-react';
+import { toast } from 'sonner';
+import type { LootCache } from '@/backend';
+
+interface CacheTimelineProps {
+  caches: LootCache[];
+  isLoading: boolean;
+  /** Live charge of the first land, which pays for early opening. */
+  charge: number;
+}
+
+/**
+ * Unopened caches ordered by when they open for free, each with a live countdown and the
+ * choice to wait or pay charge now, plus a bulk open for every cache that is already free.
+ */
+export default function CacheTimeline({ caches, isLoading, charge }: CacheTimelineProps) {
+  const { t, formatDuration, formatNumber } = useI18n();
+  const { earlyOpenChargeCost, openDelayMs, drops } = ECONOMY.cache;
+  const processCacheMutation = useProcessCache();
+  const openReadyMutation = useOpenReadyCaches();
+  const [now, setNow] = useState(() => Date.now());
+  const [processingCacheId, setProcessingCacheId] = useState<bigint | null>(null);
+  const [batchProgress, setBatchProgress] = useState<CacheBatchProgress | null>(null);
+  const [batchResults, setBatchResults] = useState<CacheOpenOutcome[] | null>(null);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const pending = caches
+    .filter((cache) => !cache.is_opened)
+    .sort((a, b) => cacheReadyAt(a) - cacheReadyAt(b));
+  const openedCount = caches.length - pending.length;
+  const readyIds = pending.filter((cache) => cacheReadyAt(cache) <= now).map((cache) => cache.cache_id);
+  const isBusy = processingCacheId !== null || openReadyMutation.isPending;
+
+  const handleOpen = async (cache: LootCache, payCharge: boolean) => {
+    if (payCharge && charge < earlyOpenChargeCost) {
+      toast.error(t('common.toast.insufficientCharge', { required: earlyOpenChargeCost, current: charge }));
+      return;
+    }
+
+    setProcessingCacheId(cache.cache_id);
+    try {
+      const result = await processCacheMutation.mutateAsync(cache.cache_id);
+      toast.success(t('discovery.toast.modifierReceived', { type: result.modifierType, tier: tierName(result.rarity_tier) }));
+    } catch (error) {
+      console.error('Open cache error:', error);
+    } finally {
+      setProcessingCacheId(null);
+    }
+  };
+
+  const handleOpenAllReady = async () => {
+    setBatchResults(null);
+    try {
+      const outcomes = await openReadyMutation.mutateAsync({ cacheIds: readyIds, onProgress: setBatchProgress });
+      setBatchResults(outcomes);
+      const opened = outcomes.filter((outcome) => outcome.kind === 'opened').length;
+      toast.success(t('discovery.timeline.toast.opened', { count: opened, total: outcomes.length }));
+    } catch (error) {
+      console.error('Open all caches error:', error);
+    } finally {
+      setBatchProgress(null);
+    }
+  };
+
+  return (
+    <Card className="bg-black/40 backdrop-blur-md border-[#00d4ff]/30 shadow-[0_0_15px_rgba(0,212,255,0.3)]">
+      <CardHeader>
+        <CardTitle className="text-[#00d4ff] flex items-center gap-2">
+          <Package className="w-5 h-5" />
+          {t('discovery.myCaches', { count: caches.length })}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-white/50 text-xs">
+          {t('discovery.dropOdds', {
+            odds: drops
+              .map((drop) => `${tierName(drop.tier)} ${formatNumber(drop.chance, { style: 'percent' })}`)
+              .join(' · '),
+          })}
+        </p>
+        {isLoading ? (
+          <div className="flex items-center gap-2">
+            <Loader2 className="w-4 h-4 animate-spin text-[#00d4ff]" />
+            <span className="text-white/70">{t('discovery.loadingCaches')}</span>
+          </div>
+        ) : caches.length === 0 ? (
+          <p className="text-white/50 text-center py-4">{t('discovery.noCaches')}</p>
+        ) : (
+          <>
+            <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+              <p className="text-white/70 text-sm">
+                {t('discovery.timeline.summary', { ready: readyIds.length, pending: pending.length, opened: openedCount })}
+              </p>
+              <Button
+                onClick={handleOpenAllReady}
+                disabled={readyIds.length === 0 || isBusy}
+                size="sm"
+                className="bg-[#00ff41] hover:bg-[#00ff41]/80 text-black font-bold"
+              >
+                {openReadyMutation.isPending ? (
+                  <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                ) : (
+                  <Layers className="w-4 h-4 mr-2" />
+                )}
+                {t('discovery.timeline.openAllReady', { count: readyIds.length })}
+              </Button>
+            </div>
+
+            {batchProgress && (
+              <div className="space-y-2">
+                <Progress value={batchProgress.total > 0 ? (batchProgress.completed / batchProgress.total) * 100 : 0} />
+                <p className="text-white/50 text-xs">
+                  {t('discovery.timeline.progress', { completed: batchProgress.completed, total: batchProgress.total })}
+                </p>
+              </div>
+            )}
+
+            {batchResults && (
+              <div className="bg-white/5 rounded-lg p-4 border border-[#00ff41]/30 space-y-2">
+                <p className="text-[#00ff41] font-medium">{t('discovery.timeline.resultsTitle')}</p>
+                {batchResults.map((outcome) =>
+                  outcome.kind === 'opened' ? (
+                    <p
+                      key={outcome.cacheId.toString()}
+                      className={`text-sm ${cacheTierColor(outcome.modifier.rarity_tier).split(' ')[0]}`}
+                    >
+                      {t('discovery.timeline.resultOpened', {
+                        id: outcome.cacheId.toString(),
+                        type: outcome.modifier.modifierType,
+                        tier: tierName(outcome.modifier.rarity_tier),
+                      })}
+                    </p>
+                  ) : (
+                    <p key={outcome.cacheId.toString()} className="text-sm text-red-400">
+                      {t('discovery.timeline.resultFailed', { id: outcome.cacheId.toString(), message: outcome.message })}
+                    </p>
+                  )
+                )}
+              </div>
+            )}
+
+            <div className="space-y-3">
+              {pending.map((cache) => {
+                const remaining = cacheReadyAt(cache) - now;
+                const isReady = remaining <= 0;
+                const elapsed = Math.min(1, 1 - remaining / openDelayMs);
+                const isProcessing = processingCacheId === cache.cache_id;
+
+                return (
+                  <div
+                    key={cache.cache_id.toString()}
+                    className={`bg-white/5 rounded-lg p-4 border space-y-3 ${cacheTierColor(cache.tier)}`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <p className="text-white font-medium">
+                        {t('discovery.cacheTitle', { tier: tierName(cache.tier), id: cache.cache_id.toString() })}
+                      </p>
+                      <p className="text-white/50 text-sm flex items-center gap-1">
+                        <Clock className="w-3 h-3" />
+                        {isReady
+                          ? t('discovery.readyToOpen')
+                          : t('discovery.timeline.freeIn', { time: formatDuration(remaining) })}
+                      </p>
+                    </div>
+                    <Progress value={elapsed * 100} />
+                    <div className="flex flex-wrap gap-2">
+                      {isReady ? (
+                        <Button
+                          onClick={() => handleOpen(cache, false)}
+                          disabled={isBusy}
+                          size="sm"
+                          className="bg-[#00ff41] hover:bg-[#00ff41]/80 text-black font-bold"
+                        >
+                          {isProcessing ? (
+                            <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                          ) : (
+                            <Gift className="w-4 h-4 mr-2" />
+                          )}
+                          {isProcessing ? t('discovery.opening') : t('discovery.open')}
+                        </Button>
+                      ) : (
+                        <>
+                          <Button
+                            onClick={() => handleOpen(cache, true)}
+                            disabled={isBusy || charge < earlyOpenChargeCost}
+                            size="sm"
+                            className="bg-[#00d4ff] hover:bg-[#00d4ff]/80 text-black font-bold"
+                          >
+                            {isProcessing ? (
+                              <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                            ) : (
+                              <Zap className="w-4 h-4 mr-2" />
+                            )}
+                            {isProcessing
+                              ? t('discovery.opening')
+                              : t('discovery.openEarly', { charge: earlyOpenChargeCost })}
+                          </Button>
+                          <p className="text-white/50 text-xs self-center">
+                            {t('discovery.timeline.waitOption', { time: formatDuration(remaining, false) })}
+                          </p>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+              {openedCount > 0 && (
+                <p className="text-green-400 text-sm">
+                  ✓ {t('discovery.timeline.openedCount', { count: openedCount })}
+                </p>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
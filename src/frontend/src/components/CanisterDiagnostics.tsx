@@ -4,7 +4,12 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { Loader2, RefreshCw, CheckCircle2, XCircle, AlertTriangle, Activity, Zap } from 'lucide-react';
 import { toast } from 'sonner';
+import { t } from '@/i18n';
 import { useQueryClient } from '@tanstack/react-query';
+import { loadCanisterRegistry } from '../config';
+import { useCanisterRegistry } from '../hooks/useCanisterRegistry';
+import { useGatewayHealth } from '../hooks/useGatewayHealth';
+import type { CircuitState } from '../lib/resilientAgent';
 
 interface GatewayTestResult {
   gateway: string;
@@ -24,17 +29,10 @@ interface CanisterHealthReport {
   recommendations: string[];
 }
 
-const GATEWAYS = [
-  'https://boundary.ic0.app',
-  'https://ic0.app',
-  'https://icp-api.io',
-];
-
-const LAND_CANISTER_ID = 'br5f7-7uaaa-aaaaa-qaaca-cai';
-const ASSET_CANISTER_ID = 'bd3sg-teaaa-aaaaa-qaaba-cai';
-
 export default function CanisterDiagnostics() {
   const queryClient = useQueryClient();
+  const { data: registry } = useCanisterRegistry();
+  const { gateways: liveGateways, pool } = useGatewayHealth();
   const [isRunning, setIsRunning] = useState(false);
   const [landReport, setLandReport] = useState<CanisterHealthReport | null>(null);
   const [assetReport, setAssetReport] = useState<CanisterHealthReport | null>(null);
@@ -166,10 +164,15 @@ export default function CanisterDiagnostics() {
   const runHealthCheck = async (silent = false) => {
     setIsRunning(true);
     if (!silent) {
-      toast.info('🔄 Starting comprehensive network health check with cache-busting...');
+      toast.info(t('canisterDiagnostics.toast.starting'));
     }
 
     try {
+      const { canisters, gateways } = await loadCanisterRegistry();
+
+      // Refresh the shared agent's latency scores alongside the per-canister tests
+      await pool?.probe();
+
       // Force clear all React Query caches for fresh data
       console.log('🧹 Clearing all cached queries for fresh state...');
       queryClient.clear();
@@ -177,14 +180,14 @@ export default function CanisterDiagnostics() {
       // Test LandCanister connectivity across all gateways
       console.log('🔍 Testing LandCanister connectivity with cache-busting...');
       const landResults = await Promise.all(
-        GATEWAYS.map(gateway => testGatewayConnectivity(gateway, LAND_CANISTER_ID))
+        gateways.map(gateway => testGatewayConnectivity(gateway, canisters.land))
       );
 
       const landStatus = determineOverallStatus(landResults);
       const landRecommendations = generateRecommendations('LandCanister', landResults, landStatus);
 
       const landHealthReport: CanisterHealthReport = {
-        canisterId: LAND_CANISTER_ID,
+        canisterId: canisters.land,
         canisterName: 'LandCanister',
         gatewayResults: landResults,
         overallStatus: landStatus,
@@ -197,14 +200,14 @@ export default function CanisterDiagnostics() {
       // Test AssetCanister connectivity across all gateways
       console.log('🔍 Testing AssetCanister connectivity with cache-busting...');
       const assetResults = await Promise.all(
-        GATEWAYS.map(gateway => testGatewayConnectivity(gateway, ASSET_CANISTER_ID))
+        gateways.map(gateway => testGatewayConnectivity(gateway, canisters.asset))
       );
 
       const assetStatus = determineOverallStatus(assetResults);
       const assetRecommendations = generateRecommendations('AssetCanister', assetResults, assetStatus);
 
       const assetHealthReport: CanisterHealthReport = {
-        canisterId: ASSET_CANISTER_ID,
+        canisterId: canisters.asset,
         canisterName: 'AssetCanister',
         gatewayResults: assetResults,
         overallStatus: assetStatus,
@@ -223,15 +226,15 @@ export default function CanisterDiagnostics() {
       if (!silent) {
         const allHealthy = landStatus === 'online' && assetStatus === 'online';
         if (allHealthy) {
-          toast.success('✅ Network health check completed - All systems HEALTHY');
+          toast.success(t('canisterDiagnostics.toast.healthy'));
         } else {
-          toast.warning('⚠️ Network health check completed - Some issues detected');
+          toast.warning(t('canisterDiagnostics.toast.issues'));
         }
       }
     } catch (error: any) {
       console.error('❌ Health check error:', error);
       if (!silent) {
-        toast.error('Failed to complete health check: ' + error.message);
+        toast.error(t('canisterDiagnostics.toast.failed', { message: error.message }));
       }
     } finally {
       setIsRunning(false);
@@ -260,6 +263,17 @@ export default function CanisterDiagnostics() {
     }
   };
 
+  const getCircuitBadge = (circuit: CircuitState) => {
+    switch (circuit) {
+      case 'closed':
+        return <Badge className="bg-green-500/20 text-green-400 border-green-500/50">CLOSED</Badge>;
+      case 'half-open':
+        return <Badge className="bg-yellow-500/20 text-yellow-400 border-yellow-500/50">HALF-OPEN</Badge>;
+      case 'open':
+        return <Badge className="bg-red-500/20 text-red-400 border-red-500/50">OPEN</Badge>;
+    }
+  };
+
   const renderCanisterReport = (report: CanisterHealthReport | null) => {
     if (!report) return null;
 
@@ -395,9 +409,9 @@ export default function CanisterDiagnostics() {
               </div>
               <ul className="list-disc list-inside space-y-1 text-xs text-gray-400 ml-6">
                 <li>Clearing all cached queries for fresh state</li>
-                <li>Testing connectivity to LandCanister ({LAND_CANISTER_ID})</li>
-                <li>Testing connectivity to AssetCanister ({ASSET_CANISTER_ID})</li>
-                <li>Measuring response times across 3 gateways</li>
+                <li>Testing connectivity to LandCanister ({registry?.canisters.land})</li>
+                <li>Testing connectivity to AssetCanister ({registry?.canisters.asset})</li>
+                <li>Measuring response times across {registry?.gateways.length} gateways</li>
                 <li>Validating HTTP status codes</li>
                 <li>Generating stability recommendations</li>
                 <li>Invalidating queries to force fresh data fetch</li>
@@ -407,6 +421,49 @@ export default function CanisterDiagnostics() {
         </CardContent>
       </Card>
 
+      {/* Live gateway health from the shared agent */}
+      {liveGateways.length > 0 && (
+        <Card className="bg-black/40 border-cyan-500/30 backdrop-blur-sm">
+          <CardHeader>
+            <CardTitle className="text-cyan-400 flex items-center gap-2">
+              <Zap className="w-5 h-5" />
+              Live Gateway Health
+            </CardTitle>
+            <CardDescription className="text-gray-400">
+              Measured from every canister call, best gateway first. Open circuits are skipped until they cool down.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {liveGateways.map((health) => (
+              <div
+                key={health.gateway}
+                className="flex items-center justify-between p-3 rounded-lg bg-black/30 border border-gray-700/50"
+              >
+                <div className="flex items-center gap-3">
+                  {getCircuitBadge(health.circuit)}
+                  <div>
+                    <div className="text-sm font-medium text-gray-200">
+                      {health.gateway.replace(/^https?:\/\//, '')}
+                    </div>
+                    {health.lastError && health.consecutiveFailures > 0 && (
+                      <div className="text-xs text-red-400">{health.lastError}</div>
+                    )}
+                  </div>
+                </div>
+                <div className="text-right">
+                  <div className="text-sm font-mono text-cyan-400">
+                    {health.latencyMs === null ? '—' : `${Math.round(health.latencyMs)}ms`}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {health.successes} ok / {health.failures} failed
+                  </div>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {/* LandCanister Report */}
       {renderCanisterReport(landReport)}
 
@@ -1,57 +1,39 @@
 import React from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { CheckCircle2, XCircle, AlertCircle } from 'lucide-react';
+import {
+  CANISTER_LABELS,
+  CANISTER_NAMES,
+  CanisterConfigError,
+  IC_CANISTER_IDS,
+  getCanisterEnvVar,
+} from '../config/canisters';
+import { useCanisterRegistry } from '../hooks/useCanisterRegistry';
 
 interface CanisterIDInfo {
   name: string;
   envVar: string;
   correctId: string;
   currentId: string;
+  source?: string;
   isCorrect: boolean;
 }
 
 export function CanisterIDVerification() {
-  const canisters: CanisterIDInfo[] = [
-    {
-      name: 'Land Canister',
-      envVar: 'VITE_LAND_CANISTER_ID',
-      correctId: 'br5f7-7uaaa-aaaaa-qaaca-cai',
-      currentId: import.meta.env.VITE_LAND_CANISTER_ID || import.meta.env.CANISTER_ID_BACKEND || 'не настроено',
-      isCorrect: false,
-    },
-    {
-      name: 'Cyber Token Canister',
-      envVar: 'VITE_CYBER_TOKEN_CANISTER_ID',
-      correctId: 'w4q3i-7yaaa-aaaam-ab3oq-cai',
-      currentId: import.meta.env.VITE_CYBER_TOKEN_CANISTER_ID || import.meta.env.CANISTER_ID_CYBER_TOKEN || 'не настроено',
-      isCorrect: false,
-    },
-    {
-      name: 'Asset Canister',
-      envVar: 'VITE_ASSET_CANISTER_ID',
-      correctId: 'bd3sg-teaaa-aaaaa-qaaba-cai',
-      currentId: import.meta.env.VITE_ASSET_CANISTER_ID || import.meta.env.CANISTER_ID_ASSET_CANISTER || 'не настроено',
-      isCorrect: false,
-    },
-    {
-      name: 'Marketplace Canister',
-      envVar: 'VITE_MARKETPLACE_CANISTER_ID',
-      correctId: 'be2us-64aaa-aaaaa-qaabq-cai',
-      currentId: import.meta.env.VITE_MARKETPLACE_CANISTER_ID || import.meta.env.CANISTER_ID_MARKETPLACE || 'не настроено',
-      isCorrect: false,
-    },
-    {
-      name: 'Governance Canister',
-      envVar: 'VITE_GOVERNANCE_CANISTER_ID',
-      correctId: 'bkyz2-fmaaa-aaaaa-qaaaq-cai',
-      currentId: import.meta.env.VITE_GOVERNANCE_CANISTER_ID || import.meta.env.CANISTER_ID_GOVERNANCE || 'не настроено',
-      isCorrect: false,
-    },
-  ];
+  const { data: registry, error } = useCanisterRegistry();
 
-  // Check if IDs are correct
-  canisters.forEach(canister => {
-    canister.isCorrect = canister.currentId === canister.correctId;
+  // Mainnet IDs are checked against the known deployment; other profiles only need a valid ID.
+  const canisters: CanisterIDInfo[] = CANISTER_NAMES.map((name) => {
+    const currentId = registry?.canisters[name] ?? 'не настроено';
+    const correctId = registry && registry.profile !== 'ic' ? currentId : IC_CANISTER_IDS[name];
+    return {
+      name: CANISTER_LABELS[name],
+      envVar: getCanisterEnvVar(name),
+      correctId,
+      currentId,
+      source: registry?.sources[name],
+      isCorrect: !!registry && currentId === correctId,
+    };
   });
 
   const allCorrect = canisters.every(c => c.isCorrect);
@@ -75,6 +57,19 @@ export function CanisterIDVerification() {
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
+        {error instanceof CanisterConfigError && (
+          <div className="p-4 rounded-lg border bg-red-500/10 border-red-500/30 space-y-1 text-sm text-red-300">
+            {error.issues.map((issue) => (
+              <p key={issue}>{issue}</p>
+            ))}
+          </div>
+        )}
+        {registry && (
+          <p className="text-sm text-gray-400">
+            Профиль сети: <code className="text-cyan-300 font-mono">{registry.profile}</code> · Хост:{' '}
+            <code className="text-cyan-300 font-mono">{registry.host}</code>
+          </p>
+        )}
         {canisters.map((canister) => (
           <div
             key={canister.name}
@@ -113,6 +108,12 @@ export function CanisterIDVerification() {
                       {canister.currentId}
                     </code>
                   </div>
+                  {canister.source && (
+                    <div className="flex gap-2">
+                      <span className="text-gray-400 min-w-[140px]">Источник:</span>
+                      <span className="text-gray-300 font-mono">{canister.source}</span>
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { useClaimAllRewards } from '@/hooks/useQueries';
+import { useI18n } from '@/hooks/useI18n';
+import { claimBlocker, type BatchClaimProgress, type BatchClaimSummary } from '@/lib/batchClaim';
+import { Layers, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { LandData } from '@/backend';
+
+interface ClaimAllLandsProps {
+  lands: LandData[];
+}
+
+/** Claims rewards on every land in one go, skipping lands in cooldown or short on charge. */
+export default function ClaimAllLands({ lands }: ClaimAllLandsProps) {
+  const { t, formatCbrAmount } = useI18n();
+  const claimAllMutation = useClaimAllRewards();
+  const [progress, setProgress] = useState<BatchClaimProgress | null>(null);
+  const [summary, setSummary] = useState<BatchClaimSummary | null>(null);
+
+  const readyCount = lands.filter((land) => claimBlocker(land) === null).length;
+
+  const handleClaimAll = async () => {
+    setSummary(null);
+    try {
+      const result = await claimAllMutation.mutateAsync({ lands, onProgress: setProgress });
+      setSummary(result);
+      if (result.claimed > 0) {
+        toast.success(
+          t('land.claimAll.toast.claimed', { count: result.claimed, amount: formatCbrAmount(result.tokensClaimed) })
+        );
+      } else {
+        toast.info(t('land.claimAll.toast.nothingClaimed'));
+      }
+    } catch (error) {
+      console.error('Claim all error:', error);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const percent = progress && progress.total > 0 ? (progress.completed / progress.total) * 100 : 0;
+
+  return (
+    <Card className="glassmorphism neon-border box-glow-green">
+      <CardHeader>
+        <CardTitle className="text-[#00ff41] flex items-center gap-2 font-orbitron text-glow-green">
+          <Layers className="w-5 h-5" />
+          {t('land.claimAll.title')}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-white/70 text-sm font-jetbrains">
+          {t('land.claimAll.ready', { ready: readyCount, total: lands.length })}
+        </p>
+
+        {progress && (
+          <div className="space-y-2">
+            <Progress value={percent} />
+            <p className="text-white/50 text-xs font-jetbrains">
+              {progress.currentLandId !== null
+                ? t('land.claimAll.claimingLand', {
+                    id: progress.currentLandId.toString(),
+                    current: progress.completed + 1,
+                    total: progress.total,
+                  })
+                : t('land.claimAll.progress', { completed: progress.completed, total: progress.total })}
+            </p>
+          </div>
+        )}
+
+        {summary && (
+          <div className="glassmorphism rounded-lg p-3 border border-white/10 space-y-1 text-sm font-jetbrains">
+            <p className="text-[#00ff41]">
+              {t('land.claimAll.summary.claimed', {
+                count: summary.claimed,
+                amount: formatCbrAmount(summary.tokensClaimed),
+              })}
+            </p>
+            {summary.cooldowns > 0 && (
+              <p className="text-white/70">{t('land.claimAll.summary.cooldowns', { count: summary.cooldowns })}</p>
+            )}
+            {summary.insufficientCharge > 0 && (
+              <p className="text-white/70">
+                {t('land.claimAll.summary.insufficientCharge', { count: summary.insufficientCharge })}
+              </p>
+            )}
+            {summary.mintFailures.map((failure) => (
+              <p key={failure.landId.toString()} className="text-red-400">
+                {t('land.claimAll.summary.mintFailed', { id: failure.landId.toString(), reason: failure.reason })}
+              </p>
+            ))}
+            {summary.errors.map((failure) => (
+              <p key={failure.landId.toString()} className="text-red-400">
+                {t('land.claimAll.summary.error', { id: failure.landId.toString(), message: failure.message })}
+              </p>
+            ))}
+          </div>
+        )}
+
+        <button
+          onClick={handleClaimAll}
+          disabled={claimAllMutation.isPending || readyCount === 0}
+          className="w-full px-6 py-3 rounded-lg btn-gradient-green text-black font-bold font-orbitron disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {claimAllMutation.isPending ? (
+            <>
+              <Loader2 className="w-4 h-4 animate-spin mr-2 inline" />
+              {t('land.claiming')}
+            </>
+          ) : (
+            t('land.claimAll.button', { count: readyCount })
+          )}
+        </button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,42 +1,29 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { AlertTriangle, XCircle } from 'lucide-react';
+import { isSimulationMode } from '../config';
+import { CANISTER_NAMES, CanisterConfigError, IC_CANISTER_IDS, getCanisterEnvVar } from '../config/canisters';
+import { useCanisterRegistry } from '../hooks/useCanisterRegistry';
+import { isSimulationFlagSet } from '../simulation';
 
-// Define ValidationResult interface locally to avoid import issues
 interface ValidationResult {
   isValid: boolean;
   errors: string[];
   warnings: string[];
 }
 
-// Inline validation function to avoid circular dependencies
-function validateEnvironment(): ValidationResult {
+// The registry validates every canister ID; only the network flag is checked here.
+function validateEnvironment(registryError: unknown): ValidationResult {
   const errors: string[] = [];
   const warnings: string[] = [];
 
-  // Check for Land Canister ID
-  const landCanisterId = import.meta.env.VITE_LAND_CANISTER_ID || import.meta.env.CANISTER_ID_BACKEND;
-  if (!landCanisterId) {
-    errors.push('VITE_LAND_CANISTER_ID is not configured');
+  if (registryError instanceof CanisterConfigError) {
+    errors.push(...registryError.issues);
+  } else if (registryError) {
+    errors.push(registryError instanceof Error ? registryError.message : String(registryError));
   }
 
-  // Check for Asset Canister ID
-  const assetCanisterId = import.meta.env.VITE_ASSET_CANISTER_ID || import.meta.env.CANISTER_ID_ASSET_CANISTER;
-  if (!assetCanisterId) {
-    errors.push('VITE_ASSET_CANISTER_ID is not configured');
-  }
-
-  // Check for Token Canister ID
-  const tokenCanisterId = import.meta.env.VITE_CYBER_TOKEN_CANISTER_ID || import.meta.env.CANISTER_ID_CYBER_TOKEN;
-  if (!tokenCanisterId) {
-    warnings.push('VITE_CYBER_TOKEN_CANISTER_ID is not configured');
-  }
-
-  // Check for network configuration
-  const network = import.meta.env.VITE_DFX_NETWORK;
-  if (!network) {
-    errors.push('VITE_DFX_NETWORK is not configured');
-  } else if (network !== 'ic' && network !== 'local') {
-    warnings.push(`Unexpected VITE_DFX_NETWORK value: "${network}". Expected "ic" or "local".`);
+  if (!import.meta.env.VITE_DFX_NETWORK) {
+    warnings.push('VITE_DFX_NETWORK is not configured, defaulting to the "ic" profile');
   }
 
   return {
@@ -47,10 +34,18 @@ function validateEnvironment(): ValidationResult {
 }
 
 export default function ConfigValidator() {
-  const validation = validateEnvironment();
+  // Simulation mode runs against in-memory canisters, so no canister IDs are needed.
+  const [isSimulation, setIsSimulation] = useState(isSimulationFlagSet());
+  const { error: registryError } = useCanisterRegistry();
+
+  useEffect(() => {
+    isSimulationMode().then(setIsSimulation);
+  }, []);
+
+  const validation = validateEnvironment(registryError);
 
   // Only show if there are errors
-  if (validation.isValid) {
+  if (isSimulation || validation.isValid) {
     return null;
   }
 
@@ -64,7 +59,7 @@ export default function ConfigValidator() {
               ⚠️ CONFIGURATION ERROR
             </h2>
             <p className="text-red-200 mb-3">
-              Critical environment variables are missing. The application cannot function properly without these settings.
+              Canister configuration is missing or malformed. The application cannot function properly without these settings.
             </p>
             
             {/* Error List */}
@@ -96,10 +91,10 @@ export default function ConfigValidator() {
                 <li>Create or update <code className="bg-red-900/50 px-1 py-0.5 rounded">frontend/.env</code> file</li>
                 <li>Add missing environment variables:
                   <pre className="mt-2 bg-black/60 p-2 rounded text-[#00ff41] overflow-x-auto">
-{`VITE_DFX_NETWORK=ic
-VITE_LAND_CANISTER_ID=br5f7-7uaaa-aaaaa-qaaca-cai
-VITE_ASSET_CANISTER_ID=bd3sg-teaaa-aaaaa-qaaba-cai
-VITE_CYBER_TOKEN_CANISTER_ID=w4q3i-7yaaa-aaaam-ab3oq-cai`}
+{[
+  'VITE_DFX_NETWORK=ic',
+  ...CANISTER_NAMES.map((name) => `${getCanisterEnvVar(name)}=${IC_CANISTER_IDS[name]}`),
+].join('\n')}
                   </pre>
                 </li>
                 <li>Rebuild the frontend: <code className="bg-red-900/50 px-1 py-0.5 rounded">npm run build</code></li>
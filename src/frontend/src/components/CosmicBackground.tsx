@@ -1,12 +1,15 @@
 import { useEffect, useRef } from 'react';
+import { useRenderQuality } from '../hooks/useRenderQuality';
+import { frameScheduler } from '../lib/frameScheduler';
 
 export default function CosmicBackground() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const animationFrameRef = useRef<number | null>(null);
+  const { settings } = useRenderQuality();
+  const enabled = settings.cosmicBackground;
 
   useEffect(() => {
     const canvas = canvasRef.current;
-    if (!canvas) return;
+    if (!canvas || !enabled) return;
 
     // Use 2D context - completely isolated from WebGL
     const ctx = canvas.getContext('2d', { 
@@ -93,7 +96,11 @@ export default function CosmicBackground() {
       });
     }
 
-    const animate = () => {
+    // Motion is tuned per frame at 60fps; `delta` comes from the shared clock, so it slows
+    // down with it while the user is idle
+    const animate = (delta: number) => {
+      const step = delta * 60;
+
       // Dark cosmic background with slight fade
       ctx.fillStyle = 'rgba(10, 10, 20, 0.15)';
       ctx.fillRect(0, 0, canvas.width, canvas.height);
@@ -119,8 +126,8 @@ export default function CosmicBackground() {
         ctx.fillRect(0, 0, canvas.width, canvas.height);
 
         // Update nebula position and pulse
-        nebula.x += nebula.drift;
-        nebula.pulse += nebula.pulseSpeed;
+        nebula.x += nebula.drift * step;
+        nebula.pulse += nebula.pulseSpeed * step;
         
         if (nebula.x > canvas.width + nebula.radius) nebula.x = -nebula.radius;
         if (nebula.x < -nebula.radius) nebula.x = canvas.width + nebula.radius;
@@ -150,8 +157,8 @@ export default function CosmicBackground() {
         }
 
         // Move stars and update twinkle
-        star.z -= star.speed;
-        star.twinkle += star.twinkleSpeed;
+        star.z -= star.speed * step;
+        star.twinkle += star.twinkleSpeed * step;
         
         if (star.z <= 0) {
           star.z = canvas.width;
@@ -159,21 +166,18 @@ export default function CosmicBackground() {
           star.y = Math.random() * canvas.height;
         }
       });
-
-      animationFrameRef.current = requestAnimationFrame(animate);
     };
 
-    animate();
+    const stopLoop = frameScheduler.loop(animate);
 
     return () => {
-      console.log('[CosmicBackground] 🧹 Cleanup: canceling animation frame');
+      console.log('[CosmicBackground] 🧹 Cleanup: stopping animation loop');
       window.removeEventListener('resize', resizeCanvas);
-      if (animationFrameRef.current !== null) {
-        cancelAnimationFrame(animationFrameRef.current);
-        animationFrameRef.current = null;
-      }
+      stopLoop();
+      // Leave the gradient behind rather than a frozen star field
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
     };
-  }, []);
+  }, [enabled]);
 
   return (
     <canvas
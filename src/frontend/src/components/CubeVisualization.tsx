@@ -1,25 +1,122 @@
-import { Suspense, useMemo, useRef, useEffect, useState } from 'react';
-import { Canvas, useFrame, useThree } from '@react-three/fiber';
+import { Suspense, use, useCallback, useMemo, useRef, useEffect, useState } from 'react';
+import { Canvas, addAfterEffect, useFrame, useLoader, useThree } from '@react-three/fiber';
 import { OrbitControls, Environment } from '@react-three/drei';
 import * as THREE from 'three';
 import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
 import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
 import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPass.js';
 import LandModel from './LandModel';
+import LandSceneFallback from './LandSceneFallback';
+import ProceduralTerrain from './ProceduralTerrain';
+import ModifierOrbit from './ModifierOrbit';
+import SceneErrorBoundary from './SceneErrorBoundary';
+import QualitySelector from './QualitySelector';
+import ShareCardDialog from './ShareCardDialog';
+import SunTimeScrubber from './SunTimeScrubber';
+import ThreeErrorBoundary from './ThreeErrorBoundary';
+import TurntableDialog from './TurntableDialog';
+import TurntableRecorder from './TurntableRecorder';
+import { Progress } from './ui/progress';
+import { useBiomeModelCandidates, useBiomeModelReport } from '../hooks/useBiomeModels';
+import { useFrameSchedule } from '../hooks/useFrameSchedule';
+import { useI18n } from '../hooks/useI18n';
+import { useInView } from '../hooks/useInView';
+import { useRenderQuality } from '../hooks/useRenderQuality';
+import { useSunLighting } from '../hooks/useSunLighting';
+import { useWebGLRecovery } from '../hooks/useWebGLRecovery';
+import { biomeModelReport } from '../lib/biomeModels';
+import { frameScheduler } from '../lib/frameScheduler';
+import { CachedGLTFLoader, CachedRGBELoader, disposeKTX2Loader, prepareCachedFile } from '../lib/modelLoader';
+import { renderQuality } from '../lib/renderQuality';
+import type { TurntableOptions } from '../lib/turntable';
+import { DAY_PALETTE, type SunLighting } from '../lib/solar';
+import { terrainSeed } from '../lib/proceduralTerrain';
+import type { LandData, ModifierInstance } from '../backend';
+import { Loader2 } from 'lucide-react';
 
 interface CubeVisualizationProps {
   biome?: string;
+  /** Modifiers attached to the land, rendered in orbit around it. */
+  modifiers?: ModifierInstance[];
+  /** Land shown in the scene; enables the share card export. */
+  land?: LandData;
 }
 
-const BIOME_MODEL_MAP: Record<string, string> = {
-  FOREST_VALLEY: 'https://raw.githubusercontent.com/dobr312/cyberland/main/public/models/FOREST_VALLEY_KTX2.glb',
-  ISLAND_ARCHIPELAGO: 'https://raw.githubusercontent.com/dobr312/cyberland/main/public/models/ISLAND_ARCHIPELAGO.glb',
-  SNOW_PEAK: 'https://raw.githubusercontent.com/dobr312/cyberland/main/public/models/SNOW_PEAK.glb',
-  DESERT_DUNE: 'https://raw.githubusercontent.com/dobr312/cyberland/main/public/models/DESERT_DUNE.glb',
-  VOLCANIC_CRAG: 'https://raw.githubusercontent.com/dobr312/cyberland/main/public/models/VOLCANIC_CRAG.glb',
-  MYTHIC_VOID: 'https://raw.githubusercontent.com/dobr312/cyberland/main/public/models/MYTHIC_VOID.glb',
-  MYTHIC_AETHER: 'https://raw.githubusercontent.com/dobr312/cyberland/main/public/models/MYTHIC_AETHER.glb',
-};
+type FrameCaptureFn = () => Promise<HTMLCanvasElement>;
+
+const ENVIRONMENT_MAP_URL = 'https://dl.polyhaven.org/file/ph-assets/HDRIs/hdr/1k/artist_workshop_1k.hdr';
+
+// Copies the canvas right after the next frame is drawn, whether by the bloom composer or the
+// default render. The drawing buffer is not preserved, so it is only readable in that window.
+function FrameCapture({ captureRef }: { captureRef: React.MutableRefObject<FrameCaptureFn | null> }) {
+  const { gl, invalidate } = useThree();
+
+  useEffect(() => {
+    captureRef.current = () =>
+      new Promise((resolve, reject) => {
+        const unsubscribe = addAfterEffect(() => {
+          unsubscribe();
+          const source = gl.domElement;
+          const copy = document.createElement('canvas');
+          copy.width = source.width;
+          copy.height = source.height;
+          const ctx = copy.getContext('2d');
+          if (!ctx) {
+            reject(new Error('2D canvas unavailable'));
+            return;
+          }
+          ctx.drawImage(source, 0, 0);
+          resolve(copy);
+        });
+        invalidate();
+      });
+
+    return () => {
+      captureRef.current = null;
+    };
+  }, [gl, invalidate, captureRef]);
+
+  return null;
+}
+
+// Stops the renderer's KTX2 transcoder workers when the Canvas unmounts or is rebuilt
+function KTX2LoaderOwner() {
+  const gl = useThree((state) => state.gl);
+  useEffect(() => () => disposeKTX2Loader(gl), [gl]);
+  return null;
+}
+
+// Forwards context loss on the renderer's canvas. three.js calls preventDefault on the lost
+// event, which is what lets the browser restore the context later.
+function ContextLossWatcher({ onLost, onRestored }: { onLost: () => void; onRestored: () => void }) {
+  const { gl } = useThree();
+  const callbacks = useRef({ onLost, onRestored });
+  callbacks.current = { onLost, onRestored };
+
+  useEffect(() => {
+    const canvas = gl.domElement;
+    const handleLost = () => callbacks.current.onLost();
+    const handleRestored = () => callbacks.current.onRestored();
+    canvas.addEventListener('webglcontextlost', handleLost);
+    canvas.addEventListener('webglcontextrestored', handleRestored);
+    return () => {
+      canvas.removeEventListener('webglcontextlost', handleLost);
+      canvas.removeEventListener('webglcontextrestored', handleRestored);
+    };
+  }, [gl]);
+
+  return null;
+}
+
+// The Canvas renders on demand: OrbitControls invalidates on camera movement, and this keeps
+// the animations going at the scheduler's rate while the scene is in view
+function FrameDriver() {
+  const { invalidate } = useThree();
+
+  useEffect(() => frameScheduler.loop(() => invalidate()), [invalidate]);
+
+  return null;
+}
 
 function KeyLightSync() {
   const keyLight = useRef<THREE.DirectionalLight>(null);
@@ -44,8 +141,48 @@ function KeyLightSync() {
   );
 }
 
-// Full FBM Shader with 4-color neon palette
-const BackgroundSphere = () => {
+// Key light placed by the sun (or, after sunset, the moon) over the land's coordinates
+const SOLAR_LIGHT_DISTANCE = 20;
+
+function SolarKeyLight({ lighting }: { lighting: SunLighting }) {
+  const [x, y, z] = lighting.direction;
+
+  return (
+    <directionalLight
+      name="KeyLight"
+      position={[x * SOLAR_LIGHT_DISTANCE, y * SOLAR_LIGHT_DISTANCE, z * SOLAR_LIGHT_DISTANCE]}
+      intensity={lighting.keyIntensity}
+      color={lighting.keyColor}
+    />
+  );
+}
+
+// Reports the average frame rate every couple of seconds so Auto quality can adapt
+const FPS_SAMPLE_SECONDS = 2;
+
+function FrameRateMonitor() {
+  const sample = useRef({ frames: 0, elapsed: 0 });
+
+  useFrame((_, delta) => {
+    // A long gap means the tab was hidden or the main thread stalled, not that the GPU is slow
+    if (delta > 0.5) {
+      sample.current = { frames: 0, elapsed: 0 };
+      return;
+    }
+    sample.current.frames += 1;
+    sample.current.elapsed += delta;
+    if (sample.current.elapsed >= FPS_SAMPLE_SECONDS) {
+      renderQuality.reportFrameRate(sample.current.frames / sample.current.elapsed);
+      sample.current = { frames: 0, elapsed: 0 };
+    }
+  });
+
+  return null;
+}
+
+// Full FBM Shader with 4-color neon palette; octave count follows the quality tier and the
+// palette follows the time of day over the land
+const BackgroundSphere = ({ octaves, palette = DAY_PALETTE }: { octaves: number; palette?: SunLighting['palette'] }) => {
   const materialRef = useRef<THREE.ShaderMaterial>(null);
 
   const vertexShader = `
@@ -59,8 +196,10 @@ const BackgroundSphere = () => {
   const fragmentShader = `
     uniform float time;
     uniform vec2 resolution;
-    
-    #define NUM_OCTAVES 6
+    uniform vec3 c1;
+    uniform vec3 c2;
+    uniform vec3 c3;
+    uniform vec3 c4;
 
     float random(vec2 pos) {
         return fract(sin(dot(pos.xy, vec2(13.9898, 78.233))) * 43758.5453123);
@@ -95,14 +234,8 @@ const BackgroundSphere = () => {
         // Universal Screen-Space coordinates
         vec2 p = (gl_FragCoord.xy * 2.0 - resolution.xy) / min(resolution.x, resolution.y);
         
-        // Deep Indigo Base
-        vec3 c1 = vec3(0.2, 0.0, 0.4);
-        // Electric Cyan Highlight
-        vec3 c2 = vec3(0.0, 0.8, 1.0);
-        // Hot Magenta Highlight (Desaturated slightly for realism)
-        vec3 c3 = vec3(0.9, 0.1, 0.4);
-        // Pure Void Black (Crucial for contrast)
-        vec3 c4 = vec3(0.0, 0.0, 0.05);
+        // c1 Deep Indigo Base, c2 Electric Cyan Highlight, c3 Hot Magenta Highlight,
+        // c4 Pure Void Black (Crucial for contrast); see DAY_PALETTE / NIGHT_PALETTE
 
         float time2 = time * 0.2; // Slow down for elegance
 
@@ -128,14 +261,28 @@ const BackgroundSphere = () => {
     }
   `;
 
+  const defines = useMemo(() => ({ NUM_OCTAVES: octaves }), [octaves]);
+
   const uniforms = useMemo(() => ({
     time: { value: 0 },
-    resolution: { value: new THREE.Vector2(1, 1) }
+    resolution: { value: new THREE.Vector2(1, 1) },
+    c1: { value: new THREE.Vector3() },
+    c2: { value: new THREE.Vector3() },
+    c3: { value: new THREE.Vector3() },
+    c4: { value: new THREE.Vector3() }
   }), []);
 
+  useEffect(() => {
+    uniforms.c1.value.fromArray(palette[0]);
+    uniforms.c2.value.fromArray(palette[1]);
+    uniforms.c3.value.fromArray(palette[2]);
+    uniforms.c4.value.fromArray(palette[3]);
+  }, [uniforms, palette]);
+
   useFrame((state) => {
     if (materialRef.current) {
-      materialRef.current.uniforms.time.value = state.clock.getElapsedTime();
+      // Shared clock, so the background slows down with the page backgrounds while idle
+      materialRef.current.uniforms.time.value = frameScheduler.now();
       const canvas = state.gl.domElement;
       materialRef.current.uniforms.resolution.value.set(canvas.width, canvas.height);
     }
@@ -144,8 +291,11 @@ const BackgroundSphere = () => {
   return (
     <mesh frustumCulled={false} renderOrder={-1000}>
       <planeGeometry args={[2, 2]} />
+      {/* Keyed so a new octave count recompiles the program */}
       <shaderMaterial
+        key={octaves}
         ref={materialRef}
+        defines={defines}
         vertexShader={vertexShader}
         fragmentShader={fragmentShader}
         uniforms={uniforms}
@@ -157,6 +307,14 @@ const BackgroundSphere = () => {
   );
 };
 
+// Read through the model cache like the land model, so a returning visitor is lit offline too
+function CachedEnvironment({ intensity }: { intensity: number }) {
+  use(prepareCachedFile(ENVIRONMENT_MAP_URL));
+  const map = useLoader(CachedRGBELoader, ENVIRONMENT_MAP_URL);
+  map.mapping = THREE.EquirectangularReflectionMapping;
+  return <Environment map={map} environmentIntensity={intensity} blur={0} />;
+}
+
 function SceneSetup() {
   const { scene } = useThree();
 
@@ -173,7 +331,7 @@ function SceneSetup() {
   return null;
 }
 
-function BloomEffect() {
+function BloomEffect({ resolutionScale }: { resolutionScale: number }) {
   const { gl, scene, camera, size } = useThree();
   const composerRef = useRef<EffectComposer | null>(null);
   const renderPassRef = useRef<RenderPass | null>(null);
@@ -195,7 +353,7 @@ function BloomEffect() {
 
     // Bloom configuration: threshold=2.1, luminanceSmoothing=0.5, intensity=0.32, radius=0.7
     const bloomPass = new UnrealBloomPass(
-      new THREE.Vector2(window.innerWidth / 2, window.innerHeight / 2),
+      new THREE.Vector2(size.width * resolutionScale, size.height * resolutionScale),
       0.32, // intensity
       0.7,  // radius
       2.1   // threshold
@@ -228,19 +386,19 @@ function BloomEffect() {
       }
       console.log('[Bloom] Composer disposed');
     };
-  }, [gl, scene, camera, size.width, size.height]);
+  }, [gl, scene, camera, size.width, size.height, resolutionScale]);
 
   // Handle resize
   useEffect(() => {
     if (composerRef.current) {
       composerRef.current.setSize(size.width, size.height);
       
-      // Update bloom pass resolution to 50% of new size
+      // Update bloom pass resolution to the tier's share of the new size
       if (bloomPassRef.current) {
-        bloomPassRef.current.resolution.set(size.width / 2, size.height / 2);
+        bloomPassRef.current.resolution.set(size.width * resolutionScale, size.height * resolutionScale);
       }
     }
-  }, [size]);
+  }, [size, resolutionScale]);
 
   // Clean render loop - only composer.render(), no manual clearing
   useFrame(() => {
@@ -252,26 +410,94 @@ function BloomEffect() {
   return null;
 }
 
-export default function CubeVisualization({ biome }: CubeVisualizationProps) {
-  const modelUrl = useMemo(() => {
-    if (!biome) return null;
-    const url = BIOME_MODEL_MAP[biome];
-    console.log('[Biome Check]', biome);
-    console.log('[Model URL]', url);
-    return url || null;
-  }, [biome]);
+export default function CubeVisualization({ biome, modifiers = [], land }: CubeVisualizationProps) {
+  const { t } = useI18n();
+  const candidates = useBiomeModelCandidates(biome);
+  const servedModels = useBiomeModelReport();
+  const { settings: quality } = useRenderQuality();
+  // Hours added to the clock while previewing other times of day; 0 follows real time
+  const [sunOffsetHours, setSunOffsetHours] = useState(0);
+  const sun = useSunLighting(land?.coordinates, sunOffsetHours);
+  const night = sun?.lighting.night ?? 0;
+
+  // Candidates that failed to load are skipped in favour of the next source
+  const [failedUrls, setFailedUrls] = useState<ReadonlySet<string>>(new Set());
+  const candidate = candidates.find((option) => !failedUrls.has(option.url));
+  const modelUrl = candidate?.url ?? null;
+  const served = biome ? servedModels[biome] : undefined;
+
+  // Bounds of the loaded land model, used to place the modifier orbit
+  const [landBounds, setLandBounds] = useState<THREE.Box3 | null>(null);
+  const handleBounds = useCallback(
+    (bounds: THREE.Box3) => {
+      setLandBounds(bounds);
+      if (biome && candidate) biomeModelReport.record(biome, candidate);
+    },
+    [biome, candidate]
+  );
+  const handleModelError = useCallback(() => {
+    if (modelUrl) setFailedUrls((previous) => new Set(previous).add(modelUrl));
+  }, [modelUrl]);
+
+  const captureRef = useRef<FrameCaptureFn | null>(null);
+  const captureFrame = useCallback(
+    () => captureRef.current?.() ?? Promise.reject(new Error('3D scene is not ready')),
+    []
+  );
 
-  // Fullscreen state and container ref
+  // Turntable recording in progress; the canvas is resized to the requested resolution meanwhile
+  const [turntable, setTurntable] = useState<{
+    options: TurntableOptions;
+    resolve: (video: Blob) => void;
+    reject: (error: Error) => void;
+  } | null>(null);
+  const [turntableProgress, setTurntableProgress] = useState(0);
+  const recordTurntable = useCallback(
+    (options: TurntableOptions) =>
+      new Promise<Blob>((resolve, reject) => {
+        setTurntableProgress(0);
+        setTurntable({ options, resolve, reject });
+      }),
+    []
+  );
+  const finishTurntable = useCallback(
+    (outcome: { video: Blob } | { error: Error }) => {
+      if (!turntable) return;
+      if ('video' in outcome) turntable.resolve(outcome.video);
+      else turntable.reject(outcome.error);
+      setTurntable(null);
+    },
+    [turntable]
+  );
+
+  // Context loss remounts the Canvas under a new key; without WebGL the 2D view stands in
+  const { generation, restoring, fallback, contextLost, contextRestored, creationFailed, retry } = useWebGLRecovery();
+  // Only a renderer that never came up means WebGL cannot start; errors after that keep the
+  // boundary's own retry instead of the 2D view
+  const createdGeneration = useRef<number | null>(null);
+  const handleSceneError = () => {
+    if (createdGeneration.current !== generation) creationFailed();
+  };
+  const handleContextLost = () => {
+    contextLost();
+    // Reparse the model on rebuild rather than reuse objects uploaded to the lost context
+    if (modelUrl) useLoader.clear(CachedGLTFLoader, modelUrl);
+    finishTurntable({ error: new Error('WebGL context lost') });
+  };
+
+  // Fullscreen state and container; kept as state because the 2D fallback unmounts the container
   const [isFullscreen, setIsFullscreen] = useState(false);
-  const containerRef = useRef<HTMLDivElement>(null);
+  const [container, setContainer] = useState<HTMLDivElement | null>(null);
+  const schedule = useFrameSchedule();
+  const inView = useInView(container);
 
   // Fullscreen toggle handler
   const toggleFullscreen = async () => {
-    if (!containerRef.current) return;
+    if (!container) return;
 
     try {
       if (!document.fullscreenElement) {
-        await containerRef.current.requestFullscreen();
+        await container.requestFullscreen();
       } else {
         await document.exitFullscreen();
       }
@@ -292,6 +518,10 @@ export default function CubeVisualization({ biome }: CubeVisualizationProps) {
     };
   }, []);
 
+  if (fallback) {
+    return <LandSceneFallback reason={fallback} biome={biome} land={land} modifiers={modifiers} onRetry={retry} />;
+  }
+
   if (!modelUrl) {
     console.warn('Biome missing for CubeVisualization, showing fallback');
     return (
@@ -302,62 +532,155 @@ export default function CubeVisualization({ biome }: CubeVisualizationProps) {
   }
 
   return (
-    <div ref={containerRef} className="relative w-full h-full group">
-      <Canvas
-        camera={{ position: [0, 0, 6], fov: 45 }}
-        dpr={[1, 2]}
-        gl={{
-          antialias: true,
-          powerPreference: 'high-performance',
-          alpha: false,
-          ...(({ dithering: true } as any))
-        }}
-        onCreated={({ gl }) => {
-          // Tone mapping exposure set to 1.0
-          gl.toneMapping = THREE.ACESFilmicToneMapping;
-          gl.outputColorSpace = THREE.SRGBColorSpace;
-          gl.toneMappingExposure = 1.0;
+    <div ref={setContainer} className="relative w-full h-full group overflow-hidden">
+      <ThreeErrorBoundary key={generation} onError={handleSceneError}>
+        <Canvas
+          // Recording needs every frame regardless of idleness; otherwise frames are on demand
+          frameloop={turntable ? 'always' : 'demand'}
+          camera={{ position: [0, 0, 6], fov: 45 }}
+          dpr={turntable ? 1 : [1, quality.maxPixelRatio]}
+          style={turntable ? { width: turntable.options.width, height: turntable.options.height } : undefined}
+          gl={{
+            antialias: true,
+            powerPreference: 'high-performance',
+            alpha: false,
+            ...(({ dithering: true } as any))
+          }}
+          onCreated={({ gl }) => {
+            createdGeneration.current = generation;
+            // Tone mapping exposure set to 1.0
+            gl.toneMapping = THREE.ACESFilmicToneMapping;
+            gl.outputColorSpace = THREE.SRGBColorSpace;
+            gl.toneMappingExposure = 1.0;
           
-          // Ensure opaque clear alpha is set (default behavior)
-          gl.setClearAlpha(1);
+            // Ensure opaque clear alpha is set (default behavior)
+            gl.setClearAlpha(1);
           
-          console.log('[Renderer] Initialized with toneMappingExposure=1.0 and dithering=true');
-        }}
-      >
-        <Suspense fallback={null}>
-          {/* Apply null background and Deep Space fog to scene */}
-          <SceneSetup />
+            console.log('[Renderer] Initialized with toneMappingExposure=1.0 and dithering=true');
+          }}
+        >
+          <ContextLossWatcher onLost={handleContextLost} onRestored={contextRestored} />
+          <KTX2LoaderOwner />
+          <FrameCapture captureRef={captureRef} />
+          {inView && !turntable && <FrameDriver />}
+          <Suspense fallback={null}>
+            {/* Apply null background and Deep Space fog to scene */}
+            <SceneSetup />
           
-          {/* Screen-Space Quad with full FBM 4-color neon shader */}
-          <BackgroundSphere />
+            {/* Screen-Space Quad with FBM 4-color neon shader */}
+            <BackgroundSphere octaves={quality.fbmOctaves} palette={sun?.lighting.palette} />
+            {/* Neither a fixed-resolution recording nor the idle frame cap says anything about the GPU */}
+            {!turntable && !schedule.idle && <FrameRateMonitor />}
           
-          <LandModel modelUrl={modelUrl} biome={biome} />
+            <SceneErrorBoundary key={modelUrl} label={modelUrl} onError={handleModelError}>
+              {candidate?.source === 'procedural' ? (
+                <ProceduralTerrain
+                  biome={biome ?? 'DEFAULT'}
+                  seed={terrainSeed(biome ?? 'DEFAULT', land?.landId, land?.coordinates)}
+                  onBounds={handleBounds}
+                />
+              ) : (
+                <LandModel modelUrl={modelUrl} biome={biome} onBounds={handleBounds} />
+              )}
+            </SceneErrorBoundary>
+            {landBounds && modifiers.length > 0 && <ModifierOrbit modifiers={modifiers} landBounds={landBounds} />}
           
-          {/* Artist Workshop HDRI Lighting Configuration */}
-          <Environment 
-            files="https://dl.polyhaven.org/file/ph-assets/HDRIs/hdr/1k/artist_workshop_1k.hdr" 
-            environmentIntensity={1.0} 
-            blur={0} 
-          />
-          <hemisphereLight 
-            intensity={0.4} 
-            color="#f7f7f7" 
-            groundColor="#3a3a3a" 
-          />
-          <KeyLightSync />
-          <directionalLight
-            name="SunLight"
-            position={[-10, 20, -15]}
-            intensity={Math.PI * 0.5}
-            color="#ffe4b5"
-          />
+            {/* Artist Workshop HDRI Lighting Configuration; the land renders without it if it fails */}
+            <SceneErrorBoundary label={ENVIRONMENT_MAP_URL}>
+              <Suspense fallback={null}>
+                <CachedEnvironment intensity={1.0 - 0.65 * night} />
+              </Suspense>
+            </SceneErrorBoundary>
+            <hemisphereLight 
+              intensity={sun?.lighting.ambientIntensity ?? 0.4} 
+              color="#f7f7f7" 
+              groundColor="#3a3a3a" 
+            />
+            {/* Without coordinates the key light keeps following the camera */}
+            {sun ? <SolarKeyLight lighting={sun.lighting} /> : <KeyLightSync />}
+            <directionalLight
+              name="SunLight"
+              position={[-10, 20, -15]}
+              intensity={Math.PI * 0.5 * (1 - 0.6 * night)}
+              color="#ffe4b5"
+            />
           
-          <OrbitControls makeDefault />
+            <OrbitControls makeDefault />
+            {turntable && (
+              <TurntableRecorder
+                options={turntable.options}
+                onProgress={setTurntableProgress}
+                onComplete={(video) => finishTurntable({ video })}
+                onError={(error) => finishTurntable({ error })}
+              />
+            )}
           
-          {/* Native UnrealBloomPass with threshold=2.1, luminanceSmoothing=0.5, intensity=0.32, radius=0.7 */}
-          <BloomEffect />
-        </Suspense>
-      </Canvas>
+            {/* Native UnrealBloomPass with threshold=2.1, luminanceSmoothing=0.5, intensity=0.32, radius=0.7 */}
+            {quality.bloom && <BloomEffect resolutionScale={quality.bloomResolution} />}
+          </Suspense>
+        </Canvas>
+      </ThreeErrorBoundary>
+
+      {restoring && (
+        <div className="absolute inset-0 z-[60] flex items-center justify-center gap-2 bg-black/60 font-jetbrains text-sm text-white/80">
+          <Loader2 className="w-4 h-4 animate-spin text-primary" />
+          {t('land.scene.restoring')}
+        </div>
+      )}
+
+      {sun && land && (
+        <SunTimeScrubber
+          date={sun.date}
+          lon={land.coordinates.lon}
+          elevation={sun.position.elevation}
+          offsetHours={sunOffsetHours}
+          onOffsetChange={setSunOffsetHours}
+          className="absolute top-4 left-4 z-50 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-all"
+        />
+      )}
+
+      {served && served.url === modelUrl && (
+        <div className="absolute bottom-4 left-4 z-40 px-2 py-1 rounded-md bg-black/40 backdrop-blur-md border border-white/10 text-white/60 text-xs font-jetbrains pointer-events-none">
+          {t('land.model.source', { source: t(`land.model.sources.${served.source}`) })}
+        </div>
+      )}
+
+      {land && (
+        <ShareCardDialog
+          land={land}
+          captureFrame={captureFrame}
+          className="absolute top-4 right-4 z-50 opacity-0 group-hover:opacity-100 focus:opacity-100"
+        />
+      )}
+      {land && (
+        <TurntableDialog
+          record={recordTurntable}
+          fileName={`cybergenesis-land-${land.landId}.webm`}
+          className="absolute top-4 right-16 z-50 opacity-0 group-hover:opacity-100 focus:opacity-100"
+        />
+      )}
+
+      {turntable && (
+        <div className="absolute inset-0 z-[60] flex items-end justify-center bg-black/30 p-6">
+          <div className="w-full max-w-sm space-y-3 rounded-xl border border-white/10 bg-black/70 p-4 backdrop-blur-md">
+            <div className="flex items-center justify-between font-jetbrains text-sm text-white">
+              <span className="flex items-center gap-2">
+                <span className="h-2 w-2 animate-pulse rounded-full bg-red-500" />
+                {t('turntable.recording', { percent: Math.round(turntableProgress * 100) })}
+              </span>
+              <button
+                onClick={() => finishTurntable({ error: new DOMException('Recording cancelled', 'AbortError') })}
+                className="text-white/60 hover:text-white"
+              >
+                {t('turntable.cancel')}
+              </button>
+            </div>
+            <Progress value={turntableProgress * 100} />
+          </div>
+        </div>
+      )}
+
+      <QualitySelector className="absolute bottom-4 right-16 z-50 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-all" />
 
       {/* Glassmorphism fullscreen toggle button */}
       <button
@@ -7,7 +7,10 @@ import { BUILD_INFO } from '@/lib/buildInfo';
 import { useActor } from '@/hooks/useActor';
 import { useAssetActor } from '@/hooks/useAssetActor';
 import { useQueryClient } from '@tanstack/react-query';
+import { loadCanisterRegistry } from '../config';
+import { CanisterConfigError, type CanisterRegistry } from '../config/canisters';
 import { toast } from 'sonner';
+import { t } from '@/i18n';
 
 interface CanisterHealth {
   name: string;
@@ -23,12 +26,12 @@ export function DeploymentVerification() {
   const [canisters, setCanisters] = useState<CanisterHealth[]>([
     {
       name: 'LandCanister',
-      canisterId: 'br5f7-7uaaa-aaaaa-qaaca-cai',
+      canisterId: '',
       status: 'checking',
     },
     {
       name: 'AssetCanister',
-      canisterId: 'bd3sg-teaaa-aaaaa-qaaba-cai',
+      canisterId: '',
       status: 'checking',
     },
   ]);
@@ -37,25 +40,36 @@ export function DeploymentVerification() {
   const checkHealth = async (silent = false) => {
     if (!silent) {
       setIsRefreshing(true);
-      toast.info('🔄 Refreshing canister health status...');
+      toast.info(t('deployment.toast.refreshing'));
     }
 
     const updatedCanisters: CanisterHealth[] = [];
 
+    let registry: CanisterRegistry;
+    try {
+      registry = await loadCanisterRegistry();
+    } catch (error) {
+      const message = error instanceof CanisterConfigError ? error.issues.join(' ') : String(error);
+      setCanisters((previous) => previous.map((canister) => ({ ...canister, status: 'offline', message })));
+      setIsRefreshing(false);
+      return;
+    }
+    const canisterIds = registry.canisters;
+
     // Check LandCanister
     try {
       if (landActor) {
         await landActor.getCallerUserRole();
         updatedCanisters.push({
           name: 'LandCanister',
-          canisterId: 'br5f7-7uaaa-aaaaa-qaaca-cai',
+          canisterId: canisterIds.land,
           status: 'healthy',
           message: 'Operational',
         });
       } else {
         updatedCanisters.push({
           name: 'LandCanister',
-          canisterId: 'br5f7-7uaaa-aaaaa-qaaca-cai',
+          canisterId: canisterIds.land,
           status: 'checking',
           message: 'Initializing...',
         });
@@ -63,7 +77,7 @@ export function DeploymentVerification() {
     } catch (error) {
       updatedCanisters.push({
         name: 'LandCanister',
-        canisterId: 'br5f7-7uaaa-aaaaa-qaaca-cai',
+        canisterId: canisterIds.land,
         status: 'offline',
         message: error instanceof Error ? error.message : 'Connection failed',
       });
@@ -75,14 +89,14 @@ export function DeploymentVerification() {
         await assetActor.listAssets();
         updatedCanisters.push({
           name: 'AssetCanister',
-          canisterId: 'bd3sg-teaaa-aaaaa-qaaba-cai',
+          canisterId: canisterIds.asset,
           status: 'healthy',
           message: 'Operational',
         });
       } else {
         updatedCanisters.push({
           name: 'AssetCanister',
-          canisterId: 'bd3sg-teaaa-aaaaa-qaaba-cai',
+          canisterId: canisterIds.asset,
           status: 'checking',
           message: 'Initializing...',
         });
@@ -90,7 +104,7 @@ export function DeploymentVerification() {
     } catch (error) {
       updatedCanisters.push({
         name: 'AssetCanister',
-        canisterId: 'bd3sg-teaaa-aaaaa-qaaba-cai',
+        canisterId: canisterIds.asset,
         status: 'offline',
         message: error instanceof Error ? error.message : 'Connection failed',
       });
@@ -104,9 +118,9 @@ export function DeploymentVerification() {
       
       const allHealthy = updatedCanisters.every(c => c.status === 'healthy');
       if (allHealthy) {
-        toast.success('✅ All canisters are HEALTHY');
+        toast.success(t('deployment.toast.healthy'));
       } else {
-        toast.warning('⚠️ Some canisters have issues');
+        toast.warning(t('deployment.toast.issues'));
       }
       setIsRefreshing(false);
     }
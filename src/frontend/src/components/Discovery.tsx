@@ -1,123 +1,78 @@
-import React, { useState } from 'react';
+import { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { useGetLandData, useGetTokenBalance, useDebugTokenBalance } from '@/hooks/useQueries';
-import { useActor } from '@/hooks/useActor';
-import { formatTokenBalance } from '@/lib/tokenUtils';
-import { Loader2, Package, Clock, Zap, Gift } from 'lucide-react';
+import {
+  useDebugTokenBalance,
+  useDiscoverLootCache,
+  useGetLandData,
+  useGetMyLootCaches,
+  useGetTokenBalance,
+} from '@/hooks/useQueries';
+import { useI18n } from '@/hooks/useI18n';
+import { useLiveCharge } from '@/hooks/useLiveCharge';
+import { DISCOVERY_TIERS, ECONOMY, type DiscoveryTier } from '@/config/economy';
+import { cacheTierColor } from '@/lib/lootCache';
+import CacheTimeline from './CacheTimeline';
+import { tierName } from '@/i18n';
+import { Loader2, Zap } from 'lucide-react';
 import { toast } from 'sonner';
-import { useQueryClient } from '@tanstack/react-query';
-import type { LootCache, DiscoverCacheResult, ModifierInstance } from '@/backend';
 
 export default function Discovery() {
-  const { actor } = useActor();
-  const queryClient = useQueryClient();
   const { data: lands, isLoading: landsLoading } = useGetLandData();
   const { data: tokenBalance, isLoading: balanceLoading, error: balanceError } = useGetTokenBalance();
+  const { data: caches = [], isLoading: cachesLoading } = useGetMyLootCaches();
   const debugBalanceMutation = useDebugTokenBalance();
+  const discoverMutation = useDiscoverLootCache();
+  const { t, formatCbrAmount, formatDuration, formatNumber } = useI18n();
 
-  const [caches, setCaches] = useState<LootCache[]>([]);
-  const [cachesLoading, setCachesLoading] = useState(false);
   const [discoveringTier, setDiscoveringTier] = useState<number | null>(null);
-  const [processingCacheId, setProcessingCacheId] = useState<bigint | null>(null);
 
   const selectedLand = lands && lands[0];
+  const liveCharge = useLiveCharge(selectedLand);
 
-  React.useEffect(() => {
-    if (actor) {
-      loadCaches();
-    }
-  }, [actor]);
-
-  const loadCaches = async () => {
-    if (!actor) return;
-    setCachesLoading(true);
-    try {
-      const result = await actor.getMyLootCaches();
-      setCaches(result);
-    } catch (error) {
-      console.error('Error loading caches:', error);
-    } finally {
-      setCachesLoading(false);
-    }
-  };
-
-  const handleDiscoverCache = async (tier: number) => {
-    if (!actor || !selectedLand) {
-      toast.error('Актор или земля недоступны');
+  const handleDiscoverCache = async (tier: DiscoveryTier) => {
+    if (!selectedLand) {
+      toast.error(t('discovery.toast.actorOrLandUnavailable'));
       return;
     }
 
-    const tierCosts = {
-      1: { cbr: BigInt(10000000000), charge: 200 },
-      2: { cbr: BigInt(25000000000), charge: 500 },
-      3: { cbr: BigInt(50000000000), charge: 1000 },
-    };
-
-    const cost = tierCosts[tier as keyof typeof tierCosts];
+    const cost = ECONOMY.discovery[tier];
 
-    if (!tokenBalance || tokenBalance < cost.cbr) {
-      toast.error(`Недостаточно CBR. Требуется: ${formatTokenBalance(cost.cbr)} CBR`);
+    if (cost.cbr > BigInt(0) && (tokenBalance ?? BigInt(0)) < cost.cbr) {
+      toast.error(t('discovery.toast.insufficientCbr', { amount: formatCbrAmount(cost.cbr) }));
       return;
     }
 
-    if (selectedLand.cycleCharge < cost.charge) {
-      toast.error(`Недостаточно заряда. Требуется: ${cost.charge}, доступно: ${selectedLand.cycleCharge}`);
+    if (liveCharge.charge < cost.charge) {
+      toast.error(t('common.toast.insufficientCharge', { required: cost.charge, current: liveCharge.charge }));
       return;
     }
 
     setDiscoveringTier(tier);
 
     try {
-      console.log('Discovering cache tier:', tier);
-      const result: DiscoverCacheResult = await actor.discoverLootCache(BigInt(tier));
-      console.log('Discovery result:', result);
-
+      const result = await discoverMutation.mutateAsync(tier);
       if (result.__kind__ === 'success') {
-        toast.success(`Кэш уровня ${tier} обнаружен!`);
-        await loadCaches();
-        await new Promise((resolve) => setTimeout(resolve, 500));
-        queryClient.invalidateQueries({ queryKey: ['landData'] });
-        queryClient.invalidateQueries({ queryKey: ['tokenBalance'] });
+        toast.success(t('discovery.toast.discovered', { tier: tierName(tier) }));
       } else if (result.__kind__ === 'insufficientCharge') {
-        toast.error(`Недостаточно заряда. Требуется: ${result.insufficientCharge.required}, доступно: ${result.insufficientCharge.current}`);
+        toast.error(
+          t('common.toast.insufficientCharge', {
+            required: result.insufficientCharge.required,
+            current: result.insufficientCharge.current,
+          })
+        );
       } else if (result.__kind__ === 'insufficientTokens') {
-        toast.error(`Недостаточно токенов. Требуется: ${formatTokenBalance(result.insufficientTokens.required)} CBR`);
+        toast.error(t('common.toast.insufficientTokens', { amount: formatCbrAmount(result.insufficientTokens.required) }));
       } else if (result.__kind__ === 'paymentFailed') {
-        toast.error(`Ошибка оплаты: ${result.paymentFailed}`);
+        toast.error(t('discovery.toast.paymentFailed', { reason: result.paymentFailed }));
       }
-    } catch (error: any) {
+    } catch (error) {
       console.error('Discovery error:', error);
-      toast.error('Ошибка обнаружения кэша: ' + (error.message || 'Неизвестная ошибка'));
     } finally {
       setDiscoveringTier(null);
     }
   };
 
-  const handleProcessCache = async (cacheId: bigint) => {
-    if (!actor) {
-      toast.error('Актор недоступен');
-      return;
-    }
-
-    setProcessingCacheId(cacheId);
-
-    try {
-      console.log('Processing cache:', cacheId);
-      const result: ModifierInstance = await actor.processCache(cacheId);
-      console.log('Process result:', result);
-
-      toast.success(`Получен модификатор: ${result.modifierType} (Уровень ${result.rarity_tier})`);
-      await loadCaches();
-      queryClient.invalidateQueries({ queryKey: ['modifierInventory'] });
-    } catch (error: any) {
-      console.error('Process cache error:', error);
-      toast.error('Ошибка обработки кэша: ' + (error.message || 'Неизвестная ошибка'));
-    } finally {
-      setProcessingCacheId(null);
-    }
-  };
-
   const handleDebugBalance = async () => {
     try {
       await debugBalanceMutation.mutateAsync();
@@ -126,49 +81,11 @@ export default function Discovery() {
     }
   };
 
-  const getTierColor = (tier: number) => {
-    switch (tier) {
-      case 1:
-        return 'text-gray-400 border-gray-400/30';
-      case 2:
-        return 'text-blue-400 border-blue-400/30';
-      case 3:
-        return 'text-purple-400 border-purple-400/30';
-      default:
-        return 'text-white border-white/30';
-    }
-  };
-
-  const getTierName = (tier: number) => {
-    switch (tier) {
-      case 1:
-        return 'Обычный';
-      case 2:
-        return 'Редкий';
-      case 3:
-        return 'Легендарный';
-      default:
-        return 'Неизвестный';
-    }
-  };
-
-  const canOpenCache = (cache: LootCache) => {
-    const fourHours = 4 * 60 * 60 * 1000000000;
-    const timeSinceDiscovery = Date.now() * 1000000 - Number(cache.discovered_at);
-    return timeSinceDiscovery >= fourHours;
-  };
-
-  const getTimeRemaining = (cache: LootCache) => {
-    const fourHours = 4 * 60 * 60 * 1000000000;
-    const timeSinceDiscovery = Date.now() * 1000000 - Number(cache.discovered_at);
-    const remaining = fourHours - timeSinceDiscovery;
-
-    if (remaining <= 0) return 'Готов к открытию';
-
-    const hours = Math.floor(remaining / (60 * 60 * 1000000000));
-    const minutes = Math.floor((remaining % (60 * 60 * 1000000000)) / (60 * 1000000000));
-
-    return `${hours}ч ${minutes}м`;
+  const getTierChargeStatus = (charge: number) => {
+    const remaining = liveCharge.msUntil(charge);
+    if (remaining === null) return t('discovery.chargeOverCap');
+    if (remaining === 0) return t('discovery.chargeReady');
+    return t('discovery.chargeIn', { time: formatDuration(remaining, false) });
   };
 
   if (landsLoading) {
@@ -186,18 +103,18 @@ export default function Discovery() {
         <CardHeader>
           <CardTitle className="text-[#00ff41] flex items-center gap-2">
             <Zap className="w-5 h-5" />
-            БАЛАНС CBR
+            {t('common.cbrBalance')}
           </CardTitle>
         </CardHeader>
         <CardContent>
           {balanceLoading ? (
             <div className="flex items-center gap-2">
               <Loader2 className="w-4 h-4 animate-spin text-[#00ff41]" />
-              <span className="text-white/70">Загрузка баланса...</span>
+              <span className="text-white/70">{t('common.loadingBalance')}</span>
             </div>
           ) : balanceError ? (
             <div className="space-y-2">
-              <p className="text-red-400">Баланс недоступен</p>
+              <p className="text-red-400">{t('common.balanceUnavailable')}</p>
               <Button
                 onClick={handleDebugBalance}
                 disabled={debugBalanceMutation.isPending}
@@ -208,20 +125,20 @@ export default function Discovery() {
                 {debugBalanceMutation.isPending ? (
                   <>
                     <Loader2 className="w-4 h-4 animate-spin mr-2" />
-                    Обновление...
+                    {t('common.refreshing')}
                   </>
                 ) : (
-                  'Обновить баланс'
+                  t('common.refreshBalance')
                 )}
               </Button>
             </div>
           ) : (
             <div className="space-y-2">
               <p className="text-3xl font-bold text-white">
-                {formatTokenBalance(tokenBalance || BigInt(0))} CBR
+                {t('common.cbrAmount', { amount: formatCbrAmount(tokenBalance || BigInt(0)) })}
               </p>
               <p className="text-sm text-white/50">
-                Raw: {(tokenBalance || BigInt(0)).toString()} e8s
+                {t('common.rawE8s', { amount: (tokenBalance || BigInt(0)).toString() })}
               </p>
               <Button
                 onClick={handleDebugBalance}
@@ -233,10 +150,10 @@ export default function Discovery() {
                 {debugBalanceMutation.isPending ? (
                   <>
                     <Loader2 className="w-4 h-4 animate-spin mr-2" />
-                    Обновление...
+                    {t('common.refreshing')}
                   </>
                 ) : (
-                  'Обновить баланс'
+                  t('common.refreshBalance')
                 )}
               </Button>
             </div>
@@ -245,28 +162,38 @@ export default function Discovery() {
       </Card>
 
       {/* Discovery Tiers */}
+      {selectedLand && (
+        <p className="text-white/70 text-sm flex items-center gap-2">
+          <Zap className="w-4 h-4 text-[#00d4ff]" />
+          {t('discovery.liveCharge', { current: formatNumber(liveCharge.charge), cap: formatNumber(liveCharge.cap) })}
+        </p>
+      )}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-        {[1, 2, 3].map((tier) => (
+        {DISCOVERY_TIERS.map((tier) => (
           <Card
             key={tier}
-            className={`bg-black/40 backdrop-blur-md border ${getTierColor(tier)} shadow-[0_0_15px_rgba(0,255,65,0.2)]`}
+            className={`bg-black/40 backdrop-blur-md border ${cacheTierColor(tier)} shadow-[0_0_15px_rgba(0,255,65,0.2)]`}
           >
             <CardHeader>
-              <CardTitle className={getTierColor(tier).split(' ')[0]}>
-                {getTierName(tier)} Кэш
+              <CardTitle className={cacheTierColor(tier).split(' ')[0]}>
+                {t('discovery.tierCache', { tier: tierName(tier) })}
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="space-y-2">
                 <p className="text-white/70 text-sm">
-                  Стоимость: <span className="text-[#00ff41] font-bold">{tier === 1 ? '100' : tier === 2 ? '250' : '500'} CBR</span>
+                  {t('discovery.cost')}{' '}
+                  <span className="text-[#00ff41] font-bold">
+                    {t('common.cbrAmount', { amount: formatCbrAmount(ECONOMY.discovery[tier].cbr, 0) })}
+                  </span>
                 </p>
                 <p className="text-white/70 text-sm">
-                  Заряд: <span className="text-[#00d4ff] font-bold">{tier === 1 ? '200' : tier === 2 ? '500' : '1000'}</span>
-                </p>
-                <p className="text-white/70 text-sm">
-                  Шанс LandToken: <span className="text-purple-400 font-bold">{tier === 1 ? '0.05%' : tier === 2 ? '0.2%' : '0.5%'}</span>
+                  {t('discovery.charge')}{' '}
+                  <span className="text-[#00d4ff] font-bold">{formatNumber(ECONOMY.discovery[tier].charge)}</span>
                 </p>
+                {selectedLand && (
+                  <p className="text-white/50 text-xs">{getTierChargeStatus(ECONOMY.discovery[tier].charge)}</p>
+                )}
               </div>
               <Button
                 onClick={() => handleDiscoverCache(tier)}
@@ -282,10 +209,10 @@ export default function Discovery() {
                 {discoveringTier === tier ? (
                   <>
                     <Loader2 className="w-4 h-4 animate-spin mr-2" />
-                    Обнаружение...
+                    {t('discovery.discovering')}
                   </>
                 ) : (
-                  'ОБНАРУЖИТЬ КЭШ'
+                  t('discovery.discover')
                 )}
               </Button>
             </CardContent>
@@ -293,70 +220,7 @@ export default function Discovery() {
         ))}
       </div>
 
-      {/* Inventory */}
-      <Card className="bg-black/40 backdrop-blur-md border-[#00d4ff]/30 shadow-[0_0_15px_rgba(0,212,255,0.3)]">
-        <CardHeader>
-          <CardTitle className="text-[#00d4ff] flex items-center gap-2">
-            <Package className="w-5 h-5" />
-            МОИ КЭШИ
-          </CardTitle>
-        </CardHeader>
-        <CardContent>
-          {cachesLoading ? (
-            <div className="flex items-center gap-2">
-              <Loader2 className="w-4 h-4 animate-spin text-[#00d4ff]" />
-              <span className="text-white/70">Загрузка кэшей...</span>
-            </div>
-          ) : caches.length === 0 ? (
-            <p className="text-white/50 text-center py-4">Нет обнаруженных кэшей</p>
-          ) : (
-            <div className="space-y-3">
-              {caches.map((cache) => (
-                <div
-                  key={cache.cache_id.toString()}
-                  className={`bg-white/5 rounded-lg p-4 border ${getTierColor(Number(cache.tier))}`}
-                >
-                  <div className="flex items-center justify-between mb-3">
-                    <div>
-                      <p className="text-white font-medium">
-                        {getTierName(Number(cache.tier))} Кэш #{cache.cache_id.toString()}
-                      </p>
-                      <p className="text-white/50 text-sm flex items-center gap-1">
-                        <Clock className="w-3 h-3" />
-                        {cache.is_opened ? 'Открыт' : getTimeRemaining(cache)}
-                      </p>
-                    </div>
-                    <div>
-                      {cache.is_opened ? (
-                        <span className="text-green-400 text-sm">✓ Открыт</span>
-                      ) : (
-                        <Button
-                          onClick={() => handleProcessCache(cache.cache_id)}
-                          disabled={!canOpenCache(cache) || processingCacheId !== null}
-                          size="sm"
-                          className="bg-[#00ff41] hover:bg-[#00ff41]/80 text-black font-bold"
-                        >
-                          {processingCacheId === cache.cache_id ? (
-                            <>
-                              <Loader2 className="w-4 h-4 animate-spin mr-2" />
-                              Открытие...
-                            </>
-                          ) : (
-                            <>
-                              <Gift className="w-4 h-4 mr-2" />
-                              ОТКРЫТЬ
-                            </>
-                          )}
-                        </Button>
-                      )}
-                    </div>
-                  </div>
-                </div>
-              ))}
-            </div>
-          )}
-        </CardContent>
-      </Card>
+      <CacheTimeline caches={caches} isLoading={cachesLoading} charge={liveCharge.charge} />
     </div>
   );
 }
@@ -1,4 +1,5 @@
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import { Link } from '@tanstack/react-router';
 import {
   useGetStakedBalance,
   useStakeTokens,
@@ -14,8 +15,14 @@ import { Textarea } from '@/components/ui/textarea';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Coins, Vote, FileText, Loader2, ThumbsUp, ThumbsDown, Info } from 'lucide-react';
 import { toast } from 'sonner';
+import { useI18n } from '../hooks/useI18n';
 
-export default function Governance() {
+interface GovernanceProps {
+  selectedProposalId?: bigint | null;
+}
+
+export default function Governance({ selectedProposalId = null }: GovernanceProps) {
+  const { t, formatCbrAmount } = useI18n();
   const { data: stakedBalance, isLoading: stakingLoading } = useGetStakedBalance();
   const { data: tokenBalance } = useGetTokenBalance();
   const { data: proposals, isLoading: proposalsLoading } = useGetAllActiveProposals();
@@ -27,11 +34,27 @@ export default function Governance() {
   const [proposalTitle, setProposalTitle] = useState('');
   const [proposalDescription, setProposalDescription] = useState('');
   const [votingProposalId, setVotingProposalId] = useState<bigint | null>(null);
+  const [activeSection, setActiveSection] = useState(selectedProposalId !== null ? 'proposals' : 'stake');
+
+  const selectedProposalRef = useRef<HTMLDivElement>(null);
+
+  // /governance/proposal/:id opens the proposals list with that proposal in view.
+  useEffect(() => {
+    if (selectedProposalId !== null) {
+      setActiveSection('proposals');
+    }
+  }, [selectedProposalId]);
+
+  useEffect(() => {
+    if (activeSection === 'proposals' && !proposalsLoading) {
+      selectedProposalRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  }, [selectedProposalId, activeSection, proposalsLoading]);
 
   const handleStake = async () => {
     const amount = parseFloat(stakeAmount);
     if (isNaN(amount) || amount <= 0) {
-      toast.error('Неверная сумма');
+      toast.error(t('governance.toast.invalidAmount'));
       return;
     }
 
@@ -40,39 +63,39 @@ export default function Governance() {
       const result = await stakeTokensMutation.mutateAsync(amountInSmallestUnit);
 
       if (result.__kind__ === 'success') {
-        toast.success('Токены успешно застейканы!', {
-          description: `Новый стейк: ${Number(result.success.newStake) / 100000000} CBR`,
+        toast.success(t('governance.toast.staked'), {
+          description: t('governance.toast.newStake', { amount: formatCbrAmount(result.success.newStake) }),
         });
         setStakeAmount('');
       } else if (result.__kind__ === 'insufficientTokens') {
-        toast.error('Недостаточно токенов', {
-          description: `Требуется: ${Number(result.insufficientTokens.required) / 100000000} CBR`,
+        toast.error(t('governance.toast.insufficientTokens'), {
+          description: t('governance.toast.required', { amount: formatCbrAmount(result.insufficientTokens.required) }),
         });
       } else if (result.__kind__ === 'transferFailed') {
-        toast.error('Перевод не удался', {
+        toast.error(t('governance.toast.transferFailed'), {
           description: result.transferFailed,
         });
       }
     } catch (error) {
-      toast.error('Не удалось застейкать токены', {
-        description: error instanceof Error ? error.message : 'Неизвестная ошибка',
+      toast.error(t('governance.toast.stakeFailed'), {
+        description: error instanceof Error ? error.message : t('common.unknownError'),
       });
     }
   };
 
   const handleCreateProposal = async () => {
     if (!proposalTitle.trim() || !proposalDescription.trim()) {
-      toast.error('Пожалуйста, заполните все поля');
+      toast.error(t('governance.toast.fillAllFields'));
       return;
     }
 
     if (proposalTitle.length > 100) {
-      toast.error('Заголовок должен быть не более 100 символов');
+      toast.error(t('governance.toast.titleTooLong'));
       return;
     }
 
     if (proposalDescription.length > 1000) {
-      toast.error('Описание должно быть не более 1000 символов');
+      toast.error(t('governance.toast.descriptionTooLong'));
       return;
     }
 
@@ -82,14 +105,14 @@ export default function Governance() {
         description: proposalDescription,
       });
 
-      toast.success('Предложение успешно создано!', {
-        description: `ID предложения: ${proposalId}`,
+      toast.success(t('governance.toast.proposalCreated'), {
+        description: t('governance.toast.proposalId', { id: proposalId.toString() }),
       });
       setProposalTitle('');
       setProposalDescription('');
     } catch (error) {
-      toast.error('Не удалось создать предложение', {
-        description: error instanceof Error ? error.message : 'Неизвестная ошибка',
+      toast.error(t('governance.toast.createFailed'), {
+        description: error instanceof Error ? error.message : t('common.unknownError'),
       });
     }
   };
@@ -100,21 +123,21 @@ export default function Governance() {
       const result = await voteMutation.mutateAsync({ proposalId, choice });
 
       if (result.__kind__ === 'success') {
-        toast.success('Голос записан!', {
-          description: `Вес голоса: ${Number(result.success.weight) / 100000000} CBR`,
+        toast.success(t('governance.toast.voted'), {
+          description: t('governance.toast.voteWeight', { amount: formatCbrAmount(result.success.weight) }),
         });
       } else if (result.__kind__ === 'proposalNotFound') {
-        toast.error('Предложение не найдено');
+        toast.error(t('governance.toast.proposalNotFound'));
       } else if (result.__kind__ === 'proposalNotActive') {
-        toast.error('Предложение больше не активно');
+        toast.error(t('governance.toast.proposalNotActive'));
       } else if (result.__kind__ === 'alreadyVoted') {
-        toast.error('Вы уже проголосовали за это предложение');
+        toast.error(t('governance.toast.alreadyVoted'));
       } else if (result.__kind__ === 'notStaker') {
-        toast.error('Вы должны застейкать токены для голосования');
+        toast.error(t('governance.toast.notStaker'));
       }
     } catch (error) {
-      toast.error('Не удалось проголосовать', {
-        description: error instanceof Error ? error.message : 'Неизвестная ошибка',
+      toast.error(t('governance.toast.voteFailed'), {
+        description: error instanceof Error ? error.message : t('common.unknownError'),
       });
     } finally {
       setVotingProposalId(null);
@@ -134,25 +157,25 @@ export default function Governance() {
   return (
     <div className="space-y-6">
       <div className="text-center space-y-2">
-        <h2 className="font-orbitron text-3xl font-bold text-glow-teal">УПРАВЛЕНИЕ</h2>
+        <h2 className="font-orbitron text-3xl font-bold text-glow-teal">{t('governance.title')}</h2>
         <p className="font-jetbrains text-muted-foreground">
-          Стейкайте токены и участвуйте в принятии решений проекта
+          {t('governance.subtitle')}
         </p>
       </div>
 
-      <Tabs defaultValue="stake" className="w-full">
+      <Tabs value={activeSection} onValueChange={setActiveSection} className="w-full">
         <TabsList className="grid w-full max-w-2xl mx-auto grid-cols-3 glassmorphism">
           <TabsTrigger value="stake" className="font-orbitron">
             <Coins className="mr-2 h-4 w-4" />
-            Стейкинг
+            {t('governance.tabs.stake')}
           </TabsTrigger>
           <TabsTrigger value="proposals" className="font-orbitron">
             <Vote className="mr-2 h-4 w-4" />
-            Предложения
+            {t('governance.tabs.proposals')}
           </TabsTrigger>
           <TabsTrigger value="create" className="font-orbitron">
             <FileText className="mr-2 h-4 w-4" />
-            Создать
+            {t('governance.tabs.create')}
           </TabsTrigger>
         </TabsList>
 
@@ -160,7 +183,7 @@ export default function Governance() {
           <Card className="glassmorphism border-primary/20 max-w-2xl mx-auto">
             <CardHeader>
               <CardTitle className="font-orbitron text-xl text-glow-teal">
-                Стейкинг токенов CBR
+                {t('governance.stake.title')}
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-6">
@@ -168,27 +191,26 @@ export default function Governance() {
                 <div className="flex items-start gap-3">
                   <Info className="h-5 w-5 text-primary mt-0.5 shrink-0" />
                   <p className="font-jetbrains text-sm text-muted-foreground">
-                    Застейкайте свои токены CBR, чтобы получить право голоса в предложениях по управлению. 
-                    Вес вашего голоса пропорционален вашей застейканной сумме.
+                    {t('governance.stake.info')}
                   </p>
                 </div>
               </div>
 
               <div className="space-y-4 font-jetbrains">
                 <div className="flex justify-between p-4 glassmorphism rounded-lg">
-                  <span className="text-muted-foreground">Текущий стейк:</span>
+                  <span className="text-muted-foreground">{t('governance.stake.current')}</span>
                   <span className="text-xl font-bold text-glow-yellow">
                     {stakingLoading ? (
                       <Loader2 className="h-5 w-5 animate-spin inline" />
                     ) : (
-                      `${Number(stakedBalance || 0n) / 100000000} CBR`
+                      t('common.cbrAmount', { amount: formatCbrAmount(stakedBalance ?? 0n) })
                     )}
                   </span>
                 </div>
                 <div className="flex justify-between p-4 glassmorphism rounded-lg">
-                  <span className="text-muted-foreground">Доступный баланс:</span>
+                  <span className="text-muted-foreground">{t('governance.stake.available')}</span>
                   <span className="text-xl font-bold text-primary">
-                    {Number(tokenBalance || 0n) / 100000000} CBR
+                    {t('common.cbrAmount', { amount: formatCbrAmount(tokenBalance ?? 0n) })}
                   </span>
                 </div>
               </div>
@@ -196,7 +218,7 @@ export default function Governance() {
               <div className="space-y-4">
                 <div>
                   <label className="font-jetbrains text-sm text-muted-foreground mb-2 block">
-                    Сумма для стейкинга (CBR)
+                    {t('governance.stake.amount')}
                   </label>
                   <Input
                     type="number"
@@ -217,12 +239,12 @@ export default function Governance() {
                   {stakeTokensMutation.isPending ? (
                     <>
                       <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                      Стейкинг...
+                      {t('governance.stake.staking')}
                     </>
                   ) : (
                     <>
                       <Coins className="mr-2 h-4 w-4" />
-                      ЗАСТЕЙКАТЬ ТОКЕНЫ
+                      {t('governance.stake.submit')}
                     </>
                   )}
                 </Button>
@@ -243,10 +265,10 @@ export default function Governance() {
                   <Vote className="h-12 w-12 text-muted-foreground mx-auto" />
                   <div>
                     <h3 className="font-orbitron text-xl text-glow-teal mb-2">
-                      Нет активных предложений
+                      {t('governance.proposals.emptyTitle')}
                     </h3>
                     <p className="font-jetbrains text-muted-foreground">
-                      Будьте первым, кто создаст предложение
+                      {t('governance.proposals.emptyHint')}
                     </p>
                   </div>
                 </div>
@@ -256,21 +278,29 @@ export default function Governance() {
             <div className="space-y-4">
               {proposals.map((proposal) => {
                 const percentages = calculateVotePercentage(proposal.votesYes, proposal.votesNo);
-                const totalVotes = Number(proposal.votesYes) + Number(proposal.votesNo);
+                const totalVotes = proposal.votesYes + proposal.votesNo;
+                const isSelected = proposal.id === selectedProposalId;
                 
                 return (
                   <Card
                     key={Number(proposal.id)}
-                    className="glassmorphism border-primary/20 hover:border-primary/40 transition-all"
+                    ref={isSelected ? selectedProposalRef : undefined}
+                    className={`glassmorphism transition-all ${
+                      isSelected ? 'border-primary box-glow-cyan' : 'border-primary/20 hover:border-primary/40'
+                    }`}
                   >
                     <CardHeader>
                       <div className="flex items-start justify-between gap-4">
                         <CardTitle className="font-orbitron text-lg text-glow-teal">
                           {proposal.title}
                         </CardTitle>
-                        <span className="text-xs font-jetbrains text-muted-foreground whitespace-nowrap">
+                        <Link
+                          to="/governance/proposal/$proposalId"
+                          params={{ proposalId: proposal.id.toString() }}
+                          className="text-xs font-jetbrains text-muted-foreground whitespace-nowrap hover:text-primary"
+                        >
                           ID: {Number(proposal.id)}
-                        </span>
+                        </Link>
                       </div>
                     </CardHeader>
                     <CardContent className="space-y-4">
@@ -280,21 +310,24 @@ export default function Governance() {
 
                       <div className="space-y-2">
                         <div className="flex justify-between text-xs font-jetbrains text-muted-foreground">
-                          <span>Всего голосов: {(totalVotes / 100000000).toFixed(2)} CBR</span>
+                          <span>{t('governance.proposals.totalVotes', { amount: formatCbrAmount(totalVotes, 2) })}</span>
                           <span>
-                            {percentages.yes.toFixed(1)}% ЗА / {percentages.no.toFixed(1)}% ПРОТИВ
+                            {t('governance.proposals.split', {
+                              yes: percentages.yes.toFixed(1),
+                              no: percentages.no.toFixed(1),
+                            })}
                           </span>
                         </div>
                         
                         <div className="grid grid-cols-2 gap-4 font-jetbrains text-sm">
                           <div className="p-3 glassmorphism rounded-lg border border-green-500/20 box-glow-green">
                             <div className="text-green-400 font-bold">
-                              ЗА: {(Number(proposal.votesYes) / 100000000).toFixed(2)}
+                              {t('governance.proposals.yesVotes', { amount: formatCbrAmount(proposal.votesYes, 2) })}
                             </div>
                           </div>
                           <div className="p-3 glassmorphism rounded-lg border border-red-500/20">
                             <div className="text-red-400 font-bold">
-                              ПРОТИВ: {(Number(proposal.votesNo) / 100000000).toFixed(2)}
+                              {t('governance.proposals.noVotes', { amount: formatCbrAmount(proposal.votesNo, 2) })}
                             </div>
                           </div>
                         </div>
@@ -311,7 +344,7 @@ export default function Governance() {
                           ) : (
                             <>
                               <ThumbsUp className="mr-2 h-4 w-4" />
-                              ЗА
+                              {t('governance.proposals.voteYes')}
                             </>
                           )}
                         </Button>
@@ -325,7 +358,7 @@ export default function Governance() {
                           ) : (
                             <>
                               <ThumbsDown className="mr-2 h-4 w-4" />
-                              ПРОТИВ
+                              {t('governance.proposals.voteNo')}
                             </>
                           )}
                         </Button>
@@ -342,7 +375,7 @@ export default function Governance() {
           <Card className="glassmorphism border-primary/20 max-w-2xl mx-auto">
             <CardHeader>
               <CardTitle className="font-orbitron text-xl text-glow-teal">
-                Создать предложение
+                {t('governance.create.title')}
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
@@ -350,20 +383,19 @@ export default function Governance() {
                 <div className="flex items-start gap-3">
                   <Info className="h-5 w-5 text-primary mt-0.5 shrink-0" />
                   <p className="font-jetbrains text-sm text-muted-foreground">
-                    Вы должны иметь застейканные токены для создания предложений. Предложения позволяют 
-                    сообществу голосовать по важным решениям проекта.
+                    {t('governance.create.info')}
                   </p>
                 </div>
               </div>
 
               <div>
                 <label className="font-jetbrains text-sm text-muted-foreground mb-2 block">
-                  Заголовок (макс. 100 символов)
+                  {t('governance.create.titleLabel')}
                 </label>
                 <Input
                   value={proposalTitle}
                   onChange={(e) => setProposalTitle(e.target.value)}
-                  placeholder="Введите заголовок предложения"
+                  placeholder={t('governance.create.titlePlaceholder')}
                   className="font-jetbrains"
                   maxLength={100}
                 />
@@ -374,12 +406,12 @@ export default function Governance() {
 
               <div>
                 <label className="font-jetbrains text-sm text-muted-foreground mb-2 block">
-                  Описание (макс. 1000 символов)
+                  {t('governance.create.descriptionLabel')}
                 </label>
                 <Textarea
                   value={proposalDescription}
                   onChange={(e) => setProposalDescription(e.target.value)}
-                  placeholder="Опишите ваше предложение подробно"
+                  placeholder={t('governance.create.descriptionPlaceholder')}
                   className="font-jetbrains min-h-[150px]"
                   maxLength={1000}
                 />
@@ -400,12 +432,12 @@ export default function Governance() {
                 {createProposalMutation.isPending ? (
                   <>
                     <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Создание...
+                    {t('governance.create.creating')}
                   </>
                 ) : (
                   <>
                     <FileText className="mr-2 h-4 w-4" />
-                    СОЗДАТЬ ПРЕДЛОЖЕНИЕ
+                    {t('governance.create.submit')}
                   </>
                 )}
               </Button>
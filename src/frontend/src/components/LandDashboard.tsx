@@ -1,9 +1,16 @@
 import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { useGetLandData, useGetTokenBalance, useClaimRewards, useUpgradePlot, useDebugTokenBalance, useGetCanisterTokenBalance, useDebugCanisterBalance, useGetModifierInventory, useApplyModifier } from '@/hooks/useQueries';
-import { formatTokenBalance } from '@/lib/tokenUtils';
+import { useI18n } from '@/hooks/useI18n';
+import { useLiveCharge } from '@/hooks/useLiveCharge';
+import { biomeName, tierName } from '@/i18n';
 import { Loader2, MapPin, Zap, TrendingUp, ExternalLink } from 'lucide-react';
 import { toast } from 'sonner';
+import YieldProjection from './YieldProjection';
+import ClaimAllLands from './ClaimAllLands';
+import ModifierThumbnail from './ModifierThumbnail';
+import { ECONOMY, upgradeCost } from '@/config/economy';
+import { rewardPerClaim, yieldInputsFromLand } from '@/lib/yieldProjection';
 import type { LandData, ModifierInstance } from '@/backend';
 
 interface LandDashboardProps {
@@ -18,6 +25,7 @@ export default function LandDashboard({ selectedLandIndex }: LandDashboardProps)
   const upgradePlotMutation = useUpgradePlot();
   const debugBalanceMutation = useDebugTokenBalance();
   const applyModifierMutation = useApplyModifier();
+  const { t, formatCbrAmount, formatDuration, formatNumber } = useI18n();
 
   // Admin-only canister balance
   const { data: canisterBalance } = useGetCanisterTokenBalance();
@@ -28,6 +36,7 @@ export default function LandDashboard({ selectedLandIndex }: LandDashboardProps)
   const [isCooldownActive, setIsCooldownActive] = useState(false);
 
   const selectedLand: LandData | undefined = lands && lands[selectedLandIndex];
+  const liveCharge = useLiveCharge(selectedLand);
 
   // Calculate cooldown timer
   useEffect(() => {
@@ -36,8 +45,7 @@ export default function LandDashboard({ selectedLandIndex }: LandDashboardProps)
     const updateCooldown = () => {
       const currentTime = Date.now() * 1_000_000; // Convert to nanoseconds
       const lastClaimTime = Number(selectedLand.lastClaimTime);
-      const dayInNanos = 86_400_000_000_000;
-      const nextClaimTime = lastClaimTime + dayInNanos;
+      const nextClaimTime = lastClaimTime + ECONOMY.claim.cooldownMs * 1_000_000;
       const remaining = nextClaimTime - currentTime;
 
       if (remaining > 0) {
@@ -55,20 +63,7 @@ export default function LandDashboard({ selectedLandIndex }: LandDashboardProps)
     return () => clearInterval(interval);
   }, [selectedLand]);
 
-  const formatCooldownTime = (nanoseconds: number): string => {
-    const totalSeconds = Math.floor(nanoseconds / 1_000_000_000);
-    const hours = Math.floor(totalSeconds / 3600);
-    const minutes = Math.floor((totalSeconds % 3600) / 60);
-    const seconds = totalSeconds % 60;
-
-    if (hours > 0) {
-      return `${hours}h ${minutes}m ${seconds}s`;
-    } else if (minutes > 0) {
-      return `${minutes}m ${seconds}s`;
-    } else {
-      return `${seconds}s`;
-    }
-  };
+  const formatCooldownTime = (nanoseconds: number): string => formatDuration(nanoseconds / 1_000_000);
 
   const handleClaimRewards = async () => {
     if (!selectedLand) return;
@@ -77,30 +72,36 @@ export default function LandDashboard({ selectedLandIndex }: LandDashboardProps)
       const result = await claimRewardsMutation.mutateAsync(selectedLand.landId);
 
       if (result.__kind__ === 'success') {
-        const formattedAmount = formatTokenBalance(result.success.tokensClaimed);
-        toast.success(`Claimed ${formattedAmount} CBR tokens!`);
+        toast.success(t('land.toast.claimed', { amount: formatCbrAmount(result.success.tokensClaimed) }));
       } else if (result.__kind__ === 'cooldown') {
-        const hours = Math.floor(Number(result.cooldown.remainingTime) / 3600000000000);
-        const minutes = Math.floor((Number(result.cooldown.remainingTime) % 3600000000000) / 60000000000);
-        toast.error(`Please wait ${hours}h ${minutes}m more`);
+        toast.error(t('land.toast.cooldown', { time: formatDuration(Number(result.cooldown.remainingTime) / 1_000_000, false) }));
       } else if (result.__kind__ === 'insufficientCharge') {
-        toast.error(`Insufficient charge. Required: ${result.insufficientCharge.required}, available: ${result.insufficientCharge.current}`);
+        toast.error(
+          t('common.toast.insufficientCharge', {
+            required: result.insufficientCharge.required,
+            current: result.insufficientCharge.current,
+          })
+        );
       } else if (result.__kind__ === 'mintFailed') {
-        toast.error(`Minting error: ${result.mintFailed}`);
+        toast.error(t('land.toast.mintFailed', { reason: result.mintFailed }));
       }
     } catch (error: any) {
       console.error('Claim error:', error);
-      toast.error('Claim error: ' + (error.message || 'Unknown error'));
+      toast.error(t('land.toast.claimError', { message: error.message || t('common.unknownError') }));
     }
   };
 
   const handleUpgradePlot = async () => {
     if (!selectedLand) return;
 
-    const cost = BigInt(1000);
+    const cost = upgradeCost(Number(selectedLand.upgradeLevel));
+    if (cost === null) {
+      toast.error(t('land.toast.maxLevel'));
+      return;
+    }
 
-    if (!tokenBalance || tokenBalance < cost) {
-      toast.error(`Insufficient tokens. Required: ${formatTokenBalance(cost)} CBR`);
+    if (cost > BigInt(0) && (tokenBalance ?? BigInt(0)) < cost) {
+      toast.error(t('common.toast.insufficientTokens', { amount: formatCbrAmount(cost) }));
       return;
     }
 
@@ -108,15 +109,15 @@ export default function LandDashboard({ selectedLandIndex }: LandDashboardProps)
       const result = await upgradePlotMutation.mutateAsync({ landId: selectedLand.landId, cost });
 
       if (result.__kind__ === 'success') {
-        toast.success(`Plot upgraded to level ${result.success.newLevel}!`);
+        toast.success(t('land.toast.upgraded', { level: result.success.newLevel }));
       } else if (result.__kind__ === 'maxLevelReached') {
-        toast.error('Maximum level reached');
+        toast.error(t('land.toast.maxLevel'));
       } else if (result.__kind__ === 'insufficientTokens') {
-        toast.error(`Insufficient tokens. Required: ${formatTokenBalance(result.insufficientTokens.required)} CBR`);
+        toast.error(t('common.toast.insufficientTokens', { amount: formatCbrAmount(result.insufficientTokens.required) }));
       }
     } catch (error: any) {
       console.error('Upgrade error:', error);
-      toast.error('Upgrade error: ' + (error.message || 'Unknown error'));
+      toast.error(t('land.toast.upgradeError', { message: error.message || t('common.unknownError') }));
     }
   };
 
@@ -167,20 +168,13 @@ export default function LandDashboard({ selectedLandIndex }: LandDashboardProps)
   if (!selectedLand) {
     return (
       <div className="text-center py-12">
-        <p className="text-white/70 font-jetbrains">Land not found</p>
+        <p className="text-white/70 font-jetbrains">{t('land.notFound')}</p>
       </div>
     );
   }
 
-  const biomeNames: Record<string, string> = {
-    FOREST_VALLEY: 'Forest Valley',
-    ISLAND_ARCHIPELAGO: 'Island Archipelago',
-    SNOW_PEAK: 'Snow Peak',
-    DESERT_DUNE: 'Desert Dune',
-    VOLCANIC_CRAG: 'Volcanic Crag',
-    MYTHIC_VOID: 'Mythic Void',
-    MYTHIC_AETHER: 'Mythic Aether',
-  };
+  const claimAmount = formatCbrAmount(BigInt(rewardPerClaim(yieldInputsFromLand(selectedLand))), 8);
+  const nextUpgradeCost = upgradeCost(Number(selectedLand.upgradeLevel));
 
   return (
     <div className="space-y-6">
@@ -189,18 +183,18 @@ export default function LandDashboard({ selectedLandIndex }: LandDashboardProps)
         <CardHeader>
           <CardTitle className="text-[#00ff41] flex items-center gap-2 font-orbitron text-glow-green">
             <Zap className="w-5 h-5" />
-            CBR BALANCE
+            {t('common.cbrBalance')}
           </CardTitle>
         </CardHeader>
         <CardContent>
           {balanceLoading ? (
             <div className="flex items-center gap-2">
               <Loader2 className="w-4 h-4 animate-spin text-[#00ff41]" />
-              <span className="text-white/70 font-jetbrains">Loading balance...</span>
+              <span className="text-white/70 font-jetbrains">{t('common.loadingBalance')}</span>
             </div>
           ) : balanceError ? (
             <div className="space-y-2">
-              <p className="text-red-400 font-jetbrains">Balance unavailable</p>
+              <p className="text-red-400 font-jetbrains">{t('common.balanceUnavailable')}</p>
               <button
                 onClick={handleDebugBalance}
                 disabled={debugBalanceMutation.isPending}
@@ -209,17 +203,17 @@ export default function LandDashboard({ selectedLandIndex }: LandDashboardProps)
                 {debugBalanceMutation.isPending ? (
                   <>
                     <Loader2 className="w-4 h-4 animate-spin mr-2 inline" />
-                    Refreshing...
+                    {t('common.refreshing')}
                   </>
                 ) : (
-                  'Refresh Balance'
+                  t('common.refreshBalance')
                 )}
               </button>
             </div>
           ) : (
             <div className="space-y-2">
               <p className="text-3xl font-bold text-white font-orbitron">
-                {formatTokenBalance(tokenBalance || BigInt(0))} CBR
+                {t('common.cbrAmount', { amount: formatCbrAmount(tokenBalance || BigInt(0)) })}
               </p>
               <button
                 onClick={handleDebugBalance}
@@ -229,10 +223,10 @@ export default function LandDashboard({ selectedLandIndex }: LandDashboardProps)
                 {debugBalanceMutation.isPending ? (
                   <>
                     <Loader2 className="w-4 h-4 animate-spin mr-2 inline" />
-                    Refreshing...
+                    {t('common.refreshing')}
                   </>
                 ) : (
-                  'Refresh Balance'
+                  t('common.refreshBalance')
                 )}
               </button>
             </div>
@@ -245,37 +239,43 @@ export default function LandDashboard({ selectedLandIndex }: LandDashboardProps)
         <CardHeader>
           <CardTitle className="text-[#00ffff] flex items-center gap-2 font-orbitron text-glow-cyan">
             <MapPin className="w-5 h-5" />
-            LAND INFORMATION
+            {t('land.info.title')}
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
           <div className="grid grid-cols-2 gap-4">
             <div>
-              <p className="text-white/50 text-sm font-jetbrains">LandID</p>
+              <p className="text-white/50 text-sm font-jetbrains">{t('land.info.landId')}</p>
               <p className="text-white font-medium font-jetbrains">{selectedLand.landId.toString()}</p>
             </div>
             <div>
-              <p className="text-white/50 text-sm font-jetbrains">Biome</p>
-              <p className="text-white font-medium font-jetbrains">{biomeNames[selectedLand.biome] || selectedLand.biome}</p>
+              <p className="text-white/50 text-sm font-jetbrains">{t('land.info.biome')}</p>
+              <p className="text-white font-medium font-jetbrains">{biomeName(selectedLand.biome)}</p>
             </div>
             <div>
-              <p className="text-white/50 text-sm font-jetbrains">Coordinates</p>
+              <p className="text-white/50 text-sm font-jetbrains">{t('land.info.coordinates')}</p>
               <p className="text-white font-medium font-jetbrains">
-                {selectedLand.coordinates.lat.toFixed(2)}, {selectedLand.coordinates.lon.toFixed(2)}
+                {formatNumber(selectedLand.coordinates.lat, { minimumFractionDigits: 2, maximumFractionDigits: 2 })};{' '}
+                {formatNumber(selectedLand.coordinates.lon, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
               </p>
             </div>
             <div>
-              <p className="text-white/50 text-sm font-jetbrains">Level</p>
+              <p className="text-white/50 text-sm font-jetbrains">{t('land.info.level')}</p>
               <p className="text-white font-medium font-jetbrains">{selectedLand.upgradeLevel.toString()}</p>
             </div>
             <div>
-              <p className="text-white/50 text-sm font-jetbrains">Multiplier</p>
-              <p className="text-white font-medium font-jetbrains">{selectedLand.baseTokenMultiplier}x</p>
+              <p className="text-white/50 text-sm font-jetbrains">{t('land.info.multiplier')}</p>
+              <p className="text-white font-medium font-jetbrains">{t('common.multiplier', { value: formatNumber(selectedLand.baseTokenMultiplier) })}</p>
             </div>
             <div>
-              <p className="text-white/50 text-sm font-jetbrains">Charge</p>
+              <p className="text-white/50 text-sm font-jetbrains">{t('land.info.charge')}</p>
               <p className="text-white font-medium font-jetbrains">
-                {selectedLand.cycleCharge.toString()} / {selectedLand.chargeCap.toString()}
+                {formatNumber(liveCharge.charge)} / {formatNumber(liveCharge.cap)}
+              </p>
+              <p className="text-white/50 text-xs font-jetbrains">
+                {liveCharge.msUntilFull > 0
+                  ? t('land.chargeFullIn', { time: formatDuration(liveCharge.msUntilFull, false) })
+                  : t('land.chargeFull')}
               </p>
             </div>
           </div>
@@ -283,18 +283,25 @@ export default function LandDashboard({ selectedLandIndex }: LandDashboardProps)
           {/* Attached Modifiers */}
           {selectedLand.attachedModifications && selectedLand.attachedModifications.length > 0 && (
             <div className="pt-4 border-t border-white/10">
-              <p className="text-white/70 text-sm mb-2 font-jetbrains">Attached modifiers:</p>
+              <p className="text-white/70 text-sm mb-2 font-jetbrains">{t('land.attachedModifiers')}</p>
               <div className="space-y-2">
                 {selectedLand.attachedModifications.map((mod) => (
                   <div
                     key={mod.modifierInstanceId.toString()}
                     className="glassmorphism rounded-lg p-3 border border-[#9933ff]/30"
                   >
-                    <div className="flex items-center justify-between">
-                      <div>
+                    <div className="flex items-center justify-between gap-3">
+                      <ModifierThumbnail
+                        modelUrl={mod.model_url}
+                        tier={mod.rarity_tier}
+                        alt={mod.modifierType}
+                        className="w-10 h-10 object-contain"
+                      />
+                      <div className="flex-1">
                         <p className="text-white font-medium font-jetbrains">{mod.modifierType}</p>
                         <p className="text-white/50 text-sm font-jetbrains">
-                          Tier {mod.rarity_tier.toString()} • +{(mod.multiplier_value * 100 - 100).toFixed(0)}%
+                          {tierName(mod.rarity_tier)} •{' '}
+                          {formatNumber(mod.multiplier_value - 1, { style: 'percent', signDisplay: 'always' })}
                         </p>
                       </div>
                       <div className="text-right">
@@ -316,12 +323,12 @@ export default function LandDashboard({ selectedLandIndex }: LandDashboardProps)
               {claimRewardsMutation.isPending ? (
                 <>
                   <Loader2 className="w-4 h-4 animate-spin mr-2 inline" />
-                  Claiming...
+                  {t('land.claiming')}
                 </>
               ) : isCooldownActive && cooldownRemaining ? (
-                <>GET 100 CBR ({formatCooldownTime(cooldownRemaining)})</>
+                <>{t('land.claimCooldown', { amount: claimAmount, time: formatCooldownTime(cooldownRemaining) })}</>
               ) : (
-                'GET 100 CBR'
+                t('land.claim', { amount: claimAmount })
               )}
             </button>
             <button
@@ -334,22 +341,26 @@ export default function LandDashboard({ selectedLandIndex }: LandDashboardProps)
         </CardContent>
       </Card>
 
+      {lands && lands.length > 1 && <ClaimAllLands lands={lands} />}
+
+      <YieldProjection land={selectedLand} />
+
       {/* Modifier Inventory Card */}
       <Card className="glassmorphism neon-border box-glow-purple">
         <CardHeader>
           <CardTitle className="text-[#9933ff] flex items-center gap-2 font-orbitron text-glow-purple">
             <TrendingUp className="w-5 h-5" />
-            MODIFIER INVENTORY
+            {t('land.inventory.title')}
           </CardTitle>
         </CardHeader>
         <CardContent>
           {inventoryLoading ? (
             <div className="flex items-center gap-2">
               <Loader2 className="w-4 h-4 animate-spin text-[#9933ff]" />
-              <span className="text-white/70 font-jetbrains">Loading inventory...</span>
+              <span className="text-white/70 font-jetbrains">{t('land.inventory.loading')}</span>
             </div>
           ) : !modifierInventory || modifierInventory.length === 0 ? (
-            <p className="text-white/50 text-center py-4 font-jetbrains">No available modifiers</p>
+            <p className="text-white/50 text-center py-4 font-jetbrains">{t('land.inventory.empty')}</p>
           ) : (
             <div className="space-y-3">
               {modifierInventory.map((modifier) => (
@@ -357,11 +368,18 @@ export default function LandDashboard({ selectedLandIndex }: LandDashboardProps)
                   key={modifier.modifierInstanceId.toString()}
                   className="glassmorphism rounded-lg p-4 border border-[#9933ff]/30 hover:border-[#9933ff]/50 transition-colors"
                 >
-                  <div className="flex items-center justify-between mb-3">
-                    <div>
+                  <div className="flex items-center justify-between gap-3 mb-3">
+                    <ModifierThumbnail
+                      modelUrl={modifier.model_url}
+                      tier={modifier.rarity_tier}
+                      alt={modifier.modifierType}
+                      className="w-12 h-12 object-contain"
+                    />
+                    <div className="flex-1">
                       <p className="text-white font-medium font-jetbrains">{modifier.modifierType}</p>
                       <p className="text-white/50 text-sm font-jetbrains">
-                        Tier {modifier.rarity_tier.toString()} • Multiplier: {modifier.multiplier_value}x
+                        {tierName(modifier.rarity_tier)} •{' '}
+                        {t('land.inventory.multiplier', { value: formatNumber(modifier.multiplier_value) })}
                       </p>
                     </div>
                     <div className="text-right">
@@ -376,10 +394,10 @@ export default function LandDashboard({ selectedLandIndex }: LandDashboardProps)
                     {applyModifierMutation.isPending ? (
                       <>
                         <Loader2 className="w-4 h-4 animate-spin mr-2 inline" />
-                        Applying...
+                        {t('land.inventory.applying')}
                       </>
                     ) : (
-                      'APPLY TO LAND'
+                      t('land.inventory.apply')
                     )}
                   </button>
                 </div>
@@ -394,33 +412,37 @@ export default function LandDashboard({ selectedLandIndex }: LandDashboardProps)
         <CardHeader>
           <CardTitle className="text-[#00ff41] flex items-center gap-2 font-orbitron text-glow-green">
             <TrendingUp className="w-5 h-5" />
-            UPGRADE PLOT
+            {t('land.upgrade.title')}
           </CardTitle>
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
             <div>
               <p className="text-white/70 text-sm mb-2 font-jetbrains">
-                Current level: <span className="text-white font-bold">{selectedLand.upgradeLevel.toString()}</span>
+                {t('land.upgrade.currentLevel')}{' '}
+                <span className="text-white font-bold">{selectedLand.upgradeLevel.toString()}</span>
               </p>
               <p className="text-white/70 text-sm font-jetbrains">
-                Upgrade cost: <span className="text-[#00ff41] font-bold">1000 CBR</span>
+                {t('land.upgrade.cost')}{' '}
+                <span className="text-[#00ff41] font-bold">
+                  {t('common.cbrAmount', { amount: formatCbrAmount(nextUpgradeCost ?? BigInt(0), 0) })}
+                </span>
               </p>
             </div>
             <button
               onClick={handleUpgradePlot}
-              disabled={upgradePlotMutation.isPending || Number(selectedLand.upgradeLevel) >= 5}
+              disabled={upgradePlotMutation.isPending || nextUpgradeCost === null}
               className="w-full px-6 py-3 rounded-lg btn-gradient-green text-black font-bold font-orbitron disabled:opacity-50 disabled:cursor-not-allowed"
             >
               {upgradePlotMutation.isPending ? (
                 <>
                   <Loader2 className="w-4 h-4 animate-spin mr-2 inline" />
-                  Upgrading...
+                  {t('land.upgrade.upgrading')}
                 </>
-              ) : Number(selectedLand.upgradeLevel) >= 5 ? (
-                'MAXIMUM LEVEL'
+              ) : nextUpgradeCost === null ? (
+                t('land.upgrade.maxLevel')
               ) : (
-                'UPGRADE PLOT'
+                t('land.upgrade.action')
               )}
             </button>
           </div>
@@ -434,19 +456,19 @@ export default function LandDashboard({ selectedLandIndex }: LandDashboardProps)
             className="text-red-400 cursor-pointer flex items-center justify-between font-orbitron"
             onClick={() => setShowAdminDebug(!showAdminDebug)}
           >
-            <span>DEBUG PANEL (ADMIN)</span>
+            <span>{t('land.debug.title')}</span>
             <span className="text-sm">{showAdminDebug ? '▼' : '▶'}</span>
           </CardTitle>
         </CardHeader>
         {showAdminDebug && (
           <CardContent className="space-y-4">
             <div>
-              <p className="text-white/70 text-sm mb-2 font-jetbrains">Canister balance:</p>
+              <p className="text-white/70 text-sm mb-2 font-jetbrains">{t('land.debug.canisterBalance')}</p>
               <p className="text-white font-mono font-jetbrains">
-                {canisterBalance ? formatTokenBalance(canisterBalance) : '---'} CBR
+                {t('common.cbrAmount', { amount: canisterBalance ? formatCbrAmount(canisterBalance) : '---' })}
               </p>
               <p className="text-white/50 text-xs font-jetbrains">
-                Raw: {canisterBalance ? canisterBalance.toString() : '---'} e8s
+                {t('common.rawE8s', { amount: canisterBalance ? canisterBalance.toString() : '---' })}
               </p>
             </div>
             <button
@@ -457,10 +479,10 @@ export default function LandDashboard({ selectedLandIndex }: LandDashboardProps)
               {debugCanisterBalanceMutation.isPending ? (
                 <>
                   <Loader2 className="w-4 h-4 animate-spin mr-2 inline" />
-                  Checking...
+                  {t('land.debug.checking')}
                 </>
               ) : (
-                'CHECK CANISTER BALANCE'
+                t('land.debug.check')
               )}
             </button>
           </CardContent>
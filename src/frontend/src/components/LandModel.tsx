@@ -1,49 +1,41 @@
-import { useEffect, useMemo, useRef } from 'react';
+import { useEffect, useRef } from 'react';
 import { useLoader, useThree, useFrame } from '@react-three/fiber';
-import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
-import { KTX2Loader } from 'three/examples/jsm/loaders/KTX2Loader.js';
 import * as THREE from 'three';
+import { CachedGLTFLoader, configureGLTFLoader, getKTX2Loader } from '@/lib/modelLoader';
+import { useRenderQuality } from '@/hooks/useRenderQuality';
 
 interface LandModelProps {
   modelUrl: string;
   biome?: string;
+  /** Called once the model is processed, with its world-space bounds. */
+  onBounds?: (bounds: THREE.Box3) => void;
 }
 
-export default function LandModel({ modelUrl, biome }: LandModelProps) {
+export default function LandModel({ modelUrl, biome, onBounds }: LandModelProps) {
   const { gl, camera } = useThree();
   const fittedRef = useRef(false);
   const isInitialized = useRef(false);
   const group = useRef<THREE.Group>(null);
+  const { settings: quality } = useRenderQuality();
 
-  // Initialize KTX2Loader with CDN-hosted basis transcoder
-  const ktx2Loader = useMemo(() => {
-    const loader = new KTX2Loader();
-    loader.setTranscoderPath('https://cdn.jsdelivr.net/npm/three@0.176.0/examples/jsm/libs/basis/');
-    loader.detectSupport(gl);
-    return loader;
-  }, [gl]);
-
-  // Load GLTF model with KTX2 support
+  // Load GLTF model with KTX2 support, through the persistent model cache
   const gltf = useLoader(
-    GLTFLoader,
+    CachedGLTFLoader,
     modelUrl,
     (loader) => {
-      loader.setKTX2Loader(ktx2Loader);
+      // The renderer's shared KTX2Loader with the CDN-hosted basis transcoder
+      configureGLTFLoader(loader, getKTX2Loader(gl));
     }
   );
 
   useEffect(() => {
     if (!gltf || !gltf.scene || isInitialized.current) return;
 
-    console.log('[LandModel] Processing model with biome-specific lighting and max anisotropy:', modelUrl, 'Biome:', biome);
+    console.log('[LandModel] Processing model with biome-specific lighting:', modelUrl, 'Biome:', biome);
 
     // SAFETY: Call updateMatrixWorld BEFORE Box3 calculation
     gltf.scene.updateMatrixWorld();
 
-    // Get maximum anisotropy capability
-    const maxAnisotropy = gl.capabilities.getMaxAnisotropy();
-    console.log('[LandModel] Maximum anisotropy capability:', maxAnisotropy);
-
     // Determine land type from biome prop
     const landType = biome || 'DEFAULT';
 
@@ -61,7 +53,7 @@ export default function LandModel({ modelUrl, biome }: LandModelProps) {
     const config = settings[landType] || settings.DEFAULT;
     console.log('[LandModel] Applying biome config:', landType, config);
 
-    // Native PBR Emissive Material Logic + Texture Anisotropy + Biome-specific settings
+    // Native PBR Emissive Material Logic + Biome-specific settings
     if (gltf.scene?.isObject3D) {
       gltf.scene.traverse((obj: any) => {
         if (obj.isMesh && obj.material) {
@@ -90,24 +82,6 @@ export default function LandModel({ modelUrl, biome }: LandModelProps) {
               m.userData.baseEmissive = 0.0;
               console.log(`[LandModel] No emissive map detected, glow disabled`);
             }
-
-            // Apply maximum anisotropic filtering to ALL textures
-            const textures = [
-              m.map,
-              m.emissiveMap,
-              m.normalMap,
-              m.metalnessMap,
-              m.roughnessMap
-            ];
-
-            textures.forEach(tex => {
-              if (tex) {
-                tex.anisotropy = maxAnisotropy;
-                tex.needsUpdate = true;
-              }
-            });
-
-            console.log(`[LandModel] Anisotropy applied to textures: ${textures.filter(t => t).length} textures updated`);
           });
         }
       });
@@ -134,6 +108,34 @@ export default function LandModel({ modelUrl, biome }: LandModelProps) {
     isInitialized.current = true;
   }, [gltf, gl, camera, modelUrl, biome]);
 
+  // Anisotropic filtering for all textures, capped by the quality tier and re-applied when it changes
+  useEffect(() => {
+    if (!gltf?.scene) return;
+    const anisotropy = Math.min(gl.capabilities.getMaxAnisotropy(), quality.maxAnisotropy);
+
+    gltf.scene.traverse((child) => {
+      if (!(child instanceof THREE.Mesh)) return;
+      const materials: THREE.Material[] = Array.isArray(child.material) ? child.material : [child.material];
+      materials.forEach((m) => {
+        if (!(m instanceof THREE.MeshStandardMaterial)) return;
+        [m.map, m.emissiveMap, m.normalMap, m.metalnessMap, m.roughnessMap].forEach((tex) => {
+          if (tex && tex.anisotropy !== anisotropy) {
+            tex.anisotropy = anisotropy;
+            tex.needsUpdate = true;
+          }
+        });
+      });
+    });
+    console.log('[LandModel] Texture anisotropy set to', anisotropy);
+  }, [gltf, gl, quality.maxAnisotropy]);
+
+  // Reported on every model change, unlike the one-time setup above
+  useEffect(() => {
+    if (!gltf?.scene) return;
+    gltf.scene.updateMatrixWorld();
+    onBounds?.(new THREE.Box3().setFromObject(gltf.scene));
+  }, [gltf, onBounds]);
+
   // Smart pulse animation using stored baseEmissive values
   useFrame((state) => {
     if (!gltf?.scene) return;
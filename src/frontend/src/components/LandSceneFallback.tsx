@@ -0,0 +1,74 @@
+import BiomeArtwork from './BiomeArtwork';
+import { Button } from './ui/button';
+import { useI18n } from '../hooks/useI18n';
+import { biomeName } from '../i18n';
+import type { SceneFallbackReason } from '../hooks/useWebGLRecovery';
+import type { LandData, ModifierInstance } from '../backend';
+import { RotateCcw } from 'lucide-react';
+
+interface LandSceneFallbackProps {
+  reason: SceneFallbackReason;
+  biome?: string;
+  land?: LandData;
+  modifiers?: ModifierInstance[];
+  /** Tries the 3D scene again; not offered when the browser has no WebGL at all. */
+  onRetry?: () => void;
+}
+
+/**
+ * 2D stand-in for the land scene when WebGL is unavailable or keeps failing: the biome's
+ * artwork with the plot's stats over it.
+ */
+export default function LandSceneFallback({ reason, biome, land, modifiers = [], onRetry }: LandSceneFallbackProps) {
+  const { t, formatNumber } = useI18n();
+  const coordinateFormat = { minimumFractionDigits: 2, maximumFractionDigits: 2 };
+
+  return (
+    <div className="relative w-full h-full overflow-hidden bg-black">
+      <BiomeArtwork biome={biome} className="absolute inset-0 w-full h-full" />
+      <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-black/20 to-transparent" />
+
+      <div className="absolute bottom-4 left-4 right-4 max-w-md space-y-3 rounded-xl glassmorphism neon-border p-4">
+        <div>
+          <h3 className="font-orbitron text-lg font-bold text-[#00ffff] text-glow-cyan truncate">
+            {land?.plotName || (biome ? biomeName(biome) : t('land.scene.title'))}
+          </h3>
+          {land && <p className="font-jetbrains text-sm text-purple-300">{biomeName(land.biome)}</p>}
+        </div>
+
+        {land && (
+          <dl className="grid grid-cols-2 gap-x-4 gap-y-2 font-jetbrains text-sm">
+            <div>
+              <dt className="text-white/50">{t('land.info.level')}</dt>
+              <dd className="text-white">{land.upgradeLevel.toString()}</dd>
+            </div>
+            <div>
+              <dt className="text-white/50">{t('land.info.multiplier')}</dt>
+              <dd className="text-[#00ff41]">{t('common.multiplier', { value: formatNumber(land.baseTokenMultiplier) })}</dd>
+            </div>
+            <div>
+              <dt className="text-white/50">{t('land.info.coordinates')}</dt>
+              <dd className="text-[#00ffff]">
+                {formatNumber(land.coordinates.lat, coordinateFormat)}; {formatNumber(land.coordinates.lon, coordinateFormat)}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-white/50">{t('land.scene.modifiers')}</dt>
+              <dd className="text-white">{modifiers.length}</dd>
+            </div>
+          </dl>
+        )}
+
+        <div className="flex items-center justify-between gap-3">
+          <p className="font-jetbrains text-xs text-white/60">{t(`land.scene.fallback.${reason}`)}</p>
+          {onRetry && reason !== 'unsupported' && (
+            <Button size="sm" variant="outline" onClick={onRetry} className="shrink-0">
+              <RotateCcw className="w-4 h-4 mr-2" />
+              {t('land.scene.retry')}
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
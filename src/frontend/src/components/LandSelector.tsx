@@ -3,6 +3,8 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { ChevronLeft, ChevronRight, MapPin } from 'lucide-react';
 import type { LandData } from '@/backend';
+import { useI18n } from '@/hooks/useI18n';
+import { biomeName } from '@/i18n';
 
 interface LandSelectorProps {
   lands: LandData[];
@@ -11,6 +13,7 @@ interface LandSelectorProps {
 }
 
 export default function LandSelector({ lands, selectedIndex, onSelectLand }: LandSelectorProps) {
+  const { t } = useI18n();
   const currentLand = lands[selectedIndex];
 
   const handlePrevious = () => {
@@ -25,16 +28,6 @@ export default function LandSelector({ lands, selectedIndex, onSelectLand }: Lan
     }
   };
 
-  const biomeNames: Record<string, string> = {
-    FOREST_VALLEY: 'Лесная Долина',
-    ISLAND_ARCHIPELAGO: 'Островной Архипелаг',
-    SNOW_PEAK: 'Снежная Вершина',
-    DESERT_DUNE: 'Пустынная Дюна',
-    VOLCANIC_CRAG: 'Вулканический Утес',
-    MYTHIC_VOID: 'Мифическая Пустота',
-    MYTHIC_AETHER: 'Мифический Эфир',
-  };
-
   return (
     <Card className="bg-black/40 backdrop-blur-md border-[#00d4ff]/30 shadow-[0_0_15px_rgba(0,212,255,0.3)]">
       <CardContent className="p-6">
@@ -55,10 +48,10 @@ export default function LandSelector({ lands, selectedIndex, onSelectLand }: Lan
               <h3 className="text-xl font-bold text-white">{currentLand.plotName}</h3>
             </div>
             <p className="text-white/70 text-sm">
-              {biomeNames[currentLand.biome] || currentLand.biome}
+              {biomeName(currentLand.biome)}
             </p>
             <p className="text-white/50 text-xs mt-1">
-              Земля {selectedIndex + 1} из {lands.length}
+              {t('landSelector.position', { index: selectedIndex + 1, total: lands.length })}
             </p>
           </div>
 
@@ -0,0 +1,35 @@
+import { Languages } from 'lucide-react';
+import { useI18n } from '../hooks/useI18n';
+import { LOCALES } from '../i18n';
+
+/**
+ * Fixed RU/EN toggle. The choice is persisted by the i18n store, so it survives reloads
+ * and every mounted component re-renders in the new locale immediately.
+ */
+export default function LanguageSwitcher() {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <div
+      className="fixed top-4 right-4 z-40 flex items-center gap-1 glassmorphism neon-border rounded-lg p-1"
+      role="group"
+      aria-label={t('language.label')}
+    >
+      <Languages className="w-4 h-4 mx-1 text-[#00ffff]" />
+      {LOCALES.map((option) => (
+        <button
+          key={option}
+          onClick={() => setLocale(option)}
+          aria-pressed={locale === option}
+          className={`px-2 py-1 rounded font-orbitron text-xs transition-all duration-300 ${
+            locale === option
+              ? 'bg-[#00ffff]/20 text-[#00ffff] text-glow-cyan'
+              : 'text-[#9933ff] hover:text-[#00ffff]'
+          }`}
+        >
+          {t(`language.${option}`)}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -1,11 +1,12 @@
 import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { useGetTopLands } from '../hooks/useQueries';
-import { formatTokenBalance } from '@/lib/tokenUtils';
+import { useI18n } from '@/hooks/useI18n';
 import { Trophy, Loader2 } from 'lucide-react';
 
 export default function Leaderboard() {
   const { data: topLands, isLoading, error } = useGetTopLands();
+  const { t, formatCbrAmount } = useI18n();
 
   if (isLoading) {
     return (
@@ -18,7 +19,7 @@ export default function Leaderboard() {
   if (error) {
     return (
       <div className="text-center py-12">
-        <p className="text-red-400">Ошибка загрузки рейтинга</p>
+        <p className="text-red-400">{t('leaderboard.error')}</p>
       </div>
     );
   }
@@ -28,12 +29,12 @@ export default function Leaderboard() {
       <CardHeader>
         <CardTitle className="text-[#00ff41] flex items-center gap-2">
           <Trophy className="w-6 h-6" />
-          ТОП-10 ЗЕМЕЛЬ
+          {t('leaderboard.title')}
         </CardTitle>
       </CardHeader>
       <CardContent>
         {!topLands || topLands.length === 0 ? (
-          <p className="text-white/50 text-center py-8">Нет данных для отображения</p>
+          <p className="text-white/50 text-center py-8">{t('leaderboard.empty')}</p>
         ) : (
           <div className="space-y-3">
             {topLands.map((entry, index) => (
@@ -67,13 +68,13 @@ export default function Leaderboard() {
                     <div>
                       <p className="text-white font-medium">{entry.plotName}</p>
                       <p className="text-white/50 text-sm">
-                        Уровень {entry.upgradeLevel.toString()}
+                        {t('leaderboard.level', { level: entry.upgradeLevel })}
                       </p>
                     </div>
                   </div>
                   <div className="text-right">
                     <p className="text-[#00ff41] font-bold">
-                      {formatTokenBalance(entry.tokenBalance)} CBR
+                      {t('common.cbrAmount', { amount: formatCbrAmount(entry.tokenBalance) })}
                     </p>
                   </div>
                 </div>
@@ -1,9 +1,9 @@
 import React, { useRef, useEffect, useState } from 'react';
-import { useActor } from '../hooks/useActor';
-import { useQuery } from '@tanstack/react-query';
 import type { LandData } from '@/backend';
 import { X } from 'lucide-react';
-import { useInternetIdentity } from '../hooks/useInternetIdentity';
+import { useWallet } from '../contexts/WalletContext';
+import { useGetLandData } from '../hooks/useQueries';
+import { useI18n } from '../hooks/useI18n';
 
 interface MapViewProps {
   landData: LandData;
@@ -22,20 +22,13 @@ const MapView: React.FC<MapViewProps> = ({ landData, onClose }) => {
   const mapRef = useRef<any>(null);
   const markersRef = useRef<any[]>([]);
   const [maptalksSdkLoaded, setMaptalksSdkLoaded] = useState(false);
-  const { actor } = useActor();
-  const { identity } = useInternetIdentity();
+  const { principal } = useWallet();
+  const { t } = useI18n();
 
   // Fetch all lands for the map
-  const { data: lands } = useQuery<LandData[]>({
-    queryKey: ['landData'],
-    queryFn: async () => {
-      if (!actor) throw new Error('Actor not initialized');
-      return actor.getLandData();
-    },
-    enabled: !!actor,
-  });
+  const { data: lands } = useGetLandData();
 
-  const userPrincipal = identity?.getPrincipal().toString();
+  const userPrincipal = principal?.toText();
 
   // Load Maptalks.js via CDN
   useEffect(() => {
@@ -291,7 +284,7 @@ const MapView: React.FC<MapViewProps> = ({ landData, onClose }) => {
     return (
       <div className="fixed inset-0 z-[9999] bg-black flex items-center justify-center">
         <div className="text-[#00ffff] text-xl animate-pulse font-orbitron">
-          {!maptalksSdkLoaded ? 'Загрузка библиотеки Maptalks...' : 'Загрузка данных земель...'}
+          {!maptalksSdkLoaded ? t('map.loadingLibrary') : t('map.loadingLands')}
         </div>
       </div>
     );
@@ -1,6 +1,7 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect } from 'react';
+import { useNavigate, useSearch } from '@tanstack/react-router';
 import { useGetAllActiveListings, useBuyItem, useGetLandData, useGetMyModifications, useListItem, useCancelListing } from '../hooks/useQueries';
-import { useInternetIdentity } from '../hooks/useInternetIdentity';
+import { useWallet } from '../contexts/WalletContext';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -10,15 +11,19 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ShoppingCart, Loader2, MapPin, Sparkles, Plus, X, Filter } from 'lucide-react';
 import { toast } from 'sonner';
 import { ItemType } from '../marketplace-backend.d';
+import { useI18n } from '../hooks/useI18n';
+import { biomeName, tierName } from '../i18n';
 
 export default function Marketplace() {
   const { data: listings, isLoading } = useGetAllActiveListings();
   const { data: myLandArray } = useGetLandData();
   const { data: myModifications } = useGetMyModifications();
-  const { identity } = useInternetIdentity();
+  // Listings belong to whichever principal signs marketplace transactions
+  const { principal } = useWallet();
   const buyItemMutation = useBuyItem();
   const listItemMutation = useListItem();
   const cancelListingMutation = useCancelListing();
+  const { t, formatCbrAmount } = useI18n();
   
   const [buyingId, setBuyingId] = useState<bigint | null>(null);
   const [cancellingId, setCancellingId] = useState<bigint | null>(null);
@@ -28,11 +33,50 @@ export default function Marketplace() {
   const [selectedLandId, setSelectedLandId] = useState<bigint | null>(null);
   const [selectedModId, setSelectedModId] = useState<bigint | null>(null);
 
-  // Filtering states
-  const [filterType, setFilterType] = useState<'all' | 'land' | 'modifier'>('all');
-  const [filterTier, setFilterTier] = useState<string>('all');
-  const [minPrice, setMinPrice] = useState('');
-  const [maxPrice, setMaxPrice] = useState('');
+  // Filters live in the /market query string so they survive reloads and can be shared.
+  const navigate = useNavigate();
+  const search = useSearch({ from: '/market' });
+  const filterType = search.type ?? 'all';
+  const filterTier = search.tier?.toString() ?? 'all';
+
+  // Price inputs keep their own text so partial values like "1." can be typed.
+  const [minPrice, setMinPrice] = useState(search.min?.toString() ?? '');
+  const [maxPrice, setMaxPrice] = useState(search.max?.toString() ?? '');
+
+  useEffect(() => {
+    setMinPrice((current) => (parseFloat(current) === search.min ? current : (search.min?.toString() ?? '')));
+  }, [search.min]);
+
+  useEffect(() => {
+    setMaxPrice((current) => (parseFloat(current) === search.max ? current : (search.max?.toString() ?? '')));
+  }, [search.max]);
+
+  const updateFilters = (changes: { type?: 'land' | 'modifier'; tier?: number; min?: number; max?: number }) => {
+    navigate({ to: '/market', search: (prev) => ({ ...prev, ...changes }), replace: true });
+  };
+
+  const parsePriceFilter = (value: string): number | undefined => {
+    const price = parseFloat(value);
+    return Number.isFinite(price) && price >= 0 ? price : undefined;
+  };
+
+  const setFilterType = (value: 'all' | 'land' | 'modifier') => {
+    updateFilters({ type: value === 'all' ? undefined : value });
+  };
+
+  const setFilterTier = (value: string) => {
+    updateFilters({ tier: value === 'all' ? undefined : Number(value) });
+  };
+
+  const handleMinPriceChange = (value: string) => {
+    setMinPrice(value);
+    updateFilters({ min: parsePriceFilter(value) });
+  };
+
+  const handleMaxPriceChange = (value: string) => {
+    setMaxPrice(value);
+    updateFilters({ max: parsePriceFilter(value) });
+  };
 
   // Filter listings
   const filteredListings = useMemo(() => {
@@ -58,27 +102,27 @@ export default function Marketplace() {
       const result = await buyItemMutation.mutateAsync(listingId);
       
       if (result.__kind__ === 'success') {
-        toast.success('Предмет успешно куплен!', {
-          description: `Вы купили предмет за ${Number(price) / 100000000} токенов CBR`,
+        toast.success(t('market.toast.bought'), {
+          description: t('market.toast.boughtDescription', { amount: formatCbrAmount(price) }),
         });
       } else if (result.__kind__ === 'insufficientFunds') {
-        toast.error('Недостаточно средств', {
-          description: `Требуется: ${Number(result.insufficientFunds.required) / 100000000} CBR`,
+        toast.error(t('market.toast.insufficientFunds'), {
+          description: t('market.toast.required', { amount: formatCbrAmount(result.insufficientFunds.required) }),
         });
       } else if (result.__kind__ === 'listingNotFound') {
-        toast.error('Объявление не найдено');
+        toast.error(t('market.toast.listingNotFound'));
       } else if (result.__kind__ === 'listingNotActive') {
-        toast.error('Объявление больше не активно');
+        toast.error(t('market.toast.listingNotActive'));
       } else if (result.__kind__ === 'cannotBuyOwnListing') {
-        toast.error('Нельзя купить собственное объявление');
+        toast.error(t('market.toast.cannotBuyOwn'));
       } else if (result.__kind__ === 'transferFailed') {
-        toast.error('Перевод не удался', {
+        toast.error(t('market.toast.transferFailed'), {
           description: result.transferFailed,
         });
       }
     } catch (error) {
-      toast.error('Не удалось купить предмет', {
-        description: error instanceof Error ? error.message : 'Неизвестная ошибка',
+      toast.error(t('market.toast.buyFailed'), {
+        description: error instanceof Error ? error.message : t('common.unknownError'),
       });
     } finally {
       setBuyingId(null);
@@ -89,10 +133,10 @@ export default function Marketplace() {
     setCancellingId(listingId);
     try {
       await cancelListingMutation.mutateAsync(listingId);
-      toast.success('Объявление успешно отменено');
+      toast.success(t('market.toast.cancelled'));
     } catch (error) {
-      toast.error('Не удалось отменить объявление', {
-        description: error instanceof Error ? error.message : 'Неизвестная ошибка',
+      toast.error(t('market.toast.cancelFailed'), {
+        description: error instanceof Error ? error.message : t('common.unknownError'),
       });
     } finally {
       setCancellingId(null);
@@ -102,7 +146,7 @@ export default function Marketplace() {
   const handleListItem = async () => {
     const price = parseFloat(listPrice);
     if (isNaN(price) || price <= 0) {
-      toast.error('Неверная цена');
+      toast.error(t('market.toast.invalidPrice'));
       return;
     }
 
@@ -111,7 +155,7 @@ export default function Marketplace() {
       
       if (listingType === 'land') {
         if (!selectedLandId) {
-          toast.error('Пожалуйста, выберите землю для размещения');
+          toast.error(t('market.toast.selectLand'));
           return;
         }
         await listItemMutation.mutateAsync({
@@ -121,7 +165,7 @@ export default function Marketplace() {
         });
       } else {
         if (!selectedModId) {
-          toast.error('Пожалуйста, выберите модификатор для размещения');
+          toast.error(t('market.toast.selectModifier'));
           return;
         }
         await listItemMutation.mutateAsync({
@@ -135,17 +179,17 @@ export default function Marketplace() {
       setListPrice('');
       setSelectedLandId(null);
       setSelectedModId(null);
-      toast.success('Предмет успешно размещен!');
+      toast.success(t('market.toast.listed'));
     } catch (error) {
-      toast.error('Не удалось разместить предмет', {
-        description: error instanceof Error ? error.message : 'Неизвестная ошибка',
+      toast.error(t('market.toast.listFailed'), {
+        description: error instanceof Error ? error.message : t('common.unknownError'),
       });
     }
   };
 
   const isMyListing = (sellerPrincipal: string): boolean => {
-    if (!identity) return false;
-    return sellerPrincipal === identity.getPrincipal().toString();
+    if (!principal) return false;
+    return sellerPrincipal === principal.toText();
   };
 
   if (isLoading) {
@@ -153,7 +197,7 @@ export default function Marketplace() {
       <div className="flex items-center justify-center py-12">
         <div className="text-center space-y-4">
           <Loader2 className="h-8 w-8 animate-spin text-primary mx-auto" />
-          <p className="font-jetbrains text-muted-foreground">Загрузка маркетплейса...</p>
+          <p className="font-jetbrains text-muted-foreground">{t('market.loading')}</p>
         </div>
       </div>
     );
@@ -163,9 +207,9 @@ export default function Marketplace() {
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <div className="space-y-2">
-          <h2 className="font-orbitron text-3xl font-bold text-glow-teal">МАРКЕТПЛЕЙС</h2>
+          <h2 className="font-orbitron text-3xl font-bold text-glow-teal">{t('market.title')}</h2>
           <p className="font-jetbrains text-muted-foreground">
-            Покупайте и продавайте земельные участки и модификаторы за токены CBR
+            {t('market.subtitle')}
           </p>
         </div>
 
@@ -173,35 +217,35 @@ export default function Marketplace() {
           <DialogTrigger asChild>
             <Button className="font-orbitron bg-primary hover:bg-primary/80 box-glow-teal">
               <Plus className="mr-2 h-4 w-4" />
-              РАЗМЕСТИТЬ ПРЕДМЕТ
+              {t('market.listItem')}
             </Button>
           </DialogTrigger>
           <DialogContent className="glassmorphism border-primary/20">
             <DialogHeader>
               <DialogTitle className="font-orbitron text-xl text-glow-teal">
-                Разместить предмет на продажу
+                {t('market.dialog.title')}
               </DialogTitle>
             </DialogHeader>
             <div className="space-y-4 py-4">
               <Tabs value={listingType} onValueChange={(v) => setListingType(v as 'land' | 'modifier')}>
                 <TabsList className="grid w-full grid-cols-2">
-                  <TabsTrigger value="land" className="font-orbitron">Земля</TabsTrigger>
-                  <TabsTrigger value="modifier" className="font-orbitron">Модификатор</TabsTrigger>
+                  <TabsTrigger value="land" className="font-orbitron">{t('market.dialog.land')}</TabsTrigger>
+                  <TabsTrigger value="modifier" className="font-orbitron">{t('market.dialog.modifier')}</TabsTrigger>
                 </TabsList>
                 
                 <TabsContent value="land" className="space-y-4">
                   <div>
                     <label className="font-jetbrains text-sm text-muted-foreground mb-2 block">
-                      Выберите землю
+                      {t('market.dialog.chooseLand')}
                     </label>
                     <Select value={selectedLandId?.toString()} onValueChange={(v) => setSelectedLandId(BigInt(v))}>
                       <SelectTrigger>
-                        <SelectValue placeholder="Выберите земельный участок" />
+                        <SelectValue placeholder={t('market.dialog.chooseLandPlaceholder')} />
                       </SelectTrigger>
                       <SelectContent>
                         {myLandArray?.map((land) => (
                           <SelectItem key={land.landId.toString()} value={land.landId.toString()}>
-                            {land.plotName} - {land.biome}
+                            {land.plotName} - {biomeName(land.biome)}
                           </SelectItem>
                         ))}
                       </SelectContent>
@@ -212,16 +256,16 @@ export default function Marketplace() {
                 <TabsContent value="modifier" className="space-y-4">
                   <div>
                     <label className="font-jetbrains text-sm text-muted-foreground mb-2 block">
-                      Выберите модификатор
+                      {t('market.dialog.chooseModifier')}
                     </label>
                     <Select value={selectedModId?.toString()} onValueChange={(v) => setSelectedModId(BigInt(v))}>
                       <SelectTrigger>
-                        <SelectValue placeholder="Выберите модификатор" />
+                        <SelectValue placeholder={t('market.dialog.chooseModifier')} />
                       </SelectTrigger>
                       <SelectContent>
                         {myModifications?.map((mod) => (
                           <SelectItem key={mod.mod_id.toString()} value={mod.mod_id.toString()}>
-                            Модификатор #{mod.mod_id.toString()} - Уровень {mod.rarity_tier.toString()}
+                            {t('market.dialog.modifierOption', { id: mod.mod_id.toString(), tier: tierName(mod.rarity_tier) })}
                           </SelectItem>
                         ))}
                       </SelectContent>
@@ -232,7 +276,7 @@ export default function Marketplace() {
               
               <div>
                 <label className="font-jetbrains text-sm text-muted-foreground mb-2 block">
-                  Цена продажи (CBR)
+                  {t('market.dialog.price')}
                 </label>
                 <Input
                   type="number"
@@ -253,12 +297,12 @@ export default function Marketplace() {
                 {listItemMutation.isPending ? (
                   <>
                     <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Размещение...
+                    {t('market.dialog.listing')}
                   </>
                 ) : (
                   <>
                     <Plus className="mr-2 h-4 w-4" />
-                    РАЗМЕСТИТЬ ПРЕДМЕТ
+                    {t('market.listItem')}
                   </>
                 )}
               </Button>
@@ -272,53 +316,53 @@ export default function Marketplace() {
         <CardHeader>
           <CardTitle className="font-orbitron text-lg text-glow-teal flex items-center gap-2">
             <Filter className="h-5 w-5" />
-            Фильтры
+            {t('market.filters.title')}
           </CardTitle>
         </CardHeader>
         <CardContent>
           <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
             <div>
               <label className="font-jetbrains text-sm text-muted-foreground mb-2 block">
-                Тип предмета
+                {t('market.filters.type')}
               </label>
               <Select value={filterType} onValueChange={(v) => setFilterType(v as 'all' | 'land' | 'modifier')}>
                 <SelectTrigger>
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="all">Все предметы</SelectItem>
-                  <SelectItem value="land">Только земля</SelectItem>
-                  <SelectItem value="modifier">Только модификаторы</SelectItem>
+                  <SelectItem value="all">{t('market.filters.allItems')}</SelectItem>
+                  <SelectItem value="land">{t('market.filters.landOnly')}</SelectItem>
+                  <SelectItem value="modifier">{t('market.filters.modifiersOnly')}</SelectItem>
                 </SelectContent>
               </Select>
             </div>
             
             <div>
               <label className="font-jetbrains text-sm text-muted-foreground mb-2 block">
-                Уровень редкости
+                {t('market.filters.tier')}
               </label>
               <Select value={filterTier} onValueChange={setFilterTier}>
                 <SelectTrigger>
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="all">Все уровни</SelectItem>
-                  <SelectItem value="1">Уровень 1 (Обычный)</SelectItem>
-                  <SelectItem value="2">Уровень 2 (Редкий)</SelectItem>
-                  <SelectItem value="3">Уровень 3 (Легендарный)</SelectItem>
-                  <SelectItem value="4">Уровень 4 (Мифический)</SelectItem>
+                  <SelectItem value="all">{t('market.filters.allTiers')}</SelectItem>
+                  <SelectItem value="1">{t('market.filters.tierOption', { tier: 1, name: tierName(1) })}</SelectItem>
+                  <SelectItem value="2">{t('market.filters.tierOption', { tier: 2, name: tierName(2) })}</SelectItem>
+                  <SelectItem value="3">{t('market.filters.tierOption', { tier: 3, name: tierName(3) })}</SelectItem>
+                  <SelectItem value="4">{t('market.filters.tierOption', { tier: 4, name: tierName(4) })}</SelectItem>
                 </SelectContent>
               </Select>
             </div>
             
             <div>
               <label className="font-jetbrains text-sm text-muted-foreground mb-2 block">
-                Мин. цена (CBR)
+                {t('market.filters.minPrice')}
               </label>
               <Input
                 type="number"
                 value={minPrice}
-                onChange={(e) => setMinPrice(e.target.value)}
+                onChange={(e) => handleMinPriceChange(e.target.value)}
                 placeholder="0.00"
                 className="font-jetbrains"
                 min="0"
@@ -328,12 +372,12 @@ export default function Marketplace() {
             
             <div>
               <label className="font-jetbrains text-sm text-muted-foreground mb-2 block">
-                Макс. цена (CBR)
+                {t('market.filters.maxPrice')}
               </label>
               <Input
                 type="number"
                 value={maxPrice}
-                onChange={(e) => setMaxPrice(e.target.value)}
+                onChange={(e) => handleMaxPriceChange(e.target.value)}
                 placeholder="0.00"
                 className="font-jetbrains"
                 min="0"
@@ -350,11 +394,11 @@ export default function Marketplace() {
             <div className="text-center space-y-4">
               <ShoppingCart className="h-12 w-12 text-muted-foreground mx-auto" />
               <div>
-                <h3 className="font-orbitron text-xl text-glow-teal mb-2">Нет доступных объявлений</h3>
+                <h3 className="font-orbitron text-xl text-glow-teal mb-2">{t('market.empty.title')}</h3>
                 <p className="font-jetbrains text-muted-foreground">
                   {filterType !== 'all' || filterTier !== 'all' || minPrice || maxPrice
-                    ? 'Нет предметов, соответствующих вашим фильтрам'
-                    : 'Будьте первым, кто разместит предмет на продажу'}
+                    ? t('market.empty.filtered')
+                    : t('market.empty.firstListing')}
                 </p>
               </div>
             </div>
@@ -378,17 +422,17 @@ export default function Marketplace() {
                     {isLand ? (
                       <>
                         <MapPin className="h-5 w-5" />
-                        Земля #{Number(listing.itemId)}
+                        {t('market.card.land', { id: Number(listing.itemId) })}
                       </>
                     ) : (
                       <>
                         <Sparkles className="h-5 w-5" />
-                        Модификатор #{Number(listing.itemId)}
+                        {t('market.card.modifier', { id: Number(listing.itemId) })}
                       </>
                     )}
                     {isOwner && (
                       <span className="ml-auto text-xs text-secondary font-jetbrains">
-                        ВАШЕ ОБЪЯВЛЕНИЕ
+                        {t('market.card.yourListing')}
                       </span>
                     )}
                   </CardTitle>
@@ -396,21 +440,21 @@ export default function Marketplace() {
                 <CardContent className="space-y-4">
                   <div className="space-y-2 font-jetbrains text-sm">
                     <div className="flex justify-between items-center">
-                      <span className="text-muted-foreground">Тип:</span>
+                      <span className="text-muted-foreground">{t('market.card.type')}</span>
                       <span className={isLand ? 'text-primary' : 'text-accent'}>
-                        {isLand ? 'NFT Земля' : 'Модификатор'}
+                        {isLand ? t('market.card.landNft') : t('market.dialog.modifier')}
                       </span>
                     </div>
                     <div className="flex justify-between items-center">
-                      <span className="text-muted-foreground">Продавец:</span>
+                      <span className="text-muted-foreground">{t('market.card.seller')}</span>
                       <span className="text-primary font-mono text-xs">
                         {listing.seller.toString().slice(0, 8)}...
                       </span>
                     </div>
                     <div className="flex justify-between items-center">
-                      <span className="text-muted-foreground">Цена:</span>
+                      <span className="text-muted-foreground">{t('market.card.price')}</span>
                       <span className="text-xl font-bold text-glow-yellow">
-                        {Number(listing.price) / 100000000} CBR
+                        {t('common.cbrAmount', { amount: formatCbrAmount(listing.price) })}
                       </span>
                     </div>
                   </div>
@@ -425,12 +469,12 @@ export default function Marketplace() {
                       {cancellingId === listing.listingId ? (
                         <>
                           <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                          Отмена...
+                          {t('market.card.cancelling')}
                         </>
                       ) : (
                         <>
                           <X className="mr-2 h-4 w-4" />
-                          ОТМЕНИТЬ ОБЪЯВЛЕНИЕ
+                          {t('market.card.cancel')}
                         </>
                       )}
                     </Button>
@@ -443,12 +487,12 @@ export default function Marketplace() {
                       {buyingId === listing.listingId ? (
                         <>
                           <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                          Покупка...
+                          {t('market.card.buying')}
                         </>
                       ) : (
                         <>
                           <ShoppingCart className="mr-2 h-4 w-4" />
-                          КУПИТЬ ПРЕДМЕТ
+                          {t('market.card.buy')}
                         </>
                       )}
                     </Button>
@@ -0,0 +1,337 @@
+import { useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useGetAllModifiers } from '@/hooks/useQueries';
+import { useI18n } from '@/hooks/useI18n';
+import { tierName } from '@/i18n';
+import {
+  CATALOG_FIELDS,
+  catalogFromCsv,
+  catalogFromJson,
+  catalogToCandidArgs,
+  catalogToCsv,
+  catalogToJson,
+  diffCatalog,
+  emptyDraft,
+  findUnreachableAssets,
+  toDraft,
+  validateCatalog,
+  type CatalogChange,
+  type DraftField,
+  type ModifierDraft,
+} from '@/lib/catalogEditor';
+import { Copy, Download, FileUp, GitCompare, Loader2, Plus, RotateCcw, Settings2, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { Modifier } from '@/backend';
+
+function downloadText(filename: string, text: string, type: string) {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Admin editor for the modifier catalog. Rows are edited in place, imported or exported as
+ * JSON/CSV, and after reviewing a diff against the live catalog the whole list is exported as
+ * the arguments of a governance proposal calling adminSetAllModifiers.
+ */
+export default function ModifierCatalogEditor() {
+  const { t } = useI18n();
+  const { data: catalog, isLoading } = useGetAllModifiers();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // null follows the live catalog until the first edit
+  const [drafts, setDrafts] = useState<ModifierDraft[] | null>(null);
+  const [unreachable, setUnreachable] = useState<Set<string>>(new Set());
+  const [isChecking, setIsChecking] = useState(false);
+  const [review, setReview] = useState<{
+    modifiers: Modifier[];
+    changes: CatalogChange[];
+    payload: string;
+    warnings: number;
+  } | null>(null);
+
+  const current = catalog ?? [];
+  const rows = drafts ?? current.map(toDraft);
+  const { issues, warnings } = validateCatalog(rows, unreachable);
+  const issueFor = (row: number, field: DraftField) =>
+    issues.find((issue) => issue.row === row && issue.field === field);
+  const warningFor = (row: number, field: DraftField) =>
+    warnings.find((warning) => warning.row === row && warning.field === field);
+
+  const updateRow = (index: number, field: DraftField, value: string) => {
+    setDrafts(rows.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      const imported = file.name.toLowerCase().endsWith('.csv') ? catalogFromCsv(text) : catalogFromJson(text);
+      setDrafts(imported);
+      setUnreachable(new Set());
+      toast.success(t('catalogEditor.toast.imported', { count: imported.length }));
+    } catch (error: any) {
+      console.error('Catalog import error:', error);
+      toast.error(t('catalogEditor.toast.importError', { message: error.message || t('common.unknownError') }));
+    }
+  };
+
+  const handleReview = async () => {
+    setIsChecking(true);
+    try {
+      const missing = await findUnreachableAssets(rows.map((row) => row.asset_url));
+      setUnreachable(missing);
+      const { modifiers, warnings: assetWarnings } = validateCatalog(rows, missing);
+      if (!modifiers) {
+        toast.error(t('catalogEditor.toast.invalid'));
+        return;
+      }
+      if (modifiers.length === 0) {
+        toast.error(t('catalogEditor.toast.empty'));
+        return;
+      }
+      setReview({
+        modifiers,
+        changes: diffCatalog(current, modifiers),
+        payload: catalogToCandidArgs(modifiers),
+        warnings: assetWarnings.length,
+      });
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleCopyPayload = async () => {
+    if (!review) return;
+    try {
+      await navigator.clipboard.writeText(review.payload);
+      toast.success(t('catalogEditor.toast.payloadCopied'));
+    } catch (error) {
+      console.error('Copy catalog payload error:', error);
+      toast.error(t('catalogEditor.toast.copyError'));
+    }
+  };
+
+  const renderChange = (change: CatalogChange) => {
+    if (change.kind === 'changed') {
+      return (
+        <div key={`changed-${change.after.mod_id}`} className="space-y-1">
+          <p className="text-yellow-400">
+            ~ #{change.after.mod_id.toString()} {change.after.name}
+          </p>
+          {change.fields.map((field) => (
+            <p key={field} className="pl-4 text-xs text-white/70">
+              {field}: <span className="text-red-400 line-through">{String(change.before[field])}</span>{' '}
+              → <span className="text-[#00ff41]">{String(change.after[field])}</span>
+            </p>
+          ))}
+        </div>
+      );
+    }
+    const added = change.kind === 'added';
+    return (
+      <p key={`${change.kind}-${change.modifier.mod_id}`} className={added ? 'text-[#00ff41]' : 'text-red-400'}>
+        {added ? '+' : '−'} #{change.modifier.mod_id.toString()} {change.modifier.name} ·{' '}
+        {tierName(change.modifier.rarity_tier)} ·{' '}
+        {change.modifier.multiplier_value}x
+      </p>
+    );
+  };
+
+  return (
+    <Card className="glassmorphism border-yellow-500/30">
+      <CardHeader>
+        <CardTitle className="font-orbitron text-xl flex items-center gap-2 text-yellow-400">
+          <Settings2 className="h-5 w-5" />
+          {t('catalogEditor.title')}
+          {drafts && <Badge variant="outline">{t('catalogEditor.unsaved')}</Badge>}
+        </CardTitle>
+        <p className="font-jetbrains text-xs text-muted-foreground">{t('catalogEditor.description')}</p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          <Button size="sm" variant="outline" onClick={() => setDrafts([...rows, emptyDraft(rows)])}>
+            <Plus className="w-4 h-4 mr-2" />
+            {t('catalogEditor.addRow')}
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()}>
+            <FileUp className="w-4 h-4 mr-2" />
+            {t('catalogEditor.import')}
+          </Button>
+          <input ref={fileInputRef} type="file" accept=".json,.csv" className="hidden" onChange={handleImport} />
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => downloadText('modifier-catalog.json', catalogToJson(rows), 'application/json')}
+          >
+            <Download className="w-4 h-4 mr-2" />
+            {t('catalogEditor.exportJson')}
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => downloadText('modifier-catalog.csv', catalogToCsv(rows), 'text/csv')}
+          >
+            <Download className="w-4 h-4 mr-2" />
+            {t('catalogEditor.exportCsv')}
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={!drafts}
+            onClick={() => {
+              setDrafts(null);
+              setUnreachable(new Set());
+            }}
+          >
+            <RotateCcw className="w-4 h-4 mr-2" />
+            {t('catalogEditor.reset')}
+          </Button>
+          <Button
+            size="sm"
+            onClick={handleReview}
+            disabled={isChecking || isLoading || rows.length === 0}
+            className="bg-yellow-500 hover:bg-yellow-500/80 text-black font-bold"
+          >
+            {isChecking ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <GitCompare className="w-4 h-4 mr-2" />}
+            {isChecking ? t('catalogEditor.checkingAssets') : t('catalogEditor.review')}
+          </Button>
+        </div>
+
+        {issues.length > 0 && (
+          <p className="font-jetbrains text-xs text-red-400">{t('catalogEditor.issueCount', { count: issues.length })}</p>
+        )}
+        {warnings.length > 0 && (
+          <p className="font-jetbrains text-xs text-yellow-400">
+            {t('catalogEditor.warningCount', { count: warnings.length })}
+          </p>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center gap-2">
+            <Loader2 className="w-4 h-4 animate-spin text-primary" />
+            <span className="font-jetbrains text-white/70">{t('collection.loading')}</span>
+          </div>
+        ) : (
+          <div className="max-h-[60vh] overflow-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {CATALOG_FIELDS.map((field) => (
+                    <TableHead key={field} className="font-jetbrains text-xs">
+                      {field}
+                    </TableHead>
+                  ))}
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row, index) => (
+                  <TableRow key={index}>
+                    {CATALOG_FIELDS.map((field) => {
+                      const issue = issueFor(index, field);
+                      const warning = issue ? undefined : warningFor(index, field);
+                      return (
+                        <TableCell key={field} className="align-top">
+                          <Input
+                            value={row[field]}
+                            onChange={(event) => updateRow(index, field, event.target.value)}
+                            className={`font-jetbrains text-xs h-8 ${field === 'asset_url' ? 'min-w-64' : field === 'name' ? 'min-w-40' : 'w-24'} ${issue ? 'border-red-500' : warning ? 'border-yellow-500' : ''}`}
+                          />
+                          {issue && (
+                            <p className="mt-1 font-jetbrains text-[10px] text-red-400">
+                              {t(`catalogEditor.issue.${issue.code}`)}
+                            </p>
+                          )}
+                          {warning && (
+                            <p className="mt-1 font-jetbrains text-[10px] text-yellow-400">
+                              {t(`catalogEditor.issue.${warning.code}`)}
+                            </p>
+                          )}
+                        </TableCell>
+                      );
+                    })}
+                    <TableCell className="align-top">
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => setDrafts(rows.filter((_, i) => i !== index))}
+                        aria-label={t('catalogEditor.removeRow')}
+                      >
+                        <Trash2 className="w-4 h-4 text-red-400" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={review !== null} onOpenChange={(open) => !open && setReview(null)}>
+        <DialogContent className="glassmorphism border-yellow-500/30 max-w-2xl">
+          <DialogHeader>
+            <DialogTitle className="font-orbitron text-yellow-400">{t('catalogEditor.diffTitle')}</DialogTitle>
+            <DialogDescription className="font-jetbrains">
+              {review &&
+                t('catalogEditor.diffSummary', {
+                  added: review.changes.filter((change) => change.kind === 'added').length,
+                  changed: review.changes.filter((change) => change.kind === 'changed').length,
+                  removed: review.changes.filter((change) => change.kind === 'removed').length,
+                  total: review.modifiers.length,
+                })}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="max-h-[50vh] overflow-y-auto space-y-2 font-jetbrains text-sm">
+            {review && review.changes.length === 0 ? (
+              <p className="text-white/50">{t('catalogEditor.noChanges')}</p>
+            ) : (
+              review?.changes.map(renderChange)
+            )}
+          </div>
+          {review && review.warnings > 0 && (
+            <p className="font-jetbrains text-xs text-yellow-400">
+              {t('catalogEditor.warningCount', { count: review.warnings })}
+            </p>
+          )}
+          {review && review.changes.length > 0 && (
+            <div className="space-y-2">
+              <p className="font-jetbrains text-xs text-muted-foreground">{t('catalogEditor.payloadHint')}</p>
+              <pre className="max-h-40 overflow-auto rounded-md bg-black/40 p-3 font-jetbrains text-[10px] text-white/70">
+                {review.payload}
+              </pre>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReview(null)}>
+              {t('catalogEditor.cancel')}
+            </Button>
+            <Button variant="outline" onClick={handleCopyPayload} disabled={!review || review.changes.length === 0}>
+              <Copy className="w-4 h-4 mr-2" />
+              {t('catalogEditor.copyPayload')}
+            </Button>
+            <Button
+              onClick={() => review && downloadText('modifier-catalog.did', review.payload, 'text/plain')}
+              disabled={!review || review.changes.length === 0}
+              className="bg-yellow-500 hover:bg-yellow-500/80 text-black font-bold"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              {t('catalogEditor.downloadPayload', { count: review?.modifiers.length ?? 0 })}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
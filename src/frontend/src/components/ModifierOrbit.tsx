@@ -0,0 +1,155 @@
+import { Suspense, useEffect, useMemo, useRef, useState } from 'react';
+import { useFrame, useLoader, useThree } from '@react-three/fiber';
+import { Html } from '@react-three/drei';
+import * as THREE from 'three';
+import { useI18n } from '@/hooks/useI18n';
+import { tierName } from '@/i18n';
+import { CachedGLTFLoader, configureGLTFLoader, getKTX2Loader } from '@/lib/modelLoader';
+import SceneErrorBoundary from './SceneErrorBoundary';
+import type { ModifierInstance } from '@/backend';
+
+interface ModifierOrbitProps {
+  modifiers: ModifierInstance[];
+  /** Bounds of the land model the modifiers circle around. */
+  landBounds: THREE.Box3;
+}
+
+// Emissive treatment per rarity tier. Intensities above the bloom threshold (2.1) glow.
+const TIER_GLOW: Record<number, { color: string; intensity: number }> = {
+  1: { color: '#9ca3af', intensity: 0.4 },
+  2: { color: '#60a5fa', intensity: 2.4 },
+  3: { color: '#a855f7', intensity: 4.0 },
+  4: { color: '#facc15', intensity: 6.0 },
+};
+
+const ORBIT_SPEED = 0.15;
+const SPIN_SPEED = 0.6;
+// Share of the land's largest dimension used for each modifier
+const MODIFIER_SCALE = 0.18;
+
+function tierGlow(tier: bigint) {
+  return TIER_GLOW[Number(tier)] ?? TIER_GLOW[1];
+}
+
+interface OrbitingModifierProps {
+  modifier: ModifierInstance;
+  slot: number;
+  slotCount: number;
+  center: THREE.Vector3;
+  radius: number;
+  height: number;
+  size: number;
+}
+
+function OrbitingModifier({ modifier, slot, slotCount, center, radius, height, size }: OrbitingModifierProps) {
+  const { gl } = useThree();
+  const { t, formatNumber } = useI18n();
+  const group = useRef<THREE.Group>(null);
+  const [hovered, setHovered] = useState(false);
+  const gltf = useLoader(CachedGLTFLoader, modifier.model_url, (loader) => {
+    configureGLTFLoader(loader, getKTX2Loader(gl));
+  });
+
+  // Each slot gets its own copy, since instances of one model can sit on the same land
+  const model = useMemo(() => {
+    const glow = tierGlow(modifier.rarity_tier);
+    const clone = gltf.scene.clone(true);
+    clone.traverse((child) => {
+      if (!(child instanceof THREE.Mesh)) return;
+      const materials: THREE.Material[] = Array.isArray(child.material) ? child.material : [child.material];
+      const tinted = materials.map((material) => {
+        const copy = material.clone();
+        if (copy instanceof THREE.MeshStandardMaterial) {
+          copy.emissive = new THREE.Color(glow.color);
+          copy.emissiveIntensity = glow.intensity;
+          // Let intensities above 1 reach the bloom pass
+          copy.toneMapped = glow.intensity <= 1;
+        }
+        return copy;
+      });
+      child.material = Array.isArray(child.material) ? tinted : tinted[0];
+    });
+
+    const box = new THREE.Box3().setFromObject(clone);
+    const maxDim = Math.max(...box.getSize(new THREE.Vector3()).toArray()) || 1;
+    clone.scale.setScalar(size / maxDim);
+    clone.position.sub(box.getCenter(new THREE.Vector3()).multiplyScalar(size / maxDim));
+    return clone;
+  }, [gltf, modifier.rarity_tier, size]);
+
+  // The tinted materials belong to this copy; geometry and textures stay with the cached model
+  useEffect(
+    () => () =>
+      model.traverse((child) => {
+        if (!(child instanceof THREE.Mesh)) return;
+        const materials: THREE.Material[] = Array.isArray(child.material) ? child.material : [child.material];
+        materials.forEach((material) => material.dispose());
+      }),
+    [model]
+  );
+
+  useFrame((state, delta) => {
+    if (!group.current) return;
+    const angle = (slot / slotCount) * Math.PI * 2 + state.clock.elapsedTime * ORBIT_SPEED;
+    group.current.position.set(
+      center.x + Math.cos(angle) * radius,
+      height + Math.sin(state.clock.elapsedTime + slot) * size * 0.1,
+      center.z + Math.sin(angle) * radius
+    );
+    group.current.rotation.y += delta * SPIN_SPEED;
+  });
+
+  return (
+    <group
+      ref={group}
+      onPointerOver={(event) => {
+        event.stopPropagation();
+        setHovered(true);
+      }}
+      onPointerOut={() => setHovered(false)}
+    >
+      <primitive object={model} />
+      {hovered && (
+        <Html center position={[0, size * 0.8, 0]} style={{ pointerEvents: 'none' }}>
+          <div className="whitespace-nowrap rounded-lg border border-white/20 bg-black/70 px-3 py-2 font-jetbrains text-xs text-white backdrop-blur-md">
+            <p className="font-medium">{modifier.modifierType}</p>
+            <p className="text-white/60">
+              {tierName(modifier.rarity_tier)} ·{' '}
+              <span className="text-[#00ff41]">
+                {t('common.multiplier', { value: formatNumber(modifier.multiplier_value) })}
+              </span>
+            </p>
+          </div>
+        </Html>
+      )}
+    </group>
+  );
+}
+
+/** Attached modifiers circling the land, one evenly spaced slot per instance. */
+export default function ModifierOrbit({ modifiers, landBounds }: ModifierOrbitProps) {
+  const layout = useMemo(() => {
+    const center = landBounds.getCenter(new THREE.Vector3());
+    const landSize = landBounds.getSize(new THREE.Vector3());
+    const maxDim = Math.max(landSize.x, landSize.y, landSize.z) || 1;
+    return {
+      center,
+      radius: Math.max(landSize.x, landSize.z) * 0.6 + maxDim * MODIFIER_SCALE,
+      height: landBounds.max.y + maxDim * MODIFIER_SCALE * 0.5,
+      size: maxDim * MODIFIER_SCALE,
+    };
+  }, [landBounds]);
+
+  return (
+    <>
+      {/* A modifier whose model fails to load is left out instead of taking the land scene down */}
+      {modifiers.map((modifier, index) => (
+        <SceneErrorBoundary key={modifier.modifierInstanceId.toString()} label={modifier.model_url}>
+          <Suspense fallback={null}>
+            <OrbitingModifier modifier={modifier} slot={index} slotCount={modifiers.length} {...layout} />
+          </Suspense>
+        </SceneErrorBoundary>
+      ))}
+    </>
+  );
+}
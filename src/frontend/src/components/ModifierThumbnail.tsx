@@ -0,0 +1,20 @@
+import type { CSSProperties } from 'react';
+import { useModifierThumbnail } from '@/hooks/useModifierThumbnail';
+import { modifierTierImage } from '@/lib/modifierThumbnails';
+
+interface ModifierThumbnailProps {
+  /** GLB to render; without one the tier image is shown. */
+  modelUrl?: string;
+  tier: bigint | number;
+  /** Image shown until the thumbnail is ready; defaults to the tier image. */
+  fallbackSrc?: string;
+  alt: string;
+  className?: string;
+  style?: CSSProperties;
+}
+
+export default function ModifierThumbnail({ modelUrl, tier, fallbackSrc, alt, className, style }: ModifierThumbnailProps) {
+  const thumbnail = useModifierThumbnail(modelUrl);
+
+  return <img src={thumbnail ?? fallbackSrc ?? modifierTierImage(tier)} alt={alt} className={className} style={style} />;
+}
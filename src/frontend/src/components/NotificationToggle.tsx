@@ -0,0 +1,39 @@
+import { Button } from '@/components/ui/button';
+import { useNotificationSettings } from '@/hooks/useNotifications';
+import { useI18n } from '@/hooks/useI18n';
+import { Bell, BellOff } from 'lucide-react';
+import { toast } from 'sonner';
+
+export default function NotificationToggle() {
+  const { t } = useI18n();
+  const { supported, permission, enabled, enable, disable } = useNotificationSettings();
+
+  if (!supported) return null;
+
+  const handleToggle = async () => {
+    if (enabled) {
+      disable();
+      toast.info(t('notifications.toast.disabled'));
+      return;
+    }
+    if (await enable()) {
+      toast.success(t('notifications.toast.enabled'));
+    } else {
+      toast.error(t('notifications.toast.denied'));
+    }
+  };
+
+  return (
+    <Button
+      onClick={handleToggle}
+      disabled={!enabled && permission === 'denied'}
+      variant="outline"
+      size="sm"
+      title={permission === 'denied' ? t('notifications.blocked') : undefined}
+      className="font-orbitron border-primary/50 hover:bg-primary/10 hover:border-primary"
+    >
+      {enabled ? <Bell className="mr-2 h-4 w-4" /> : <BellOff className="mr-2 h-4 w-4" />}
+      {enabled ? t('notifications.on') : t('notifications.off')}
+    </Button>
+  );
+}
@@ -1,12 +1,15 @@
 import { useEffect, useRef } from 'react';
+import { useRenderQuality } from '../hooks/useRenderQuality';
+import { frameScheduler } from '../lib/frameScheduler';
 
 export default function ParticleBackground() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const animationFrameRef = useRef<number | null>(null);
+  const { settings } = useRenderQuality();
+  const enabled = settings.particleBackground;
 
   useEffect(() => {
     const canvas = canvasRef.current;
-    if (!canvas) return;
+    if (!canvas || !enabled) return;
 
     // Use 2D context - completely isolated from WebGL
     const ctx = canvas.getContext('2d', { 
@@ -47,13 +50,16 @@ export default function ParticleBackground() {
       });
     }
 
-    const animate = () => {
+    // Velocities are per frame at 60fps, scaled by the shared clock's delta
+    const animate = (delta: number) => {
+      const step = delta * 60;
+
       ctx.fillStyle = 'rgba(10, 10, 30, 0.1)';
       ctx.fillRect(0, 0, canvas.width, canvas.height);
 
       particles.forEach((particle) => {
-        particle.x += particle.vx;
-        particle.y += particle.vy;
+        particle.x += particle.vx * step;
+        particle.y += particle.vy * step;
 
         if (particle.x < 0 || particle.x > canvas.width) particle.vx *= -1;
         if (particle.y < 0 || particle.y > canvas.height) particle.vy *= -1;
@@ -83,11 +89,9 @@ export default function ParticleBackground() {
           }
         });
       });
-
-      animationFrameRef.current = requestAnimationFrame(animate);
     };
 
-    animate();
+    const stopLoop = frameScheduler.loop(animate);
 
     const handleResize = () => {
       canvas.width = window.innerWidth;
@@ -97,14 +101,12 @@ export default function ParticleBackground() {
     window.addEventListener('resize', handleResize);
 
     return () => {
-      console.log('[ParticleBackground] 🧹 Cleanup: canceling animation frame');
-      if (animationFrameRef.current !== null) {
-        cancelAnimationFrame(animationFrameRef.current);
-        animationFrameRef.current = null;
-      }
+      console.log('[ParticleBackground] 🧹 Cleanup: stopping animation loop');
+      stopLoop();
       window.removeEventListener('resize', handleResize);
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
     };
-  }, []);
+  }, [enabled]);
 
   return (
     <canvas
@@ -4,6 +4,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useGetLandData, useUpdatePlotName, useUpdateDecoration } from '@/hooks/useQueries';
+import { useI18n } from '@/hooks/useI18n';
 import { Loader2, Edit } from 'lucide-react';
 
 interface PlotCustomizationProps {
@@ -14,6 +15,7 @@ export default function PlotCustomization({ selectedLandIndex }: PlotCustomizati
   const { data: lands } = useGetLandData();
   const updateNameMutation = useUpdatePlotName();
   const updateDecorationMutation = useUpdateDecoration();
+  const { t } = useI18n();
 
   const selectedLand = lands && lands[selectedLandIndex];
 
@@ -58,13 +60,13 @@ export default function PlotCustomization({ selectedLandIndex }: PlotCustomizati
       <CardHeader>
         <CardTitle className="text-purple-400 flex items-center gap-2">
           <Edit className="w-5 h-5" />
-          НАСТРОЙКА УЧАСТКА
+          {t('plot.title')}
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
         <div className="space-y-2">
           <Label htmlFor="plotName" className="text-white/70">
-            Название участка (макс. 20 символов)
+            {t('plot.nameLabel', { max: 20 })}
           </Label>
           <Input
             id="plotName"
@@ -72,7 +74,7 @@ export default function PlotCustomization({ selectedLandIndex }: PlotCustomizati
             onChange={(e) => setPlotName(e.target.value)}
             maxLength={20}
             className="bg-white/5 border-white/10 text-white"
-            placeholder="Введите название..."
+            placeholder={t('plot.namePlaceholder')}
           />
           <Button
             onClick={handleUpdateName}
@@ -82,17 +84,17 @@ export default function PlotCustomization({ selectedLandIndex }: PlotCustomizati
             {updateNameMutation.isPending ? (
               <>
                 <Loader2 className="w-4 h-4 animate-spin mr-2" />
-                Обновление...
+                {t('common.refreshing')}
               </>
             ) : (
-              'ОБНОВИТЬ НАЗВАНИЕ'
+              t('plot.updateName')
             )}
           </Button>
         </div>
 
         <div className="space-y-2">
           <Label htmlFor="decorationUrl" className="text-white/70">
-            URL декорации
+            {t('plot.decorationLabel')}
           </Label>
           <Input
             id="decorationUrl"
@@ -109,10 +111,10 @@ export default function PlotCustomization({ selectedLandIndex }: PlotCustomizati
             {updateDecorationMutation.isPending ? (
               <>
                 <Loader2 className="w-4 h-4 animate-spin mr-2" />
-                Обновление...
+                {t('common.refreshing')}
               </>
             ) : (
-              'ОБНОВИТЬ ДЕКОРАЦИЮ'
+              t('plot.updateDecoration')
             )}
           </Button>
         </div>
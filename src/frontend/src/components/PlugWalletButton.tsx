@@ -1,17 +1,57 @@
 import { Button } from '@/components/ui/button';
 import { usePlugWallet } from '../contexts/PlugWalletContext';
+import { useWallet, type WalletSigner } from '../contexts/WalletContext';
+import { useI18n } from '../hooks/useI18n';
 import { Wallet, Loader2, LogOut } from 'lucide-react';
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 
+const SIGNERS: WalletSigner[] = ['internet-identity', 'plug'];
+
+function SignerRadioGroup() {
+  const { t } = useI18n();
+  const { preferredSigner, setSigner } = useWallet();
+
+  return (
+    <>
+      <DropdownMenuLabel className="font-jetbrains text-xs">
+        {t('plug.signWith')}
+      </DropdownMenuLabel>
+      <DropdownMenuRadioGroup value={preferredSigner} onValueChange={(value) => setSigner(value as WalletSigner)}>
+        {SIGNERS.map((option) => (
+          <DropdownMenuRadioItem key={option} value={option} className="font-jetbrains text-xs cursor-pointer">
+            {t(`plug.signer.${option}`)}
+          </DropdownMenuRadioItem>
+        ))}
+      </DropdownMenuRadioGroup>
+    </>
+  );
+}
+
 export default function PlugWalletButton() {
+  const { t } = useI18n();
   const { isConnected, principal, isConnecting, connect, disconnect } = usePlugWallet();
+  const { preferredSigner, setSigner } = useWallet();
+
+  // A fresh connection is an explicit request to sign with Plug
+  const handleConnect = async () => {
+    if (await connect()) {
+      setSigner('plug');
+    }
+  };
+
+  const handleDisconnect = () => {
+    disconnect();
+    setSigner('internet-identity');
+  };
 
   if (isConnected && principal) {
     const principalStr = principal.toString();
@@ -31,7 +71,7 @@ export default function PlugWalletButton() {
         </DropdownMenuTrigger>
         <DropdownMenuContent align="end" className="glassmorphism border-primary/20">
           <DropdownMenuLabel className="font-jetbrains text-xs">
-            Plug Wallet
+            {t('plug.title')}
           </DropdownMenuLabel>
           <DropdownMenuSeparator />
           <DropdownMenuItem
@@ -40,16 +80,47 @@ export default function PlugWalletButton() {
               navigator.clipboard.writeText(principalStr);
             }}
           >
-            Copy Principal ID
+            {t('plug.copyPrincipal')}
           </DropdownMenuItem>
           <DropdownMenuSeparator />
+          <SignerRadioGroup />
+          <DropdownMenuSeparator />
           <DropdownMenuItem
             className="font-jetbrains text-xs cursor-pointer text-destructive focus:text-destructive"
-            onClick={disconnect}
+            onClick={handleDisconnect}
           >
             <LogOut className="mr-2 h-4 w-4" />
-            Disconnect Wallet
+            {t('plug.disconnect')}
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    );
+  }
+
+  // Plug was picked but is not connected: offer to reconnect or to switch back for good
+  if (preferredSigner !== 'internet-identity' && !isConnecting) {
+    return (
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="outline"
+            size="sm"
+            className="font-orbitron border-yellow-500/50 hover:bg-yellow-500/10 hover:border-yellow-500"
+          >
+            <Wallet className="mr-2 h-4 w-4" />
+            {t('plug.connect')}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="glassmorphism border-primary/20 max-w-xs">
+          <DropdownMenuLabel className="font-jetbrains text-xs font-normal text-muted-foreground">
+            {t('plug.notConnectedFallback')}
+          </DropdownMenuLabel>
+          <DropdownMenuItem className="font-jetbrains text-xs cursor-pointer" onClick={handleConnect}>
+            <Wallet className="mr-2 h-4 w-4" />
+            {t('plug.connect')}
           </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <SignerRadioGroup />
         </DropdownMenuContent>
       </DropdownMenu>
     );
@@ -57,7 +128,7 @@ export default function PlugWalletButton() {
 
   return (
     <Button
-      onClick={connect}
+      onClick={handleConnect}
       disabled={isConnecting}
       variant="outline"
       size="sm"
@@ -66,12 +137,12 @@ export default function PlugWalletButton() {
       {isConnecting ? (
         <>
           <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-          Connecting...
+          {t('plug.connecting')}
         </>
       ) : (
         <>
           <Wallet className="mr-2 h-4 w-4" />
-          Connect Wallet
+          {t('plug.connect')}
         </>
       )}
     </Button>
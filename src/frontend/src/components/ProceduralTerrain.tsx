@@ -0,0 +1,54 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { buildProceduralTerrain, disposeProceduralTerrain } from '@/lib/proceduralTerrain';
+
+interface ProceduralTerrainProps {
+  biome: string;
+  seed: number;
+  /** Called once the terrain is built, with its world-space bounds. */
+  onBounds?: (bounds: THREE.Box3) => void;
+}
+
+/**
+ * Generated terrain shown in place of a biome model that failed to load. Fits the camera the
+ * way LandModel does and pulses its glowing accents in step with the model's emissive pulse.
+ */
+export default function ProceduralTerrain({ biome, seed, onBounds }: ProceduralTerrainProps) {
+  const { camera } = useThree();
+  const fittedRef = useRef(false);
+  const terrain = useMemo(() => buildProceduralTerrain(biome, seed), [biome, seed]);
+
+  useEffect(() => {
+    console.log('[ProceduralTerrain] Generated terrain for', biome, 'seed', seed);
+    return () => disposeProceduralTerrain(terrain);
+  }, [terrain, biome, seed]);
+
+  useEffect(() => {
+    terrain.updateMatrixWorld();
+    const box = new THREE.Box3().setFromObject(terrain);
+    onBounds?.(box);
+
+    if (!fittedRef.current && camera instanceof THREE.PerspectiveCamera) {
+      const center = box.getCenter(new THREE.Vector3());
+      const size = box.getSize(new THREE.Vector3());
+      const maxDim = Math.max(size.x, size.y, size.z);
+      const fov = camera.fov * (Math.PI / 180);
+      const distance = Math.abs(maxDim / 2 / Math.tan(fov / 2)) * 1.5;
+
+      camera.position.set(center.x, center.y + distance * 0.35, center.z + distance);
+      camera.lookAt(center);
+      camera.updateProjectionMatrix();
+      fittedRef.current = true;
+    }
+  }, [terrain, camera, onBounds]);
+
+  useFrame((state) => {
+    const pulse = 1.0 + Math.sin(state.clock.elapsedTime * 0.8) * 0.25;
+    (terrain.userData.accentMaterials as THREE.MeshStandardMaterial[]).forEach((material) => {
+      material.emissiveIntensity = material.userData.baseEmissive * pulse;
+    });
+  });
+
+  return <primitive object={terrain} />;
+}
@@ -4,28 +4,30 @@ import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { useSaveCallerUserProfile } from '../hooks/useQueries';
+import { useI18n } from '../hooks/useI18n';
 import { toast } from 'sonner';
 import { User } from 'lucide-react';
 
 export default function ProfileSetup() {
   const [name, setName] = useState('');
   const saveProfile = useSaveCallerUserProfile();
+  const { t } = useI18n();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
     if (!name.trim()) {
-      toast.error('Пожалуйста, введите ваше имя');
+      toast.error(t('profile.toast.nameRequired'));
       return;
     }
 
     try {
       await saveProfile.mutateAsync({ name: name.trim() });
-      toast.success('Профиль успешно создан!');
+      toast.success(t('profile.toast.created'));
     } catch (error) {
       console.error('Profile save error:', error);
-      toast.error('Не удалось создать профиль', {
-        description: error instanceof Error ? error.message : 'Неизвестная ошибка',
+      toast.error(t('profile.toast.createFailed'), {
+        description: error instanceof Error ? error.message : t('common.unknownError'),
       });
     }
   };
@@ -38,22 +40,22 @@ export default function ProfileSetup() {
             <User className="h-8 w-8 text-primary" />
           </div>
           <CardTitle className="font-orbitron text-3xl text-glow-teal">
-            НАСТРОЙКА ПРОФИЛЯ
+            {t('profile.title')}
           </CardTitle>
           <CardDescription className="font-jetbrains">
-            Добро пожаловать в CyberGenesis! Пожалуйста, введите ваше имя для начала.
+            {t('profile.description')}
           </CardDescription>
         </CardHeader>
         <CardContent>
           <form onSubmit={handleSubmit} className="space-y-6">
             <div className="space-y-2">
               <Label htmlFor="name" className="font-jetbrains text-sm">
-                Ваше имя
+                {t('profile.nameLabel')}
               </Label>
               <Input
                 id="name"
                 type="text"
-                placeholder="Введите ваше имя"
+                placeholder={t('profile.namePlaceholder')}
                 value={name}
                 onChange={(e) => setName(e.target.value)}
                 className="font-jetbrains glassmorphism border-primary/30"
@@ -67,9 +69,9 @@ export default function ProfileSetup() {
               disabled={saveProfile.isPending}
             >
               {saveProfile.isPending ? (
-                <span className="animate-pulse">СОЗДАНИЕ ПРОФИЛЯ...</span>
+                <span className="animate-pulse">{t('profile.creating')}</span>
               ) : (
-                'СОЗДАТЬ ПРОФИЛЬ'
+                t('profile.create')
               )}
             </Button>
           </form>
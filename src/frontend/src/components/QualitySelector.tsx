@@ -0,0 +1,42 @@
+import { Gauge } from 'lucide-react';
+import { useI18n } from '../hooks/useI18n';
+import { useRenderQuality } from '../hooks/useRenderQuality';
+import { QUALITY_PREFERENCES } from '../lib/renderQuality';
+
+interface QualitySelectorProps {
+  className?: string;
+}
+
+/**
+ * Auto/Low/Medium/High toggle for the 3D scene. The choice is saved by the render quality
+ * store; while on Auto the tier it has currently settled on is shown next to the label.
+ */
+export default function QualitySelector({ className = '' }: QualitySelectorProps) {
+  const { t } = useI18n();
+  const { preference, tier, setPreference } = useRenderQuality();
+
+  return (
+    <div
+      className={`flex items-center gap-1 p-1 bg-black/40 backdrop-blur-md border border-white/10 rounded-xl ${className}`}
+      role="group"
+      aria-label={t('quality.label')}
+      title={t('quality.label')}
+    >
+      <Gauge className="w-4 h-4 mx-1 text-white/70" />
+      {QUALITY_PREFERENCES.map((option) => (
+        <button
+          key={option}
+          onClick={() => setPreference(option)}
+          aria-pressed={preference === option}
+          className={`px-2 py-1 rounded-lg font-jetbrains text-xs transition-all ${
+            preference === option ? 'bg-[#00ffff]/20 text-[#00ffff]' : 'text-white/60 hover:text-white'
+          }`}
+        >
+          {option === 'auto' && preference === 'auto'
+            ? t('quality.autoTier', { tier: t(`quality.${tier}`) })
+            : t(`quality.${option}`)}
+        </button>
+      ))}
+    </div>
+  );
+}
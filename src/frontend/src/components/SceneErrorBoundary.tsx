@@ -0,0 +1,33 @@
+import { Component, type ReactNode } from 'react';
+
+interface SceneErrorBoundaryProps {
+  children: ReactNode;
+  /** Logged with the error, e.g. the model URL that failed. */
+  label: string;
+  onError?: (error: Error) => void;
+}
+
+interface SceneErrorBoundaryState {
+  hasError: boolean;
+}
+
+/**
+ * Error boundary for objects inside a react-three-fiber Canvas. Unlike ThreeErrorBoundary it
+ * renders nothing on failure, since DOM fallbacks cannot be mounted in the scene graph.
+ */
+export default class SceneErrorBoundary extends Component<SceneErrorBoundaryProps, SceneErrorBoundaryState> {
+  state: SceneErrorBoundaryState = { hasError: false };
+
+  static getDerivedStateFromError(): SceneErrorBoundaryState {
+    return { hasError: true };
+  }
+
+  componentDidCatch(error: Error) {
+    console.warn('[SceneErrorBoundary] Failed to render:', this.props.label, error);
+    this.props.onError?.(error);
+  }
+
+  render() {
+    return this.state.hasError ? null : this.props.children;
+  }
+}
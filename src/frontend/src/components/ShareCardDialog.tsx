@@ -0,0 +1,120 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useI18n } from '@/hooks/useI18n';
+import { composeShareCard } from '@/lib/shareCard';
+import { Copy, Download, Loader2, Share2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { LandData } from '@/backend';
+
+interface ShareCardDialogProps {
+  land: LandData;
+  /** Copy of the next rendered scene frame, taken after post-processing. */
+  captureFrame: () => Promise<HTMLCanvasElement>;
+  className?: string;
+}
+
+const canCopyImages = typeof ClipboardItem !== 'undefined' && !!navigator.clipboard?.write;
+
+/**
+ * Share button for the land scene. Opening it captures the current frame, composites the
+ * plot's stats on top and offers the PNG for download or the clipboard.
+ */
+export default function ShareCardDialog({ land, captureFrame, className = '' }: ShareCardDialogProps) {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [card, setCard] = useState<{ blob: Blob; url: string } | null>(null);
+  // The card is a snapshot taken on open; later land refetches do not redraw it
+  const source = useRef({ land, captureFrame });
+  source.current = { land, captureFrame };
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    let url: string | null = null;
+
+    source.current
+      .captureFrame()
+      .then((frame) => composeShareCard(frame, source.current.land))
+      .then((blob) => {
+        if (cancelled) return;
+        url = URL.createObjectURL(blob);
+        setCard({ blob, url });
+      })
+      .catch((error: any) => {
+        if (cancelled) return;
+        console.error('Share card error:', error);
+        toast.error(t('shareCard.toast.error', { message: error.message || t('common.unknownError') }));
+        setOpen(false);
+      });
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+      setCard(null);
+    };
+  }, [open, t]);
+
+  const handleDownload = () => {
+    if (!card) return;
+    const link = document.createElement('a');
+    link.href = card.url;
+    link.download = `cybergenesis-land-${land.landId}.png`;
+    link.click();
+  };
+
+  const handleCopy = async () => {
+    if (!card) return;
+    try {
+      await navigator.clipboard.write([new ClipboardItem({ 'image/png': card.blob })]);
+      toast.success(t('shareCard.toast.copied'));
+    } catch (error: any) {
+      console.error('Share card copy error:', error);
+      toast.error(t('shareCard.toast.copyError', { message: error.message || t('common.unknownError') }));
+    }
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        className={`p-2 bg-black/40 backdrop-blur-md border border-white/10 rounded-xl text-white transition-all hover:bg-black/60 active:scale-95 ${className}`}
+        aria-label={t('shareCard.open')}
+        title={t('shareCard.open')}
+      >
+        <Share2 className="w-5 h-5" />
+      </button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="glassmorphism neon-border max-w-3xl">
+          <DialogHeader>
+            <DialogTitle className="font-orbitron text-[#00ffff] text-glow-cyan">{t('shareCard.title')}</DialogTitle>
+            <DialogDescription className="font-jetbrains">{t('shareCard.description')}</DialogDescription>
+          </DialogHeader>
+          <div className="flex aspect-[1200/630] items-center justify-center overflow-hidden rounded-lg border border-white/10 bg-black/40">
+            {card ? (
+              <img src={card.url} alt={land.plotName} className="h-full w-full object-contain" />
+            ) : (
+              <div className="flex items-center gap-2 font-jetbrains text-white/70">
+                <Loader2 className="w-4 h-4 animate-spin text-primary" />
+                {t('shareCard.rendering')}
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            {canCopyImages && (
+              <Button variant="outline" onClick={handleCopy} disabled={!card}>
+                <Copy className="w-4 h-4 mr-2" />
+                {t('shareCard.copy')}
+              </Button>
+            )}
+            <Button onClick={handleDownload} disabled={!card} className="btn-gradient-cyan text-black font-bold">
+              <Download className="w-4 h-4 mr-2" />
+              {t('shareCard.download')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,95 @@
+import { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { FlaskConical, FastForward, RotateCcw } from 'lucide-react';
+import { isSimulationMode } from '../config';
+import { getSimulationWorld, getSimulationIdentity } from '../simulation';
+import { useI18n } from '../hooks/useI18n';
+
+const WARP_STEP_HOURS = [1, 4, 24];
+
+/**
+ * Floating panel shown only in simulation mode: the seeded principal, a time-warp
+ * control for charge regeneration, claim and cache cooldowns, and a world reset.
+ */
+export default function SimulationControls() {
+  const { t, formatDuration } = useI18n();
+  const queryClient = useQueryClient();
+  const [enabled, setEnabled] = useState(false);
+  const [warpedMs, setWarpedMs] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    isSimulationMode().then((simulation) => {
+      if (!cancelled) setEnabled(simulation);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const world = getSimulationWorld();
+    setWarpedMs(world.warpedMs);
+    return world.subscribe(() => setWarpedMs(world.warpedMs));
+  }, [enabled]);
+
+  if (!enabled) {
+    return null;
+  }
+
+  const principal = getSimulationIdentity().getPrincipal().toString();
+  const shortPrincipal = `${principal.slice(0, 6)}...${principal.slice(-4)}`;
+
+  const handleWarp = (ms: number) => {
+    getSimulationWorld().advanceTime(ms);
+    queryClient.invalidateQueries({
+      predicate: (query) => !query.queryKey.includes('actor'),
+    });
+  };
+
+  // Resetting also drops the actor so the land canister re-runs initializeAccessControl.
+  const handleReset = () => {
+    getSimulationWorld().reset();
+    queryClient.invalidateQueries();
+  };
+
+  return (
+    <div className="fixed bottom-4 left-4 z-50 glassmorphism neon-border rounded-lg p-3 space-y-2 font-jetbrains text-xs">
+      <div className="flex items-center space-x-2">
+        <FlaskConical className="w-4 h-4 text-[#ff00ff]" />
+        <span className="font-orbitron font-bold tracking-wider text-[#ff00ff]">{t('simulation.title')}</span>
+        <span className="text-[#00ffff]" title={principal}>
+          {shortPrincipal}
+        </span>
+      </div>
+      <div className="flex items-center space-x-2">
+        <FastForward className="w-4 h-4 text-[#00ff41]" />
+        {WARP_STEP_HOURS.map((hours) => (
+          <Button
+            key={hours}
+            variant="outline"
+            size="sm"
+            className="h-7 px-2 font-orbitron border-primary/50 hover:bg-primary/10 hover:border-primary"
+            onClick={() => handleWarp(hours * 60 * 60 * 1000)}
+          >
+            {t('simulation.warpStep', { hours })}
+          </Button>
+        ))}
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 px-2 border-red-500/50 hover:bg-red-500/10 hover:border-red-500"
+          onClick={handleReset}
+          title={t('simulation.reset')}
+        >
+          <RotateCcw className="w-3 h-3" />
+        </Button>
+      </div>
+      {warpedMs > 0 && (
+        <p className="text-[#9933ff]">{t('simulation.warped', { duration: formatDuration(warpedMs, false) })}</p>
+      )}
+    </div>
+  );
+}
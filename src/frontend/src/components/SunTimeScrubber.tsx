@@ -0,0 +1,65 @@
+import { Moon, Sun } from 'lucide-react';
+import { Slider } from '@/components/ui/slider';
+import { useI18n } from '@/hooks/useI18n';
+import { localSolarHours } from '@/lib/solar';
+
+interface SunTimeScrubberProps {
+  /** Time the scene is lit for, including the preview offset. */
+  date: Date;
+  lon: number;
+  elevation: number;
+  offsetHours: number;
+  onOffsetChange: (offsetHours: number) => void;
+  className?: string;
+}
+
+// Half a day either side of now covers a full day/night cycle
+const MAX_OFFSET_HOURS = 12;
+
+function formatHours(hours: number): string {
+  const minutes = Math.floor(hours * 60) % (24 * 60);
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Previews the land's lighting at other times of day. Shows local solar time at the plot and
+ * the sun's elevation; "now" returns to real time.
+ */
+export default function SunTimeScrubber({ date, lon, elevation, offsetHours, onOffsetChange, className = '' }: SunTimeScrubberProps) {
+  const { t, formatNumber } = useI18n();
+  const Icon = elevation >= 0 ? Sun : Moon;
+
+  return (
+    <div
+      className={`w-64 space-y-2 rounded-xl border border-white/10 bg-black/40 p-3 font-jetbrains text-xs text-white backdrop-blur-md ${className}`}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="flex items-center gap-2">
+          <Icon className={`w-4 h-4 ${elevation >= 0 ? 'text-yellow-300' : 'text-[#9933ff]'}`} />
+          {t('sun.localTime', { time: formatHours(localSolarHours(date, lon)) })}
+        </span>
+        <span className="text-white/60">
+          {t('sun.elevation', { value: formatNumber(elevation, { maximumFractionDigits: 0 }) })}
+        </span>
+      </div>
+      <Slider
+        min={-MAX_OFFSET_HOURS}
+        max={MAX_OFFSET_HOURS}
+        step={0.25}
+        value={[offsetHours]}
+        onValueChange={([value]) => onOffsetChange(value)}
+        aria-label={t('sun.label')}
+      />
+      <div className="flex items-center justify-between text-white/50">
+        <span>{t('sun.label')}</span>
+        {offsetHours !== 0 ? (
+          <button onClick={() => onOffsetChange(0)} className="text-[#00ffff] hover:text-white">
+            {t('sun.live')}
+          </button>
+        ) : (
+          <span className="text-[#00ff41]">{t('sun.isLive')}</span>
+        )}
+      </div>
+    </div>
+  );
+}
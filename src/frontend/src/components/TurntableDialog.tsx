@@ -0,0 +1,136 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useI18n } from '@/hooks/useI18n';
+import {
+  DEFAULT_TURNTABLE_DURATION,
+  TURNTABLE_DURATIONS,
+  TURNTABLE_RESOLUTIONS,
+  pickTurntableMimeType,
+  type TurntableOptions,
+  type TurntableResolution,
+} from '@/lib/turntable';
+import { Circle, Download, Video } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface TurntableDialogProps {
+  /** Records a turntable with the given settings; rejects with an AbortError when cancelled. */
+  record: (options: TurntableOptions) => Promise<Blob>;
+  fileName: string;
+  className?: string;
+}
+
+const supported = pickTurntableMimeType() !== null;
+
+/**
+ * Video button for the land scene. The dialog picks a duration and resolution, closes while
+ * the scene records, then reopens with the clip for preview and download.
+ */
+export default function TurntableDialog({ record, fileName, className = '' }: TurntableDialogProps) {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [duration, setDuration] = useState(DEFAULT_TURNTABLE_DURATION);
+  const [resolution, setResolution] = useState<TurntableResolution>('720p');
+  const [video, setVideo] = useState<string | null>(null);
+
+  useEffect(
+    () => () => {
+      if (video) URL.revokeObjectURL(video);
+    },
+    [video]
+  );
+
+  const handleRecord = async () => {
+    setOpen(false);
+    setVideo(null);
+    try {
+      const blob = await record({ durationSeconds: duration, ...TURNTABLE_RESOLUTIONS[resolution] });
+      setVideo(URL.createObjectURL(blob));
+      setOpen(true);
+    } catch (error: any) {
+      if (error?.name === 'AbortError') return;
+      console.error('Turntable recording error:', error);
+      toast.error(t('turntable.toast.error', { message: error.message || t('common.unknownError') }));
+    }
+  };
+
+  const handleDownload = () => {
+    if (!video) return;
+    const link = document.createElement('a');
+    link.href = video;
+    link.download = fileName;
+    link.click();
+  };
+
+  const optionClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-lg border font-jetbrains text-xs transition-all ${
+      active ? 'border-[#00ffff] bg-[#00ffff]/20 text-[#00ffff]' : 'border-white/10 text-white/60 hover:text-white'
+    }`;
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        className={`p-2 bg-black/40 backdrop-blur-md border border-white/10 rounded-xl text-white transition-all hover:bg-black/60 active:scale-95 ${className}`}
+        aria-label={t('turntable.open')}
+        title={t('turntable.open')}
+      >
+        <Video className="w-5 h-5" />
+      </button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="glassmorphism neon-border max-w-2xl">
+          <DialogHeader>
+            <DialogTitle className="font-orbitron text-[#00ffff] text-glow-cyan">{t('turntable.title')}</DialogTitle>
+            <DialogDescription className="font-jetbrains">
+              {supported ? t('turntable.description') : t('turntable.unsupported')}
+            </DialogDescription>
+          </DialogHeader>
+
+          {video && (
+            <video src={video} autoPlay loop muted playsInline controls className="w-full rounded-lg border border-white/10" />
+          )}
+
+          {supported && (
+            <div className="space-y-3">
+              <div className="space-y-1">
+                <p className="font-jetbrains text-xs text-white/50">{t('turntable.duration')}</p>
+                <div className="flex flex-wrap gap-2">
+                  {TURNTABLE_DURATIONS.map((seconds) => (
+                    <button key={seconds} onClick={() => setDuration(seconds)} className={optionClass(duration === seconds)}>
+                      {t('turntable.seconds', { count: seconds })}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-1">
+                <p className="font-jetbrains text-xs text-white/50">{t('turntable.resolution')}</p>
+                <div className="flex flex-wrap gap-2">
+                  {(Object.keys(TURNTABLE_RESOLUTIONS) as TurntableResolution[]).map((option) => (
+                    <button key={option} onClick={() => setResolution(option)} className={optionClass(resolution === option)}>
+                      {t(`turntable.resolutions.${option}`)} · {TURNTABLE_RESOLUTIONS[option].width}×
+                      {TURNTABLE_RESOLUTIONS[option].height}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            {video && (
+              <Button variant="outline" onClick={handleDownload}>
+                <Download className="w-4 h-4 mr-2" />
+                {t('turntable.download')}
+              </Button>
+            )}
+            <Button onClick={handleRecord} disabled={!supported} className="btn-gradient-cyan text-black font-bold">
+              <Circle className="w-4 h-4 mr-2 fill-red-500 text-red-500" />
+              {video ? t('turntable.recordAgain') : t('turntable.record')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
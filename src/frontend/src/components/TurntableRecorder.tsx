@@ -0,0 +1,111 @@
+import { useEffect, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { TURNTABLE_FPS, pickTurntableMimeType, turntableBitrate, type TurntableOptions } from '@/lib/turntable';
+
+interface TurntableRecorderProps {
+  options: TurntableOptions;
+  onProgress: (progress: number) => void;
+  onComplete: (video: Blob) => void;
+  onError: (error: Error) => void;
+}
+
+// The parts of drei's OrbitControls the recorder drives
+interface OrbitControlsLike {
+  target: THREE.Vector3;
+  enabled: boolean;
+  update: () => void;
+}
+
+interface RecordingSession {
+  recorder: MediaRecorder;
+  startedAt: number;
+  target: THREE.Vector3;
+  orbit: THREE.Spherical;
+  startTheta: number;
+  stopping: boolean;
+}
+
+/**
+ * Records one camera orbit around the OrbitControls target. Mounted inside the Canvas once the
+ * canvas is resized to the requested resolution; it records whatever reaches the canvas, so
+ * the bloom composer's output is what ends up in the video. Unmounting cancels the recording.
+ */
+export default function TurntableRecorder({ options, onProgress, onComplete, onError }: TurntableRecorderProps) {
+  const { gl, camera, controls, size } = useThree();
+  const session = useRef<RecordingSession | null>(null);
+  const lastProgress = useRef(-1);
+  const offset = useRef(new THREE.Vector3());
+  // Latest callbacks, so a parent re-render does not restart the recording
+  const callbacks = useRef({ onProgress, onComplete, onError });
+  callbacks.current = { onProgress, onComplete, onError };
+
+  const ready = Math.round(size.width) === options.width && Math.round(size.height) === options.height;
+
+  useEffect(() => {
+    if (!ready) return;
+
+    const orbitControls = controls as unknown as OrbitControlsLike | null;
+    const mimeType = pickTurntableMimeType();
+    if (!orbitControls || !mimeType) {
+      callbacks.current.onError(new Error(orbitControls ? 'WebM recording is not supported' : 'Orbit controls unavailable'));
+      return;
+    }
+
+    const stream = gl.domElement.captureStream(TURNTABLE_FPS);
+    const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: turntableBitrate(options) });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.onstop = () => callbacks.current.onComplete(new Blob(chunks, { type: mimeType }));
+    recorder.onerror = () => callbacks.current.onError(new Error('Recording failed'));
+
+    // Keep the user's distance and elevation; only the azimuth turns
+    const target = orbitControls.target.clone();
+    const orbit = new THREE.Spherical().setFromVector3(camera.position.clone().sub(target));
+    const startPosition = camera.position.clone();
+    orbitControls.enabled = false;
+
+    session.current = { recorder, startedAt: performance.now(), target, orbit, startTheta: orbit.theta, stopping: false };
+    recorder.start();
+    console.log('[Turntable] Recording', options, mimeType);
+
+    return () => {
+      session.current = null;
+      if (recorder.state !== 'inactive') {
+        recorder.onstop = null;
+        recorder.stop();
+      }
+      stream.getTracks().forEach((track) => track.stop());
+      camera.position.copy(startPosition);
+      camera.lookAt(target);
+      orbitControls.enabled = true;
+      orbitControls.update();
+    };
+  }, [ready, gl, camera, controls, options]);
+
+  useFrame(() => {
+    const current = session.current;
+    if (!current || current.stopping) return;
+
+    const progress = Math.min((performance.now() - current.startedAt) / (options.durationSeconds * 1000), 1);
+    current.orbit.theta = current.startTheta + progress * Math.PI * 2;
+    camera.position.copy(current.target).add(offset.current.setFromSpherical(current.orbit));
+    camera.lookAt(current.target);
+
+    // Whole percents are plenty for the progress bar and spare the parent a re-render per frame
+    const percent = Math.floor(progress * 100);
+    if (percent !== lastProgress.current) {
+      lastProgress.current = percent;
+      callbacks.current.onProgress(progress);
+    }
+
+    if (progress >= 1) {
+      current.stopping = true;
+      current.recorder.stop();
+    }
+  });
+
+  return null;
+}
@@ -0,0 +1,177 @@
+import { useMemo } from 'react';
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { useI18n } from '@/hooks/useI18n';
+import { LineChart as LineChartIcon } from 'lucide-react';
+import { ECONOMY, upgradeCost } from '@/config/economy';
+import {
+  PROJECTION_PERIODS,
+  cumulativeYieldSeries,
+  projectYield,
+  upgradePayoffDays,
+  withUpgrade,
+  yieldInputsFromLand,
+  type ProjectionPeriod,
+  type YieldScenario,
+} from '@/lib/yieldProjection';
+import type { LandData } from '@/backend';
+
+interface YieldProjectionProps {
+  land: LandData;
+}
+
+const SCENARIO_COLORS = {
+  current: '#00ffff',
+  upgrade: '#00ff41',
+};
+
+/**
+ * Daily, weekly and monthly CBR yield for a land, with a what-if comparison for the next
+ * upgrade net of its cost. Modifiers are left out because claims do not pay for them.
+ */
+export default function YieldProjection({ land }: YieldProjectionProps) {
+  const { t, formatCbrAmount, formatDuration, formatNumber } = useI18n();
+
+  const inputs = useMemo(() => yieldInputsFromLand(land), [land]);
+  const current = projectYield(inputs);
+
+  const scenarios = useMemo(() => {
+    const list: (YieldScenario & { label: string })[] = [
+      { key: 'current', inputs, label: t('land.yield.scenario.current') },
+    ];
+    const upgraded = withUpgrade(inputs);
+    if (upgraded) {
+      list.push({
+        key: 'upgrade',
+        inputs: upgraded,
+        cost: upgradeCost(inputs.upgradeLevel) ?? undefined,
+        label: t('land.yield.scenario.upgrade', { level: upgraded.upgradeLevel }),
+      });
+    }
+    return list;
+  }, [inputs, t]);
+
+  const series = useMemo(() => cumulativeYieldSeries(scenarios), [scenarios]);
+  const chartConfig = useMemo(
+    () =>
+      Object.fromEntries(
+        scenarios.map((scenario) => [
+          scenario.key,
+          { label: scenario.label, color: SCENARIO_COLORS[scenario.key as keyof typeof SCENARIO_COLORS] },
+        ])
+      ) satisfies ChartConfig,
+    [scenarios]
+  );
+
+  const payoffDays = upgradePayoffDays(inputs);
+
+  // Rewards are raw e8s; a level-0 land earns well under one CBR a day
+  const formatYield = (value: number) => formatCbrAmount(BigInt(Math.round(value)), 8);
+  const formatE8s = (value: number) => t('land.yield.e8s', { amount: formatNumber(Math.round(value)) });
+
+  return (
+    <Card className="glassmorphism neon-border box-glow-cyan">
+      <CardHeader>
+        <CardTitle className="text-[#00ffff] flex items-center gap-2 font-orbitron text-glow-cyan">
+          <LineChartIcon className="w-5 h-5" />
+          {t('land.yield.title')}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {(['perClaim', ...Object.keys(PROJECTION_PERIODS)] as ('perClaim' | ProjectionPeriod)[]).map((period) => (
+            <div key={period}>
+              <p className="text-white/50 text-sm font-jetbrains">{t(`land.yield.${period}`)}</p>
+              <p className="text-white font-medium font-jetbrains">
+                {t('common.cbrAmount', { amount: formatYield(current[period]) })}
+              </p>
+            </div>
+          ))}
+        </div>
+        <p className="text-white/50 text-xs font-jetbrains">
+          {t('land.yield.multiplier', { value: formatNumber(current.multiplier, { maximumFractionDigits: 3 }) })} ·{' '}
+          {t('land.yield.model', {
+            cooldown: formatDuration(ECONOMY.claim.cooldownMs, false),
+            charge: formatNumber(ECONOMY.claim.chargeCost),
+          })}
+        </p>
+
+        <div>
+          <p className="text-white/70 text-sm mb-2 font-jetbrains">{t('land.yield.chartTitle')}</p>
+          <ChartContainer config={chartConfig} className="h-56 w-full aspect-auto">
+            <LineChart data={series} margin={{ left: 8, right: 8 }}>
+              <CartesianGrid vertical={false} strokeOpacity={0.1} />
+              <XAxis dataKey="day" tickLine={false} axisLine={false} />
+              <YAxis tickLine={false} axisLine={false} width={72} tickFormatter={(value: number) => formatNumber(value)} />
+              <ReferenceLine y={0} stroke="rgba(255,255,255,0.3)" />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(_, payload) => t('land.yield.day', { day: payload?.[0]?.payload?.day ?? 0 })}
+                    formatter={(value, name) => (
+                      <span className="font-jetbrains">
+                        {chartConfig[name as string]?.label}: {formatE8s(Number(value))}
+                      </span>
+                    )}
+                  />
+                }
+              />
+              {scenarios.map((scenario) => (
+                <Line
+                  key={scenario.key}
+                  dataKey={scenario.key}
+                  type="linear"
+                  stroke={`var(--color-${scenario.key})`}
+                  strokeWidth={2}
+                  dot={false}
+                />
+              ))}
+            </LineChart>
+          </ChartContainer>
+        </div>
+
+        <div className="space-y-2">
+          {scenarios.map((scenario) => {
+            const projection = projectYield(scenario.inputs);
+            const change = current.daily > 0 ? projection.daily / current.daily - 1 : 0;
+            return (
+              <div
+                key={scenario.key}
+                className="flex items-center justify-between glassmorphism rounded-lg p-3 border border-white/10"
+              >
+                <div>
+                  <p className="font-medium font-jetbrains" style={{ color: chartConfig[scenario.key]?.color }}>
+                    {scenario.label}
+                  </p>
+                  {scenario.key === 'upgrade' && (
+                    <p className="text-white/50 text-xs font-jetbrains">
+                      {payoffDays === null
+                        ? t('land.yield.noPayoff')
+                        : payoffDays === 0
+                          ? t('land.yield.noUpgradeCost')
+                          : t('land.yield.payoff', { days: Math.ceil(payoffDays) })}
+                    </p>
+                  )}
+                </div>
+                <div className="text-right">
+                  <p className="text-white text-sm font-jetbrains">
+                    {t('land.yield.perDay', { amount: formatYield(projection.daily) })}
+                  </p>
+                  {scenario.key !== 'current' && (
+                    <p className="text-[#00ff41] text-xs font-jetbrains">
+                      {formatNumber(change, { style: 'percent', signDisplay: 'always', maximumFractionDigits: 1 })}
+                    </p>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+          {!withUpgrade(inputs) && (
+            <p className="text-white/50 text-xs font-jetbrains">{t('land.yield.maxLevel')}</p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
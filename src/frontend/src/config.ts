@@ -1,6 +1,9 @@
 import { createActor, type backendInterface, type CreateActorOptions, ExternalBlob } from './backend';
 import { StorageClient } from './utils/StorageClient';
-import { HttpAgent } from '@icp-sdk/core/agent';
+import type { HttpAgent } from '@icp-sdk/core/agent';
+import { createSimulatedBackend, isSimulationFlagSet, SIMULATED_CANISTER_IDS, SIMULATION_NETWORK } from './simulation';
+import { resolveCanisterRegistry, type CanisterRegistry } from './config/canisters';
+import { getSharedAgent } from './lib/resilientAgent';
 
 const DEFAULT_STORAGE_GATEWAY_URL = 'https://blob.caffeine.ai';
 const DEFAULT_BUCKET_NAME = 'default-bucket';
@@ -11,6 +14,8 @@ interface JsonConfig {
     backend_canister_id: string;
     project_id: string;
     ii_derivation_origin: string;
+    network?: string;
+    canister_ids?: Record<string, string>;
 }
 
 interface Config {
@@ -20,9 +25,12 @@ interface Config {
     bucket_name: string;
     project_id: string;
     ii_derivation_origin?: string;
+    network?: string;
+    canister_ids?: Record<string, string>;
 }
 
 let configCache: Config | null = null;
+let registryPromise: Promise<CanisterRegistry> | null = null;
 
 export async function loadConfig(): Promise<Config> {
     if (configCache) {
@@ -34,6 +42,10 @@ export async function loadConfig(): Promise<Config> {
     try {
         const response = await fetch(`${baseUrl}env.json`);
         const config = (await response.json()) as JsonConfig;
+        const network = isSimulationFlagSet() ? SIMULATION_NETWORK : config.network;
+        if (network === SIMULATION_NETWORK && !backendCanisterId && config.backend_canister_id === 'undefined') {
+            config.backend_canister_id = SIMULATED_CANISTER_IDS.land;
+        }
         if (!backendCanisterId && config.backend_canister_id === 'undefined') {
             console.error('CANISTER_ID_BACKEND is not set');
             throw new Error('CANISTER_ID_BACKEND is not set');
@@ -47,11 +59,24 @@ export async function loadConfig(): Promise<Config> {
             storage_gateway_url: process.env.STORAGE_GATEWAY_URL ?? 'nogateway',
             bucket_name: DEFAULT_BUCKET_NAME,
             project_id: config.project_id !== 'undefined' ? config.project_id : DEFAULT_PROJECT_ID,
-            ii_derivation_origin: config.ii_derivation_origin == 'undefined' ? undefined : config.ii_derivation_origin
+            ii_derivation_origin: config.ii_derivation_origin == 'undefined' ? undefined : config.ii_derivation_origin,
+            network: network === 'undefined' ? undefined : network,
+            canister_ids: typeof config.canister_ids === 'object' ? config.canister_ids : undefined
         };
         configCache = fullConfig;
         return fullConfig;
     } catch {
+        if (isSimulationFlagSet()) {
+            const simulationConfig = {
+                backend_canister_id: backendCanisterId || SIMULATED_CANISTER_IDS.land,
+                storage_gateway_url: DEFAULT_STORAGE_GATEWAY_URL,
+                bucket_name: DEFAULT_BUCKET_NAME,
+                project_id: DEFAULT_PROJECT_ID,
+                network: SIMULATION_NETWORK
+            };
+            configCache = simulationConfig;
+            return simulationConfig;
+        }
         if (!backendCanisterId) {
             console.error('CANISTER_ID_BACKEND is not set');
             throw new Error('CANISTER_ID_BACKEND is not set');
@@ -68,6 +93,50 @@ export async function loadConfig(): Promise<Config> {
     }
 }
 
+/**
+ * Simulation mode swaps every canister actor for the in-memory stand-ins in `src/simulation`.
+ * It is selected with `VITE_DFX_NETWORK=simulation` / `VITE_SIMULATION=true` at build time
+ * or `"network": "simulation"` in env.json at runtime.
+ */
+export async function isSimulationMode(): Promise<boolean> {
+    if (isSimulationFlagSet()) {
+        return true;
+    }
+    try {
+        const config = await loadConfig();
+        return config.network === SIMULATION_NETWORK;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Canister IDs and host for the active network profile, resolved once from env.json and
+ * build-time env vars (see `config/canisters.ts`). Rejects with a CanisterConfigError when
+ * an ID is missing or malformed. Simulation mode resolves against the mainnet profile,
+ * whose IDs the in-memory canisters reuse.
+ */
+export function loadCanisterRegistry(): Promise<CanisterRegistry> {
+    if (!registryPromise) {
+        registryPromise = (async () => {
+            let config: Config | null = null;
+            try {
+                config = await loadConfig();
+            } catch {
+                // No land canister in env.json or CANISTER_ID_BACKEND; the registry reports it
+            }
+            const simulation = await isSimulationMode();
+            return resolveCanisterRegistry({
+                network: simulation ? 'ic' : config?.network,
+                host: config?.backend_host,
+                landCanisterId: config?.backend_canister_id,
+                canisterIds: config?.canister_ids
+            });
+        })();
+    }
+    return registryPromise;
+}
+
 function extractAgentErrorMessage(error: string): string {
     const errorString = String(error);
     const match = errorString.match(/with message:\s*'([^'].+)'\./s);
@@ -85,16 +154,12 @@ export async function createActorWithConfig(options?: CreateActorOptions): Promi
     if (!options) {
         options = {};
     }
-    const agent = new HttpAgent({
-        ...options.agentOptions,
-        host: config.backend_host
-    });
-    if (config.backend_host?.includes('localhost')) {
-        await agent.fetchRootKey().catch((err) => {
-            console.warn('Unable to fetch root key. Check to ensure that your local replica is running');
-            console.error(err);
-        });
+    if (config.network === SIMULATION_NETWORK) {
+        return createSimulatedBackend(await options.agentOptions?.identity);
     }
+    const registry = await loadCanisterRegistry();
+    // A wallet (Plug) supplies its own signing agent; everyone else shares the resilient one
+    const agent = (options.agent as HttpAgent | undefined) ?? await getSharedAgent(registry, await options.agentOptions?.identity);
     options = {
         ...options,
         agent: agent,
@@ -104,7 +169,7 @@ export async function createActorWithConfig(options?: CreateActorOptions): Promi
     const storageClient = new StorageClient(
         config.bucket_name,
         config.storage_gateway_url,
-        config.backend_canister_id,
+        registry.canisters.land,
         config.project_id,
         agent
     );
@@ -123,5 +188,5 @@ export async function createActorWithConfig(options?: CreateActorOptions): Promi
         return ExternalBlob.fromURL(url);
     };
 
-    return createActor(config.backend_canister_id, uploadFile, downloadFile, options);
+    return createActor(registry.canisters.land, uploadFile, downloadFile, options);
 }
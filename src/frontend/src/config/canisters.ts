@@ -0,0 +1,208 @@
+// Canister registry for CyberGenesis
+// Single source of truth for canister IDs and hosts across the local, staging and ic profiles.
+
+import { Principal } from '@icp-sdk/core/principal';
+
+export type CanisterName = 'land' | 'asset' | 'token' | 'marketplace' | 'governance';
+export type NetworkProfile = 'local' | 'staging' | 'ic';
+
+export const CANISTER_NAMES: readonly CanisterName[] = ['land', 'asset', 'token', 'marketplace', 'governance'];
+export const NETWORK_PROFILES: readonly NetworkProfile[] = ['local', 'staging', 'ic'];
+
+export const CANISTER_LABELS: Record<CanisterName, string> = {
+  land: 'Land Canister',
+  asset: 'Asset Canister',
+  token: 'Cyber Token Canister',
+  marketplace: 'Marketplace Canister',
+  governance: 'Governance Canister',
+};
+
+export interface CanisterRegistry {
+  profile: NetworkProfile;
+  /** Host used for agents and canister HTTP endpoints. */
+  host: string;
+  /** Gateways to try in order; local replicas only have the one host. */
+  gateways: readonly string[];
+  canisters: Record<CanisterName, string>;
+  /** Where each ID came from, e.g. "VITE_ASSET_CANISTER_ID", "env.json canister_ids" or "ic profile default". */
+  sources: Record<CanisterName, string>;
+}
+
+/** Raw inputs gathered from env.json / loadConfig() at runtime. */
+export interface CanisterRegistrySource {
+  network?: string;
+  host?: string;
+  landCanisterId?: string;
+  canisterIds?: Partial<Record<string, string>>;
+}
+
+/** Thrown when the registry cannot be resolved: unknown profile, missing or malformed canister IDs. */
+export class CanisterConfigError extends Error {
+  readonly issues: string[];
+
+  constructor(profile: string, issues: string[]) {
+    super(`Canister configuration for the "${profile}" profile is invalid:\n- ${issues.join('\n- ')}`);
+    this.name = 'CanisterConfigError';
+    this.issues = issues;
+  }
+}
+
+const IC_GATEWAYS = ['https://ic0.app', 'https://boundary.ic0.app', 'https://icp-api.io'] as const;
+
+interface ProfileDefaults {
+  host: string;
+  gateways: readonly string[];
+  canisters: Partial<Record<CanisterName, string>>;
+}
+
+// Only mainnet has well-known IDs; local and staging deployments must supply their own.
+const PROFILE_DEFAULTS: Record<NetworkProfile, ProfileDefaults> = {
+  ic: {
+    host: 'https://ic0.app',
+    gateways: IC_GATEWAYS,
+    canisters: {
+      land: 'br5f7-7uaaa-aaaaa-qaaca-cai',
+      asset: 'bd3sg-teaaa-aaaaa-qaaba-cai',
+      token: 'w4q3i-7yaaa-aaaam-ab3oq-cai',
+      marketplace: 'be2us-64aaa-aaaaa-qaabq-cai',
+      governance: 'bkyz2-fmaaa-aaaaa-qaaaq-cai',
+    },
+  },
+  staging: {
+    host: 'https://icp-api.io',
+    gateways: IC_GATEWAYS,
+    canisters: {},
+  },
+  local: {
+    host: 'http://localhost:4943',
+    gateways: ['http://localhost:4943'],
+    canisters: {},
+  },
+};
+
+export const IC_CANISTER_IDS = PROFILE_DEFAULTS.ic.canisters as Record<CanisterName, string>;
+
+// Build-time overrides, in priority order. The first variable is the documented one.
+const ENV_CANISTER_IDS: Record<CanisterName, [string, string | undefined][]> = {
+  land: [
+    ['VITE_LAND_CANISTER_ID', import.meta.env.VITE_LAND_CANISTER_ID],
+    ['VITE_BACKEND_CANISTER_ID', import.meta.env.VITE_BACKEND_CANISTER_ID],
+  ],
+  asset: [
+    ['VITE_ASSET_CANISTER_ID', import.meta.env.VITE_ASSET_CANISTER_ID],
+    ['CANISTER_ID_ASSET_CANISTER', import.meta.env.CANISTER_ID_ASSET_CANISTER],
+  ],
+  token: [
+    ['VITE_CYBER_TOKEN_CANISTER_ID', import.meta.env.VITE_CYBER_TOKEN_CANISTER_ID],
+    ['VITE_TOKEN_CANISTER_ID', import.meta.env.VITE_TOKEN_CANISTER_ID],
+    ['CANISTER_ID_CYBER_TOKEN', import.meta.env.CANISTER_ID_CYBER_TOKEN],
+  ],
+  marketplace: [
+    ['VITE_MARKETPLACE_CANISTER_ID', import.meta.env.VITE_MARKETPLACE_CANISTER_ID],
+    ['CANISTER_ID_MARKETPLACE_CANISTER', import.meta.env.CANISTER_ID_MARKETPLACE_CANISTER],
+  ],
+  governance: [
+    ['VITE_GOVERNANCE_CANISTER_ID', import.meta.env.VITE_GOVERNANCE_CANISTER_ID],
+    ['CANISTER_ID_GOVERNANCE_CANISTER', import.meta.env.CANISTER_ID_GOVERNANCE_CANISTER],
+  ],
+};
+
+export function getCanisterEnvVar(name: CanisterName): string {
+  return ENV_CANISTER_IDS[name][0][0];
+}
+
+// env.json uses the string "undefined" for unset values.
+function present(value: string | undefined): string | undefined {
+  const trimmed = value?.trim();
+  return trimmed && trimmed !== 'undefined' ? trimmed : undefined;
+}
+
+function isNetworkProfile(value: string): value is NetworkProfile {
+  return (NETWORK_PROFILES as readonly string[]).includes(value);
+}
+
+/** Returns a reason when `id` is not a valid textual principal, otherwise null. */
+export function validateCanisterId(id: string): string | null {
+  try {
+    const principal = Principal.fromText(id);
+    if (principal.toText() !== id) {
+      return `it does not round-trip (parsed as "${principal.toText()}")`;
+    }
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Resolves the profile, host and every canister ID. IDs are taken from env.json first,
+ * then build-time env vars, then the profile defaults; any missing or malformed ID throws
+ * a CanisterConfigError listing every problem at once.
+ */
+export function resolveCanisterRegistry(source: CanisterRegistrySource = {}): CanisterRegistry {
+  const requestedProfile = present(source.network) ?? present(import.meta.env.VITE_DFX_NETWORK) ?? 'ic';
+  if (!isNetworkProfile(requestedProfile)) {
+    throw new CanisterConfigError(requestedProfile, [
+      `Unknown network profile "${requestedProfile}". Expected one of: ${NETWORK_PROFILES.join(', ')}.`,
+    ]);
+  }
+  const profile = requestedProfile;
+  const defaults = PROFILE_DEFAULTS[profile];
+
+  const canisters = {} as Record<CanisterName, string>;
+  const sources = {} as Record<CanisterName, string>;
+  const issues: string[] = [];
+
+  for (const name of CANISTER_NAMES) {
+    const candidates: [string, string | undefined][] = [
+      ['env.json canister_ids', source.canisterIds?.[name]],
+      ...(name === 'land' ? [['env.json backend_canister_id', source.landCanisterId] as [string, string | undefined]] : []),
+      ...ENV_CANISTER_IDS[name],
+      [`${profile} profile default`, defaults.canisters[name]],
+    ];
+    const match = candidates.find(([, value]) => present(value) !== undefined);
+
+    if (!match) {
+      issues.push(
+        `${CANISTER_LABELS[name]} ID is not configured. Set ${getCanisterEnvVar(name)} or add "${name}" to canister_ids in env.json.`
+      );
+      continue;
+    }
+
+    const [origin, value] = match;
+    const id = present(value)!;
+    const problem = validateCanisterId(id);
+    if (problem) {
+      issues.push(`${CANISTER_LABELS[name]} ID "${id}" from ${origin} is not a valid principal: ${problem}`);
+      continue;
+    }
+    canisters[name] = id;
+    sources[name] = origin;
+  }
+
+  if (issues.length > 0) {
+    throw new CanisterConfigError(profile, issues);
+  }
+
+  const host = present(source.host) ?? present(import.meta.env.VITE_HOST) ?? defaults.host;
+  return {
+    profile,
+    host,
+    gateways: profile === 'local' ? [host] : [host, ...defaults.gateways.filter((gateway) => gateway !== host)],
+    canisters,
+    sources,
+  };
+}
+
+/**
+ * URL for an HTTP endpoint served by a canister (health checks, GLB assets). `path` may carry
+ * its own query string; local replicas route by the `canisterId` query parameter instead.
+ */
+export function getCanisterHttpUrl(registry: CanisterRegistry, name: CanisterName, path = '/', raw = false): string {
+  const canisterId = registry.canisters[name];
+  if (registry.profile === 'local') {
+    const separator = path.includes('?') ? '&' : '?';
+    return `${registry.host}${path}${separator}canisterId=${canisterId}`;
+  }
+  return `https://${canisterId}${raw ? '.raw' : ''}.ic0.app${path}`;
+}
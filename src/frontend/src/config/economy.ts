@@ -0,0 +1,92 @@
+// Economy parameters for CyberGenesis
+// Single source of truth for the costs, cooldowns and odds the land canister enforces
+// (src/backend/main.mo). Values follow what the canister actually checks, not the unused
+// DISCOVERY_CBR_COST / DISCOVERY_CHARGE_COST constants. Bump ECONOMY_VERSION whenever a
+// canister upgrade changes any of them.
+
+export const ECONOMY_VERSION = 1;
+
+export type DiscoveryTier = 1 | 2 | 3;
+
+export const DISCOVERY_TIERS: readonly DiscoveryTier[] = [1, 2, 3];
+
+export interface DiscoveryTierCost {
+  /** Raw token units (e8s) debited on discovery. */
+  cbr: bigint;
+  /** Charge taken from the first land. */
+  charge: number;
+}
+
+export interface CacheDrop {
+  tier: DiscoveryTier;
+  /** Probability of this modifier tier when a cache is processed, 0-1. */
+  chance: number;
+  multiplier: number;
+}
+
+export interface EconomyParameters {
+  version: number;
+  charge: {
+    regenPerMinute: number;
+    /** Cap given to newly minted lands. */
+    defaultCap: number;
+  };
+  claim: {
+    /** Raw units paid per claim at level 0, before the land's multiplier. */
+    baseReward: number;
+    chargeCost: number;
+    cooldownMs: number;
+  };
+  upgrade: {
+    maxLevel: number;
+    /** Cost of the upgrade from level `i` to `i + 1`, in raw units. */
+    costs: readonly bigint[];
+  };
+  discovery: Record<DiscoveryTier, DiscoveryTierCost>;
+  cache: {
+    /** Delay after discovery before a cache opens for free. */
+    openDelayMs: number;
+    /** Charge taken from the first land to open a cache before the delay. */
+    earlyOpenChargeCost: number;
+    drops: readonly CacheDrop[];
+  };
+}
+
+export const ECONOMY: EconomyParameters = {
+  version: ECONOMY_VERSION,
+  charge: {
+    regenPerMinute: 1,
+    defaultCap: 1000,
+  },
+  claim: {
+    baseReward: 100,
+    chargeCost: 10,
+    cooldownMs: 24 * 60 * 60 * 1000,
+  },
+  upgrade: {
+    maxLevel: 5,
+    // upgradePlot does not debit tokens yet and rejects any non-zero cost
+    costs: [BigInt(0), BigInt(0), BigInt(0), BigInt(0), BigInt(0)],
+  },
+  // discoverLootCache only debits charge; tokens are never taken
+  discovery: {
+    1: { cbr: BigInt(0), charge: 200 },
+    2: { cbr: BigInt(0), charge: 500 },
+    3: { cbr: BigInt(0), charge: 1000 },
+  },
+  cache: {
+    openDelayMs: 4 * 60 * 60 * 1000,
+    earlyOpenChargeCost: 10,
+    drops: [
+      { tier: 1, chance: 0.7, multiplier: 1.1 },
+      { tier: 2, chance: 0.25, multiplier: 1.25 },
+      { tier: 3, chance: 0.05, multiplier: 1.5 },
+    ],
+  },
+};
+
+/** Cost of upgrading a land from `level`, or null once it is at the maximum level. */
+export function upgradeCost(level: number): bigint | null {
+  if (level >= ECONOMY.upgrade.maxLevel) return null;
+  return ECONOMY.upgrade.costs[level] ?? BigInt(0);
+}
@@ -1,19 +1,16 @@
 // Mainnet Configuration for CyberGenesis Land Mint DApp
 // This file contains production-ready configuration for ICP mainnet deployment
 
+import { IC_CANISTER_IDS } from './canisters';
+
 export const MAINNET_CONFIG = {
   // Network configuration
   network: 'ic',
   host: 'https://ic0.app',
   
-  // Canister IDs (to be updated after mainnet deployment)
-  // VERIFIED CORRECT IDs - December 6, 2025
+  // Canister IDs - the mainnet profile of the canister registry (config/canisters.ts)
   canisters: {
-    governance: process.env.GOVERNANCE_CANISTER_ID || 'bkyz2-fmaaa-aaaaa-qaaaq-cai',
-    asset: process.env.ASSET_CANISTER_ID || 'bd3sg-teaaa-aaaaa-qaaba-cai',
-    token: process.env.TOKEN_CANISTER_ID || 'w4q3i-7yaaa-aaaam-ab3oq-cai', // CORRECTED: was w4q31-7yaaa-aaaam-ab3qq-cai
-    land: process.env.LAND_CANISTER_ID || 'br5f7-7uaaa-aaaaa-qaaca-cai', // CORRECTED: was br5ff7-7uaaa-aaaaa-qaaca-cai
-    marketplace: process.env.MARKETPLACE_CANISTER_ID || 'be2us-64aaa-aaaaa-qaabq-cai',
+    ...IC_CANISTER_IDS,
     frontend: process.env.FRONTEND_CANISTER_ID || '',
   },
   
@@ -1,24 +1,33 @@
 import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
 import { Principal } from '@dfinity/principal';
+import type { Agent } from '@icp-sdk/core/agent';
+import type { IDL } from '@icp-sdk/core/candid';
 import { toast } from 'sonner';
+import { t } from '@/i18n';
 
 interface PlugWalletContextType {
   isConnected: boolean;
   principal: Principal | null;
   isConnecting: boolean;
-  connect: () => Promise<void>;
+  /** Resolves to true once the user approved the connection. */
+  connect: () => Promise<boolean>;
   disconnect: () => void;
-  createActor: <T>(canisterId: string, idlFactory: any) => T | null;
+  createActor: <T>(canisterId: string, idlFactory: IDL.InterfaceFactory) => Promise<T | null>;
+  /** Plug's signing agent, available once connected. */
+  getAgent: () => Agent | null;
 }
 
 const PlugWalletContext = createContext<PlugWalletContextType | undefined>(undefined);
 
 interface PlugWalletProviderProps {
   children: ReactNode;
+  /** Canisters Plug may sign for without prompting; empty until the canister registry loads. */
   whitelist: string[];
+  /** Network host for Plug's agent, e.g. the local replica. */
+  host?: string;
 }
 
-export function PlugWalletProvider({ children, whitelist }: PlugWalletProviderProps) {
+export function PlugWalletProvider({ children, whitelist, host }: PlugWalletProviderProps) {
   const [isConnected, setIsConnected] = useState(false);
   const [principal, setPrincipal] = useState<Principal | null>(null);
   const [isConnecting, setIsConnecting] = useState(false);
@@ -28,10 +37,11 @@ export function PlugWalletProvider({ children, whitelist }: PlugWalletProviderPr
     return typeof window !== 'undefined' && !!window.ic?.plug;
   }, []);
 
-  // Check existing connection on mount
+  // Restore an existing connection once the whitelist is known. Plug drops its agent on
+  // reload, so it has to be recreated before any actor can sign.
   useEffect(() => {
     const checkConnection = async () => {
-      if (!isPlugInstalled()) return;
+      if (!isPlugInstalled() || whitelist.length === 0) return;
 
       try {
         const plug = window.ic?.plug;
@@ -39,6 +49,7 @@ export function PlugWalletProvider({ children, whitelist }: PlugWalletProviderPr
 
         const connected = await plug.isConnected();
         if (connected) {
+          await plug.createAgent({ whitelist, host });
           const principalId = await plug.agent.getPrincipal();
           setPrincipal(principalId);
           setIsConnected(true);
@@ -49,15 +60,15 @@ export function PlugWalletProvider({ children, whitelist }: PlugWalletProviderPr
     };
 
     checkConnection();
-  }, [isPlugInstalled]);
+  }, [isPlugInstalled, whitelist, host]);
 
   const connect = useCallback(async () => {
     if (!isPlugInstalled()) {
-      toast.error('Plug Wallet not detected', {
-        description: 'Please install Plug Wallet extension',
+      toast.error(t('plug.toast.notDetected'), {
+        description: t('plug.toast.install'),
       });
       window.open('https://plugwallet.ooo/', '_blank');
-      return;
+      return false;
     }
 
     setIsConnecting(true);
@@ -66,29 +77,32 @@ export function PlugWalletProvider({ children, whitelist }: PlugWalletProviderPr
       if (!plug) {
         throw new Error('Plug wallet not available');
       }
+      if (whitelist.length === 0) {
+        throw new Error('Canister configuration is still loading');
+      }
 
-      const connected = await plug.requestConnect({
-        whitelist,
-        host: window.location.origin,
-      });
+      const connected = await plug.requestConnect({ whitelist, host });
 
       if (connected) {
         const principalId = await plug.agent.getPrincipal();
         setPrincipal(principalId);
         setIsConnected(true);
-        toast.success('Wallet Connected', {
-          description: `Principal: ${principalId.toString().slice(0, 8)}...`,
+        toast.success(t('plug.toast.connected'), {
+          description: t('plug.toast.connectedDescription', { principal: principalId.toString().slice(0, 8) }),
         });
+        return true;
       }
+      return false;
     } catch (error) {
       console.error('Error connecting to Plug:', error);
-      toast.error('Connection Failed', {
-        description: error instanceof Error ? error.message : 'Failed to connect wallet',
+      toast.error(t('plug.toast.connectionFailed'), {
+        description: error instanceof Error ? error.message : t('plug.toast.connectionFailedDescription'),
       });
+      return false;
     } finally {
       setIsConnecting(false);
     }
-  }, [whitelist, isPlugInstalled]);
+  }, [whitelist, host, isPlugInstalled]);
 
   const disconnect = useCallback(() => {
     const plug = window.ic?.plug;
@@ -97,18 +111,18 @@ export function PlugWalletProvider({ children, whitelist }: PlugWalletProviderPr
     }
     setIsConnected(false);
     setPrincipal(null);
-    toast.info('Wallet Disconnected');
+    toast.info(t('plug.toast.disconnected'));
   }, [isPlugInstalled]);
 
   const createActor = useCallback(
-    <T,>(canisterId: string, idlFactory: any): T | null => {
+    async <T,>(canisterId: string, idlFactory: IDL.InterfaceFactory): Promise<T | null> => {
       if (!isConnected || !isPlugInstalled()) return null;
 
       try {
         const plug = window.ic?.plug;
         if (!plug) return null;
 
-        const actor = plug.createActor({
+        const actor = await plug.createActor<T>({
           canisterId,
           interfaceFactory: idlFactory,
         });
@@ -121,6 +135,11 @@ export function PlugWalletProvider({ children, whitelist }: PlugWalletProviderPr
     [isConnected, isPlugInstalled]
   );
 
+  const getAgent = useCallback(() => {
+    if (!isConnected) return null;
+    return window.ic?.plug?.agent ?? null;
+  }, [isConnected]);
+
   const value: PlugWalletContextType = {
     isConnected,
     principal,
@@ -128,6 +147,7 @@ export function PlugWalletProvider({ children, whitelist }: PlugWalletProviderPr
     connect,
     disconnect,
     createActor,
+    getAgent,
   };
 
   return <PlugWalletContext.Provider value={value}>{children}</PlugWalletContext.Provider>;
@@ -148,9 +168,10 @@ declare global {
       plug?: {
         requestConnect: (options: { whitelist: string[]; host?: string }) => Promise<boolean>;
         isConnected: () => Promise<boolean>;
+        createAgent: (options: { whitelist: string[]; host?: string }) => Promise<boolean>;
         disconnect?: () => void;
-        createActor: <T>(options: { canisterId: string; interfaceFactory: any }) => T;
-        agent: {
+        createActor: <T>(options: { canisterId: string; interfaceFactory: any }) => Promise<T>;
+        agent: Agent & {
           getPrincipal: () => Promise<Principal>;
         };
       };
@@ -0,0 +1,182 @@
+import { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef, ReactNode } from 'react';
+import { Principal } from '@icp-sdk/core/principal';
+import type { IDL } from '@icp-sdk/core/candid';
+import { PlugWalletProvider, usePlugWallet } from './PlugWalletContext';
+import { useInternetIdentity } from '../hooks/useInternetIdentity';
+import { useCanisterRegistry } from '../hooks/useCanisterRegistry';
+import { createActorWithConfig, isSimulationMode, loadCanisterRegistry } from '../config';
+import { CANISTER_NAMES } from '../config/canisters';
+import { idlFactory as tokenIdlFactory } from '../token-backend.idl';
+import { idlFactory as marketplaceIdlFactory } from '../marketplace-backend.idl';
+import { idlFactory as governanceIdlFactory } from '../governance-backend.idl';
+import type { backendInterface } from '../backend';
+import type { tokenBackendInterface } from '../token-backend';
+import type { marketplaceBackendInterface } from '../marketplace-backend';
+import type { governanceBackendInterface } from '../governance-backend';
+
+export type WalletSigner = 'internet-identity' | 'plug';
+
+/** Actor interface for each canister a wallet can sign calls to. */
+export interface WalletActors {
+  land: backendInterface;
+  token: tokenBackendInterface;
+  marketplace: marketplaceBackendInterface;
+  governance: governanceBackendInterface;
+}
+
+export type WalletCanister = keyof WalletActors;
+
+// The land canister goes through createActorWithConfig for its blob storage wrapper instead
+const PLUG_IDL_FACTORIES: Record<Exclude<WalletCanister, 'land'>, IDL.InterfaceFactory> = {
+  token: tokenIdlFactory,
+  marketplace: marketplaceIdlFactory,
+  governance: governanceIdlFactory,
+};
+
+const SIGNER_STORAGE_KEY = 'cybergenesis-signer';
+
+function loadSavedSigner(): WalletSigner {
+  try {
+    return localStorage.getItem(SIGNER_STORAGE_KEY) === 'plug' ? 'plug' : 'internet-identity';
+  } catch {
+    return 'internet-identity';
+  }
+}
+
+interface WalletContextType {
+  /**
+   * Signer transactions go through right now: the saved choice, except that a saved Plug
+   * choice falls back to Internet Identity while Plug is not connected.
+   */
+  signer: WalletSigner;
+  /** The signer the user picked, as saved across reloads. */
+  preferredSigner: WalletSigner;
+  setSigner: (signer: WalletSigner) => void;
+  /** Principal that will sign the next transaction, if any. */
+  principal: Principal | null;
+  /**
+   * Actor for `name` signed by the chosen signer. Internet Identity reuses the actor the
+   * caller already holds; Plug builds one against the registry's canister ID.
+   */
+  getActor: <N extends WalletCanister>(name: N, identityActor: WalletActors[N] | null) => Promise<WalletActors[N] | null>;
+  /** Plug-signed actor for `name`; throws when Plug is not connected. */
+  getPlugActor: <N extends WalletCanister>(name: N) => Promise<WalletActors[N]>;
+}
+
+const WalletContext = createContext<WalletContextType | undefined>(undefined);
+
+function SignerProvider({ children }: { children: ReactNode }) {
+  const { identity } = useInternetIdentity();
+  const { isConnected: isPlugConnected, principal: plugPrincipal, createActor, getAgent } = usePlugWallet();
+  const [preferredSigner, setSignerState] = useState<WalletSigner>(loadSavedSigner);
+  // Simulated canisters only know the Internet Identity stand-in
+  const [simulated, setSimulated] = useState(false);
+  useEffect(() => {
+    isSimulationMode().then(setSimulated);
+  }, []);
+  // Plug sessions do not always survive a reload; sign with Internet Identity until it reconnects
+  const signer: WalletSigner =
+    preferredSigner === 'plug' && isPlugConnected && !simulated ? 'plug' : 'internet-identity';
+  const plugActors = useRef(new Map<WalletCanister, unknown>());
+
+  // Plug actors are bound to the connected principal
+  const plugPrincipalText = plugPrincipal?.toText() ?? null;
+  // Plug hands out its own bundled Principal class; rebuild it as the one the agent uses
+  const plugAgentPrincipal = useMemo(
+    () => (plugPrincipalText ? Principal.fromText(plugPrincipalText) : null),
+    [plugPrincipalText]
+  );
+  useEffect(() => {
+    plugActors.current.clear();
+  }, [plugPrincipalText]);
+
+  const setSigner = useCallback((next: WalletSigner) => {
+    setSignerState(next);
+    try {
+      localStorage.setItem(SIGNER_STORAGE_KEY, next);
+    } catch {
+      // Not persisted, but the choice still applies for this session
+    }
+  }, []);
+
+  const getPlugActor = useCallback(
+    async <N extends WalletCanister>(name: N): Promise<WalletActors[N]> => {
+      if (!isPlugConnected) {
+        throw new Error('Plug Wallet not connected');
+      }
+
+      const cached = plugActors.current.get(name);
+      if (cached) return cached as WalletActors[N];
+
+      let actor: WalletActors[WalletCanister] | null;
+      if (name === 'land') {
+        const agent = getAgent();
+        if (!agent) throw new Error('Plug Wallet agent not available');
+        const landActor = await createActorWithConfig({ agent });
+        await landActor.initializeAccessControl();
+        actor = landActor;
+      } else {
+        const registry = await loadCanisterRegistry();
+        const canister = name as Exclude<WalletCanister, 'land'>;
+        actor = await createActor<WalletActors[typeof canister]>(
+          registry.canisters[canister],
+          PLUG_IDL_FACTORIES[canister]
+        );
+      }
+
+      if (!actor) {
+        throw new Error(`Failed to create ${name} actor with Plug Wallet`);
+      }
+      plugActors.current.set(name, actor);
+      return actor as WalletActors[N];
+    },
+    [isPlugConnected, createActor, getAgent]
+  );
+
+  const getActor = useCallback(
+    async <N extends WalletCanister>(name: N, identityActor: WalletActors[N] | null): Promise<WalletActors[N] | null> => {
+      // Simulated canisters only know the Internet Identity stand-in
+      if (signer === 'internet-identity' || (await isSimulationMode())) {
+        return identityActor;
+      }
+      return getPlugActor(name);
+    },
+    [signer, getPlugActor]
+  );
+
+  const principal = signer === 'plug' ? plugAgentPrincipal : (identity?.getPrincipal() ?? null);
+
+  const value: WalletContextType = {
+    signer,
+    preferredSigner,
+    setSigner,
+    principal,
+    getActor,
+    getPlugActor,
+  };
+
+  return <WalletContext.Provider value={value}>{children}</WalletContext.Provider>;
+}
+
+/**
+ * Mounts Plug with every registry canister whitelisted and tracks which signer
+ * (Internet Identity or Plug) transactions go through.
+ */
+export function WalletProvider({ children }: { children: ReactNode }) {
+  const { data: registry } = useCanisterRegistry();
+  const whitelist = useMemo(() => (registry ? CANISTER_NAMES.map((name) => registry.canisters[name]) : []), [registry]);
+
+  return (
+    <PlugWalletProvider whitelist={whitelist} host={registry?.host}>
+      <SignerProvider>{children}</SignerProvider>
+    </PlugWalletProvider>
+  );
+}
+
+export function useWallet() {
+  const context = useContext(WalletContext);
+  if (context === undefined) {
+    throw new Error('useWallet must be used within a WalletProvider');
+  }
+  return context;
+}
@@ -1,5 +1,8 @@
 import { useState, useCallback, useRef } from 'react';
 import { toast } from 'sonner';
+import { t } from '@/i18n';
+import { loadCanisterRegistry } from '../config';
+import { getGatewayPool } from '../lib/resilientAgent';
 
 interface ReinitializationState {
   isReinitializing: boolean;
@@ -11,27 +14,21 @@ interface ReinitializationState {
 const MAX_REINIT_ATTEMPTS = 3;
 const REINIT_DELAY = 2000; // 2 seconds between attempts
 
-// Gateway rotation order
-const GATEWAYS = [
-  'https://ic0.app',
-  'https://boundary.ic0.app',
-  'https://icp-api.io',
-] as const;
-
 export function useActorReinitializer() {
   const [state, setState] = useState<ReinitializationState>({
     isReinitializing: false,
     attempt: 0,
-    currentGateway: GATEWAYS[0],
+    currentGateway: '',
     error: null,
   });
 
   const reinitAttemptRef = useRef(0);
   const isReinitializingRef = useRef(false);
 
-  const rotateGateway = useCallback((currentAttempt: number): string => {
-    const gatewayIndex = currentAttempt % GATEWAYS.length;
-    return GATEWAYS[gatewayIndex];
+  // Rotate through the shared pool's ranking, so open circuits are skipped
+  const rotateGateway = useCallback(async (currentAttempt: number): Promise<string> => {
+    const gateways = getGatewayPool(await loadCanisterRegistry()).candidates();
+    return gateways[currentAttempt % gateways.length];
   }, []);
 
   const startReinitialization = useCallback(async (
@@ -51,14 +48,24 @@ export function useActorReinitializer() {
     console.log('🔄 [Actor Reinitializer] Starting automatic reinitialization cycle');
     console.log('═══════════════════════════════════════════════════════════════════════════');
 
-    toast.info('Переподключение...', {
-      description: 'Автоматическая реинициализация соединения',
+    toast.info(t('reconnect.toast.reconnecting'), {
+      description: t('reconnect.toast.reconnectingDescription'),
       duration: 3000,
     });
 
     for (let attempt = 0; attempt < MAX_REINIT_ATTEMPTS; attempt++) {
       reinitAttemptRef.current = attempt + 1;
-      const gateway = rotateGateway(attempt);
+      let gateway: string;
+      try {
+        gateway = await rotateGateway(attempt);
+      } catch (error) {
+        // Without a registry there is nothing to reconnect to
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        setState({ isReinitializing: false, attempt: 0, currentGateway: '', error: errorMessage });
+        isReinitializingRef.current = false;
+        onFailure?.(errorMessage);
+        return;
+      }
 
       setState({
         isReinitializing: true,
@@ -94,8 +101,8 @@ export function useActorReinitializer() {
 
         isReinitializingRef.current = false;
 
-        toast.success('Соединение восстановлено', {
-          description: `Подключено через ${gateway}`,
+        toast.success(t('reconnect.toast.restored'), {
+          description: t('reconnect.toast.restoredDescription', { gateway }),
           duration: 3000,
         });
 
@@ -126,7 +133,7 @@ export function useActorReinitializer() {
 
           isReinitializingRef.current = false;
 
-          toast.error('Ошибка переподключения', {
+          toast.error(t('reconnect.toast.failed'), {
             description: finalError,
             duration: 8000,
           });
@@ -143,7 +150,7 @@ export function useActorReinitializer() {
     setState({
       isReinitializing: false,
       attempt: 0,
-      currentGateway: GATEWAYS[0],
+      currentGateway: '',
       error: null,
     });
     reinitAttemptRef.current = 0;
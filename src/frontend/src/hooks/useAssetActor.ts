@@ -1,9 +1,14 @@
 import { useEffect, useState, useRef } from 'react';
-import { Actor, HttpAgent } from '@icp-sdk/core/agent';
+import { Actor } from '@icp-sdk/core/agent';
 import { idlFactory } from '../asset-backend.idl';
 import type { assetBackendInterface } from '../asset-backend';
 import { useInternetIdentity } from './useInternetIdentity';
 import { toast } from 'sonner';
+import { t } from '@/i18n';
+import { isSimulationMode, loadCanisterRegistry } from '../config';
+import { CanisterConfigError, type NetworkProfile } from '../config/canisters';
+import { createSimulatedAssetActor } from '../simulation';
+import { getGatewayPool, getSharedAgent } from '../lib/resilientAgent';
 
 const MAX_RETRIES = 25;
 const RETRY_DELAYS = [
@@ -12,17 +17,7 @@ const RETRY_DELAYS = [
   35000, 35000, 40000, 40000, 45000
 ];
 const ACTOR_TIMEOUT = 120000; // 120 seconds
-const HEALTH_CHECK_TIMEOUT = 3000; // 3 seconds for fast health checks
 
-// Multiple IC gateways for automatic failover
-// PRIMARY: ic0.app (DFINITY official gateway)
-const IC_GATEWAYS = [
-  'https://ic0.app',            // Primary: DFINITY official gateway
-  'https://boundary.ic0.app',   // Secondary: Boundary node gateway
-  'https://icp-api.io',         // Tertiary: API-focused gateway
-] as const;
-
-const LOCAL_HOST = 'http://localhost:4943';
 
 interface EnvValidationResult {
   isValid: boolean;
@@ -30,123 +25,32 @@ interface EnvValidationResult {
   warnings: string[];
   config?: {
     assetCanisterId: string;
-    network: string;
+    network: NetworkProfile;
+    host: string;
     gateways: readonly string[];
   };
 }
 
-function validateEnvironmentVariables(): EnvValidationResult {
-  const errors: string[] = [];
-  const warnings: string[] = [];
-
-  const assetCanisterId = 
-    import.meta.env.VITE_ASSET_CANISTER_ID || 
-    import.meta.env.CANISTER_ID_ASSET_CANISTER;
-
-  if (!assetCanisterId) {
-    errors.push('VITE_ASSET_CANISTER_ID is not configured');
-  } else if (assetCanisterId.length < 5) {
-    errors.push(`Invalid Asset Canister ID format: "${assetCanisterId}"`);
-  }
-
-  const network = import.meta.env.VITE_DFX_NETWORK || 'ic';
-  if (network !== 'ic' && network !== 'local') {
-    warnings.push(`Unexpected VITE_DFX_NETWORK value: "${network}", using: ic`);
-  }
-
-  const isValid = errors.length === 0;
-
-  if (isValid && assetCanisterId) {
+async function validateEnvironmentVariables(): Promise<EnvValidationResult> {
+  try {
+    const registry = await loadCanisterRegistry();
     return {
       isValid: true,
       errors: [],
-      warnings,
+      warnings: [],
       config: {
-        assetCanisterId,
-        network: network === 'local' ? 'local' : 'ic',
-        gateways: IC_GATEWAYS,
+        assetCanisterId: registry.canisters.asset,
+        network: registry.profile,
+        host: registry.host,
+        gateways: registry.gateways,
       },
     };
-  }
-
-  return {
-    isValid: false,
-    errors,
-    warnings,
-  };
-}
-
-async function checkGatewayHealth(gateway: string, canisterId: string, timeoutMs: number = HEALTH_CHECK_TIMEOUT): Promise<{ healthy: boolean; latency: number | null }> {
-  try {
-    const startTime = performance.now();
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
-    
-    // Use the stable /health endpoint via ic0.app gateway
-    const cacheBuster = Date.now();
-    const url = `https://${canisterId}.ic0.app/health`;
-    
-    const response = await fetch(`${url}?_=${cacheBuster}`, {
-      method: 'GET',
-      signal: controller.signal,
-      headers: {
-        'Cache-Control': 'no-cache, no-store, must-revalidate',
-        'Pragma': 'no-cache',
-      },
-      cache: 'no-store',
-    });
-    
-    clearTimeout(timeoutId);
-    const latency = Math.round(performance.now() - startTime);
-    
-    // Check if response contains "HEALTHY" text
-    if (response.ok) {
-      const text = await response.text();
-      if (!text.includes('HEALTHY')) {
-        console.warn(`[AssetCanister] Health check failed: ${text}`);
-        return {
-          healthy: false,
-          latency,
-        };
-      }
-    }
-    
-    return {
-      healthy: response.ok,
-      latency,
-    };
   } catch (error) {
-    return {
-      healthy: false,
-      latency: null,
-    };
-  }
-}
-
-async function selectOptimalGateway(gateways: readonly string[], canisterId: string): Promise<string> {
-  console.log('[AssetCanister] Testing gateways for optimal connection...');
-  
-  // Test all gateways in parallel
-  const healthChecks = await Promise.all(
-    gateways.map(async (gateway) => ({
-      gateway,
-      ...(await checkGatewayHealth(gateway, canisterId)),
-    }))
-  );
-  
-  // Sort by health and latency
-  const sortedGateways = healthChecks
-    .filter(check => check.healthy)
-    .sort((a, b) => (a.latency || Infinity) - (b.latency || Infinity));
-  
-  if (sortedGateways.length > 0) {
-    const selected = sortedGateways[0];
-    console.log(`[AssetCanister] ✓ Gateway selected: ${selected.gateway} (latency: ${selected.latency}ms)`);
-    return selected.gateway;
+    if (error instanceof CanisterConfigError) {
+      return { isValid: false, errors: error.issues, warnings: [] };
+    }
+    throw error;
   }
-  
-  console.warn('[AssetCanister] All gateways failed health check, using primary (ic0.app)');
-  return gateways[0];
 }
 
 export function useAssetActor() {
@@ -178,25 +82,7 @@ export function useAssetActor() {
       return;
     }
 
-    const validation = validateEnvironmentVariables();
-    setEnvValidation(validation);
-
-    if (!validation.isValid) {
-      console.error('[AssetCanister Actor] Environment validation failed:', validation.errors);
-      setError(validation.errors.join(' '));
-      setActor(null);
-      setIsFetching(false);
-      setConnectionStatus('offline');
-      return;
-    }
-
-    if (validation.warnings.length > 0) {
-      validation.warnings.forEach(warning => {
-        console.warn('[AssetCanister Actor]', warning);
-      });
-    }
-
-    const initActorWithRetry = async () => {
+    const initActorWithRetry = async (config: NonNullable<EnvValidationResult['config']>) => {
       isInitializingRef.current = true;
       setIsFetching(true);
       setError(null);
@@ -206,14 +92,9 @@ export function useAssetActor() {
         try {
           console.log(`[AssetCanister Actor] Initialization attempt ${attempt + 1}/${MAX_RETRIES} with 120s timeout`);
 
-          const currentValidation = validateEnvironmentVariables();
-          if (!currentValidation.isValid) {
-            throw new Error(currentValidation.errors.join(' '));
-          }
-
-          const { assetCanisterId, network, gateways } = currentValidation.config!;
-          
-          const host = network === 'local' ? LOCAL_HOST : await selectOptimalGateway(gateways, assetCanisterId);
+          const { assetCanisterId, network } = config;
+          const registry = await loadCanisterRegistry();
+          const host = getGatewayPool(registry).candidates()[0] ?? config.host;
 
           console.log('═══════════════════════════════════════════════════════════════════════════');
           console.log('🌐 [AssetCanister Actor] Network Configuration');
@@ -224,7 +105,7 @@ export function useAssetActor() {
           console.log('  👤 Identity:', identity ? identity.getPrincipal().toString() : 'anonymous');
           console.log('  ⏱️  Timeout: 120 seconds');
           console.log('  🔄 Retry:', `${attempt + 1}/${MAX_RETRIES}`);
-          console.log('  🌐 Failover: Enabled (ic0.app primary)');
+          console.log('  🌐 Failover: Per-call across', config.gateways.length, 'gateways');
           console.log('  🚀 Health Endpoint: /health');
           console.log('═══════════════════════════════════════════════════════════════════════════');
 
@@ -233,21 +114,9 @@ export function useAssetActor() {
           });
 
           const actorPromise = (async () => {
-            const agent = new HttpAgent({
-              host: 'https://ic0.app',
-              identity: identity || undefined,
-            });
+            const agent = await getSharedAgent(registry, identity);
 
-            console.log('[AssetCanister Actor] ✓ HttpAgent created');
-
-            if (network === 'local') {
-              try {
-                await agent.fetchRootKey();
-                console.log('[AssetCanister Actor] ✓ Root key fetched');
-              } catch (err) {
-                console.warn('[AssetCanister Actor] Root key fetch failed:', err);
-              }
-            }
+            console.log('[AssetCanister Actor] ✓ Shared HttpAgent ready');
 
             return Actor.createActor(idlFactory, {
               agent,
@@ -289,8 +158,8 @@ export function useAssetActor() {
           setIsFetching(false);
           
           if (hasShownErrorToastRef.current) {
-            toast.success('Asset Canister Connected', {
-              description: `Connected to ${network.toUpperCase()} network via ${host}`,
+            toast.success(t('assetActor.toast.connected'), {
+              description: t('assetActor.toast.connectedDescription', { network: network.toUpperCase(), host }),
               duration: 3000,
             });
             hasShownErrorToastRef.current = false;
@@ -302,18 +171,6 @@ export function useAssetActor() {
           const errorMessage = err instanceof Error ? err.message : String(err);
           console.error(`[AssetCanister Actor] Attempt ${attempt + 1} failed:`, errorMessage);
 
-          if (
-            errorMessage.includes('not configured') ||
-            errorMessage.includes('Invalid Asset Canister ID')
-          ) {
-            setError(errorMessage);
-            setActor(null);
-            setConnectionStatus('offline');
-            isInitializingRef.current = false;
-            setIsFetching(false);
-            return;
-          }
-
           if (attempt === MAX_RETRIES - 1) {
             console.error('[AssetCanister Actor] All retry attempts exhausted');
             const finalError = `Failed after ${MAX_RETRIES} attempts with 120s timeout and gateway failover: ${errorMessage}`;
@@ -324,7 +181,7 @@ export function useAssetActor() {
             setIsFetching(false);
             
             if (!hasShownErrorToastRef.current) {
-              toast.error('Asset Canister Connection Failed', {
+              toast.error(t('assetActor.toast.failed'), {
                 description: finalError,
                 duration: 8000,
               });
@@ -340,7 +197,42 @@ export function useAssetActor() {
       }
     };
 
-    initActorWithRetry();
+    const startActor = async () => {
+      isInitializingRef.current = true;
+      if (await isSimulationMode()) {
+        console.log('[AssetCanister Actor] Simulation mode: using in-memory asset canister');
+        setEnvValidation({ isValid: true, errors: [], warnings: [] });
+        setActor(createSimulatedAssetActor(identity));
+        setError(null);
+        setConnectionStatus('connected');
+        isInitializingRef.current = false;
+        setIsFetching(false);
+        return;
+      }
+      isInitializingRef.current = false;
+
+      const validation = await validateEnvironmentVariables();
+      setEnvValidation(validation);
+
+      if (!validation.isValid || !validation.config) {
+        console.error('[AssetCanister Actor] Environment validation failed:', validation.errors);
+        setError(validation.errors.join(' '));
+        setActor(null);
+        setIsFetching(false);
+        setConnectionStatus('offline');
+        return;
+      }
+
+      if (validation.warnings.length > 0) {
+        validation.warnings.forEach(warning => {
+          console.warn('[AssetCanister Actor]', warning);
+        });
+      }
+
+      initActorWithRetry(validation.config);
+    };
+
+    startActor();
   }, [identity, isInitializing]);
 
   return { 
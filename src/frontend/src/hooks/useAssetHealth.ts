@@ -1,4 +1,6 @@
 import { useState, useEffect } from 'react';
+import { loadCanisterRegistry } from '../config';
+import { getCanisterHttpUrl } from '../config/canisters';
 
 type AssetHealthStatus = 'checking' | 'healthy' | 'error';
 
@@ -20,8 +22,8 @@ export function useAssetHealth() {
       if (!mounted) return;
 
       try {
-        const assetCanisterId = 'bd3sg-teaaa-aaaaa-qaaba-cai';
-        const healthUrl = `https://${assetCanisterId}.ic0.app/health?_=${Date.now()}`;
+        const registry = await loadCanisterRegistry();
+        const healthUrl = getCanisterHttpUrl(registry, 'asset', `/health?_=${Date.now()}`);
 
         const controller = new AbortController();
         const timeoutId = setTimeout(() => controller.abort(), 3000); // 3-second timeout
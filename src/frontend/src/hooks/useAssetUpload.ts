@@ -1,6 +1,7 @@
 import { useState, useCallback } from 'react';
 import { Actor, HttpAgent } from '@dfinity/agent';
 import { idlFactory as assetIdlFactory } from '../asset-backend.idl';
+import { loadCanisterRegistry } from '../config';
 
 interface UploadState {
   isUploading: boolean;
@@ -53,10 +54,10 @@ export function useAssetUpload() {
       setUploadState(prev => ({ ...prev, progress: 10 }));
 
       // Create Asset Canister actor
-      const assetCanisterId = 'bd3sg-teaaa-aaaaa-qaaba-cai';
+      const { canisters } = await loadCanisterRegistry();
       const assetActor = Actor.createActor(assetIdlFactory, {
         agent,
-        canisterId: assetCanisterId,
+        canisterId: canisters.asset,
       });
 
       setUploadState(prev => ({ ...prev, progress: 20 }));
@@ -0,0 +1,47 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Actor } from '@icp-sdk/core/agent';
+import { idlFactory } from '../asset-backend.idl';
+import type { assetBackendInterface } from '../asset-backend';
+import { useInternetIdentity } from './useInternetIdentity';
+import { isSimulationMode, loadCanisterRegistry } from '../config';
+import { createSimulatedAssetActor } from '../simulation';
+import { getSharedAgent } from '../lib/resilientAgent';
+import { biomeModelReport, resolveBiomeModels, type BiomeModelCandidate } from '../lib/biomeModels';
+
+// The asset canister's uploaded GLBs. Uses a plain actor rather than useAssetActor, whose
+// connection retries and toasts are meant for the admin tools.
+function useAssetModelList() {
+  const { identity } = useInternetIdentity();
+
+  return useQuery<Array<[string, string]>>({
+    queryKey: ['assetModels', identity?.getPrincipal().toString()],
+    queryFn: async () => {
+      if (await isSimulationMode()) {
+        return createSimulatedAssetActor(identity).listGLBModels();
+      }
+      const registry = await loadCanisterRegistry();
+      const actor = Actor.createActor<assetBackendInterface>(idlFactory, {
+        agent: await getSharedAgent(registry, identity),
+        canisterId: registry.canisters.asset,
+      });
+      return actor.listGLBModels();
+    },
+    staleTime: 5 * 60 * 1000,
+    retry: 1,
+  });
+}
+
+/**
+ * Candidate model URLs for `biome`, best first. Until the asset canister answers, the CDN
+ * and the local fallbacks are offered so the land is never blocked on the listing.
+ */
+export function useBiomeModelCandidates(biome: string | undefined): BiomeModelCandidate[] {
+  const { data: assetModels } = useAssetModelList();
+  return useMemo(() => (biome ? resolveBiomeModels(biome, assetModels ?? []) : []), [biome, assetModels]);
+}
+
+/** Which source served each biome's model this session. */
+export function useBiomeModelReport() {
+  return useSyncExternalStore(biomeModelReport.subscribe, biomeModelReport.getSnapshot);
+}
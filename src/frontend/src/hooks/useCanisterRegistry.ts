@@ -0,0 +1,16 @@
+import { useQuery } from '@tanstack/react-query';
+import { loadCanisterRegistry } from '../config';
+import type { CanisterRegistry } from '../config/canisters';
+
+/**
+ * Resolved canister registry for components that display or probe canister IDs.
+ * `error` is the CanisterConfigError when an ID is missing or malformed.
+ */
+export function useCanisterRegistry() {
+  return useQuery<CanisterRegistry>({
+    queryKey: ['canisterRegistry'],
+    queryFn: loadCanisterRegistry,
+    staleTime: Infinity,
+    retry: false,
+  });
+}
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { frameScheduler, type FrameSchedule } from '../lib/frameScheduler';
+
+/** Whether the page is visible and whether the user has gone idle. */
+export function useFrameSchedule(): FrameSchedule {
+  return useSyncExternalStore(frameScheduler.subscribe, frameScheduler.getSnapshot);
+}
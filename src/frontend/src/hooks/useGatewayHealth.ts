@@ -0,0 +1,17 @@
+import { useSyncExternalStore } from 'react';
+import { useCanisterRegistry } from './useCanisterRegistry';
+import { getGatewayPool, type GatewayHealth, type GatewayPool } from '../lib/resilientAgent';
+
+const EMPTY: GatewayHealth[] = [];
+const noopSubscribe = () => () => {};
+
+/**
+ * Live health of the gateways behind the shared agent, best first. Updates whenever a
+ * call succeeds, fails or trips a circuit breaker.
+ */
+export function useGatewayHealth(): { gateways: GatewayHealth[]; pool: GatewayPool | null } {
+  const { data: registry } = useCanisterRegistry();
+  const pool = registry ? getGatewayPool(registry) : null;
+  const gateways = useSyncExternalStore(pool?.subscribe ?? noopSubscribe, pool?.getSnapshot ?? (() => EMPTY));
+  return { gateways, pool };
+}
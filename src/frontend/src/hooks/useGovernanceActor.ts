@@ -1,8 +1,12 @@
 import { useEffect, useState, useRef } from 'react';
-import { Actor, HttpAgent } from '@icp-sdk/core/agent';
+import { Actor } from '@icp-sdk/core/agent';
 import { idlFactory } from '../governance-backend.idl';
 import type { governanceBackendInterface } from '../governance-backend';
 import { useInternetIdentity } from './useInternetIdentity';
+import { isSimulationMode, loadCanisterRegistry } from '../config';
+import { CanisterConfigError } from '../config/canisters';
+import { getGatewayPool, getSharedAgent } from '../lib/resilientAgent';
+import { createSimulatedGovernanceActor } from '../simulation';
 
 const MAX_RETRIES = 25;
 const RETRY_DELAYS = [
@@ -12,38 +16,6 @@ const RETRY_DELAYS = [
 ];
 const ACTOR_TIMEOUT = 120000; // 120 seconds (maximum recommended)
 
-// Multiple IC gateways for automatic failover
-// PRIMARY: ic0.app (RESTORED AS PRIMARY - DFINITY official gateway)
-const IC_GATEWAYS = [
-  'https://ic0.app',            // Primary: DFINITY official gateway (RESTORED)
-  'https://boundary.ic0.app',   // Secondary: Boundary node gateway
-  'https://icp-api.io',         // Tertiary: API-focused gateway
-] as const;
-
-const LOCAL_HOST = 'http://localhost:4943';
-
-async function selectOptimalGateway(gateways: readonly string[]): Promise<string> {
-  for (const gateway of gateways) {
-    try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 5000);
-      
-      await fetch(`${gateway}/api/v2/status`, {
-        method: 'GET',
-        signal: controller.signal,
-      });
-      
-      clearTimeout(timeoutId);
-      console.log(`[Governance] ✓ Gateway selected: ${gateway}`);
-      return gateway;
-    } catch (error) {
-      console.warn(`[Governance] Gateway ${gateway} unavailable, trying next...`);
-    }
-  }
-  
-  return gateways[0];
-}
-
 export function useGovernanceActor() {
   const { identity, isInitializing } = useInternetIdentity();
   const [actor, setActor] = useState<governanceBackendInterface | null>(null);
@@ -61,40 +33,31 @@ export function useGovernanceActor() {
       setIsFetching(true);
       setError(null);
 
+      if (await isSimulationMode()) {
+        console.log('[Governance Actor] Simulation mode: using in-memory governance canister');
+        setActor(createSimulatedGovernanceActor(identity));
+        isInitializingRef.current = false;
+        setIsFetching(false);
+        return;
+      }
+
       for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
         try {
           console.log(`[Governance Actor] Initialization attempt ${attempt + 1}/${MAX_RETRIES} with 120s timeout`);
 
-          const governanceCanisterId = import.meta.env.VITE_GOVERNANCE_CANISTER_ID || 
-                                        import.meta.env.CANISTER_ID_GOVERNANCE_CANISTER ||
-                                        'bkyz2-fmaaa-aaaaa-qaaaq-cai';
-
-          if (!governanceCanisterId) {
-            throw new Error('Governance Canister ID not configured');
-          }
-
-          const network = import.meta.env.VITE_DFX_NETWORK || 'ic';
-          const host = network === 'local' ? LOCAL_HOST : await selectOptimalGateway(IC_GATEWAYS);
+          const registry = await loadCanisterRegistry();
+          const governanceCanisterId = registry.canisters.governance;
+          const network = registry.profile;
+          const gateways = getGatewayPool(registry).candidates();
 
-          console.log('[Governance Actor] Config:', { canisterId: governanceCanisterId, network, host });
+          console.log('[Governance Actor] Config:', { canisterId: governanceCanisterId, network, gateways });
 
           const timeoutPromise = new Promise<never>((_, reject) => {
             setTimeout(() => reject(new Error('Governance actor timeout (120s)')), ACTOR_TIMEOUT);
           });
 
           const actorPromise = (async () => {
-            const agent = await HttpAgent.create({
-              host,
-              identity: identity || undefined,
-            });
-
-            if (network === 'local') {
-              try {
-                await agent.fetchRootKey();
-              } catch (err) {
-                console.warn('[Governance Actor] Root key fetch failed:', err);
-              }
-            }
+            const agent = await getSharedAgent(registry, identity);
 
             return Actor.createActor(idlFactory, {
               agent,
@@ -115,7 +78,7 @@ export function useGovernanceActor() {
           const errorMessage = err instanceof Error ? err.message : String(err);
           console.error(`[Governance Actor] Attempt ${attempt + 1} failed:`, errorMessage);
 
-          if (errorMessage.includes('not configured')) {
+          if (err instanceof CanisterConfigError) {
             setError(errorMessage);
             setActor(null);
             isInitializingRef.current = false;
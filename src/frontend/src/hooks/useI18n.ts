@@ -0,0 +1,31 @@
+import { useSyncExternalStore } from 'react';
+import {
+  formatCbrAmount,
+  formatDate,
+  formatDuration,
+  formatNumber,
+  formatRelativeTime,
+  getLocale,
+  setLocale,
+  subscribeLocale,
+  t,
+} from '../i18n';
+
+/**
+ * Subscribes the component to the active locale so it re-renders on a switch.
+ * The formatters are the module-level ones, which always read the current locale.
+ */
+export function useI18n() {
+  const locale = useSyncExternalStore(subscribeLocale, getLocale);
+
+  return {
+    locale,
+    setLocale,
+    t,
+    formatNumber,
+    formatCbrAmount,
+    formatDate,
+    formatRelativeTime,
+    formatDuration,
+  };
+}
@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Whether any part of `element` is inside the viewport. True until the observer reports. Takes
+ * the element itself rather than a ref so the observer follows remounts onto a new element.
+ */
+export function useInView(element: Element | null): boolean {
+  const [inView, setInView] = useState(true);
+
+  useEffect(() => {
+    if (!element || typeof IntersectionObserver === 'undefined') return;
+    const observer = new IntersectionObserver(([entry]) => setInView(entry.isIntersecting));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [element]);
+
+  return inView;
+}
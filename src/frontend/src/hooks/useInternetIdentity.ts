@@ -12,7 +12,8 @@ import {
 import { AuthClient, type AuthClientCreateOptions, type AuthClientLoginOptions } from '@dfinity/auth-client';
 import type { Identity } from '@icp-sdk/core/agent';
 import { DelegationIdentity, isDelegationValid } from '@icp-sdk/core/identity';
-import { loadConfig } from '../config';
+import { isSimulationMode, loadConfig } from '../config';
+import { getSimulationIdentity } from '../simulation';
 
 export type Status = 'initializing' | 'idle' | 'logging-in' | 'success' | 'loginError';
 
@@ -136,6 +137,7 @@ export function InternetIdentityProvider({
     const [identity, setIdentity] = useState<Identity | undefined>(undefined);
     const [loginStatus, setStatus] = useState<Status>('initializing');
     const [loginError, setError] = useState<Error | undefined>(undefined);
+    const [isSimulation, setIsSimulation] = useState(false);
 
     const setErrorMessage = useCallback((message: string) => {
         setStatus('loginError');
@@ -160,6 +162,13 @@ export function InternetIdentityProvider({
     );
 
     const login = useCallback(() => {
+        // Simulation mode has no identity provider: log in as the seeded principal.
+        if (isSimulation) {
+            setIdentity(getSimulationIdentity());
+            setStatus('success');
+            return;
+        }
+
         if (!authClient) {
             setErrorMessage(
                 'AuthClient is not initialized yet, make sure to call `login` on user interaction e.g. click.'
@@ -186,9 +195,16 @@ export function InternetIdentityProvider({
 
         setStatus('logging-in');
         void authClient.login(options);
-    }, [authClient, handleLoginError, handleLoginSuccess, setErrorMessage]);
+    }, [authClient, handleLoginError, handleLoginSuccess, setErrorMessage, isSimulation]);
 
     const clear = useCallback(() => {
+        if (isSimulation) {
+            setIdentity(undefined);
+            setStatus('idle');
+            setError(undefined);
+            return;
+        }
+
         if (!authClient) {
             setErrorMessage('Auth client not initialized');
             return;
@@ -206,13 +222,18 @@ export function InternetIdentityProvider({
                 setStatus('loginError');
                 setError(unknownError instanceof Error ? unknownError : new Error('Logout failed'));
             });
-    }, [authClient, setErrorMessage]);
+    }, [authClient, setErrorMessage, isSimulation]);
 
     useEffect(() => {
         let cancelled = false;
         void (async () => {
             try {
                 setStatus('initializing');
+                if (await isSimulationMode()) {
+                    if (cancelled) return;
+                    setIsSimulation(true);
+                    return;
+                }
                 let existingClient = authClient;
                 if (!existingClient) {
                     existingClient = await createAuthClient(createOptions);
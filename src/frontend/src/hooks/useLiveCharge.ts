@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+import { chargeAt, msUntilCharge, msUntilFull } from '@/lib/chargeModel';
+import type { LandData } from '@/backend';
+
+const TICK_MS = 1000;
+
+/**
+ * Charge of `land` ticking in real time between `getLandData` refetches. `msUntil(target)`
+ * is null when the target exceeds the land's cap.
+ */
+export function useLiveCharge(land: LandData | undefined) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!land) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(interval);
+  }, [land]);
+
+  if (!land) {
+    return { charge: 0, cap: 0, msUntilFull: 0, msUntil: (_target: number): number | null => null };
+  }
+
+  return {
+    charge: chargeAt(land, now),
+    cap: Number(land.chargeCap),
+    msUntilFull: msUntilFull(land, now),
+    msUntil: (target: number) => msUntilCharge(land, target, now),
+  };
+}
@@ -1,8 +1,12 @@
 import { useEffect, useState, useRef } from 'react';
-import { Actor, HttpAgent } from '@icp-sdk/core/agent';
+import { Actor } from '@icp-sdk/core/agent';
 import { idlFactory } from '../marketplace-backend.idl';
 import type { marketplaceBackendInterface } from '../marketplace-backend';
 import { useInternetIdentity } from './useInternetIdentity';
+import { isSimulationMode, loadCanisterRegistry } from '../config';
+import { CanisterConfigError } from '../config/canisters';
+import { getGatewayPool, getSharedAgent } from '../lib/resilientAgent';
+import { createSimulatedMarketplaceActor } from '../simulation';
 
 const MAX_RETRIES = 25;
 const RETRY_DELAYS = [
@@ -12,38 +16,6 @@ const RETRY_DELAYS = [
 ];
 const ACTOR_TIMEOUT = 120000; // 120 seconds (maximum recommended)
 
-// Multiple IC gateways for automatic failover
-// PRIMARY: ic0.app (RESTORED AS PRIMARY - DFINITY official gateway)
-const IC_GATEWAYS = [
-  'https://ic0.app',            // Primary: DFINITY official gateway (RESTORED)
-  'https://boundary.ic0.app',   // Secondary: Boundary node gateway
-  'https://icp-api.io',         // Tertiary: API-focused gateway
-] as const;
-
-const LOCAL_HOST = 'http://localhost:4943';
-
-async function selectOptimalGateway(gateways: readonly string[]): Promise<string> {
-  for (const gateway of gateways) {
-    try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 5000);
-      
-      await fetch(`${gateway}/api/v2/status`, {
-        method: 'GET',
-        signal: controller.signal,
-      });
-      
-      clearTimeout(timeoutId);
-      console.log(`[Marketplace] ✓ Gateway selected: ${gateway}`);
-      return gateway;
-    } catch (error) {
-      console.warn(`[Marketplace] Gateway ${gateway} unavailable, trying next...`);
-    }
-  }
-  
-  return gateways[0];
-}
-
 export function useMarketplaceActor() {
   const { identity, isInitializing } = useInternetIdentity();
   const [actor, setActor] = useState<marketplaceBackendInterface | null>(null);
@@ -61,40 +33,31 @@ export function useMarketplaceActor() {
       setIsFetching(true);
       setError(null);
 
+      if (await isSimulationMode()) {
+        console.log('[Marketplace Actor] Simulation mode: using in-memory marketplace canister');
+        setActor(createSimulatedMarketplaceActor(identity));
+        isInitializingRef.current = false;
+        setIsFetching(false);
+        return;
+      }
+
       for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
         try {
           console.log(`[Marketplace Actor] Initialization attempt ${attempt + 1}/${MAX_RETRIES} with 120s timeout`);
 
-          const marketplaceCanisterId = import.meta.env.VITE_MARKETPLACE_CANISTER_ID || 
-                                         import.meta.env.CANISTER_ID_MARKETPLACE_CANISTER ||
-                                         'be2us-64aaa-aaaaa-qaabq-cai';
-
-          if (!marketplaceCanisterId) {
-            throw new Error('Marketplace Canister ID not configured');
-          }
-
-          const network = import.meta.env.VITE_DFX_NETWORK || 'ic';
-          const host = network === 'local' ? LOCAL_HOST : await selectOptimalGateway(IC_GATEWAYS);
+          const registry = await loadCanisterRegistry();
+          const marketplaceCanisterId = registry.canisters.marketplace;
+          const network = registry.profile;
+          const gateways = getGatewayPool(registry).candidates();
 
-          console.log('[Marketplace Actor] Config:', { canisterId: marketplaceCanisterId, network, host });
+          console.log('[Marketplace Actor] Config:', { canisterId: marketplaceCanisterId, network, gateways });
 
           const timeoutPromise = new Promise<never>((_, reject) => {
             setTimeout(() => reject(new Error('Marketplace actor timeout (120s)')), ACTOR_TIMEOUT);
           });
 
           const actorPromise = (async () => {
-            const agent = await HttpAgent.create({
-              host,
-              identity: identity || undefined,
-            });
-
-            if (network === 'local') {
-              try {
-                await agent.fetchRootKey();
-              } catch (err) {
-                console.warn('[Marketplace Actor] Root key fetch failed:', err);
-              }
-            }
+            const agent = await getSharedAgent(registry, identity);
 
             return Actor.createActor(idlFactory, {
               agent,
@@ -115,7 +78,7 @@ export function useMarketplaceActor() {
           const errorMessage = err instanceof Error ? err.message : String(err);
           console.error(`[Marketplace Actor] Attempt ${attempt + 1} failed:`, errorMessage);
 
-          if (errorMessage.includes('not configured')) {
+          if (err instanceof CanisterConfigError) {
             setError(errorMessage);
             setActor(null);
             isInitializingRef.current = false;
@@ -0,0 +1,15 @@
+import { useQuery } from '@tanstack/react-query';
+import { getModifierThumbnail } from '@/lib/modifierThumbnails';
+
+/** Rendered thumbnail for a modifier model, or undefined while it renders or if it failed. */
+export function useModifierThumbnail(modelUrl: string | undefined) {
+  const { data } = useQuery({
+    queryKey: ['modifierThumbnail', modelUrl],
+    queryFn: () => getModifierThumbnail(modelUrl!),
+    enabled: !!modelUrl,
+    staleTime: Infinity,
+    gcTime: Infinity,
+    retry: false,
+  });
+  return data;
+}
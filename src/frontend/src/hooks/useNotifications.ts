@@ -0,0 +1,29 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { useGetLandData, useGetMyLootCaches } from './useQueries';
+import { buildNotificationSchedule, notificationScheduler, type NotificationSettings } from '../lib/notifications';
+
+/** Whether local notifications are supported, permitted and switched on, plus the toggles. */
+export function useNotificationSettings(): NotificationSettings & {
+  enable: () => Promise<boolean>;
+  disable: () => void;
+} {
+  const settings = useSyncExternalStore(notificationScheduler.subscribe, notificationScheduler.getSnapshot);
+  return {
+    ...settings,
+    enable: () => notificationScheduler.enable(),
+    disable: () => notificationScheduler.disable(),
+  };
+}
+
+/**
+ * Keeps the scheduled alerts in step with landData and the loot caches. Mount once, high
+ * enough in the tree to stay alive across tabs.
+ */
+export function useNotificationScheduler() {
+  const { data: lands } = useGetLandData();
+  const { data: caches } = useGetMyLootCaches();
+
+  useEffect(() => {
+    notificationScheduler.schedule(buildNotificationSchedule(lands ?? [], caches ?? []));
+  }, [lands, caches]);
+}
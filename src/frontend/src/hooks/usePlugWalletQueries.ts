@@ -1,61 +1,26 @@
 import { useMutation, useQueryClient } from '@tanstack/react-query';
-import { usePlugWallet } from '../contexts/PlugWalletContext';
+import { useWallet, type WalletCanister } from '../contexts/WalletContext';
 import { toast } from 'sonner';
-import { idlFactory as tokenIdlFactory } from '../token-backend.idl';
-import { idlFactory as marketplaceIdlFactory } from '../marketplace-backend.idl';
-import { idlFactory as governanceIdlFactory } from '../governance-backend.idl';
-import { loadConfig } from '../config';
-import type { tokenBackendInterface } from '../token-backend';
+import { t } from '@/i18n';
 import type { marketplaceBackendInterface, ItemType } from '../marketplace-backend';
 import type { governanceBackendInterface } from '../governance-backend';
 
-// Note: We use the existing actor hooks for land canister operations
-// since they already work with Internet Identity authentication
-
-// Hook to execute transactions with Plug Wallet
+// Hook to execute transactions with Plug Wallet, regardless of the selected signer.
+// The actor targets `canisterType`'s own canister ID from the registry.
 export function usePlugWalletTransaction<TData, TVariables>(
-  canisterType: 'token' | 'marketplace' | 'governance',
+  canisterType: WalletCanister,
   mutationFn: (actor: any, variables: TVariables) => Promise<TData>,
   options?: {
     onSuccess?: (data: TData) => void;
     invalidateQueries?: string[];
   }
 ) {
-  const { isConnected, createActor } = usePlugWallet();
+  const { getPlugActor } = useWallet();
   const queryClient = useQueryClient();
 
   return useMutation<TData, Error, TVariables>({
     mutationFn: async (variables: TVariables) => {
-      if (!isConnected) {
-        throw new Error('Plug Wallet not connected');
-      }
-
-      const config = await loadConfig();
-      let canisterId: string;
-      let idlFactory: any;
-
-      switch (canisterType) {
-        case 'token':
-          canisterId = config.backend_canister_id;
-          idlFactory = tokenIdlFactory;
-          break;
-        case 'marketplace':
-          canisterId = config.backend_canister_id;
-          idlFactory = marketplaceIdlFactory;
-          break;
-        case 'governance':
-          canisterId = config.backend_canister_id;
-          idlFactory = governanceIdlFactory;
-          break;
-        default:
-          throw new Error('Invalid canister type');
-      }
-
-      const actor = createActor(canisterId, idlFactory);
-      if (!actor) {
-        throw new Error('Failed to create actor');
-      }
-
+      const actor = await getPlugActor(canisterType);
       return mutationFn(actor, variables);
     },
     onSuccess: (data) => {
@@ -69,8 +34,8 @@ export function usePlugWalletTransaction<TData, TVariables>(
       }
     },
     onError: (error) => {
-      toast.error('Transaction Failed', {
-        description: error instanceof Error ? error.message : 'Unknown error',
+      toast.error(t('plug.toast.transactionFailed'), {
+        description: error instanceof Error ? error.message : t('common.unknownError'),
       });
     },
   });
@@ -1,106 +1,26 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useActor } from './useActor';
 import { useTokenActor } from './useTokenActor';
-import { useInternetIdentity } from './useInternetIdentity';
+import { useGovernanceActor } from './useGovernanceActor';
+import { useMarketplaceActor } from './useMarketplaceActor';
+import { useWallet } from '../contexts/WalletContext';
+import { useSignerActor } from './useSignerActor';
 import { toast } from 'sonner';
 import { formatTokenBalance } from '@/lib/tokenUtils';
-import type { LandData, UserProfile, ModifierInstance, TopLandEntry, Time } from '@/backend';
-import type { Principal } from '@icp-sdk/core/principal';
-
-// Placeholder types for governance and marketplace (not yet in backend)
-interface Proposal {
-  id: bigint;
-  title: string;
-  description: string;
-  proposer: Principal;
-  createdAt: Time;
-  votesYes: bigint;
-  votesNo: bigint;
-  isActive: boolean;
-}
-
-enum ItemType {
-  Land = 'Land',
-  Modifier = 'Modifier',
-}
-
-interface Listing {
-  listingId: bigint;
-  itemId: bigint;
-  itemType: ItemType;
-  seller: Principal;
-  price: bigint;
-  isActive: boolean;
-}
-
-type StakeResult = {
-  __kind__: "success";
-  success: {
-    newStake: bigint;
-  };
-} | {
-  __kind__: "insufficientTokens";
-  insufficientTokens: {
-    required: bigint;
-    available: bigint;
-  };
-} | {
-  __kind__: "transferFailed";
-  transferFailed: string;
-};
-
-type VoteResult = {
-  __kind__: "success";
-  success: {
-    weight: bigint;
-  };
-} | {
-  __kind__: "proposalNotFound";
-  proposalNotFound: null;
-} | {
-  __kind__: "proposalNotActive";
-  proposalNotActive: null;
-} | {
-  __kind__: "alreadyVoted";
-  alreadyVoted: null;
-} | {
-  __kind__: "notStaker";
-  notStaker: null;
-};
-
-type BuyResult = {
-  __kind__: "success";
-  success: {
-    buyer: Principal;
-    seller: Principal;
-    price: bigint;
-  };
-} | {
-  __kind__: "listingNotFound";
-  listingNotFound: null;
-} | {
-  __kind__: "listingNotActive";
-  listingNotActive: null;
-} | {
-  __kind__: "insufficientFunds";
-  insufficientFunds: {
-    required: bigint;
-    available: bigint;
-  };
-} | {
-  __kind__: "transferFailed";
-  transferFailed: string;
-} | {
-  __kind__: "cannotBuyOwnListing";
-  cannotBuyOwnListing: null;
-};
+import { claimBlocker, summarizeBatchClaim, type BatchClaimOutcome, type BatchClaimProgress } from '@/lib/batchClaim';
+import type { CacheBatchProgress, CacheOpenOutcome } from '@/lib/lootCache';
+import { t, formatCbrAmount } from '@/i18n';
+import type { LandData, LootCache, Modifier, UserProfile, ModifierInstance, TopLandEntry } from '@/backend';
+import type { Proposal, StakeResult, VoteResult } from '@/governance-backend';
+import type { Listing, BuyResult } from '@/marketplace-backend';
+import { ItemType } from '@/marketplace-backend.d';
 
 // Land Data Query
 export function useGetLandData() {
-  const { actor, isFetching } = useActor();
+  const { actor, isFetching, principal } = useSignerActor('land', useActor());
 
   return useQuery<LandData[]>({
-    queryKey: ['landData'],
+    queryKey: ['landData', principal],
     queryFn: async () => {
       if (!actor) return [];
       console.log('Fetching land data...');
@@ -116,10 +36,10 @@ export function useGetLandData() {
 
 // User Profile Query
 export function useGetCallerUserProfile() {
-  const { actor, isFetching: actorFetching } = useActor();
+  const { actor, isFetching: actorFetching, principal } = useSignerActor('land', useActor());
 
   const query = useQuery<UserProfile | null>({
-    queryKey: ['currentUserProfile'],
+    queryKey: ['currentUserProfile', principal],
     queryFn: async () => {
       if (!actor) throw new Error('Actor not available');
       return actor.getCallerUserProfile();
@@ -137,22 +57,24 @@ export function useGetCallerUserProfile() {
 
 // Save User Profile Mutation
 export function useSaveCallerUserProfile() {
-  const { actor } = useActor();
+  const { actor: identityActor } = useActor();
+  const { getActor } = useWallet();
   const queryClient = useQueryClient();
 
   return useMutation({
     mutationFn: async (profile: UserProfile) => {
+      const actor = await getActor('land', identityActor);
       if (!actor) throw new Error('Actor not available');
       console.log('Saving user profile:', profile);
       await actor.saveCallerUserProfile(profile);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['currentUserProfile'] });
-      toast.success('Профиль сохранен');
+      toast.success(t('queries.toast.profileSaved'));
     },
     onError: (error: any) => {
       console.error('Profile save error:', error);
-      toast.error('Ошибка сохранения профиля: ' + (error.message || 'Неизвестная ошибка'));
+      toast.error(t('queries.toast.saveProfileFailed', { message: error.message || t('common.unknownError') }));
     },
   });
 }
@@ -160,17 +82,17 @@ export function useSaveCallerUserProfile() {
 // Token Balance Query with Enhanced Retry
 export function useGetTokenBalance() {
   const { actor: tokenActor, isFetching } = useTokenActor();
-  const { identity } = useInternetIdentity();
+  // Balance of whoever signs transactions, so it matches what a purchase can spend
+  const { principal } = useWallet();
 
   return useQuery({
-    queryKey: ['tokenBalance', identity?.getPrincipal().toString()],
+    queryKey: ['tokenBalance', principal?.toText()],
     queryFn: async () => {
-      if (!tokenActor || !identity) {
-        console.log('Token balance query skipped - actor or identity not available');
+      if (!tokenActor || !principal) {
+        console.log('Token balance query skipped - actor or principal not available');
         return BigInt(0);
       }
 
-      const principal = identity.getPrincipal();
       console.log('Getting CBR balance for Principal:', principal.toString());
 
       try {
@@ -185,7 +107,7 @@ export function useGetTokenBalance() {
         throw error;
       }
     },
-    enabled: !!tokenActor && !!identity && !isFetching,
+    enabled: !!tokenActor && !!principal && !isFetching,
     retry: 3,
     retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 10000),
     staleTime: 10000,
@@ -195,15 +117,14 @@ export function useGetTokenBalance() {
 // Debug Token Balance Hook
 export function useDebugTokenBalance() {
   const { actor: tokenActor } = useTokenActor();
-  const { identity } = useInternetIdentity();
+  const { principal } = useWallet();
 
   return useMutation({
     mutationFn: async () => {
-      if (!tokenActor || !identity) {
-        throw new Error('Token actor or identity not available');
+      if (!tokenActor || !principal) {
+        throw new Error('Token actor or principal not available');
       }
 
-      const principal = identity.getPrincipal();
       console.log('🔍 Debug: Fetching CBR balance for Principal:', principal.toString());
 
       const balance = await tokenActor.icrc1_balance_of({
@@ -217,11 +138,11 @@ export function useDebugTokenBalance() {
       return balance;
     },
     onSuccess: (balance) => {
-      toast.success(`Баланс обновлен: ${formatTokenBalance(balance)} CBR`);
+      toast.success(t('queries.toast.balanceUpdated', { amount: formatCbrAmount(balance) }));
     },
     onError: (error: any) => {
       console.error('🔍 Debug: Balance fetch failed:', error);
-      toast.error('Ошибка получения баланса: ' + (error.message || 'Неизвестная ошибка'));
+      toast.error(t('queries.toast.balanceFailed', { message: error.message || t('common.unknownError') }));
     },
   });
 }
@@ -275,22 +196,24 @@ export function useDebugCanisterBalance() {
       return balance;
     },
     onSuccess: (balance) => {
-      toast.success(`Баланс контракта: ${formatTokenBalance(balance)} CBR`);
+      toast.success(t('queries.toast.canisterBalance', { amount: formatCbrAmount(balance) }));
     },
     onError: (error: any) => {
       console.error('🔍 Debug: Canister balance fetch failed:', error);
-      toast.error('Ошибка получения баланса контракта: ' + (error.message || 'Неизвестная ошибка'));
+      toast.error(t('queries.toast.canisterBalanceFailed', { message: error.message || t('common.unknownError') }));
     },
   });
 }
 
 // Claim Rewards Mutation
 export function useClaimRewards() {
-  const { actor } = useActor();
+  const { actor: identityActor } = useActor();
+  const { getActor } = useWallet();
   const queryClient = useQueryClient();
 
   return useMutation({
     mutationFn: async (landId: bigint) => {
+      const actor = await getActor('land', identityActor);
       if (!actor) throw new Error('Actor not available');
       console.log('Claiming rewards for land:', landId);
       const result = await actor.claimRewards(landId);
@@ -301,22 +224,83 @@ export function useClaimRewards() {
       await new Promise((resolve) => setTimeout(resolve, 500));
       queryClient.invalidateQueries({ queryKey: ['landData'] });
       queryClient.invalidateQueries({ queryKey: ['tokenBalance'] });
-      toast.success('Награды получены!');
+      toast.success(t('queries.toast.rewardsClaimed'));
     },
     onError: (error: any) => {
       console.error('Claim rewards error:', error);
-      toast.error('Ошибка получения наград: ' + (error.message || 'Неизвестная ошибка'));
+      toast.error(t('queries.toast.claimFailed', { message: error.message || t('common.unknownError') }));
+    },
+  });
+}
+
+// Claim All Lands Mutation
+// Claims run one at a time so progress can be reported per land; landData and tokenBalance
+// are refreshed once at the end rather than after every claim.
+export function useClaimAllRewards() {
+  const { actor: identityActor } = useActor();
+  const { getActor } = useWallet();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      lands,
+      onProgress,
+    }: {
+      lands: LandData[];
+      onProgress?: (progress: BatchClaimProgress) => void;
+    }) => {
+      const actor = await getActor('land', identityActor);
+      if (!actor) throw new Error('Actor not available');
+
+      const outcomes: BatchClaimOutcome[] = [];
+      const report = (currentLandId: bigint | null) =>
+        onProgress?.({ completed: outcomes.length, total: lands.length, currentLandId });
+
+      report(null);
+      for (const land of lands) {
+        const blocker = claimBlocker(land);
+        if (blocker) {
+          outcomes.push({ landId: land.landId, kind: 'skipped', reason: blocker });
+          report(null);
+          continue;
+        }
+
+        report(land.landId);
+        try {
+          console.log('Claiming rewards for land:', land.landId);
+          const result = await actor.claimRewards(land.landId);
+          console.log('Claim result:', result);
+          outcomes.push({ landId: land.landId, kind: 'result', result });
+        } catch (error: any) {
+          console.error('Claim rewards error for land', land.landId, error);
+          outcomes.push({ landId: land.landId, kind: 'error', message: error.message || t('common.unknownError') });
+        }
+        report(null);
+      }
+
+      return summarizeBatchClaim(outcomes);
+    },
+    onSuccess: async () => {
+      await new Promise((resolve) => setTimeout(resolve, 500));
+      queryClient.invalidateQueries({ queryKey: ['landData'] });
+      queryClient.invalidateQueries({ queryKey: ['tokenBalance'] });
+    },
+    onError: (error: any) => {
+      console.error('Claim all rewards error:', error);
+      toast.error(t('queries.toast.claimFailed', { message: error.message || t('common.unknownError') }));
     },
   });
 }
 
 // Upgrade Plot Mutation
 export function useUpgradePlot() {
-  const { actor } = useActor();
+  const { actor: identityActor } = useActor();
+  const { getActor } = useWallet();
   const queryClient = useQueryClient();
 
   return useMutation({
     mutationFn: async ({ landId, cost }: { landId: bigint; cost: bigint }) => {
+      const actor = await getActor('land', identityActor);
       if (!actor) throw new Error('Actor not available');
       console.log('Upgrading plot:', landId, 'Cost:', cost);
       const result = await actor.upgradePlot(landId, cost);
@@ -327,63 +311,67 @@ export function useUpgradePlot() {
       await new Promise((resolve) => setTimeout(resolve, 500));
       queryClient.invalidateQueries({ queryKey: ['landData'] });
       queryClient.invalidateQueries({ queryKey: ['tokenBalance'] });
-      toast.success('Участок улучшен!');
+      toast.success(t('queries.toast.plotUpgraded'));
     },
     onError: (error: any) => {
       console.error('Upgrade plot error:', error);
-      toast.error('Ошибка улучшения: ' + (error.message || 'Неизвестная ошибка'));
+      toast.error(t('queries.toast.upgradeFailed', { message: error.message || t('common.unknownError') }));
     },
   });
 }
 
 // Update Plot Name Mutation
 export function useUpdatePlotName() {
-  const { actor } = useActor();
+  const { actor: identityActor } = useActor();
+  const { getActor } = useWallet();
   const queryClient = useQueryClient();
 
   return useMutation({
     mutationFn: async ({ landId, name }: { landId: bigint; name: string }) => {
+      const actor = await getActor('land', identityActor);
       if (!actor) throw new Error('Actor not available');
       await actor.updatePlotName(landId, name);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['landData'] });
-      toast.success('Название обновлено');
+      toast.success(t('queries.toast.nameUpdated'));
     },
     onError: (error: any) => {
       console.error('Update plot name error:', error);
-      toast.error('Ошибка обновления названия: ' + (error.message || 'Неизвестная ошибка'));
+      toast.error(t('queries.toast.nameFailed', { message: error.message || t('common.unknownError') }));
     },
   });
 }
 
 // Update Decoration Mutation
 export function useUpdateDecoration() {
-  const { actor } = useActor();
+  const { actor: identityActor } = useActor();
+  const { getActor } = useWallet();
   const queryClient = useQueryClient();
 
   return useMutation({
     mutationFn: async ({ landId, url }: { landId: bigint; url: string }) => {
+      const actor = await getActor('land', identityActor);
       if (!actor) throw new Error('Actor not available');
       await actor.updateDecoration(landId, url);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['landData'] });
-      toast.success('Декорация обновлена');
+      toast.success(t('queries.toast.decorationUpdated'));
     },
     onError: (error: any) => {
       console.error('Update decoration error:', error);
-      toast.error('Ошибка обновления декорации: ' + (error.message || 'Неизвестная ошибка'));
+      toast.error(t('queries.toast.decorationFailed', { message: error.message || t('common.unknownError') }));
     },
   });
 }
 
 // Get Modifier Inventory Query
 export function useGetModifierInventory() {
-  const { actor, isFetching } = useActor();
+  const { actor, isFetching, principal } = useSignerActor('land', useActor());
 
   return useQuery<ModifierInstance[]>({
-    queryKey: ['modifierInventory'],
+    queryKey: ['modifierInventory', principal],
     queryFn: async () => {
       if (!actor) return [];
       console.log('Fetching modifier inventory...');
@@ -399,13 +387,130 @@ export function useGetModifierInventory() {
   });
 }
 
+// Loot Caches Query
+export function useGetMyLootCaches() {
+  const { actor, isFetching, principal } = useSignerActor('land', useActor());
+
+  return useQuery<LootCache[]>({
+    queryKey: ['lootCaches', principal],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.getMyLootCaches();
+    },
+    enabled: !!actor && !isFetching,
+  });
+}
+
+// Discover Loot Cache Mutation
+// Non-success results (not enough charge or tokens) are returned for the caller to report.
+export function useDiscoverLootCache() {
+  const { actor: identityActor } = useActor();
+  const { getActor } = useWallet();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (tier: number) => {
+      const actor = await getActor('land', identityActor);
+      if (!actor) throw new Error('Actor not available');
+      return actor.discoverLootCache(BigInt(tier));
+    },
+    onSuccess: async (result) => {
+      if (result.__kind__ !== 'success') return;
+      queryClient.invalidateQueries({ queryKey: ['lootCaches'] });
+      await new Promise((resolve) => setTimeout(resolve, 500));
+      queryClient.invalidateQueries({ queryKey: ['landData'] });
+      queryClient.invalidateQueries({ queryKey: ['tokenBalance'] });
+    },
+    onError: (error: any) => {
+      console.error('Discovery error:', error);
+      toast.error(t('discovery.toast.discoverError', { message: error.message || t('common.unknownError') }));
+    },
+  });
+}
+
+// Process Loot Cache Mutation
+export function useProcessCache() {
+  const { actor: identityActor } = useActor();
+  const { getActor } = useWallet();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (cacheId: bigint) => {
+      const actor = await getActor('land', identityActor);
+      if (!actor) throw new Error('Actor not available');
+      console.log('Processing cache:', cacheId);
+      const result = await actor.processCache(cacheId);
+      console.log('Process result:', result);
+      return result;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['lootCaches'] });
+      queryClient.invalidateQueries({ queryKey: ['modifierInventory'] });
+      // Opening before the delay spends charge from the first land
+      queryClient.invalidateQueries({ queryKey: ['landData'] });
+    },
+    onError: (error: any) => {
+      console.error('Process cache error:', error);
+      toast.error(t('discovery.toast.processError', { message: error.message || t('common.unknownError') }));
+    },
+  });
+}
+
+// Open Ready Caches Mutation
+// Caches are opened one at a time and failures are collected instead of stopping the batch;
+// queries are refreshed once at the end.
+export function useOpenReadyCaches() {
+  const { actor: identityActor } = useActor();
+  const { getActor } = useWallet();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      cacheIds,
+      onProgress,
+    }: {
+      cacheIds: bigint[];
+      onProgress?: (progress: CacheBatchProgress) => void;
+    }) => {
+      const actor = await getActor('land', identityActor);
+      if (!actor) throw new Error('Actor not available');
+
+      const outcomes: CacheOpenOutcome[] = [];
+      for (const cacheId of cacheIds) {
+        onProgress?.({ completed: outcomes.length, total: cacheIds.length, currentCacheId: cacheId });
+        try {
+          console.log('Processing cache:', cacheId);
+          const modifier = await actor.processCache(cacheId);
+          outcomes.push({ cacheId, kind: 'opened', modifier });
+        } catch (error: any) {
+          console.error('Process cache error for cache', cacheId, error);
+          outcomes.push({ cacheId, kind: 'error', message: error.message || t('common.unknownError') });
+        }
+      }
+      onProgress?.({ completed: outcomes.length, total: cacheIds.length, currentCacheId: null });
+
+      return outcomes;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['lootCaches'] });
+      queryClient.invalidateQueries({ queryKey: ['modifierInventory'] });
+    },
+    onError: (error: any) => {
+      console.error('Open ready caches error:', error);
+      toast.error(t('discovery.toast.processError', { message: error.message || t('common.unknownError') }));
+    },
+  });
+}
+
 // Apply Modifier Mutation
 export function useApplyModifier() {
-  const { actor } = useActor();
+  const { actor: identityActor } = useActor();
+  const { getActor } = useWallet();
   const queryClient = useQueryClient();
 
   return useMutation({
     mutationFn: async ({ modifierInstanceId, landId }: { modifierInstanceId: bigint; landId: bigint }) => {
+      const actor = await getActor('land', identityActor);
       if (!actor) throw new Error('Actor not available');
       console.log('Applying modifier:', modifierInstanceId, 'to land:', landId);
       await actor.applyModifier(modifierInstanceId, landId);
@@ -413,22 +518,24 @@ export function useApplyModifier() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['landData'] });
       queryClient.invalidateQueries({ queryKey: ['modifierInventory'] });
-      toast.success('Модификатор применен!');
+      toast.success(t('queries.toast.modifierApplied'));
     },
     onError: (error: any) => {
       console.error('Apply modifier error:', error);
-      toast.error('Ошибка применения модификатора: ' + (error.message || 'Неизвестная ошибка'));
+      toast.error(t('queries.toast.modifierFailed', { message: error.message || t('common.unknownError') }));
     },
   });
 }
 
 // Mint Land Mutation
 export function useMintLand() {
-  const { actor } = useActor();
+  const { actor: identityActor } = useActor();
+  const { getActor } = useWallet();
   const queryClient = useQueryClient();
 
   return useMutation({
     mutationFn: async () => {
+      const actor = await getActor('land', identityActor);
       if (!actor) throw new Error('Actor not available');
       console.log('Minting new land...');
       const result = await actor.mintLand();
@@ -437,11 +544,11 @@ export function useMintLand() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['landData'] });
-      toast.success('Новая земля создана!');
+      toast.success(t('queries.toast.landMinted'));
     },
     onError: (error: any) => {
       console.error('Mint land error:', error);
-      toast.error('Ошибка создания земли: ' + (error.message || 'Неизвестная ошибка'));
+      toast.error(t('queries.toast.mintFailed', { message: error.message || t('common.unknownError') }));
     },
   });
 }
@@ -464,12 +571,41 @@ export function useGetTopLands() {
   });
 }
 
+// Modifier Catalog Query
+export function useGetAllModifiers() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<Modifier[]>({
+    queryKey: ['allModifiers'],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.getAllModifiers();
+    },
+    enabled: !!actor && !isFetching,
+    retry: 2,
+  });
+}
+
+// Is Caller Admin Query
+export function useIsCallerAdmin() {
+  const { actor, isFetching, principal } = useSignerActor('land', useActor());
+
+  return useQuery<boolean>({
+    queryKey: ['isCallerAdmin', principal],
+    queryFn: async () => {
+      if (!actor) return false;
+      return actor.isCallerAdmin();
+    },
+    enabled: !!actor && !isFetching,
+  });
+}
+
 // Get My Modifications Query
 export function useGetMyModifications() {
-  const { actor, isFetching } = useActor();
+  const { actor, isFetching, principal } = useSignerActor('land', useActor());
 
   return useQuery({
-    queryKey: ['myModifications'],
+    queryKey: ['myModifications', principal],
     queryFn: async () => {
       if (!actor) return [];
       console.log('Fetching my modifications...');
@@ -482,158 +618,190 @@ export function useGetMyModifications() {
   });
 }
 
-// Governance Hooks (placeholder implementations - need backend integration)
+// Governance Hooks
 export function useGetStakedBalance() {
-  return useQuery({
-    queryKey: ['stakedBalance'],
-    queryFn: async () => BigInt(0),
-    enabled: false, // Disabled until governance backend is integrated
+  const { actor, isFetching, principal } = useSignerActor('governance', useGovernanceActor());
+
+  return useQuery<bigint>({
+    queryKey: ['stakedBalance', principal],
+    queryFn: async () => {
+      if (!actor) return BigInt(0);
+      return actor.getStakedBalance();
+    },
+    enabled: !!actor && !!principal && !isFetching,
+    retry: 2,
   });
 }
 
 export function useStakeTokens() {
+  const { actor: identityActor } = useGovernanceActor();
+  const { getActor } = useWallet();
   const queryClient = useQueryClient();
 
   return useMutation<StakeResult, Error, bigint>({
     mutationFn: async (amount: bigint) => {
+      const actor = await getActor('governance', identityActor);
+      if (!actor) throw new Error('Governance actor not available');
       console.log('Staking tokens:', amount);
-      // TODO: Implement governance staking
-      throw new Error('Governance staking not yet implemented');
+      return actor.stakeTokens(amount);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['stakedBalance'] });
-      toast.success('Токены застейканы!');
+      toast.success(t('queries.toast.staked'));
     },
     onError: (error: any) => {
       console.error('Stake tokens error:', error);
-      toast.error('Ошибка стейкинга: ' + (error.message || 'Неизвестная ошибка'));
+      toast.error(t('queries.toast.stakeFailed', { message: error.message || t('common.unknownError') }));
     },
   });
 }
 
 export function useGetAllActiveProposals() {
+  const { actor, isFetching } = useGovernanceActor();
+
   return useQuery<Proposal[]>({
     queryKey: ['activeProposals'],
     queryFn: async () => {
+      if (!actor) return [];
       console.log('Fetching active proposals...');
-      // TODO: Implement governance proposals
-      return [];
+      return actor.getAllActiveProposals();
     },
-    enabled: false, // Disabled until governance backend is integrated
+    enabled: !!actor && !isFetching,
+    retry: 2,
   });
 }
 
 export function useCreateProposal() {
+  const { actor: identityActor } = useGovernanceActor();
+  const { getActor } = useWallet();
   const queryClient = useQueryClient();
 
   return useMutation({
     mutationFn: async ({ title, description }: { title: string; description: string }) => {
+      const actor = await getActor('governance', identityActor);
+      if (!actor) throw new Error('Governance actor not available');
       console.log('Creating proposal:', title, description);
-      // TODO: Implement governance proposal creation
-      throw new Error('Governance proposal creation not yet implemented');
+      return actor.createProposal(title, description);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['activeProposals'] });
-      toast.success('Предложение создано!');
+      toast.success(t('queries.toast.proposalCreated'));
     },
     onError: (error: any) => {
       console.error('Create proposal error:', error);
-      toast.error('Ошибка создания предложения: ' + (error.message || 'Неизвестная ошибка'));
+      toast.error(t('queries.toast.proposalFailed', { message: error.message || t('common.unknownError') }));
     },
   });
 }
 
 export function useVote() {
+  const { actor: identityActor } = useGovernanceActor();
+  const { getActor } = useWallet();
   const queryClient = useQueryClient();
 
   return useMutation<VoteResult, Error, { proposalId: bigint; choice: boolean }>({
     mutationFn: async ({ proposalId, choice }: { proposalId: bigint; choice: boolean }) => {
+      const actor = await getActor('governance', identityActor);
+      if (!actor) throw new Error('Governance actor not available');
       console.log('Voting on proposal:', proposalId, choice);
-      // TODO: Implement governance voting
-      throw new Error('Governance voting not yet implemented');
+      return actor.vote(proposalId, choice);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['activeProposals'] });
-      toast.success('Голос учтен!');
+      toast.success(t('queries.toast.voted'));
     },
     onError: (error: any) => {
       console.error('Vote error:', error);
-      toast.error('Ошибка голосования: ' + (error.message || 'Неизвестная ошибка'));
+      toast.error(t('queries.toast.voteFailed', { message: error.message || t('common.unknownError') }));
     },
   });
 }
 
-// Marketplace Hooks (placeholder implementations - need backend integration)
+// Marketplace Hooks
 export function useGetAllActiveListings() {
+  const { actor, isFetching } = useMarketplaceActor();
+
   return useQuery<Listing[]>({
     queryKey: ['activeListings'],
     queryFn: async () => {
+      if (!actor) return [];
       console.log('Fetching active listings...');
-      // TODO: Implement marketplace listings
-      return [];
+      return actor.getAllActiveListings();
     },
-    enabled: false, // Disabled until marketplace backend is integrated
+    enabled: !!actor && !isFetching,
+    retry: 2,
   });
 }
 
 export function useListItem() {
+  const { actor: identityActor } = useMarketplaceActor();
+  const { getActor } = useWallet();
   const queryClient = useQueryClient();
 
   return useMutation({
     mutationFn: async ({ itemId, itemType, price }: { itemId: bigint; itemType: ItemType; price: bigint }) => {
+      const actor = await getActor('marketplace', identityActor);
+      if (!actor) throw new Error('Marketplace actor not available');
       console.log('Listing item:', itemId, itemType, price);
-      // TODO: Implement marketplace listing
-      throw new Error('Marketplace listing not yet implemented');
+      return actor.list_item(itemId, itemType, price);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['activeListings'] });
-      toast.success('Предмет выставлен на продажу!');
+      queryClient.invalidateQueries({ queryKey: ['landData'] });
+      toast.success(t('queries.toast.listed'));
     },
     onError: (error: any) => {
       console.error('List item error:', error);
-      toast.error('Ошибка выставления: ' + (error.message || 'Неизвестная ошибка'));
+      toast.error(t('queries.toast.listFailed', { message: error.message || t('common.unknownError') }));
     },
   });
 }
 
 export function useBuyItem() {
+  const { actor: identityActor } = useMarketplaceActor();
+  const { getActor } = useWallet();
   const queryClient = useQueryClient();
 
   return useMutation<BuyResult, Error, bigint>({
     mutationFn: async (listingId: bigint) => {
+      const actor = await getActor('marketplace', identityActor);
+      if (!actor) throw new Error('Marketplace actor not available');
       console.log('Buying item:', listingId);
-      // TODO: Implement marketplace buying
-      throw new Error('Marketplace buying not yet implemented');
+      return actor.buy_item(listingId);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['activeListings'] });
       queryClient.invalidateQueries({ queryKey: ['landData'] });
       queryClient.invalidateQueries({ queryKey: ['tokenBalance'] });
-      toast.success('Предмет куплен!');
+      toast.success(t('queries.toast.bought'));
     },
     onError: (error: any) => {
       console.error('Buy item error:', error);
-      toast.error('Ошибка покупки: ' + (error.message || 'Неизвестная ошибка'));
+      toast.error(t('queries.toast.buyFailed', { message: error.message || t('common.unknownError') }));
     },
   });
 }
 
 export function useCancelListing() {
+  const { actor: identityActor } = useMarketplaceActor();
+  const { getActor } = useWallet();
   const queryClient = useQueryClient();
 
   return useMutation({
     mutationFn: async (listingId: bigint) => {
+      const actor = await getActor('marketplace', identityActor);
+      if (!actor) throw new Error('Marketplace actor not available');
       console.log('Cancelling listing:', listingId);
-      // TODO: Implement marketplace cancel listing
-      throw new Error('Marketplace cancel listing not yet implemented');
+      return actor.cancelListing(listingId);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['activeListings'] });
-      toast.success('Объявление отменено!');
+      queryClient.invalidateQueries({ queryKey: ['landData'] });
+      toast.success(t('queries.toast.listingCancelled'));
     },
     onError: (error: any) => {
       console.error('Cancel listing error:', error);
-      toast.error('Ошибка отмены: ' + (error.message || 'Неизвестная ошибка'));
+      toast.error(t('queries.toast.cancelFailed', { message: error.message || t('common.unknownError') }));
     },
   });
 }
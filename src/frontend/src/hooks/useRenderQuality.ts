@@ -0,0 +1,11 @@
+import { useSyncExternalStore } from 'react';
+import { renderQuality, type QualityPreference, type RenderQuality } from '../lib/renderQuality';
+
+/** Effective rendering quality plus the setter for the saved preference. */
+export function useRenderQuality(): RenderQuality & { setPreference: (preference: QualityPreference) => void } {
+  const quality = useSyncExternalStore(renderQuality.subscribe, renderQuality.getSnapshot);
+  return {
+    ...quality,
+    setPreference: (preference) => renderQuality.setPreference(preference),
+  };
+}
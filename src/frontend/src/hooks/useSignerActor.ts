@@ -0,0 +1,30 @@
+import { useQuery } from '@tanstack/react-query';
+import { useWallet, type WalletActors, type WalletCanister } from '../contexts/WalletContext';
+
+/**
+ * Actor for `name` signed by the active signer, for queries about the caller's own data. With
+ * Plug selected, owned lands, balances and caches are then the Plug principal's, the same
+ * principal that signs the mutations acting on them. `principal` belongs in the query key.
+ */
+export function useSignerActor<N extends WalletCanister>(
+  name: N,
+  identity: { actor: WalletActors[N] | null; isFetching: boolean }
+) {
+  const { signer, principal, getActor } = useWallet();
+  const principalText = principal?.toText() ?? null;
+
+  const actorQuery = useQuery<WalletActors[N] | null>({
+    queryKey: ['signerActor', name, signer, principalText, !!identity.actor],
+    queryFn: () => getActor(name, identity.actor),
+    enabled: !identity.isFetching,
+    staleTime: Infinity,
+    // Actors are live objects, not data to diff
+    structuralSharing: false,
+  });
+
+  return {
+    actor: actorQuery.data ?? null,
+    isFetching: identity.isFetching || actorQuery.isFetching,
+    principal: principalText,
+  };
+}
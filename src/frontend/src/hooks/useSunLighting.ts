@@ -0,0 +1,27 @@
+import { useEffect, useMemo, useState } from 'react';
+import { solarPosition, sunLighting } from '@/lib/solar';
+import type { Coordinates } from '@/backend';
+
+// The sun moves about a quarter of a degree a minute
+const TICK_MS = 60 * 1000;
+
+/**
+ * Sun position and lighting over `coordinates`, following the clock. `offsetHours` shifts the
+ * time for previewing; null without coordinates.
+ */
+export function useSunLighting(coordinates: Coordinates | undefined, offsetHours = 0) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!coordinates) return;
+    const interval = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(interval);
+  }, [coordinates]);
+
+  return useMemo(() => {
+    if (!coordinates) return null;
+    const date = new Date(now + offsetHours * 60 * 60 * 1000);
+    const position = solarPosition(date, coordinates.lat, coordinates.lon);
+    return { date, position, lighting: sunLighting(position) };
+  }, [coordinates, now, offsetHours]);
+}
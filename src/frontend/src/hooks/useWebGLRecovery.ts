@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useRef, useState, type MutableRefObject } from 'react';
+import {
+  CONTEXT_LOSS_WINDOW_MS,
+  CONTEXT_RESTORE_TIMEOUT_MS,
+  MAX_CONTEXT_LOSSES,
+  isWebGLAvailable,
+} from '@/lib/webglSupport';
+
+export type SceneFallbackReason = 'unsupported' | 'failed' | 'lost';
+
+type RestoreTimeout = MutableRefObject<ReturnType<typeof setTimeout> | null>;
+
+function cancelRestore(timeout: RestoreTimeout): void {
+  if (timeout.current) clearTimeout(timeout.current);
+  timeout.current = null;
+}
+
+/**
+ * Keeps the land scene rendering through WebGL context loss. `generation` changes whenever the
+ * renderer must be rebuilt, so keying the Canvas with it recreates the renderer, the composer
+ * and the models. `fallback` is set when the 2D view should be shown instead.
+ */
+export function useWebGLRecovery() {
+  const [generation, setGeneration] = useState(0);
+  const [restoring, setRestoring] = useState(false);
+  const [fallback, setFallback] = useState<SceneFallbackReason | null>(() =>
+    isWebGLAvailable() ? null : 'unsupported'
+  );
+  const losses = useRef<number[]>([]);
+  const restoreTimeout: RestoreTimeout = useRef(null);
+
+  const rebuild = useCallback(() => {
+    cancelRestore(restoreTimeout);
+    setRestoring(false);
+    setGeneration((previous) => previous + 1);
+  }, []);
+
+  const contextLost = useCallback(() => {
+    const now = Date.now();
+    losses.current = [...losses.current.filter((time) => now - time < CONTEXT_LOSS_WINDOW_MS), now];
+    cancelRestore(restoreTimeout);
+
+    if (losses.current.length > MAX_CONTEXT_LOSSES) {
+      console.warn('[WebGL] Context lost repeatedly, switching to the 2D view');
+      setRestoring(false);
+      setFallback('lost');
+      return;
+    }
+
+    console.warn('[WebGL] Context lost, waiting for restore');
+    setRestoring(true);
+    restoreTimeout.current = setTimeout(() => {
+      console.warn('[WebGL] Context not restored in time, rebuilding on a new canvas');
+      rebuild();
+    }, CONTEXT_RESTORE_TIMEOUT_MS);
+  }, [rebuild]);
+
+  const contextRestored = useCallback(() => {
+    if (!restoreTimeout.current) return;
+    console.log('[WebGL] Context restored, rebuilding the scene');
+    rebuild();
+  }, [rebuild]);
+
+  const creationFailed = useCallback(() => {
+    cancelRestore(restoreTimeout);
+    setRestoring(false);
+    setFallback('failed');
+  }, []);
+
+  const retry = useCallback(() => {
+    losses.current = [];
+    setFallback(null);
+    rebuild();
+  }, [rebuild]);
+
+  useEffect(() => () => cancelRestore(restoreTimeout), []);
+
+  return { generation, restoring, fallback, contextLost, contextRestored, creationFailed, retry };
+}
@@ -0,0 +1,132 @@
+/**
+ * Minimal ICU MessageFormat subset used by the message catalogs:
+ *
+ *   {name}                                   plain interpolation
+ *   {count, number}                          locale-formatted number
+ *   {count, plural, =0 {…} one {…} other {…}} plural selection, `#` is the formatted count
+ *   {kind, select, land {…} other {…}}       keyword selection
+ *
+ * Nested arguments inside plural/select branches are supported; quoting with
+ * apostrophes is not, as none of the catalogs need it.
+ */
+
+export type MessageValue = string | number | bigint;
+export type MessageValues = Record<string, MessageValue>;
+
+const pluralRulesCache = new Map<string, Intl.PluralRules>();
+const numberFormatCache = new Map<string, Intl.NumberFormat>();
+
+function getPluralRules(locale: string): Intl.PluralRules {
+  let rules = pluralRulesCache.get(locale);
+  if (!rules) {
+    rules = new Intl.PluralRules(locale);
+    pluralRulesCache.set(locale, rules);
+  }
+  return rules;
+}
+
+function getNumberFormat(locale: string): Intl.NumberFormat {
+  let format = numberFormatCache.get(locale);
+  if (!format) {
+    format = new Intl.NumberFormat(locale);
+    numberFormatCache.set(locale, format);
+  }
+  return format;
+}
+
+function toNumber(value: MessageValue | undefined): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'bigint') return Number(value);
+  const parsed = parseFloat(value ?? '');
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+// Index of the brace closing the one opened at `start`.
+function findClosingBrace(pattern: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < pattern.length; i++) {
+    if (pattern[i] === '{') depth++;
+    else if (pattern[i] === '}') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  throw new Error(`Unbalanced braces in message: ${pattern}`);
+}
+
+// Parses `key {branch} key {branch}` into a map.
+function parseBranches(source: string): Map<string, string> {
+  const branches = new Map<string, string>();
+  let i = 0;
+  while (i < source.length) {
+    while (i < source.length && /\s/.test(source[i])) i++;
+    if (i >= source.length) break;
+    const keyStart = i;
+    while (i < source.length && source[i] !== '{' && !/\s/.test(source[i])) i++;
+    const key = source.slice(keyStart, i);
+    while (i < source.length && /\s/.test(source[i])) i++;
+    if (source[i] !== '{') {
+      throw new Error(`Expected "{" after "${key}" in message branch: ${source}`);
+    }
+    const end = findClosingBrace(source, i);
+    branches.set(key, source.slice(i + 1, end));
+    i = end + 1;
+  }
+  return branches;
+}
+
+function formatArgument(argument: string, values: MessageValues, locale: string, pound: string | null): string {
+  const firstComma = argument.indexOf(',');
+  if (firstComma === -1) {
+    const name = argument.trim();
+    const value = values[name];
+    return value === undefined ? `{${name}}` : String(value);
+  }
+
+  const name = argument.slice(0, firstComma).trim();
+  const rest = argument.slice(firstComma + 1);
+  const secondComma = rest.indexOf(',');
+  const type = (secondComma === -1 ? rest : rest.slice(0, secondComma)).trim();
+  const value = values[name];
+
+  if (type === 'number') {
+    return getNumberFormat(locale).format(toNumber(value));
+  }
+
+  const branches = parseBranches(secondComma === -1 ? '' : rest.slice(secondComma + 1));
+  if (type === 'plural') {
+    const count = toNumber(value);
+    const branch =
+      branches.get(`=${count}`) ?? branches.get(getPluralRules(locale).select(count)) ?? branches.get('other') ?? '';
+    return formatPattern(branch, values, locale, getNumberFormat(locale).format(count));
+  }
+  if (type === 'select') {
+    const branch = branches.get(String(value)) ?? branches.get('other') ?? '';
+    return formatPattern(branch, values, locale, pound);
+  }
+  throw new Error(`Unsupported argument type "${type}" in message`);
+}
+
+function formatPattern(pattern: string, values: MessageValues, locale: string, pound: string | null): string {
+  let result = '';
+  let i = 0;
+  while (i < pattern.length) {
+    const char = pattern[i];
+    if (char === '{') {
+      const end = findClosingBrace(pattern, i);
+      result += formatArgument(pattern.slice(i + 1, end), values, locale, pound);
+      i = end + 1;
+    } else if (char === '#' && pound !== null) {
+      result += pound;
+      i++;
+    } else {
+      result += char;
+      i++;
+    }
+  }
+  return result;
+}
+
+export function formatMessage(pattern: string, values: MessageValues = {}, locale = 'en'): string {
+  return formatPattern(pattern, values, locale, null);
+}
@@ -0,0 +1,132 @@
+import { formatDistanceToNow, format as formatDateFns } from 'date-fns';
+import { enUS, ru as ruDateLocale, type Locale as DateFnsLocale } from 'date-fns/locale';
+import { formatMessage, type MessageValues } from './icu';
+import { ru, type MessageKey } from './locales/ru';
+import { en } from './locales/en';
+
+export type Locale = 'ru' | 'en';
+export type { MessageKey, MessageValues };
+
+export const LOCALES: Locale[] = ['ru', 'en'];
+
+const LOCALE_STORAGE_KEY = 'cybergenesis-locale';
+
+const catalogs: Record<Locale, Record<MessageKey, string>> = { ru, en };
+
+const dateFnsLocales: Record<Locale, DateFnsLocale> = { ru: ruDateLocale, en: enUS };
+
+// Intl locale tags used for number formatting.
+const intlLocales: Record<Locale, string> = { ru: 'ru-RU', en: 'en-US' };
+
+function isLocale(value: unknown): value is Locale {
+  return value === 'ru' || value === 'en';
+}
+
+function detectInitialLocale(): Locale {
+  try {
+    const saved = localStorage.getItem(LOCALE_STORAGE_KEY);
+    if (isLocale(saved)) return saved;
+  } catch {
+    // localStorage can be unavailable (private mode, sandboxed iframe)
+  }
+  if (typeof navigator !== 'undefined' && navigator.language?.toLowerCase().startsWith('en')) {
+    return 'en';
+  }
+  return 'ru';
+}
+
+let currentLocale: Locale = detectInitialLocale();
+const listeners = new Set<() => void>();
+
+if (typeof document !== 'undefined') {
+  document.documentElement.lang = currentLocale;
+}
+
+export function getLocale(): Locale {
+  return currentLocale;
+}
+
+export function setLocale(locale: Locale): void {
+  if (locale === currentLocale) return;
+  currentLocale = locale;
+  try {
+    localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+  } catch {
+    // Not persisted, but the switch still applies for this session
+  }
+  document.documentElement.lang = locale;
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeLocale(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Looks up `key` in the active catalog, falling back to Russian, and formats it. */
+export function t(key: MessageKey, values?: MessageValues): string {
+  const pattern = catalogs[currentLocale][key] ?? ru[key] ?? key;
+  return formatMessage(pattern, values, intlLocales[currentLocale]);
+}
+
+export function formatNumber(value: number | bigint, options?: Intl.NumberFormatOptions): string {
+  return new Intl.NumberFormat(intlLocales[currentLocale], options).format(value);
+}
+
+/** Formats a raw CBR amount (8 decimals) for the active locale, e.g. "1 234,5000". */
+export function formatCbrAmount(raw: bigint, displayDecimals = 4): string {
+  const whole = raw / BigInt(100_000_000);
+  // Truncate in bigint first, so the number handed to Intl already has exactly
+  // `displayDecimals` digits and can never round up into the whole part
+  const scale = BigInt(10) ** BigInt(8 - displayDecimals);
+  const fraction = Number((raw % BigInt(100_000_000)) / scale) / 10 ** displayDecimals;
+  const formattedFraction = new Intl.NumberFormat(intlLocales[currentLocale], {
+    minimumFractionDigits: displayDecimals,
+    maximumFractionDigits: displayDecimals,
+  }).format(fraction);
+  const decimalPart = formattedFraction.replace(/^\D*0/, '');
+  return formatNumber(whole) + decimalPart;
+}
+
+export function formatDate(date: Date | number, pattern = 'PPp'): string {
+  return formatDateFns(date, pattern, { locale: dateFnsLocales[currentLocale] });
+}
+
+export function formatRelativeTime(date: Date | number): string {
+  return formatDistanceToNow(date, { addSuffix: true, locale: dateFnsLocales[currentLocale] });
+}
+
+/** Formats a remaining duration as "1h 5m 3s" / "1ч 5м 3с", dropping leading zero units. */
+export function formatDuration(milliseconds: number, withSeconds = true): string {
+  const totalSeconds = Math.max(0, Math.floor(milliseconds / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (!withSeconds) {
+    return t('common.duration.hm', { hours, minutes });
+  }
+  if (hours > 0) {
+    return t('common.duration.hms', { hours, minutes, seconds });
+  }
+  if (minutes > 0) {
+    return t('common.duration.ms', { minutes, seconds });
+  }
+  return t('common.duration.s', { seconds });
+}
+
+function hasMessage(key: string): key is MessageKey {
+  return key in ru;
+}
+
+export function tierName(tier: number | bigint): string {
+  const key = `tier.${tier}`;
+  return hasMessage(key) ? t(key) : t('tier.unknown');
+}
+
+export function biomeName(biome: string): string {
+  const key = `biome.${biome}`;
+  return hasMessage(key) ? t(key) : biome;
+}
@@ -0,0 +1,620 @@
+import type { MessageKey } from './ru';
+
+export const en: Record<MessageKey, string> = {
+  // Common
+  'common.unknownError': 'Unknown error',
+  'common.loading': 'Loading...',
+  'common.cbrBalance': 'CBR BALANCE',
+  'common.cbrAmount': '{amount} CBR',
+  'common.rawE8s': 'Raw: {amount} e8s',
+  'common.multiplier': '{value}x',
+  'common.loadingBalance': 'Loading balance...',
+  'common.balanceUnavailable': 'Balance unavailable',
+  'common.refreshing': 'Refreshing...',
+  'common.refreshBalance': 'Refresh balance',
+  'common.duration.hms': '{hours}h {minutes}m {seconds}s',
+  'common.duration.ms': '{minutes}m {seconds}s',
+  'common.duration.s': '{seconds}s',
+  'common.duration.hm': '{hours}h {minutes}m',
+  'common.toast.insufficientCharge': 'Insufficient charge. Required: {required, number}, available: {current, number}',
+  'common.toast.insufficientTokens': 'Insufficient tokens. Required: {amount} CBR',
+
+  // Rarity tiers and biomes
+  'tier.1': 'Common',
+  'tier.2': 'Rare',
+  'tier.3': 'Legendary',
+  'tier.4': 'Mythic',
+  'tier.unknown': 'Unknown',
+  'biome.FOREST_VALLEY': 'Forest Valley',
+  'biome.ISLAND_ARCHIPELAGO': 'Island Archipelago',
+  'biome.SNOW_PEAK': 'Snow Peak',
+  'biome.DESERT_DUNE': 'Desert Dune',
+  'biome.VOLCANIC_CRAG': 'Volcanic Crag',
+  'biome.MYTHIC_VOID': 'Mythic Void',
+  'biome.MYTHIC_AETHER': 'Mythic Aether',
+
+  // Land tab
+  'land.notFound': 'Land not found',
+  'land.info.title': 'LAND INFORMATION',
+  'land.info.landId': 'Land ID',
+  'land.info.biome': 'Biome',
+  'land.info.coordinates': 'Coordinates',
+  'land.info.level': 'Level',
+  'land.info.multiplier': 'Multiplier',
+  'land.info.charge': 'Charge',
+  'land.chargeFullIn': 'Full in {time}',
+  'land.chargeFull': 'Fully charged',
+  'land.attachedModifiers': 'Attached modifiers:',
+  'land.model.source': 'Model: {source}',
+  'land.model.sources.asset': 'asset canister',
+  'land.model.sources.cdn': 'CDN',
+  'land.model.sources.procedural': 'procedural terrain',
+  'land.model.sources.placeholder': 'placeholder',
+  'land.scene.title': 'Land plot',
+  'land.scene.modifiers': 'Modifiers',
+  'land.scene.restoring': 'Restoring the 3D view...',
+  'land.scene.retry': 'Retry 3D',
+  'land.scene.fallback.unsupported': 'Your browser does not support WebGL, so a 2D view is shown.',
+  'land.scene.fallback.failed': 'The 3D view could not be started.',
+  'land.scene.fallback.lost': 'The graphics card reset the 3D view several times.',
+  'sun.label': 'Time of day',
+  'sun.localTime': 'Solar time {time}',
+  'sun.elevation': 'Sun {value}°',
+  'sun.live': 'Now',
+  'sun.isLive': 'Live',
+  'quality.label': 'Graphics quality',
+  'quality.auto': 'Auto',
+  'quality.autoTier': 'Auto ({tier})',
+  'quality.low': 'Low',
+  'quality.medium': 'Medium',
+  'quality.high': 'High',
+  'shareCard.open': 'Share card',
+  'shareCard.title': 'LAND CARD',
+  'shareCard.description': 'The current scene frame with your plot stats.',
+  'shareCard.rendering': 'Rendering card...',
+  'shareCard.topModifiers': 'TOP MODIFIERS',
+  'shareCard.download': 'Download PNG',
+  'shareCard.copy': 'Copy',
+  'shareCard.toast.copied': 'Card copied to clipboard',
+  'shareCard.toast.copyError': 'Could not copy: {message}',
+  'shareCard.toast.error': 'Could not create card: {message}',
+  'turntable.open': 'Record turntable',
+  'turntable.title': 'TURNTABLE VIDEO',
+  'turntable.description': 'The camera makes one full orbit of your plot while the scene is recorded to WebM.',
+  'turntable.unsupported': 'This browser cannot record WebM video.',
+  'turntable.duration': 'Duration',
+  'turntable.seconds': '{count, plural, one {# second} other {# seconds}}',
+  'turntable.resolution': 'Resolution',
+  'turntable.resolutions.720p': '720p',
+  'turntable.resolutions.1080p': '1080p',
+  'turntable.resolutions.square': 'Square',
+  'turntable.record': 'Record',
+  'turntable.recordAgain': 'Record again',
+  'turntable.download': 'Download WebM',
+  'turntable.recording': 'Recording... {percent}%',
+  'turntable.cancel': 'Cancel',
+  'turntable.toast.error': 'Could not record video: {message}',
+  'land.claiming': 'Claiming...',
+  'land.claim': 'GET {amount} CBR',
+  'land.claimCooldown': 'GET {amount} CBR ({time})',
+  'land.claimAll.title': 'Claim all lands',
+  'land.claimAll.ready': 'Ready to claim: {ready} of {total}',
+  'land.claimAll.button': 'CLAIM {count, plural, one {# LAND} other {# LANDS}}',
+  'land.claimAll.claimingLand': 'Claiming land #{id} ({current} of {total})',
+  'land.claimAll.progress': 'Processed {completed} of {total}',
+  'land.claimAll.summary.claimed': '{count, plural, one {# land} other {# lands}} claimed {amount} CBR',
+  'land.claimAll.summary.cooldowns': 'In cooldown: {count, plural, one {# land} other {# lands}}',
+  'land.claimAll.summary.insufficientCharge': 'Not enough charge: {count, plural, one {# land} other {# lands}}',
+  'land.claimAll.summary.mintFailed': 'Land #{id}: minting error: {reason}',
+  'land.claimAll.summary.error': 'Land #{id}: {message}',
+  'land.claimAll.toast.claimed': 'Claimed {amount} CBR from {count, plural, one {# land} other {# lands}}',
+  'land.claimAll.toast.nothingClaimed': 'No lands were ready to claim',
+  'land.inventory.title': 'MODIFIER INVENTORY',
+  'land.inventory.loading': 'Loading inventory...',
+  'land.inventory.empty': 'No available modifiers',
+  'land.inventory.multiplier': 'Multiplier: {value}x',
+  'land.inventory.applying': 'Applying...',
+  'land.inventory.apply': 'APPLY TO LAND',
+  'land.upgrade.title': 'UPGRADE PLOT',
+  'land.upgrade.currentLevel': 'Current level:',
+  'land.upgrade.cost': 'Upgrade cost:',
+  'land.upgrade.upgrading': 'Upgrading...',
+  'land.upgrade.maxLevel': 'MAXIMUM LEVEL',
+  'land.upgrade.action': 'UPGRADE PLOT',
+  'land.yield.title': 'YIELD PROJECTION',
+  'land.yield.perClaim': 'Per claim',
+  'land.yield.daily': 'Daily',
+  'land.yield.weekly': 'Weekly',
+  'land.yield.monthly': 'Monthly',
+  'land.yield.multiplier': 'Reward multiplier: {value}x',
+  'land.yield.scenario.current': 'Current',
+  'land.yield.scenario.upgrade': 'Level {level}',
+  'land.yield.chartTitle': 'Cumulative earnings over 30 days, net of cost',
+  'land.yield.day': 'Day {day}',
+  'land.yield.e8s': '{amount} e8s',
+  'land.yield.perDay': '{amount} CBR/day',
+  'land.yield.payoff': 'Pays off in {days, plural, one {# day} other {# days}}',
+  'land.yield.noPayoff': 'Never pays off',
+  'land.yield.noUpgradeCost': 'The upgrade costs no tokens',
+  'land.yield.maxLevel': 'Maximum level reached',
+  'land.yield.model': 'One claim every {cooldown} for {charge} charge; modifiers do not change claim rewards.',
+  'land.debug.title': 'DEBUG PANEL (ADMIN)',
+  'land.debug.canisterBalance': 'Canister balance:',
+  'land.debug.checking': 'Checking...',
+  'land.debug.check': 'CHECK CANISTER BALANCE',
+  'land.toast.claimed': 'Claimed {amount} CBR tokens!',
+  'land.toast.cooldown': 'Please wait {time} more',
+  'land.toast.mintFailed': 'Minting error: {reason}',
+  'land.toast.claimError': 'Claim error: {message}',
+  'land.toast.upgraded': 'Plot upgraded to level {level}!',
+  'land.toast.maxLevel': 'Maximum level reached',
+  'land.toast.upgradeError': 'Upgrade error: {message}',
+  'landSelector.position': 'Land {index} of {total}',
+
+  // Leaderboard
+  'leaderboard.title': 'TOP 10 LANDS',
+  'leaderboard.error': 'Failed to load the leaderboard',
+  'leaderboard.empty': 'Nothing to show yet',
+  'leaderboard.level': 'Level {level}',
+
+  // Plot customization
+  'plot.title': 'PLOT SETTINGS',
+  'plot.nameLabel': 'Plot name (max {max} characters)',
+  'plot.namePlaceholder': 'Enter a name...',
+  'plot.updateName': 'UPDATE NAME',
+  'plot.decorationLabel': 'Decoration URL',
+  'plot.updateDecoration': 'UPDATE DECORATION',
+
+  // Discovery tab
+  'discovery.tierCache': '{tier} cache',
+  'discovery.cost': 'Cost:',
+  'discovery.charge': 'Charge:',
+  'discovery.liveCharge': 'Charge: {current} / {cap}',
+  'discovery.chargeReady': 'Enough charge',
+  'discovery.chargeIn': 'Affordable in {time}',
+  'discovery.chargeOverCap': 'Exceeds charge capacity',
+  'discovery.discovering': 'Discovering...',
+  'discovery.discover': 'DISCOVER CACHE',
+  'discovery.myCaches': 'MY CACHES · {count, plural, one {# cache} other {# caches}}',
+  'discovery.loadingCaches': 'Loading caches...',
+  'discovery.noCaches': 'No caches discovered yet',
+  'discovery.cacheTitle': '{tier} cache #{id}',
+  'discovery.readyToOpen': 'Ready to open',
+  'discovery.opening': 'Opening...',
+  'discovery.open': 'OPEN',
+  'discovery.openEarly': 'OPEN FOR {charge} CHARGE',
+  'discovery.dropOdds': 'Modifier odds: {odds}',
+  'discovery.timeline.summary': 'Ready: {ready} · waiting: {pending} · opened: {opened}',
+  'discovery.timeline.openAllReady': 'OPEN ALL READY ({count})',
+  'discovery.timeline.progress': 'Opened {completed} of {total}',
+  'discovery.timeline.freeIn': 'Free in {time}',
+  'discovery.timeline.waitOption': 'or wait {time} to open for free',
+  'discovery.timeline.openedCount': '{count, plural, one {# cache opened} other {# caches opened}}',
+  'discovery.timeline.resultsTitle': 'Modifiers received',
+  'discovery.timeline.resultOpened': 'Cache #{id}: {type} ({tier})',
+  'discovery.timeline.resultFailed': 'Cache #{id}: {message}',
+  'discovery.timeline.toast.opened': 'Opened {count} of {total} caches',
+  'discovery.toast.actorOrLandUnavailable': 'Actor or land unavailable',
+  'discovery.toast.actorUnavailable': 'Actor unavailable',
+  'discovery.toast.insufficientCbr': 'Not enough CBR. Required: {amount} CBR',
+  'discovery.toast.discovered': '{tier} cache discovered!',
+  'discovery.toast.paymentFailed': 'Payment failed: {reason}',
+  'discovery.toast.discoverError': 'Cache discovery error: {message}',
+  'discovery.toast.modifierReceived': 'Modifier received: {type} ({tier})',
+  'discovery.toast.processError': 'Cache processing error: {message}',
+
+  // Collection tab
+  'collection.title': 'MODIFIER COLLECTION',
+  'collection.description':
+    'Explore the complete catalog of modifiers available in CyberGenesis. Collect them through loot cache discoveries.',
+  'collection.allModifiers': 'ALL MODIFIERS ({count, plural, one {# modifier} other {# modifiers}})',
+  'collection.modifierId': 'ID: {id}',
+  'collection.progress': 'Collected {owned} of {total} · {duplicates} duplicates',
+  'collection.tierOwned': '{owned} / {total}',
+  'collection.duplicates': '{count, plural, one {# duplicate} other {# duplicates}}',
+  'collection.filter.all': 'All',
+  'collection.filter.owned': 'Owned',
+  'collection.filter.missing': 'Missing',
+  'collection.loading': 'Loading catalog...',
+  'collection.loadError': 'Could not load the modifier catalog',
+  'collection.empty': 'No modifiers to show',
+  'collection.missing': 'Not collected',
+  'collection.unlisted': 'NOT IN CATALOG ({count, plural, one {# instance} other {# instances}})',
+  'collection.instanceId': 'Instance #{id}',
+  'collection.inInventory': 'In inventory',
+  'collection.attachedTo': 'Attached to land #{id}',
+  'collection.copiesOwned': 'You own {count, plural, one {# copy} other {# copies}}',
+  'collection.modification': 'Modification',
+  'catalogEditor.title': 'MODIFIER CATALOG EDITOR',
+  'catalogEditor.description':
+    'The catalog is replaced as a whole and only by a governance proposal: the editor exports the adminSetAllModifiers arguments for it.',
+  'catalogEditor.unsaved': 'Draft',
+  'catalogEditor.addRow': 'Add row',
+  'catalogEditor.removeRow': 'Remove row',
+  'catalogEditor.import': 'Import JSON/CSV',
+  'catalogEditor.exportJson': 'Export JSON',
+  'catalogEditor.exportCsv': 'Export CSV',
+  'catalogEditor.reset': 'Reset',
+  'catalogEditor.review': 'Review changes',
+  'catalogEditor.checkingAssets': 'Checking assets...',
+  'catalogEditor.issueCount': '{count, plural, one {# issue} other {# issues}} in the catalog',
+  'catalogEditor.warningCount':
+    '{count, plural, one {# asset} other {# assets}} did not answer; the export is not blocked',
+  'catalogEditor.issue.invalidId': 'ID must be a whole number',
+  'catalogEditor.issue.duplicateId': 'Duplicate ID',
+  'catalogEditor.issue.missingName': 'Name is required',
+  'catalogEditor.issue.invalidTier': 'Tier must be 1–4',
+  'catalogEditor.issue.invalidMultiplier': 'Multiplier must be above 0',
+  'catalogEditor.issue.missingAssetUrl': 'Asset URL is required',
+  'catalogEditor.issue.unreachableAsset': 'Asset did not answer: check the URL or CORS',
+  'catalogEditor.diffTitle': 'CATALOG CHANGES',
+  'catalogEditor.diffSummary': 'Added: {added} · changed: {changed} · removed: {removed} · catalog size: {total}',
+  'catalogEditor.noChanges': 'The catalog is unchanged',
+  'catalogEditor.cancel': 'Cancel',
+  'catalogEditor.payloadHint':
+    'Candid arguments for adminSetAllModifiers. Attach them to the governance proposal that replaces the catalog.',
+  'catalogEditor.copyPayload': 'Copy',
+  'catalogEditor.downloadPayload': 'DOWNLOAD ARGUMENTS ({count})',
+  'catalogEditor.toast.imported': 'Imported {count, plural, one {# row} other {# rows}}',
+  'catalogEditor.toast.importError': 'Import failed: {message}',
+  'catalogEditor.toast.invalid': 'Fix the catalog issues before exporting',
+  'catalogEditor.toast.empty': 'The catalog cannot be empty',
+  'catalogEditor.toast.payloadCopied': 'Arguments copied',
+  'catalogEditor.toast.copyError': 'Could not copy the arguments',
+
+  // Map
+  'map.loadingLibrary': 'Loading the Maptalks library...',
+  'map.loadingLands': 'Loading land data...',
+
+  // Profile setup
+  'profile.title': 'PROFILE SETUP',
+  'profile.description': 'Welcome to CyberGenesis! Enter your name to get started.',
+  'profile.nameLabel': 'Your name',
+  'profile.namePlaceholder': 'Enter your name',
+  'profile.creating': 'CREATING PROFILE...',
+  'profile.create': 'CREATE PROFILE',
+  'profile.toast.nameRequired': 'Please enter your name',
+  'profile.toast.created': 'Profile created!',
+  'profile.toast.createFailed': 'Could not create the profile',
+
+  // Landing page
+  'landing.title': 'CLAIM YOUR GENESIS PLOT',
+  'landing.subtitle': 'Create a unique virtual land in cyberspace',
+  'landing.connecting': 'Connecting...',
+  'landing.connect': 'Connect Internet Identity',
+  'landing.loginHint': 'Sign in with Internet Identity to access your virtual land',
+  'landing.alreadyAuthenticated': 'You are already signed in with Internet Identity',
+  'landing.loginFailed': 'Sign-in failed. Please try again.',
+  'landing.feature.biomes.title': 'Cosmic biomes',
+  'landing.feature.biomes.text': '{count, plural, one {# unique land type} other {# unique land types}}',
+  'landing.feature.rewards.title': 'Energy and rewards',
+  'landing.feature.rewards.text': 'Earn CBR tokens',
+  'landing.feature.visual.title': '3D visualization',
+  'landing.feature.visual.text': 'Interactive models',
+
+  // Marketplace tab
+  'market.loading': 'Loading the marketplace...',
+  'market.title': 'MARKETPLACE',
+  'market.subtitle': 'Buy and sell land plots and modifiers for CBR tokens',
+  'market.listItem': 'LIST ITEM',
+  'market.dialog.title': 'List an item for sale',
+  'market.dialog.land': 'Land',
+  'market.dialog.modifier': 'Modifier',
+  'market.dialog.chooseLand': 'Choose a land',
+  'market.dialog.chooseLandPlaceholder': 'Choose a land plot',
+  'market.dialog.chooseModifier': 'Choose a modifier',
+  'market.dialog.modifierOption': 'Modifier #{id} - {tier}',
+  'market.dialog.price': 'Sale price (CBR)',
+  'market.dialog.listing': 'Listing...',
+  'market.filters.title': 'Filters',
+  'market.filters.type': 'Item type',
+  'market.filters.allItems': 'All items',
+  'market.filters.landOnly': 'Land only',
+  'market.filters.modifiersOnly': 'Modifiers only',
+  'market.filters.tier': 'Rarity tier',
+  'market.filters.allTiers': 'All tiers',
+  'market.filters.tierOption': 'Tier {tier} ({name})',
+  'market.filters.minPrice': 'Min price (CBR)',
+  'market.filters.maxPrice': 'Max price (CBR)',
+  'market.empty.title': 'No listings available',
+  'market.empty.filtered': 'No items match your filters',
+  'market.empty.firstListing': 'Be the first to list an item for sale',
+  'market.card.land': 'Land #{id}',
+  'market.card.modifier': 'Modifier #{id}',
+  'market.card.yourListing': 'YOUR LISTING',
+  'market.card.type': 'Type:',
+  'market.card.landNft': 'Land NFT',
+  'market.card.seller': 'Seller:',
+  'market.card.price': 'Price:',
+  'market.card.cancelling': 'Cancelling...',
+  'market.card.cancel': 'CANCEL LISTING',
+  'market.card.buying': 'Buying...',
+  'market.card.buy': 'BUY ITEM',
+  'market.toast.bought': 'Item purchased!',
+  'market.toast.boughtDescription': 'You bought the item for {amount} CBR',
+  'market.toast.insufficientFunds': 'Insufficient funds',
+  'market.toast.required': 'Required: {amount} CBR',
+  'market.toast.listingNotFound': 'Listing not found',
+  'market.toast.listingNotActive': 'The listing is no longer active',
+  'market.toast.cannotBuyOwn': 'You cannot buy your own listing',
+  'market.toast.transferFailed': 'Transfer failed',
+  'market.toast.buyFailed': 'Could not buy the item',
+  'market.toast.cancelled': 'Listing cancelled',
+  'market.toast.cancelFailed': 'Could not cancel the listing',
+  'market.toast.invalidPrice': 'Invalid price',
+  'market.toast.selectLand': 'Please choose a land to list',
+  'market.toast.selectModifier': 'Please choose a modifier to list',
+  'market.toast.listed': 'Item listed!',
+  'market.toast.listFailed': 'Could not list the item',
+
+  // Governance tab
+  'governance.title': 'GOVERNANCE',
+  'governance.subtitle': 'Stake tokens and take part in project decisions',
+  'governance.tabs.stake': 'Staking',
+  'governance.tabs.proposals': 'Proposals',
+  'governance.tabs.create': 'Create',
+  'governance.stake.title': 'CBR token staking',
+  'governance.stake.info':
+    'Stake your CBR tokens to gain a vote on governance proposals. Your voting weight is proportional to the amount you have staked.',
+  'governance.stake.current': 'Current stake:',
+  'governance.stake.available': 'Available balance:',
+  'governance.stake.amount': 'Amount to stake (CBR)',
+  'governance.stake.staking': 'Staking...',
+  'governance.stake.submit': 'STAKE TOKENS',
+  'governance.proposals.emptyTitle': 'No active proposals',
+  'governance.proposals.emptyHint': 'Be the first to create a proposal',
+  'governance.proposals.totalVotes': 'Total votes: {amount} CBR',
+  'governance.proposals.split': '{yes}% YES / {no}% NO',
+  'governance.proposals.yesVotes': 'YES: {amount}',
+  'governance.proposals.noVotes': 'NO: {amount}',
+  'governance.proposals.voteYes': 'YES',
+  'governance.proposals.voteNo': 'NO',
+  'governance.create.title': 'Create a proposal',
+  'governance.create.info':
+    'You need staked tokens to create proposals. Proposals let the community vote on important project decisions.',
+  'governance.create.titleLabel': 'Title (max. 100 characters)',
+  'governance.create.titlePlaceholder': 'Enter a proposal title',
+  'governance.create.descriptionLabel': 'Description (max. 1000 characters)',
+  'governance.create.descriptionPlaceholder': 'Describe your proposal in detail',
+  'governance.create.creating': 'Creating...',
+  'governance.create.submit': 'CREATE PROPOSAL',
+  'governance.toast.invalidAmount': 'Invalid amount',
+  'governance.toast.staked': 'Tokens staked!',
+  'governance.toast.newStake': 'New stake: {amount} CBR',
+  'governance.toast.insufficientTokens': 'Insufficient tokens',
+  'governance.toast.required': 'Required: {amount} CBR',
+  'governance.toast.transferFailed': 'Transfer failed',
+  'governance.toast.stakeFailed': 'Could not stake tokens',
+  'governance.toast.fillAllFields': 'Please fill in all fields',
+  'governance.toast.titleTooLong': 'The title must be at most 100 characters',
+  'governance.toast.descriptionTooLong': 'The description must be at most 1000 characters',
+  'governance.toast.proposalCreated': 'Proposal created!',
+  'governance.toast.proposalId': 'Proposal ID: {id}',
+  'governance.toast.createFailed': 'Could not create the proposal',
+  'governance.toast.voted': 'Vote recorded!',
+  'governance.toast.voteWeight': 'Vote weight: {amount} CBR',
+  'governance.toast.proposalNotFound': 'Proposal not found',
+  'governance.toast.proposalNotActive': 'The proposal is no longer active',
+  'governance.toast.alreadyVoted': 'You have already voted on this proposal',
+  'governance.toast.notStaker': 'You must stake tokens to vote',
+  'governance.toast.voteFailed': 'Could not cast the vote',
+
+  // Dashboard shell
+  'dashboard.loading': 'Loading data...',
+  'dashboard.noLand': 'No land found',
+  'dashboard.tabs.land': 'Land',
+  'dashboard.tabs.discovery': 'Discovery',
+  'dashboard.tabs.collection': 'Collection',
+  'dashboard.tabs.leaderboard': 'Leaderboard',
+  'dashboard.tabs.marketplace': 'Market',
+  'dashboard.tabs.governance': 'Governance',
+  'dashboard.tabs.map': 'Map',
+
+  // Simulation controls
+  'simulation.title': 'SIMULATION',
+  'simulation.warpStep': '+{hours}h',
+  'simulation.reset': 'Reset the simulated world',
+  'simulation.warped': 'Time warped: {duration}',
+
+  // App connection and error screens
+  'app.connecting.title': 'SYSTEM INITIALIZATION',
+  'app.connecting.identity': 'Loading authentication...',
+  'app.connecting.network': 'Connecting to the Internet Computer blockchain...',
+  'app.connecting.stability': 'MAXIMUM STABILITY',
+  'app.connecting.timeoutLabel': 'Timeout:',
+  'app.connecting.timeoutValue': '120 seconds (maximum recommended)',
+  'app.connecting.retriesLabel': 'Retries:',
+  'app.connecting.retriesValue': '25 attempts with exponential backoff (1s → 45s)',
+  'app.connecting.primaryGatewayLabel': 'Primary gateway:',
+  'app.connecting.primaryGatewayValue': 'https://ic0.app (official DFINITY)',
+  'app.connecting.fallbackGatewaysLabel': 'Fallback gateways:',
+  'app.connecting.fallbackGatewaysValue': 'boundary.ic0.app, icp-api.io (automatic failover)',
+  'app.connecting.pollingLabel': 'Data polling:',
+  'app.connecting.pollingValue': '25 attempts with 4 health checks',
+  'app.connecting.syncLabel': 'Synchronization:',
+  'app.connecting.syncValue': 'Full frontend/backend configuration sync',
+  'app.connecting.details':
+    'Establishing a stable connection with automatic gateway failover and full connectivity checks against all five canisters...',
+  'app.error.title': 'CONNECTION ERROR',
+  'app.error.description':
+    'Could not establish a stable connection to the Internet Computer network after repeated retries with a 120-second timeout, exponential backoff (25 attempts) and automatic gateway failover.',
+  'app.error.details': 'Error details:',
+  'app.error.troubleshooting': 'TROUBLESHOOTING STEPS:',
+  'app.error.checkConnection': 'Check that your internet connection is stable',
+  'app.error.checkNetwork': 'Make sure VITE_DFX_NETWORK is set to "ic" in the .env file',
+  'app.error.checkCanisterIds': 'Confirm that all canister IDs are configured correctly:',
+  'app.error.checkDeployed': 'Make sure the canisters are deployed and running on the IC mainnet',
+  'app.error.clearCache': 'Try clearing the browser cache and reloading the page',
+  'app.error.checkGateways': 'Check that the gateways are reachable: ic0.app, boundary.ic0.app, icp-api.io',
+  'app.error.networkConfig': 'NETWORK CONFIGURATION:',
+  'app.error.network': 'Network:',
+  'app.error.notSet': 'NOT SET',
+  'app.error.timeoutValue': '120 seconds',
+  'app.error.retryLogic': 'Retry logic:',
+  'app.error.retryLogicValue': '25 attempts with exponential backoff',
+  'app.error.retry': 'Retry connection',
+
+  // Mutation toasts raised from hooks/useQueries
+  'queries.toast.profileSaved': 'Profile saved',
+  'queries.toast.rewardsClaimed': 'Rewards claimed!',
+  'queries.toast.plotUpgraded': 'Plot upgraded!',
+  'queries.toast.nameUpdated': 'Name updated',
+  'queries.toast.decorationUpdated': 'Decoration updated',
+  'queries.toast.modifierApplied': 'Modifier applied!',
+  'queries.toast.landMinted': 'New land minted!',
+  'queries.toast.staked': 'Tokens staked!',
+  'queries.toast.proposalCreated': 'Proposal created!',
+  'queries.toast.voted': 'Vote counted!',
+  'queries.toast.listed': 'Item listed for sale!',
+  'queries.toast.bought': 'Item purchased!',
+  'queries.toast.listingCancelled': 'Listing cancelled!',
+  'queries.toast.balanceUpdated': 'Balance updated: {amount} CBR',
+  'queries.toast.canisterBalance': 'Contract balance: {amount} CBR',
+  'queries.toast.saveProfileFailed': 'Failed to save profile: {message}',
+  'queries.toast.balanceFailed': 'Failed to fetch balance: {message}',
+  'queries.toast.canisterBalanceFailed': 'Failed to fetch contract balance: {message}',
+  'queries.toast.claimFailed': 'Failed to claim rewards: {message}',
+  'queries.toast.upgradeFailed': 'Upgrade failed: {message}',
+  'queries.toast.nameFailed': 'Failed to update name: {message}',
+  'queries.toast.decorationFailed': 'Failed to update decoration: {message}',
+  'queries.toast.modifierFailed': 'Failed to apply modifier: {message}',
+  'queries.toast.mintFailed': 'Failed to mint land: {message}',
+  'queries.toast.stakeFailed': 'Staking failed: {message}',
+  'queries.toast.proposalFailed': 'Failed to create proposal: {message}',
+  'queries.toast.voteFailed': 'Voting failed: {message}',
+  'queries.toast.listFailed': 'Listing failed: {message}',
+  'queries.toast.buyFailed': 'Purchase failed: {message}',
+  'queries.toast.cancelFailed': 'Cancellation failed: {message}',
+
+  // Admin, diagnostics and connection toasts
+  'assetActor.toast.connected': 'Asset Canister connected',
+  'assetActor.toast.connectedDescription': 'Connected to {network} network via {host}',
+  'assetActor.toast.failed': 'Asset Canister connection failed',
+  'assetDiagnostics.toast.actorMissing': 'Asset Canister actor not initialized',
+  'assetDiagnostics.toast.allPassed': '✅ Asset Canister diagnostics completed - All {total} tests PASSED',
+  'assetDiagnostics.toast.failed': 'Diagnostics failed: {message}',
+  'assetDiagnostics.toast.somePassed': '⚠️ Asset Canister diagnostics completed - {passed}/{total} tests passed',
+  'assetReinit.toast.aborted': 'Pre-checks failed. Reinitialization cancelled.',
+  'assetReinit.toast.alreadyInitialized': 'Asset Canister is already initialized',
+  'assetReinit.toast.alreadyInitializedDescription': 'Access control is already set up',
+  'assetReinit.toast.assetUnavailable': 'Asset Canister unavailable',
+  'assetReinit.toast.completed': 'Reinitialization completed',
+  'assetReinit.toast.completedDescription': 'Asset Canister restored, Land Canister untouched',
+  'assetReinit.toast.failed': 'Reinitialization failed',
+  'assetReinit.toast.landNotResponding': 'Land Canister is not responding',
+  'assetReinit.toast.landUnavailable': 'Land Canister unavailable',
+  'assetReinit.toast.partiallyRecovered': 'Asset Canister partially recovered',
+  'assetReinit.toast.partiallyRecoveredDescription': 'Some checks did not pass',
+  'assetReinit.toast.postChecksFailed': 'Post-reinitialization check failed: {message}',
+  'assetReinit.toast.postChecksRunning': 'Checking health after reinitialization...',
+  'assetReinit.toast.preChecksFailed': 'Pre-checks failed: {message}',
+  'assetReinit.toast.preChecksPassed': 'Pre-checks passed',
+  'assetReinit.toast.preChecksRunning': 'Running pre-checks...',
+  'assetReinit.toast.recovered': 'Asset Canister recovered and running normally',
+  'assetReinit.toast.recoveredDescription': 'All health checks passed',
+  'assetReinit.toast.reinitialized': 'Asset Canister reinitialized',
+  'assetReinit.toast.reinitializedDescription': 'Access control restored',
+  'canisterDiagnostics.toast.failed': 'Failed to complete health check: {message}',
+  'canisterDiagnostics.toast.healthy': '✅ Network health check completed - All systems HEALTHY',
+  'canisterDiagnostics.toast.issues': '⚠️ Network health check completed - Some issues detected',
+  'canisterDiagnostics.toast.starting': '🔄 Starting comprehensive network health check with cache-busting...',
+  'deployment.toast.healthy': '✅ All canisters are HEALTHY',
+  'deployment.toast.issues': '⚠️ Some canisters have issues',
+  'deployment.toast.refreshing': '🔄 Refreshing canister health status...',
+  'glbUpload.toast.actorNotReady': 'Actor not ready',
+  'glbUpload.toast.actorNotReadyDescription': 'Please wait for AssetCanister initialization to finish',
+  'glbUpload.toast.available': 'Asset Canister available',
+  'glbUpload.toast.availableDescription': 'Uploads unlocked',
+  'glbUpload.toast.checkBeforeUpload': 'Please check the Asset Canister status before uploading',
+  'glbUpload.toast.healthCheckFailed': 'Asset Canister check failed',
+  'glbUpload.toast.healthCheckFailedDescription': 'Could not check the status',
+  'glbUpload.toast.initFailed': 'Initialization error',
+  'glbUpload.toast.initFailedDescription': 'Asset Actor is not ready. Please reload the page.',
+  'glbUpload.toast.invalidName': 'Invalid file name',
+  'glbUpload.toast.invalidNameDescription': '{name} must be named after one of the land types: {types}',
+  'glbUpload.toast.invalidType': 'Invalid file type',
+  'glbUpload.toast.invalidTypeDescription': '{name} is not a .glb file',
+  'glbUpload.toast.tooLarge': 'File too large',
+  'glbUpload.toast.tooLargeDescription': '{name} exceeds the 50MB limit',
+  'glbUpload.toast.unauthorized': 'Unauthorized',
+  'glbUpload.toast.unauthorizedDescription': 'Only the Internet Identity principal {principal} can upload GLB models',
+  'glbUpload.toast.unavailable': 'Asset Canister unavailable',
+  'glbUpload.toast.unavailableDescription': 'Uploads blocked',
+  'glbUpload.toast.uploadBlockedDescription': 'Asset Canister unavailable. Check its status.',
+  'glbUpload.toast.uploadFailed': 'Upload failed',
+  'glbUpload.toast.uploaded': '✅ Uploaded',
+  'glbUpload.toast.uploadedDescription': '{name} uploaded as {landType}',
+  'glbUpload.error.actorNotInitialized': 'Asset actor is not initialized',
+  'glbUpload.error.invalidName': 'Invalid file name: {name}. It must match a land type.',
+  'glbUpload.error.invalidLandType': 'Invalid land type. Allowed types: {types}',
+  'glbUpload.error.emptyFile': 'The file cannot be empty.',
+  'glbUpload.error.tooLarge': 'File too large: the maximum size is 50MB',
+  'glbUpload.status.pending': 'Pending',
+  'glbUpload.status.uploading': 'Uploading',
+  'glbUpload.status.error': 'Error',
+  'glbUpload.initializing': 'Initializing AssetCanister...',
+  'glbUpload.configError': 'Configuration error',
+  'glbUpload.envErrors': 'Missing or invalid environment variables:',
+  'glbUpload.connectionError': 'Connection error',
+  'glbUpload.actorInitFailed': 'Could not initialize the Asset Canister actor',
+  'glbUpload.unknownPrincipal': 'unknown',
+  'glbUpload.unauthorizedTitle': 'Unauthorized access',
+  'glbUpload.yourPrincipal': 'Your principal:',
+  'glbUpload.authorized': 'AUTHORIZED',
+  'glbUpload.principalConfirmed': 'Principal confirmed',
+  'glbUpload.validTypes': 'Valid land types:',
+  'glbUpload.dropHere': 'Drop files here',
+  'glbUpload.uploadModels': 'Upload GLB models',
+  'glbUpload.dropHint': 'Drag .glb files here or click to choose',
+  'glbUpload.blockedHint': 'Check the Asset Canister status to unlock uploads',
+  'glbUpload.maxSize': 'Maximum file size: 50MB',
+  'glbUpload.chooseFiles': 'Choose files',
+  'glbUpload.fileCount': 'Uploaded files ({count})',
+  'glbUpload.clearCompleted': 'Clear completed',
+  'glbUpload.clearAll': 'Clear all',
+  'glbUpload.fileSize': 'Size: {size}',
+  'glbUpload.progress': '{progress}% uploaded',
+  'glbUpload.fileError': 'Error: {message}',
+  'plug.toast.connected': 'Wallet connected',
+  'plug.toast.connectedDescription': 'Principal: {principal}...',
+  'plug.toast.connectionFailed': 'Connection failed',
+  'plug.toast.connectionFailedDescription': 'Failed to connect wallet',
+  'plug.toast.disconnected': 'Wallet disconnected',
+  'plug.toast.install': 'Please install the Plug Wallet extension',
+  'plug.toast.notDetected': 'Plug Wallet not detected',
+  'plug.toast.transactionFailed': 'Transaction failed',
+  'plug.title': 'Plug Wallet',
+  'plug.connect': 'Connect Wallet',
+  'plug.connecting': 'Connecting...',
+  'plug.copyPrincipal': 'Copy Principal ID',
+  'plug.disconnect': 'Disconnect Wallet',
+  'plug.signWith': 'Sign transactions with',
+  'plug.signer.internet-identity': 'Internet Identity',
+  'plug.signer.plug': 'Plug Wallet',
+  'plug.notConnectedFallback': 'Plug is not connected, so Internet Identity signs transactions.',
+  'reconnect.toast.failed': 'Reconnection failed',
+  'reconnect.toast.reconnecting': 'Reconnecting...',
+  'reconnect.toast.reconnectingDescription': 'Automatically reinitializing the connection',
+  'reconnect.toast.restored': 'Connection restored',
+  'reconnect.toast.restoredDescription': 'Connected via {gateway}',
+
+  // Language switcher
+  'language.label': 'Interface language',
+  'language.ru': 'RU',
+  'language.en': 'EN',
+
+  // Notifications
+  'notifications.on': 'Alerts on',
+  'notifications.off': 'Alerts off',
+  'notifications.blocked': 'Notifications are blocked in the browser settings',
+  'notifications.toast.enabled': 'Notifications enabled',
+  'notifications.toast.disabled': 'Notifications disabled',
+  'notifications.toast.denied': 'The browser did not allow notifications',
+  'notifications.landFallback': 'Land #{id}',
+  'notifications.claimReady.title': 'Reward ready',
+  'notifications.claimReady.body': '{land}: cooldown is over, rewards can be claimed',
+  'notifications.cacheReady.title': 'Cache ready',
+  'notifications.cacheReady.body': 'Cache #{id} can now be opened for free',
+  'notifications.chargeFull.title': 'Charge full',
+  'notifications.chargeFull.body': '{land}: charge has reached {cap}',
+};
@@ -0,0 +1,634 @@
+// Russian is the source catalog: its keys define MessageKey and every other locale must match them.
+export const ru = {
+  // Common
+  'common.unknownError': 'Неизвестная ошибка',
+  'common.loading': 'Загрузка...',
+  'common.cbrBalance': 'БАЛАНС CBR',
+  'common.cbrAmount': '{amount} CBR',
+  'common.rawE8s': 'Raw: {amount} e8s',
+  'common.multiplier': '{value}x',
+  'common.loadingBalance': 'Загрузка баланса...',
+  'common.balanceUnavailable': 'Баланс недоступен',
+  'common.refreshing': 'Обновление...',
+  'common.refreshBalance': 'Обновить баланс',
+  'common.duration.hms': '{hours}ч {minutes}м {seconds}с',
+  'common.duration.ms': '{minutes}м {seconds}с',
+  'common.duration.s': '{seconds}с',
+  'common.duration.hm': '{hours}ч {minutes}м',
+  'common.toast.insufficientCharge': 'Недостаточно заряда. Требуется: {required, number}, доступно: {current, number}',
+  'common.toast.insufficientTokens': 'Недостаточно токенов. Требуется: {amount} CBR',
+
+  // Rarity tiers and biomes
+  'tier.1': 'Обычный',
+  'tier.2': 'Редкий',
+  'tier.3': 'Легендарный',
+  'tier.4': 'Мифический',
+  'tier.unknown': 'Неизвестный',
+  'biome.FOREST_VALLEY': 'Лесная Долина',
+  'biome.ISLAND_ARCHIPELAGO': 'Островной Архипелаг',
+  'biome.SNOW_PEAK': 'Снежная Вершина',
+  'biome.DESERT_DUNE': 'Пустынная Дюна',
+  'biome.VOLCANIC_CRAG': 'Вулканический Утес',
+  'biome.MYTHIC_VOID': 'Мифическая Пустота',
+  'biome.MYTHIC_AETHER': 'Мифический Эфир',
+
+  // Land tab
+  'land.notFound': 'Земля не найдена',
+  'land.info.title': 'ИНФОРМАЦИЯ О ЗЕМЛЕ',
+  'land.info.landId': 'ID земли',
+  'land.info.biome': 'Биом',
+  'land.info.coordinates': 'Координаты',
+  'land.info.level': 'Уровень',
+  'land.info.multiplier': 'Множитель',
+  'land.info.charge': 'Заряд',
+  'land.chargeFullIn': 'Полный заряд через {time}',
+  'land.chargeFull': 'Заряд полон',
+  'land.attachedModifiers': 'Установленные модификаторы:',
+  'land.model.source': 'Модель: {source}',
+  'land.model.sources.asset': 'канистра ассетов',
+  'land.model.sources.cdn': 'CDN',
+  'land.model.sources.procedural': 'процедурная генерация',
+  'land.model.sources.placeholder': 'заглушка',
+  'land.scene.title': 'Участок',
+  'land.scene.modifiers': 'Модификаторы',
+  'land.scene.restoring': 'Восстановление 3D-сцены...',
+  'land.scene.retry': 'Повторить 3D',
+  'land.scene.fallback.unsupported': 'Ваш браузер не поддерживает WebGL, поэтому показан 2D-вид.',
+  'land.scene.fallback.failed': 'Не удалось запустить 3D-сцену.',
+  'land.scene.fallback.lost': 'Видеокарта несколько раз сбросила 3D-сцену.',
+  'sun.label': 'Время суток',
+  'sun.localTime': 'Солнечное время {time}',
+  'sun.elevation': 'Солнце {value}°',
+  'sun.live': 'Сейчас',
+  'sun.isLive': 'В реальном времени',
+  'quality.label': 'Качество графики',
+  'quality.auto': 'Авто',
+  'quality.autoTier': 'Авто ({tier})',
+  'quality.low': 'Низкое',
+  'quality.medium': 'Среднее',
+  'quality.high': 'Высокое',
+  'shareCard.open': 'Поделиться карточкой',
+  'shareCard.title': 'КАРТОЧКА ЗЕМЛИ',
+  'shareCard.description': 'Текущий кадр сцены с характеристиками участка.',
+  'shareCard.rendering': 'Отрисовка карточки...',
+  'shareCard.topModifiers': 'ЛУЧШИЕ МОДИФИКАТОРЫ',
+  'shareCard.download': 'Скачать PNG',
+  'shareCard.copy': 'Копировать',
+  'shareCard.toast.copied': 'Карточка скопирована в буфер обмена',
+  'shareCard.toast.copyError': 'Не удалось скопировать: {message}',
+  'shareCard.toast.error': 'Не удалось создать карточку: {message}',
+  'turntable.open': 'Записать видео',
+  'turntable.title': 'ВИДЕО-ОБЛЁТ',
+  'turntable.description': 'Камера сделает полный круг вокруг участка, а сцена будет записана в WebM.',
+  'turntable.unsupported': 'Этот браузер не умеет записывать WebM.',
+  'turntable.duration': 'Длительность',
+  'turntable.seconds': '{count, plural, one {# секунда} few {# секунды} many {# секунд} other {# секунды}}',
+  'turntable.resolution': 'Разрешение',
+  'turntable.resolutions.720p': '720p',
+  'turntable.resolutions.1080p': '1080p',
+  'turntable.resolutions.square': 'Квадрат',
+  'turntable.record': 'Записать',
+  'turntable.recordAgain': 'Записать заново',
+  'turntable.download': 'Скачать WebM',
+  'turntable.recording': 'Запись... {percent}%',
+  'turntable.cancel': 'Отмена',
+  'turntable.toast.error': 'Не удалось записать видео: {message}',
+  'land.claiming': 'Получение...',
+  'land.claim': 'ПОЛУЧИТЬ {amount} CBR',
+  'land.claimCooldown': 'ПОЛУЧИТЬ {amount} CBR ({time})',
+  'land.claimAll.title': 'Сбор со всех участков',
+  'land.claimAll.ready': 'Готово к сбору: {ready} из {total}',
+  'land.claimAll.button':
+    'СОБРАТЬ С {count, plural, one {# УЧАСТКА} few {# УЧАСТКОВ} many {# УЧАСТКОВ} other {# УЧАСТКА}}',
+  'land.claimAll.claimingLand': 'Сбор с участка #{id} ({current} из {total})',
+  'land.claimAll.progress': 'Обработано {completed} из {total}',
+  'land.claimAll.summary.claimed':
+    '{count, plural, one {# участок} few {# участка} many {# участков} other {# участка}}: получено {amount} CBR',
+  'land.claimAll.summary.cooldowns':
+    'На перезарядке: {count, plural, one {# участок} few {# участка} many {# участков} other {# участка}}',
+  'land.claimAll.summary.insufficientCharge':
+    'Недостаточно заряда: {count, plural, one {# участок} few {# участка} many {# участков} other {# участка}}',
+  'land.claimAll.summary.mintFailed': 'Участок #{id}: ошибка выпуска токенов: {reason}',
+  'land.claimAll.summary.error': 'Участок #{id}: {message}',
+  'land.claimAll.toast.claimed':
+    'Получено {amount} CBR с {count, plural, one {# участка} few {# участков} many {# участков} other {# участка}}',
+  'land.claimAll.toast.nothingClaimed': 'Нет участков, готовых к сбору',
+  'land.inventory.title': 'ИНВЕНТАРЬ МОДИФИКАТОРОВ',
+  'land.inventory.loading': 'Загрузка инвентаря...',
+  'land.inventory.empty': 'Нет доступных модификаторов',
+  'land.inventory.multiplier': 'Множитель: {value}x',
+  'land.inventory.applying': 'Установка...',
+  'land.inventory.apply': 'УСТАНОВИТЬ НА ЗЕМЛЮ',
+  'land.upgrade.title': 'УЛУЧШЕНИЕ УЧАСТКА',
+  'land.upgrade.currentLevel': 'Текущий уровень:',
+  'land.upgrade.cost': 'Стоимость улучшения:',
+  'land.upgrade.upgrading': 'Улучшение...',
+  'land.upgrade.maxLevel': 'МАКСИМАЛЬНЫЙ УРОВЕНЬ',
+  'land.upgrade.action': 'УЛУЧШИТЬ УЧАСТОК',
+  'land.yield.title': 'ПРОГНОЗ ДОХОДНОСТИ',
+  'land.yield.perClaim': 'За сбор',
+  'land.yield.daily': 'В день',
+  'land.yield.weekly': 'В неделю',
+  'land.yield.monthly': 'В месяц',
+  'land.yield.multiplier': 'Множитель награды: {value}x',
+  'land.yield.scenario.current': 'Сейчас',
+  'land.yield.scenario.upgrade': 'Уровень {level}',
+  'land.yield.chartTitle': 'Накопленный доход за 30 дней за вычетом затрат',
+  'land.yield.day': 'День {day}',
+  'land.yield.e8s': '{amount} e8s',
+  'land.yield.perDay': '{amount} CBR/день',
+  'land.yield.payoff': 'Окупится за {days, plural, one {# день} few {# дня} many {# дней} other {# дня}}',
+  'land.yield.noPayoff': 'Не окупается',
+  'land.yield.noUpgradeCost': 'Улучшение бесплатно',
+  'land.yield.maxLevel': 'Максимальный уровень достигнут',
+  'land.yield.model': 'Один сбор раз в {cooldown} за {charge} заряда; модификаторы не влияют на награду за сбор.',
+  'land.debug.title': 'ПАНЕЛЬ ОТЛАДКИ (АДМИН)',
+  'land.debug.canisterBalance': 'Баланс канистры:',
+  'land.debug.checking': 'Проверка...',
+  'land.debug.check': 'ПРОВЕРИТЬ БАЛАНС КАНИСТРЫ',
+  'land.toast.claimed': 'Получено {amount} CBR!',
+  'land.toast.cooldown': 'Подождите ещё {time}',
+  'land.toast.mintFailed': 'Ошибка выпуска токенов: {reason}',
+  'land.toast.claimError': 'Ошибка получения наград: {message}',
+  'land.toast.upgraded': 'Участок улучшен до уровня {level}!',
+  'land.toast.maxLevel': 'Достигнут максимальный уровень',
+  'land.toast.upgradeError': 'Ошибка улучшения: {message}',
+  'landSelector.position': 'Земля {index} из {total}',
+
+  // Leaderboard
+  'leaderboard.title': 'ТОП-10 ЗЕМЕЛЬ',
+  'leaderboard.error': 'Ошибка загрузки рейтинга',
+  'leaderboard.empty': 'Нет данных для отображения',
+  'leaderboard.level': 'Уровень {level}',
+
+  // Plot customization
+  'plot.title': 'НАСТРОЙКА УЧАСТКА',
+  'plot.nameLabel': 'Название участка (макс. {max} символов)',
+  'plot.namePlaceholder': 'Введите название...',
+  'plot.updateName': 'ОБНОВИТЬ НАЗВАНИЕ',
+  'plot.decorationLabel': 'URL декорации',
+  'plot.updateDecoration': 'ОБНОВИТЬ ДЕКОРАЦИЮ',
+
+  // Discovery tab
+  'discovery.tierCache': '{tier} кэш',
+  'discovery.cost': 'Стоимость:',
+  'discovery.charge': 'Заряд:',
+  'discovery.liveCharge': 'Заряд: {current} / {cap}',
+  'discovery.chargeReady': 'Заряда достаточно',
+  'discovery.chargeIn': 'Хватит через {time}',
+  'discovery.chargeOverCap': 'Превышает ёмкость заряда',
+  'discovery.discovering': 'Обнаружение...',
+  'discovery.discover': 'ОБНАРУЖИТЬ КЭШ',
+  'discovery.myCaches': 'МОИ КЭШИ · {count, plural, one {# кэш} few {# кэша} many {# кэшей} other {# кэша}}',
+  'discovery.loadingCaches': 'Загрузка кэшей...',
+  'discovery.noCaches': 'Нет обнаруженных кэшей',
+  'discovery.cacheTitle': '{tier} кэш #{id}',
+  'discovery.readyToOpen': 'Готов к открытию',
+  'discovery.opening': 'Открытие...',
+  'discovery.open': 'ОТКРЫТЬ',
+  'discovery.openEarly': 'ОТКРЫТЬ ЗА {charge} ЗАРЯДА',
+  'discovery.dropOdds': 'Шансы модификаторов: {odds}',
+  'discovery.timeline.summary': 'Готово: {ready} · ожидают: {pending} · открыто: {opened}',
+  'discovery.timeline.openAllReady': 'ОТКРЫТЬ ГОТОВЫЕ ({count})',
+  'discovery.timeline.progress': 'Открыто {completed} из {total}',
+  'discovery.timeline.freeIn': 'Бесплатно через {time}',
+  'discovery.timeline.waitOption': 'или подождите {time}, чтобы открыть бесплатно',
+  'discovery.timeline.openedCount':
+    '{count, plural, one {# кэш открыт} few {# кэша открыто} many {# кэшей открыто} other {# кэша открыто}}',
+  'discovery.timeline.resultsTitle': 'Полученные модификаторы',
+  'discovery.timeline.resultOpened': 'Кэш #{id}: {type} ({tier})',
+  'discovery.timeline.resultFailed': 'Кэш #{id}: {message}',
+  'discovery.timeline.toast.opened': 'Открыто кэшей: {count} из {total}',
+  'discovery.toast.actorOrLandUnavailable': 'Актор или земля недоступны',
+  'discovery.toast.actorUnavailable': 'Актор недоступен',
+  'discovery.toast.insufficientCbr': 'Недостаточно CBR. Требуется: {amount} CBR',
+  'discovery.toast.discovered': '{tier} кэш обнаружен!',
+  'discovery.toast.paymentFailed': 'Ошибка оплаты: {reason}',
+  'discovery.toast.discoverError': 'Ошибка обнаружения кэша: {message}',
+  'discovery.toast.modifierReceived': 'Получен модификатор: {type} ({tier})',
+  'discovery.toast.processError': 'Ошибка обработки кэша: {message}',
+
+  // Collection tab
+  'collection.title': 'КОЛЛЕКЦИЯ МОДИФИКАТОРОВ',
+  'collection.description': 'Полный каталог модификаторов CyberGenesis. Собирайте их, открывая найденные кэши.',
+  'collection.allModifiers':
+    'ВСЕ МОДИФИКАТОРЫ ({count, plural, one {# модификатор} few {# модификатора} many {# модификаторов} other {# модификатора}})',
+  'collection.modifierId': 'ID: {id}',
+  'collection.progress': 'Собрано {owned} из {total} · дубликатов: {duplicates}',
+  'collection.tierOwned': '{owned} / {total}',
+  'collection.duplicates':
+    '{count, plural, one {# дубликат} few {# дубликата} many {# дубликатов} other {# дубликата}}',
+  'collection.filter.all': 'Все',
+  'collection.filter.owned': 'Собранные',
+  'collection.filter.missing': 'Недостающие',
+  'collection.loading': 'Загрузка каталога...',
+  'collection.loadError': 'Не удалось загрузить каталог модификаторов',
+  'collection.empty': 'Нет модификаторов для отображения',
+  'collection.missing': 'Не собран',
+  'collection.unlisted':
+    'ВНЕ КАТАЛОГА ({count, plural, one {# экземпляр} few {# экземпляра} many {# экземпляров} other {# экземпляра}})',
+  'collection.instanceId': 'Экземпляр #{id}',
+  'collection.inInventory': 'В инвентаре',
+  'collection.attachedTo': 'Установлен на участок #{id}',
+  'collection.copiesOwned': 'У вас {count, plural, one {# копия} few {# копии} many {# копий} other {# копии}}',
+  'collection.modification': 'Модификация',
+  'catalogEditor.title': 'РЕДАКТОР КАТАЛОГА МОДИФИКАТОРОВ',
+  'catalogEditor.description':
+    'Каталог заменяется целиком и только предложением управления: редактор выгружает аргументы adminSetAllModifiers для него.',
+  'catalogEditor.unsaved': 'Черновик',
+  'catalogEditor.addRow': 'Добавить',
+  'catalogEditor.removeRow': 'Удалить строку',
+  'catalogEditor.import': 'Импорт JSON/CSV',
+  'catalogEditor.exportJson': 'Экспорт JSON',
+  'catalogEditor.exportCsv': 'Экспорт CSV',
+  'catalogEditor.reset': 'Сбросить',
+  'catalogEditor.review': 'Проверить изменения',
+  'catalogEditor.checkingAssets': 'Проверка ассетов...',
+  'catalogEditor.issueCount':
+    '{count, plural, one {# ошибка} few {# ошибки} many {# ошибок} other {# ошибки}} в каталоге',
+  'catalogEditor.warningCount':
+    '{count, plural, one {# ассет не ответил} few {# ассета не ответили} many {# ассетов не ответили} other {# ассета не ответили}} — выгрузка не заблокирована',
+  'catalogEditor.issue.invalidId': 'ID должен быть целым числом',
+  'catalogEditor.issue.duplicateId': 'ID повторяется',
+  'catalogEditor.issue.missingName': 'Укажите название',
+  'catalogEditor.issue.invalidTier': 'Уровень от 1 до 4',
+  'catalogEditor.issue.invalidMultiplier': 'Множитель должен быть больше 0',
+  'catalogEditor.issue.missingAssetUrl': 'Укажите URL ассета',
+  'catalogEditor.issue.unreachableAsset': 'Ассет не ответил: проверьте URL или CORS',
+  'catalogEditor.diffTitle': 'ИЗМЕНЕНИЯ КАТАЛОГА',
+  'catalogEditor.diffSummary':
+    'Добавлено: {added} · изменено: {changed} · удалено: {removed} · всего в каталоге: {total}',
+  'catalogEditor.noChanges': 'Каталог не изменился',
+  'catalogEditor.cancel': 'Отмена',
+  'catalogEditor.payloadHint':
+    'Аргументы Candid для adminSetAllModifiers. Приложите их к предложению управления, которое заменит каталог.',
+  'catalogEditor.copyPayload': 'Копировать',
+  'catalogEditor.downloadPayload': 'СКАЧАТЬ АРГУМЕНТЫ ({count})',
+  'catalogEditor.toast.imported':
+    'Импортировано {count, plural, one {# строка} few {# строки} many {# строк} other {# строки}}',
+  'catalogEditor.toast.importError': 'Не удалось импортировать: {message}',
+  'catalogEditor.toast.invalid': 'Исправьте ошибки в каталоге перед выгрузкой',
+  'catalogEditor.toast.empty': 'Каталог не может быть пустым',
+  'catalogEditor.toast.payloadCopied': 'Аргументы скопированы',
+  'catalogEditor.toast.copyError': 'Не удалось скопировать аргументы',
+
+  // Map
+  'map.loadingLibrary': 'Загрузка библиотеки Maptalks...',
+  'map.loadingLands': 'Загрузка данных земель...',
+
+  // Profile setup
+  'profile.title': 'НАСТРОЙКА ПРОФИЛЯ',
+  'profile.description': 'Добро пожаловать в CyberGenesis! Пожалуйста, введите ваше имя для начала.',
+  'profile.nameLabel': 'Ваше имя',
+  'profile.namePlaceholder': 'Введите ваше имя',
+  'profile.creating': 'СОЗДАНИЕ ПРОФИЛЯ...',
+  'profile.create': 'СОЗДАТЬ ПРОФИЛЬ',
+  'profile.toast.nameRequired': 'Пожалуйста, введите ваше имя',
+  'profile.toast.created': 'Профиль успешно создан!',
+  'profile.toast.createFailed': 'Не удалось создать профиль',
+
+  // Landing page
+  'landing.title': 'ПОЛУЧИТЕ СВОЙ УЧАСТОК ГЕНЕЗИСА',
+  'landing.subtitle': 'Создайте уникальную виртуальную землю в киберпространстве',
+  'landing.connecting': 'Подключение...',
+  'landing.connect': 'Подключить Internet Identity',
+  'landing.loginHint': 'Войдите через Internet Identity для доступа к вашей виртуальной земле',
+  'landing.alreadyAuthenticated': 'Вы уже вошли через Internet Identity',
+  'landing.loginFailed': 'Ошибка входа. Пожалуйста, попробуйте снова.',
+  'landing.feature.biomes.title': 'Космические биомы',
+  'landing.feature.biomes.text':
+    '{count, plural, one {# уникальный тип} few {# уникальных типа} many {# уникальных типов} other {# уникального типа}} земли',
+  'landing.feature.rewards.title': 'Энергия и награды',
+  'landing.feature.rewards.text': 'Зарабатывайте токены CBR',
+  'landing.feature.visual.title': '3D визуализация',
+  'landing.feature.visual.text': 'Интерактивные модели',
+
+  // Marketplace tab
+  'market.loading': 'Загрузка маркетплейса...',
+  'market.title': 'МАРКЕТПЛЕЙС',
+  'market.subtitle': 'Покупайте и продавайте земельные участки и модификаторы за токены CBR',
+  'market.listItem': 'РАЗМЕСТИТЬ ПРЕДМЕТ',
+  'market.dialog.title': 'Разместить предмет на продажу',
+  'market.dialog.land': 'Земля',
+  'market.dialog.modifier': 'Модификатор',
+  'market.dialog.chooseLand': 'Выберите землю',
+  'market.dialog.chooseLandPlaceholder': 'Выберите земельный участок',
+  'market.dialog.chooseModifier': 'Выберите модификатор',
+  'market.dialog.modifierOption': 'Модификатор #{id} - {tier}',
+  'market.dialog.price': 'Цена продажи (CBR)',
+  'market.dialog.listing': 'Размещение...',
+  'market.filters.title': 'Фильтры',
+  'market.filters.type': 'Тип предмета',
+  'market.filters.allItems': 'Все предметы',
+  'market.filters.landOnly': 'Только земля',
+  'market.filters.modifiersOnly': 'Только модификаторы',
+  'market.filters.tier': 'Уровень редкости',
+  'market.filters.allTiers': 'Все уровни',
+  'market.filters.tierOption': 'Уровень {tier} ({name})',
+  'market.filters.minPrice': 'Мин. цена (CBR)',
+  'market.filters.maxPrice': 'Макс. цена (CBR)',
+  'market.empty.title': 'Нет доступных объявлений',
+  'market.empty.filtered': 'Нет предметов, соответствующих вашим фильтрам',
+  'market.empty.firstListing': 'Будьте первым, кто разместит предмет на продажу',
+  'market.card.land': 'Земля #{id}',
+  'market.card.modifier': 'Модификатор #{id}',
+  'market.card.yourListing': 'ВАШЕ ОБЪЯВЛЕНИЕ',
+  'market.card.type': 'Тип:',
+  'market.card.landNft': 'NFT Земля',
+  'market.card.seller': 'Продавец:',
+  'market.card.price': 'Цена:',
+  'market.card.cancelling': 'Отмена...',
+  'market.card.cancel': 'ОТМЕНИТЬ ОБЪЯВЛЕНИЕ',
+  'market.card.buying': 'Покупка...',
+  'market.card.buy': 'КУПИТЬ ПРЕДМЕТ',
+  'market.toast.bought': 'Предмет успешно куплен!',
+  'market.toast.boughtDescription': 'Вы купили предмет за {amount} CBR',
+  'market.toast.insufficientFunds': 'Недостаточно средств',
+  'market.toast.required': 'Требуется: {amount} CBR',
+  'market.toast.listingNotFound': 'Объявление не найдено',
+  'market.toast.listingNotActive': 'Объявление больше не активно',
+  'market.toast.cannotBuyOwn': 'Нельзя купить собственное объявление',
+  'market.toast.transferFailed': 'Перевод не удался',
+  'market.toast.buyFailed': 'Не удалось купить предмет',
+  'market.toast.cancelled': 'Объявление успешно отменено',
+  'market.toast.cancelFailed': 'Не удалось отменить объявление',
+  'market.toast.invalidPrice': 'Неверная цена',
+  'market.toast.selectLand': 'Пожалуйста, выберите землю для размещения',
+  'market.toast.selectModifier': 'Пожалуйста, выберите модификатор для размещения',
+  'market.toast.listed': 'Предмет успешно размещен!',
+  'market.toast.listFailed': 'Не удалось разместить предмет',
+
+  // Governance tab
+  'governance.title': 'УПРАВЛЕНИЕ',
+  'governance.subtitle': 'Стейкайте токены и участвуйте в принятии решений проекта',
+  'governance.tabs.stake': 'Стейкинг',
+  'governance.tabs.proposals': 'Предложения',
+  'governance.tabs.create': 'Создать',
+  'governance.stake.title': 'Стейкинг токенов CBR',
+  'governance.stake.info':
+    'Застейкайте свои токены CBR, чтобы получить право голоса в предложениях по управлению. Вес вашего голоса пропорционален вашей застейканной сумме.',
+  'governance.stake.current': 'Текущий стейк:',
+  'governance.stake.available': 'Доступный баланс:',
+  'governance.stake.amount': 'Сумма для стейкинга (CBR)',
+  'governance.stake.staking': 'Стейкинг...',
+  'governance.stake.submit': 'ЗАСТЕЙКАТЬ ТОКЕНЫ',
+  'governance.proposals.emptyTitle': 'Нет активных предложений',
+  'governance.proposals.emptyHint': 'Будьте первым, кто создаст предложение',
+  'governance.proposals.totalVotes': 'Всего голосов: {amount} CBR',
+  'governance.proposals.split': '{yes}% ЗА / {no}% ПРОТИВ',
+  'governance.proposals.yesVotes': 'ЗА: {amount}',
+  'governance.proposals.noVotes': 'ПРОТИВ: {amount}',
+  'governance.proposals.voteYes': 'ЗА',
+  'governance.proposals.voteNo': 'ПРОТИВ',
+  'governance.create.title': 'Создать предложение',
+  'governance.create.info':
+    'Вы должны иметь застейканные токены для создания предложений. Предложения позволяют сообществу голосовать по важным решениям проекта.',
+  'governance.create.titleLabel': 'Заголовок (макс. 100 символов)',
+  'governance.create.titlePlaceholder': 'Введите заголовок предложения',
+  'governance.create.descriptionLabel': 'Описание (макс. 1000 символов)',
+  'governance.create.descriptionPlaceholder': 'Опишите ваше предложение подробно',
+  'governance.create.creating': 'Создание...',
+  'governance.create.submit': 'СОЗДАТЬ ПРЕДЛОЖЕНИЕ',
+  'governance.toast.invalidAmount': 'Неверная сумма',
+  'governance.toast.staked': 'Токены успешно застейканы!',
+  'governance.toast.newStake': 'Новый стейк: {amount} CBR',
+  'governance.toast.insufficientTokens': 'Недостаточно токенов',
+  'governance.toast.required': 'Требуется: {amount} CBR',
+  'governance.toast.transferFailed': 'Перевод не удался',
+  'governance.toast.stakeFailed': 'Не удалось застейкать токены',
+  'governance.toast.fillAllFields': 'Пожалуйста, заполните все поля',
+  'governance.toast.titleTooLong': 'Заголовок должен быть не более 100 символов',
+  'governance.toast.descriptionTooLong': 'Описание должно быть не более 1000 символов',
+  'governance.toast.proposalCreated': 'Предложение успешно создано!',
+  'governance.toast.proposalId': 'ID предложения: {id}',
+  'governance.toast.createFailed': 'Не удалось создать предложение',
+  'governance.toast.voted': 'Голос записан!',
+  'governance.toast.voteWeight': 'Вес голоса: {amount} CBR',
+  'governance.toast.proposalNotFound': 'Предложение не найдено',
+  'governance.toast.proposalNotActive': 'Предложение больше не активно',
+  'governance.toast.alreadyVoted': 'Вы уже проголосовали за это предложение',
+  'governance.toast.notStaker': 'Вы должны застейкать токены для голосования',
+  'governance.toast.voteFailed': 'Не удалось проголосовать',
+
+  // Dashboard shell
+  'dashboard.loading': 'Загрузка данных...',
+  'dashboard.noLand': 'Земля не найдена',
+  'dashboard.tabs.land': 'Земля',
+  'dashboard.tabs.discovery': 'Открытия',
+  'dashboard.tabs.collection': 'Коллекция',
+  'dashboard.tabs.leaderboard': 'Рейтинг',
+  'dashboard.tabs.marketplace': 'Рынок',
+  'dashboard.tabs.governance': 'Управление',
+  'dashboard.tabs.map': 'Карта',
+
+  // Simulation controls
+  'simulation.title': 'СИМУЛЯЦИЯ',
+  'simulation.warpStep': '+{hours}ч',
+  'simulation.reset': 'Сбросить мир симуляции',
+  'simulation.warped': 'Время сдвинуто: {duration}',
+
+  // App connection and error screens
+  'app.connecting.title': 'ИНИЦИАЛИЗАЦИЯ СИСТЕМЫ',
+  'app.connecting.identity': 'Загрузка аутентификации...',
+  'app.connecting.network': 'Подключение к блокчейну Internet Computer...',
+  'app.connecting.stability': 'МАКСИМАЛЬНАЯ СТАБИЛЬНОСТЬ',
+  'app.connecting.timeoutLabel': 'Таймаут:',
+  'app.connecting.timeoutValue': '120 секунд (максимально рекомендуемый)',
+  'app.connecting.retriesLabel': 'Попытки повтора:',
+  'app.connecting.retriesValue': '25 попыток с экспоненциальной задержкой (1с → 45с)',
+  'app.connecting.primaryGatewayLabel': 'Основной шлюз:',
+  'app.connecting.primaryGatewayValue': 'https://ic0.app (официальный DFINITY)',
+  'app.connecting.fallbackGatewaysLabel': 'Резервные шлюзы:',
+  'app.connecting.fallbackGatewaysValue': 'boundary.ic0.app, icp-api.io (автоматическое переключение)',
+  'app.connecting.pollingLabel': 'Опрос данных:',
+  'app.connecting.pollingValue': '25 попыток с 4 проверками работоспособности',
+  'app.connecting.syncLabel': 'Синхронизация:',
+  'app.connecting.syncValue': 'Полная синхронизация конфигурации фронтенда/бэкенда',
+  'app.connecting.details':
+    'Установка стабильного соединения с автоматическим переключением шлюзов и комплексными проверками подключения ко всем пяти канистрам...',
+  'app.error.title': 'ОШИБКА ПОДКЛЮЧЕНИЯ',
+  'app.error.description':
+    'Не удалось установить стабильное соединение с сетью Internet Computer после множественных попыток повтора с таймаутом 120 секунд, экспоненциальной задержкой (25 попыток) и автоматическим переключением шлюзов.',
+  'app.error.details': 'Детали ошибки:',
+  'app.error.troubleshooting': 'ШАГИ ПО УСТРАНЕНИЮ НЕПОЛАДОК:',
+  'app.error.checkConnection': 'Проверьте стабильность вашего интернет-соединения',
+  'app.error.checkNetwork': 'Убедитесь, что VITE_DFX_NETWORK установлен на "ic" в файле .env',
+  'app.error.checkCanisterIds': 'Подтвердите правильность настройки всех ID канистр:',
+  'app.error.checkDeployed': 'Убедитесь, что канистры развернуты и работают в основной сети IC',
+  'app.error.clearCache': 'Попробуйте очистить кэш браузера и перезагрузить страницу',
+  'app.error.checkGateways': 'Проверьте доступность шлюзов: ic0.app, boundary.ic0.app, icp-api.io',
+  'app.error.networkConfig': 'КОНФИГУРАЦИЯ СЕТИ:',
+  'app.error.network': 'Сеть:',
+  'app.error.notSet': 'НЕ УСТАНОВЛЕНО',
+  'app.error.timeoutValue': '120 секунд',
+  'app.error.retryLogic': 'Логика повтора:',
+  'app.error.retryLogicValue': '25 попыток с экспоненциальной задержкой',
+  'app.error.retry': 'Повторить подключение',
+
+  // Mutation toasts raised from hooks/useQueries
+  'queries.toast.profileSaved': 'Профиль сохранен',
+  'queries.toast.rewardsClaimed': 'Награды получены!',
+  'queries.toast.plotUpgraded': 'Участок улучшен!',
+  'queries.toast.nameUpdated': 'Название обновлено',
+  'queries.toast.decorationUpdated': 'Декорация обновлена',
+  'queries.toast.modifierApplied': 'Модификатор применен!',
+  'queries.toast.landMinted': 'Новая земля создана!',
+  'queries.toast.staked': 'Токены застейканы!',
+  'queries.toast.proposalCreated': 'Предложение создано!',
+  'queries.toast.voted': 'Голос учтен!',
+  'queries.toast.listed': 'Предмет выставлен на продажу!',
+  'queries.toast.bought': 'Предмет куплен!',
+  'queries.toast.listingCancelled': 'Объявление отменено!',
+  'queries.toast.balanceUpdated': 'Баланс обновлен: {amount} CBR',
+  'queries.toast.canisterBalance': 'Баланс контракта: {amount} CBR',
+  'queries.toast.saveProfileFailed': 'Ошибка сохранения профиля: {message}',
+  'queries.toast.balanceFailed': 'Ошибка получения баланса: {message}',
+  'queries.toast.canisterBalanceFailed': 'Ошибка получения баланса контракта: {message}',
+  'queries.toast.claimFailed': 'Ошибка получения наград: {message}',
+  'queries.toast.upgradeFailed': 'Ошибка улучшения: {message}',
+  'queries.toast.nameFailed': 'Ошибка обновления названия: {message}',
+  'queries.toast.decorationFailed': 'Ошибка обновления декорации: {message}',
+  'queries.toast.modifierFailed': 'Ошибка применения модификатора: {message}',
+  'queries.toast.mintFailed': 'Ошибка создания земли: {message}',
+  'queries.toast.stakeFailed': 'Ошибка стейкинга: {message}',
+  'queries.toast.proposalFailed': 'Ошибка создания предложения: {message}',
+  'queries.toast.voteFailed': 'Ошибка голосования: {message}',
+  'queries.toast.listFailed': 'Ошибка выставления: {message}',
+  'queries.toast.buyFailed': 'Ошибка покупки: {message}',
+  'queries.toast.cancelFailed': 'Ошибка отмены: {message}',
+
+  // Admin, diagnostics and connection toasts
+  'assetActor.toast.connected': 'Asset Canister подключен',
+  'assetActor.toast.connectedDescription': 'Подключено к сети {network} через {host}',
+  'assetActor.toast.failed': 'Не удалось подключиться к Asset Canister',
+  'assetDiagnostics.toast.actorMissing': 'Актор Asset Canister не инициализирован',
+  'assetDiagnostics.toast.allPassed': '✅ Диагностика Asset Canister завершена — все тесты ({total}) пройдены',
+  'assetDiagnostics.toast.failed': 'Диагностика не удалась: {message}',
+  'assetDiagnostics.toast.somePassed': '⚠️ Диагностика Asset Canister завершена — пройдено {passed}/{total}',
+  'assetReinit.toast.aborted': 'Предварительные проверки не пройдены. Реинициализация отменена.',
+  'assetReinit.toast.alreadyInitialized': 'Asset Canister уже инициализирован',
+  'assetReinit.toast.alreadyInitializedDescription': 'Контроль доступа уже настроен',
+  'assetReinit.toast.assetUnavailable': 'Asset Canister недоступен',
+  'assetReinit.toast.completed': 'Реинициализация завершена успешно',
+  'assetReinit.toast.completedDescription': 'Asset Canister восстановлен, Land Canister не затронут',
+  'assetReinit.toast.failed': 'Реинициализация не удалась',
+  'assetReinit.toast.landNotResponding': 'Land Canister не отвечает',
+  'assetReinit.toast.landUnavailable': 'Land Canister недоступен',
+  'assetReinit.toast.partiallyRecovered': 'Asset Canister частично восстановлен',
+  'assetReinit.toast.partiallyRecoveredDescription': 'Некоторые проверки не прошли',
+  'assetReinit.toast.postChecksFailed': 'Проверка после реинициализации не удалась: {message}',
+  'assetReinit.toast.postChecksRunning': 'Проверка состояния после реинициализации...',
+  'assetReinit.toast.preChecksFailed': 'Предварительные проверки не пройдены: {message}',
+  'assetReinit.toast.preChecksPassed': 'Предварительные проверки пройдены',
+  'assetReinit.toast.preChecksRunning': 'Выполнение предварительных проверок...',
+  'assetReinit.toast.recovered': 'Asset Canister восстановлен и работает нормально',
+  'assetReinit.toast.recoveredDescription': 'Все проверки работоспособности пройдены',
+  'assetReinit.toast.reinitialized': 'Asset Canister реинициализирован',
+  'assetReinit.toast.reinitializedDescription': 'Контроль доступа успешно восстановлен',
+  'canisterDiagnostics.toast.failed': 'Не удалось завершить проверку: {message}',
+  'canisterDiagnostics.toast.healthy': '✅ Проверка сети завершена — все системы в норме',
+  'canisterDiagnostics.toast.issues': '⚠️ Проверка сети завершена — обнаружены проблемы',
+  'canisterDiagnostics.toast.starting': '🔄 Запуск полной проверки сети со сбросом кэша...',
+  'deployment.toast.healthy': '✅ Все канистры работают нормально',
+  'deployment.toast.issues': '⚠️ У некоторых канистр есть проблемы',
+  'deployment.toast.refreshing': '🔄 Обновление статуса канистр...',
+  'glbUpload.toast.actorNotReady': 'Actor не готов',
+  'glbUpload.toast.actorNotReadyDescription': 'Пожалуйста, подождите завершения инициализации AssetCanister',
+  'glbUpload.toast.available': 'Asset Canister доступен',
+  'glbUpload.toast.availableDescription': 'Загрузка разблокирована',
+  'glbUpload.toast.checkBeforeUpload': 'Пожалуйста, проверьте статус Asset Canister перед загрузкой',
+  'glbUpload.toast.healthCheckFailed': 'Ошибка проверки Asset Canister',
+  'glbUpload.toast.healthCheckFailedDescription': 'Не удалось проверить статус',
+  'glbUpload.toast.initFailed': 'Ошибка инициализации',
+  'glbUpload.toast.initFailedDescription': 'Asset Actor не готов. Пожалуйста, обновите страницу.',
+  'glbUpload.toast.invalidName': 'Неверное имя файла',
+  'glbUpload.toast.invalidNameDescription': '{name} должен быть назван как один из типов земли: {types}',
+  'glbUpload.toast.invalidType': 'Неверный тип файла',
+  'glbUpload.toast.invalidTypeDescription': '{name} не является .glb файлом',
+  'glbUpload.toast.tooLarge': 'Файл слишком большой',
+  'glbUpload.toast.tooLargeDescription': '{name} превышает лимит в 50МБ',
+  'glbUpload.toast.unauthorized': 'Неавторизован',
+  'glbUpload.toast.unauthorizedDescription':
+    'Только Internet Identity principal {principal} может загружать GLB модели',
+  'glbUpload.toast.unavailable': 'Asset Canister недоступен',
+  'glbUpload.toast.unavailableDescription': 'Загрузка заблокирована',
+  'glbUpload.toast.uploadBlockedDescription': 'Asset Canister недоступен. Проверьте статус.',
+  'glbUpload.toast.uploadFailed': 'Ошибка загрузки',
+  'glbUpload.toast.uploaded': '✅ Загружено',
+  'glbUpload.toast.uploadedDescription': '{name} успешно загружен как {landType}',
+  'glbUpload.error.actorNotInitialized': 'Asset Actor не инициализирован',
+  'glbUpload.error.invalidName': 'Неверное имя файла: {name}. Должно соответствовать типу земли.',
+  'glbUpload.error.invalidLandType': 'Неверный тип земли. Допустимые типы: {types}',
+  'glbUpload.error.emptyFile': 'Файл не может быть пустым.',
+  'glbUpload.error.tooLarge': 'Файл слишком большой: максимальный размер 50МБ',
+  'glbUpload.status.pending': 'Ожидание',
+  'glbUpload.status.uploading': 'Загрузка',
+  'glbUpload.status.error': 'Ошибка',
+  'glbUpload.initializing': 'Инициализация AssetCanister...',
+  'glbUpload.configError': 'Ошибка конфигурации',
+  'glbUpload.envErrors': 'Отсутствующие или неверные переменные окружения:',
+  'glbUpload.connectionError': 'Ошибка подключения',
+  'glbUpload.actorInitFailed': 'Не удалось инициализировать Asset Canister actor',
+  'glbUpload.unknownPrincipal': 'неизвестно',
+  'glbUpload.unauthorizedTitle': 'Неавторизованный доступ',
+  'glbUpload.yourPrincipal': 'Ваш Principal:',
+  'glbUpload.authorized': 'АВТОРИЗОВАН',
+  'glbUpload.principalConfirmed': 'Principal подтвержден',
+  'glbUpload.validTypes': 'Допустимые типы земли:',
+  'glbUpload.dropHere': 'Перетащите файлы сюда',
+  'glbUpload.uploadModels': 'Загрузить GLB модели',
+  'glbUpload.dropHint': 'Перетащите .glb файлы или нажмите для выбора',
+  'glbUpload.blockedHint': 'Проверьте статус Asset Canister для разблокировки загрузки',
+  'glbUpload.maxSize': 'Максимальный размер файла: 50МБ',
+  'glbUpload.chooseFiles': 'Выбрать файлы',
+  'glbUpload.fileCount': 'Загруженные файлы ({count})',
+  'glbUpload.clearCompleted': 'Очистить завершенные',
+  'glbUpload.clearAll': 'Очистить все',
+  'glbUpload.fileSize': 'Размер: {size}',
+  'glbUpload.progress': '{progress}% загружено',
+  'glbUpload.fileError': 'Ошибка: {message}',
+  'plug.toast.connected': 'Кошелек подключен',
+  'plug.toast.connectedDescription': 'Principal: {principal}...',
+  'plug.toast.connectionFailed': 'Ошибка подключения',
+  'plug.toast.connectionFailedDescription': 'Не удалось подключить кошелек',
+  'plug.toast.disconnected': 'Кошелек отключен',
+  'plug.toast.install': 'Пожалуйста, установите расширение Plug Wallet',
+  'plug.toast.notDetected': 'Plug Wallet не обнаружен',
+  'plug.toast.transactionFailed': 'Транзакция не удалась',
+  'plug.title': 'Plug Wallet',
+  'plug.connect': 'Подключить кошелек',
+  'plug.connecting': 'Подключение...',
+  'plug.copyPrincipal': 'Копировать Principal ID',
+  'plug.disconnect': 'Отключить кошелек',
+  'plug.signWith': 'Подписывать транзакции',
+  'plug.signer.internet-identity': 'Internet Identity',
+  'plug.signer.plug': 'Plug Wallet',
+  'plug.notConnectedFallback': 'Plug не подключен, поэтому транзакции подписывает Internet Identity.',
+  'reconnect.toast.failed': 'Ошибка переподключения',
+  'reconnect.toast.reconnecting': 'Переподключение...',
+  'reconnect.toast.reconnectingDescription': 'Автоматическая реинициализация соединения',
+  'reconnect.toast.restored': 'Соединение восстановлено',
+  'reconnect.toast.restoredDescription': 'Подключено через {gateway}',
+
+  // Language switcher
+  'language.label': 'Язык интерфейса',
+  'language.ru': 'RU',
+  'language.en': 'EN',
+
+  // Notifications
+  'notifications.on': 'Уведомления вкл.',
+  'notifications.off': 'Уведомления выкл.',
+  'notifications.blocked': 'Уведомления заблокированы в настройках браузера',
+  'notifications.toast.enabled': 'Уведомления включены',
+  'notifications.toast.disabled': 'Уведомления выключены',
+  'notifications.toast.denied': 'Браузер не разрешил уведомления',
+  'notifications.landFallback': 'Участок #{id}',
+  'notifications.claimReady.title': 'Награда готова',
+  'notifications.claimReady.body': '{land}: перезарядка закончилась, можно получить награду',
+  'notifications.cacheReady.title': 'Кэш готов',
+  'notifications.cacheReady.body': 'Кэш #{id} можно открыть бесплатно',
+  'notifications.chargeFull.title': 'Заряд полон',
+  'notifications.chargeFull.body': '{land}: заряд достиг {cap}',
+};
+
+export type MessageKey = keyof typeof ru;
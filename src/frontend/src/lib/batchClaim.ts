@@ -0,0 +1,75 @@
+// Batch reward claims across every land an owner holds
+// Lands the canister would reject (24h cooldown, or less charge than a claim costs) are
+// skipped up front so the batch only spends calls on claims that can succeed.
+
+import { ECONOMY } from '@/config/economy';
+import { chargeAt } from './chargeModel';
+import type { ClaimResult, LandData } from '@/backend';
+
+export type ClaimSkipReason = 'cooldown' | 'insufficientCharge';
+
+/** Outcome for one land: skipped before calling, the canister's result, or a thrown error. */
+export type BatchClaimOutcome =
+  | { landId: bigint; kind: 'skipped'; reason: ClaimSkipReason }
+  | { landId: bigint; kind: 'result'; result: ClaimResult }
+  | { landId: bigint; kind: 'error'; message: string };
+
+export interface BatchClaimProgress {
+  /** Lands processed so far, including skipped ones. */
+  completed: number;
+  total: number;
+  /** Land being claimed right now, null between calls and once the batch is done. */
+  currentLandId: bigint | null;
+}
+
+export interface BatchClaimSummary {
+  tokensClaimed: bigint;
+  claimed: number;
+  /** Lands skipped for or rejected by the 24h cooldown. */
+  cooldowns: number;
+  insufficientCharge: number;
+  mintFailures: { landId: bigint; reason: string }[];
+  errors: { landId: bigint; message: string }[];
+}
+
+/** Why `land` cannot be claimed at `nowMs`, or null when a claim should succeed. */
+export function claimBlocker(land: LandData, nowMs: number = Date.now()): ClaimSkipReason | null {
+  const nextClaimMs = Number(land.lastClaimTime / BigInt(1_000_000)) + ECONOMY.claim.cooldownMs;
+  if (nowMs < nextClaimMs) return 'cooldown';
+  if (chargeAt(land, nowMs) < ECONOMY.claim.chargeCost) return 'insufficientCharge';
+  return null;
+}
+
+export function summarizeBatchClaim(outcomes: BatchClaimOutcome[]): BatchClaimSummary {
+  const summary: BatchClaimSummary = {
+    tokensClaimed: BigInt(0),
+    claimed: 0,
+    cooldowns: 0,
+    insufficientCharge: 0,
+    mintFailures: [],
+    errors: [],
+  };
+
+  for (const outcome of outcomes) {
+    if (outcome.kind === 'error') {
+      summary.errors.push({ landId: outcome.landId, message: outcome.message });
+    } else if (outcome.kind === 'skipped') {
+      if (outcome.reason === 'cooldown') summary.cooldowns += 1;
+      else summary.insufficientCharge += 1;
+    } else {
+      const { result } = outcome;
+      if (result.__kind__ === 'success') {
+        summary.tokensClaimed += result.success.tokensClaimed;
+        summary.claimed += 1;
+      } else if (result.__kind__ === 'cooldown') {
+        summary.cooldowns += 1;
+      } else if (result.__kind__ === 'insufficientCharge') {
+        summary.insufficientCharge += 1;
+      } else if (result.__kind__ === 'mintFailed') {
+        summary.mintFailures.push({ landId: outcome.landId, reason: result.mintFailed });
+      }
+    }
+  }
+
+  return summary;
+}
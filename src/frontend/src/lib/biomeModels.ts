@@ -0,0 +1,65 @@
+// Biome → land model resolution
+// Each biome has an ordered list of candidate URLs: the model an admin uploaded to the asset
+// canister, the configured CDN, terrain generated in the browser, then the placeholder bundled
+// with the app. The scene tries them in order and reports which one actually rendered.
+
+export type BiomeModelSource = 'asset' | 'cdn' | 'procedural' | 'placeholder';
+
+export interface BiomeModelCandidate {
+  source: BiomeModelSource;
+  url: string;
+}
+
+const DEFAULT_MODEL_CDN_URL = 'https://raw.githubusercontent.com/dobr312/cyberland/main/public/models/';
+const MODEL_CDN_URL: string = import.meta.env.VITE_MODEL_CDN_URL || DEFAULT_MODEL_CDN_URL;
+export const PLACEHOLDER_MODEL_URL = '/models/placeholder-land.glb';
+// Not fetched; identifies the procedural terrain candidate in the same list as real models
+const PROCEDURAL_MODEL_SCHEME = 'procedural:';
+
+// CDN file names that differ from `${biome}.glb`
+const CDN_FILENAMES: Record<string, string> = {
+  FOREST_VALLEY: 'FOREST_VALLEY_KTX2.glb',
+};
+
+/**
+ * Candidates for `biome`, best first. `assetModels` is the asset canister's `listGLBModels()`,
+ * whose URLs carry the upload time, so a replaced model gets a new URL in every client.
+ */
+export function resolveBiomeModels(biome: string, assetModels: Array<[string, string]>): BiomeModelCandidate[] {
+  const candidates: BiomeModelCandidate[] = [];
+
+  const uploaded = assetModels.find(([filename]) => filename === `${biome}.glb`);
+  if (uploaded) {
+    candidates.push({ source: 'asset', url: uploaded[1] });
+  }
+
+  candidates.push({ source: 'cdn', url: MODEL_CDN_URL + (CDN_FILENAMES[biome] ?? `${biome}.glb`) });
+  candidates.push({ source: 'procedural', url: PROCEDURAL_MODEL_SCHEME + biome });
+  candidates.push({ source: 'placeholder', url: PLACEHOLDER_MODEL_URL });
+  return candidates;
+}
+
+class BiomeModelReport {
+  private served: Record<string, BiomeModelCandidate> = {};
+  private listeners = new Set<() => void>();
+
+  /** Model that rendered for each biome this session. Stable between changes for useSyncExternalStore. */
+  getSnapshot = (): Record<string, BiomeModelCandidate> => this.served;
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  record(biome: string, candidate: BiomeModelCandidate): void {
+    const current = this.served[biome];
+    if (current?.url === candidate.url) return;
+    console.log(`[BiomeModels] ${biome} served from ${candidate.source}:`, candidate.url);
+    this.served = { ...this.served, [biome]: candidate };
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const biomeModelReport = new BiomeModelReport();
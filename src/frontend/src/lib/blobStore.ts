@@ -0,0 +1,66 @@
+// Minimal IndexedDB key-value store for binary assets
+// Every operation degrades to a miss when IndexedDB is unavailable (private mode, old
+// browsers), so callers can treat the store as a best-effort cache.
+
+export class BlobStore {
+  private db: Promise<IDBDatabase | null> | null = null;
+
+  constructor(
+    private readonly dbName: string,
+    private readonly storeName: string
+  ) {}
+
+  async get(key: string): Promise<Blob | null> {
+    const result = await this.request<Blob | undefined>('readonly', (store) => store.get(key));
+    return result ?? null;
+  }
+
+  async put(key: string, value: Blob): Promise<void> {
+    await this.request('readwrite', (store) => store.put(value, key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.request('readwrite', (store) => store.delete(key));
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.db) {
+      this.db = new Promise((resolve) => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(this.storeName);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn(`[BlobStore] Could not open ${this.dbName}:`, request.error);
+          resolve(null);
+        };
+      });
+    }
+    return this.db;
+  }
+
+  private async request<T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T | undefined> {
+    const db = await this.open();
+    if (!db) return undefined;
+
+    return new Promise((resolve) => {
+      try {
+        const request = run(db.transaction(this.storeName, mode).objectStore(this.storeName));
+        request.onsuccess = () => resolve(request.result as T);
+        request.onerror = () => {
+          console.warn(`[BlobStore] ${mode} on ${this.storeName} failed:`, request.error);
+          resolve(undefined);
+        };
+      } catch (error) {
+        console.warn(`[BlobStore] ${mode} on ${this.storeName} failed:`, error);
+        resolve(undefined);
+      }
+    });
+  }
+}
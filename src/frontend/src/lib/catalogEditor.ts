@@ -0,0 +1,324 @@
+// Modifier catalog editing for admins
+// adminSetAllModifiers replaces the whole catalog and only the governance canister may call it,
+// so edits are made on a draft of plain text rows, validated as a whole, compared against
+// getAllModifiers and exported as the call's Candid arguments for a governance proposal.
+
+import type { Modifier } from '@/backend';
+
+/** One editable catalog row; every field is kept as typed until validation. */
+export interface ModifierDraft {
+  mod_id: string;
+  name: string;
+  rarity_tier: string;
+  multiplier_value: string;
+  asset_url: string;
+}
+
+export type DraftField = keyof ModifierDraft;
+
+export type CatalogIssueCode =
+  | 'invalidId'
+  | 'duplicateId'
+  | 'missingName'
+  | 'invalidTier'
+  | 'invalidMultiplier'
+  | 'missingAssetUrl'
+  | 'unreachableAsset';
+
+export interface CatalogIssue {
+  /** Index into the draft list. */
+  row: number;
+  field: DraftField;
+  code: CatalogIssueCode;
+}
+
+export interface CatalogValidation {
+  issues: CatalogIssue[];
+  /** Problems worth a look that do not block the export, such as assets that did not answer. */
+  warnings: CatalogIssue[];
+  /** The parsed catalog, or null while any issue remains. */
+  modifiers: Modifier[] | null;
+}
+
+export type CatalogChange =
+  | { kind: 'added'; modifier: Modifier }
+  | { kind: 'removed'; modifier: Modifier }
+  | { kind: 'changed'; before: Modifier; after: Modifier; fields: DraftField[] };
+
+export const CATALOG_FIELDS: readonly DraftField[] = ['mod_id', 'name', 'rarity_tier', 'multiplier_value', 'asset_url'];
+
+const MIN_TIER = 1;
+const MAX_TIER = 4;
+
+export function toDraft(modifier: Modifier): ModifierDraft {
+  return {
+    mod_id: modifier.mod_id.toString(),
+    name: modifier.name,
+    rarity_tier: modifier.rarity_tier.toString(),
+    multiplier_value: String(modifier.multiplier_value),
+    asset_url: modifier.asset_url,
+  };
+}
+
+export function emptyDraft(drafts: ModifierDraft[]): ModifierDraft {
+  const ids = drafts.map((draft) => Number(draft.mod_id)).filter(Number.isInteger);
+  return {
+    mod_id: String(ids.length > 0 ? Math.max(...ids) + 1 : 1),
+    name: '',
+    rarity_tier: String(MIN_TIER),
+    multiplier_value: '1',
+    asset_url: '',
+  };
+}
+
+/**
+ * Checks every row and the catalog as a whole. `unreachableUrls` comes from
+ * `findUnreachableAssets`, since reachability can only be checked asynchronously. A failed check
+ * may only mean the asset host does not allow cross-origin requests, so it is a warning.
+ */
+export function validateCatalog(
+  drafts: ModifierDraft[],
+  unreachableUrls: ReadonlySet<string> = new Set()
+): CatalogValidation {
+  const issues: CatalogIssue[] = [];
+  const warnings: CatalogIssue[] = [];
+  const idCounts = new Map<string, number>();
+  for (const draft of drafts) {
+    const id = draft.mod_id.trim();
+    idCounts.set(id, (idCounts.get(id) ?? 0) + 1);
+  }
+
+  drafts.forEach((draft, row) => {
+    const id = draft.mod_id.trim();
+    if (!/^\d+$/.test(id)) {
+      issues.push({ row, field: 'mod_id', code: 'invalidId' });
+    } else if ((idCounts.get(id) ?? 0) > 1) {
+      issues.push({ row, field: 'mod_id', code: 'duplicateId' });
+    }
+
+    if (draft.name.trim() === '') {
+      issues.push({ row, field: 'name', code: 'missingName' });
+    }
+
+    const tier = Number(draft.rarity_tier.trim());
+    if (!Number.isInteger(tier) || tier < MIN_TIER || tier > MAX_TIER) {
+      issues.push({ row, field: 'rarity_tier', code: 'invalidTier' });
+    }
+
+    const multiplier = Number(draft.multiplier_value.trim());
+    if (draft.multiplier_value.trim() === '' || !Number.isFinite(multiplier) || multiplier <= 0) {
+      issues.push({ row, field: 'multiplier_value', code: 'invalidMultiplier' });
+    }
+
+    const url = draft.asset_url.trim();
+    if (url === '') {
+      issues.push({ row, field: 'asset_url', code: 'missingAssetUrl' });
+    } else if (unreachableUrls.has(url)) {
+      warnings.push({ row, field: 'asset_url', code: 'unreachableAsset' });
+    }
+  });
+
+  if (issues.length > 0) {
+    return { issues, warnings, modifiers: null };
+  }
+
+  return {
+    issues,
+    warnings,
+    modifiers: drafts.map((draft) => ({
+      mod_id: BigInt(draft.mod_id.trim()),
+      name: draft.name.trim(),
+      rarity_tier: BigInt(draft.rarity_tier.trim()),
+      multiplier_value: Number(draft.multiplier_value.trim()),
+      asset_url: draft.asset_url.trim(),
+    })),
+  };
+}
+
+/** Asset URLs among `urls` that do not answer with a successful response or cannot be fetched. */
+export async function findUnreachableAssets(urls: string[]): Promise<Set<string>> {
+  const unique = [...new Set(urls.map((url) => url.trim()).filter((url) => url !== ''))];
+  const results = await Promise.all(
+    unique.map(async (url) => {
+      try {
+        const response = await fetch(url, { method: 'HEAD', cache: 'no-store' });
+        return response.ok ? null : url;
+      } catch {
+        return url;
+      }
+    })
+  );
+  return new Set(results.filter((url): url is string => url !== null));
+}
+
+/** Changes `next` makes to `current`, matched by mod_id and ordered by id. */
+export function diffCatalog(current: Modifier[], next: Modifier[]): CatalogChange[] {
+  const before = new Map(current.map((modifier) => [modifier.mod_id, modifier]));
+  const after = new Map(next.map((modifier) => [modifier.mod_id, modifier]));
+  const changes: CatalogChange[] = [];
+
+  for (const modifier of next) {
+    const previous = before.get(modifier.mod_id);
+    if (!previous) {
+      changes.push({ kind: 'added', modifier });
+      continue;
+    }
+    const fields = CATALOG_FIELDS.filter((field) => previous[field] !== modifier[field]);
+    if (fields.length > 0) {
+      changes.push({ kind: 'changed', before: previous, after: modifier, fields });
+    }
+  }
+  for (const modifier of current) {
+    if (!after.has(modifier.mod_id)) {
+      changes.push({ kind: 'removed', modifier });
+    }
+  }
+
+  return changes.sort((a, b) => {
+    const idA = a.kind === 'changed' ? a.after.mod_id : a.modifier.mod_id;
+    const idB = b.kind === 'changed' ? b.after.mod_id : b.modifier.mod_id;
+    return idA < idB ? -1 : idA > idB ? 1 : 0;
+  });
+}
+
+function candidText(value: string): string {
+  const escaped = value.replace(/[\\"\u0000-\u001f\u007f]/g, (char) => {
+    if (char === '\\') return '\\\\';
+    if (char === '"') return '\\"';
+    if (char === '\n') return '\\n';
+    if (char === '\r') return '\\r';
+    if (char === '\t') return '\\t';
+    return `\\u{${char.charCodeAt(0).toString(16)}}`;
+  });
+  return `"${escaped}"`;
+}
+
+// Candid float literals need a fractional part or an exponent
+function candidFloat(value: number): string {
+  const text = String(value);
+  return /[.e]/.test(text) ? text : `${text}.0`;
+}
+
+/**
+ * Candid text arguments for `adminSetAllModifiers(vec Modifier)`, ready to paste into the
+ * governance proposal that executes the call.
+ */
+export function catalogToCandidArgs(modifiers: Modifier[]): string {
+  const records = modifiers.map(
+    (modifier) =>
+      `  record {\n` +
+      `    mod_id = ${modifier.mod_id} : nat;\n` +
+      `    name = ${candidText(modifier.name)};\n` +
+      `    rarity_tier = ${modifier.rarity_tier} : nat;\n` +
+      `    multiplier_value = ${candidFloat(modifier.multiplier_value)} : float64;\n` +
+      `    asset_url = ${candidText(modifier.asset_url)};\n` +
+      `  };`
+  );
+  return `(\n vec {\n${records.join('\n')}\n },\n)\n`;
+}
+
+// JSON has no bigint, so ids and tiers are written as numbers
+export function catalogToJson(drafts: ModifierDraft[]): string {
+  return JSON.stringify(
+    drafts.map((draft) => ({
+      mod_id: Number(draft.mod_id),
+      name: draft.name,
+      rarity_tier: Number(draft.rarity_tier),
+      multiplier_value: Number(draft.multiplier_value),
+      asset_url: draft.asset_url,
+    })),
+    null,
+    2
+  );
+}
+
+/** Parses an exported JSON catalog; values are kept as text so validation can report them. */
+export function catalogFromJson(text: string): ModifierDraft[] {
+  const parsed: unknown = JSON.parse(text);
+  if (!Array.isArray(parsed)) {
+    throw new Error('Expected a JSON array of modifiers');
+  }
+  return parsed.map((item) => {
+    const record = (item ?? {}) as Record<string, unknown>;
+    return {
+      mod_id: String(record.mod_id ?? ''),
+      name: String(record.name ?? ''),
+      rarity_tier: String(record.rarity_tier ?? ''),
+      multiplier_value: String(record.multiplier_value ?? ''),
+      asset_url: String(record.asset_url ?? ''),
+    };
+  });
+}
+
+function csvCell(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function catalogToCsv(drafts: ModifierDraft[]): string {
+  const lines = [CATALOG_FIELDS.join(',')];
+  for (const draft of drafts) {
+    lines.push(CATALOG_FIELDS.map((field) => csvCell(draft[field])).join(','));
+  }
+  return lines.join('\n') + '\n';
+}
+
+// RFC 4180 records: quoted cells may contain commas, doubled quotes and line breaks
+function parseCsvRecords(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(cell);
+      records.push(record);
+      record = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || record.length > 0) {
+    record.push(cell);
+    records.push(record);
+  }
+
+  return records.filter((row) => row.some((value) => value.trim() !== ''));
+}
+
+/** Parses a CSV catalog whose header row names the columns, in any order. */
+export function catalogFromCsv(text: string): ModifierDraft[] {
+  const [header, ...rows] = parseCsvRecords(text);
+  if (!header) return [];
+
+  const columns = header.map((name) => name.trim());
+  const missing = CATALOG_FIELDS.filter((field) => !columns.includes(field));
+  if (missing.length > 0) {
+    throw new Error(`Missing CSV columns: ${missing.join(', ')}`);
+  }
+
+  return rows.map((row) => {
+    const draft = {} as ModifierDraft;
+    for (const field of CATALOG_FIELDS) {
+      draft[field] = row[columns.indexOf(field)] ?? '';
+    }
+    return draft;
+  });
+}
@@ -0,0 +1,38 @@
+// Client-side charge model
+// Mirrors the land canister's updateCharge: one point per full minute elapsed since
+// `lastChargeUpdate`, capped at `chargeCap`, so the UI can tick between refetches.
+
+import { ECONOMY } from '@/config/economy';
+import type { LandData } from '@/backend';
+
+const NANOS_PER_MILLI = BigInt(1_000_000);
+const MINUTE_IN_NANOS = BigInt(60_000_000_000);
+
+function toNanos(ms: number): bigint {
+  return BigInt(Math.floor(ms)) * NANOS_PER_MILLI;
+}
+
+/** Charge the canister would compute for `land` at `nowMs`. */
+export function chargeAt(land: LandData, nowMs: number = Date.now()): number {
+  const elapsed = toNanos(nowMs) - land.lastChargeUpdate;
+  const minutesElapsed = elapsed > BigInt(0) ? elapsed / MINUTE_IN_NANOS : BigInt(0);
+  const regenerated = land.cycleCharge + minutesElapsed * BigInt(ECONOMY.charge.regenPerMinute);
+  return Number(regenerated > land.chargeCap ? land.chargeCap : regenerated);
+}
+
+/**
+ * Milliseconds until `land` holds at least `target` charge: 0 when it already does,
+ * null when `target` is above the cap and can never be reached.
+ */
+export function msUntilCharge(land: LandData, target: number, nowMs: number = Date.now()): number | null {
+  if (target > Number(land.chargeCap)) return null;
+  if (chargeAt(land, nowMs) >= target) return 0;
+
+  const missingMinutes = Math.ceil((target - Number(land.cycleCharge)) / ECONOMY.charge.regenPerMinute);
+  const reachedAt = land.lastChargeUpdate + BigInt(missingMinutes) * MINUTE_IN_NANOS;
+  return Math.max(0, Number((reachedAt - toNanos(nowMs)) / NANOS_PER_MILLI));
+}
+
+export function msUntilFull(land: LandData, nowMs: number = Date.now()): number {
+  return msUntilCharge(land, Number(land.chargeCap), nowMs) ?? 0;
+}
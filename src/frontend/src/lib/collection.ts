@@ -0,0 +1,99 @@
+// Modifier collection: the canister's catalog joined with what the player owns
+// Modifications carry the catalog mod_id. Modifier instances only carry a type name, so they
+// match the catalog entry of the same name; anything else is reported as unlisted.
+
+import type { LandData, Modification, Modifier, ModifierInstance } from '@/backend';
+
+export interface OwnedInstance {
+  instance: ModifierInstance;
+  /** Land the instance is attached to, or null while it sits in the inventory. */
+  landId: bigint | null;
+}
+
+export interface CollectionEntry {
+  modifier: Modifier;
+  modifications: Modification[];
+  instances: OwnedInstance[];
+  /** Every owned copy: modifications plus instances. */
+  copies: number;
+}
+
+export interface TierCompletion {
+  tier: number;
+  total: number;
+  owned: number;
+  /** Owned share of the tier, 0-1. */
+  completion: number;
+  /** Copies beyond the first, summed over the tier. */
+  duplicates: number;
+}
+
+export interface ModifierCollection {
+  entries: CollectionEntry[];
+  tiers: TierCompletion[];
+  /** Owned instances whose type matches no catalog entry. */
+  unlisted: OwnedInstance[];
+  owned: number;
+  duplicates: number;
+}
+
+export function ownedInstances(inventory: ModifierInstance[], lands: LandData[]): OwnedInstance[] {
+  return [
+    ...inventory.map((instance) => ({ instance, landId: null })),
+    ...lands.flatMap((land) => land.attachedModifications.map((instance) => ({ instance, landId: land.landId }))),
+  ];
+}
+
+export function buildCollection(
+  catalog: Modifier[],
+  modifications: Modification[],
+  instances: OwnedInstance[]
+): ModifierCollection {
+  const byName = new Map(catalog.map((modifier) => [modifier.name, modifier.mod_id]));
+  const matchedInstances = new Map<bigint, OwnedInstance[]>();
+  const unlisted: OwnedInstance[] = [];
+
+  for (const owned of instances) {
+    const modId = byName.get(owned.instance.modifierType);
+    if (modId === undefined) {
+      unlisted.push(owned);
+    } else {
+      matchedInstances.set(modId, [...(matchedInstances.get(modId) ?? []), owned]);
+    }
+  }
+
+  const entries = [...catalog]
+    .sort((a, b) => Number(a.rarity_tier - b.rarity_tier) || Number(a.mod_id - b.mod_id))
+    .map((modifier) => {
+      const entryModifications = modifications.filter((mod) => mod.mod_id === modifier.mod_id);
+      const entryInstances = matchedInstances.get(modifier.mod_id) ?? [];
+      return {
+        modifier,
+        modifications: entryModifications,
+        instances: entryInstances,
+        copies: entryModifications.length + entryInstances.length,
+      };
+    });
+
+  const tiers = new Map<number, TierCompletion>();
+  for (const entry of entries) {
+    const tier = Number(entry.modifier.rarity_tier);
+    const completion = tiers.get(tier) ?? { tier, total: 0, owned: 0, completion: 0, duplicates: 0 };
+    completion.total += 1;
+    if (entry.copies > 0) {
+      completion.owned += 1;
+      completion.duplicates += entry.copies - 1;
+    }
+    completion.completion = completion.owned / completion.total;
+    tiers.set(tier, completion);
+  }
+
+  const tierList = [...tiers.values()].sort((a, b) => a.tier - b.tier);
+  return {
+    entries,
+    tiers: tierList,
+    unlisted,
+    owned: tierList.reduce((sum, tier) => sum + tier.owned, 0),
+    duplicates: tierList.reduce((sum, tier) => sum + tier.duplicates, 0),
+  };
+}
@@ -37,24 +37,38 @@ export const debugPerformance = (label: string, startTime: number) => {
   }
 };
 
+export interface GPUInfo {
+  type: 'WebGL2' | 'WebGL1';
+  renderer: string;
+  vendor: string;
+  maxTextureSize: number;
+}
+
+// Unmasked renderer/vendor strings where the browser exposes them; also used to pick a quality tier
+export const getGPUInfo = (context: WebGLRenderingContext | WebGL2RenderingContext): GPUInfo => {
+  const debugInfo = context.getExtension('WEBGL_debug_renderer_info');
+  return {
+    type: typeof WebGL2RenderingContext !== 'undefined' && context instanceof WebGL2RenderingContext ? 'WebGL2' : 'WebGL1',
+    renderer: debugInfo ? context.getParameter(debugInfo.UNMASKED_RENDERER_WEBGL) : 'Unknown',
+    vendor: debugInfo ? context.getParameter(debugInfo.UNMASKED_VENDOR_WEBGL) : 'Unknown',
+    maxTextureSize: context.getParameter(context.MAX_TEXTURE_SIZE),
+  };
+};
+
 // ✅ FIX 6: GPU Context Diagnostics with WebGL confirmation
 export const debugGPUContext = (gl: any) => {
   if (!DEBUG_MODE) return;
 
   try {
     const context = gl.getContext();
-    const debugInfo = gl.getExtension('WEBGL_debug_renderer_info');
-    
+
     console.log('[GPU Diagnostics] 🔍 Context Information:', {
-      type: context instanceof WebGL2RenderingContext ? 'WebGL2' : 'WebGL1',
-      renderer: debugInfo ? gl.getParameter(debugInfo.UNMASKED_RENDERER_WEBGL) : 'Unknown',
-      vendor: debugInfo ? gl.getParameter(debugInfo.UNMASKED_VENDOR_WEBGL) : 'Unknown',
-      version: gl.getParameter(gl.VERSION),
-      shadingLanguageVersion: gl.getParameter(gl.SHADING_LANGUAGE_VERSION),
-      maxTextureSize: gl.getParameter(gl.MAX_TEXTURE_SIZE),
-      maxVertexAttribs: gl.getParameter(gl.MAX_VERTEX_ATTRIBS),
-      maxViewportDims: gl.getParameter(gl.MAX_VIEWPORT_DIMS),
-      contextAttributes: gl.getContextAttributes(),
+      ...getGPUInfo(context),
+      version: context.getParameter(context.VERSION),
+      shadingLanguageVersion: context.getParameter(context.SHADING_LANGUAGE_VERSION),
+      maxVertexAttribs: context.getParameter(context.MAX_VERTEX_ATTRIBS),
+      maxViewportDims: context.getParameter(context.MAX_VIEWPORT_DIMS),
+      contextAttributes: context.getContextAttributes(),
     });
 
     // ✅ FIX 6: Confirm WebGLRenderer (not WebGPU)
@@ -0,0 +1,136 @@
+// Frame scheduling for everything that animates
+// The land scene and the 2D page backgrounds draw from one policy: full rate while the user
+// is active, a slow clock and a low frame rate once they go idle, and nothing at all while the
+// page is hidden. A shared animation clock keeps the slowdown smooth instead of jumping.
+
+// No pointer, key, wheel or scroll input for this long counts as idle
+export const IDLE_AFTER_MS = 30 * 1000;
+export const IDLE_FPS = 15;
+// Background animations run at this share of normal speed while idle
+export const IDLE_TIME_SCALE = 0.25;
+
+// rAF timestamps jitter, so a frame this close to the idle interval still counts as due
+const FRAME_SLACK_MS = 2;
+
+const ACTIVITY_EVENTS = ['pointermove', 'pointerdown', 'keydown', 'wheel', 'touchstart', 'scroll'] as const;
+
+export interface FrameSchedule {
+  /** The page is in a visible tab. */
+  visible: boolean;
+  /** No user input for IDLE_AFTER_MS. */
+  idle: boolean;
+}
+
+class FrameScheduler {
+  private state: FrameSchedule = { visible: true, idle: false };
+  private listeners = new Set<() => void>();
+  private lastActivity = 0;
+  private idleTimeout: ReturnType<typeof setTimeout> | null = null;
+  // The clock is piecewise linear: seconds accumulated up to the last rate change, plus the
+  // time since then at the current rate
+  private clockBase = 0;
+  private clockSince = 0;
+
+  constructor() {
+    if (typeof document === 'undefined') return;
+    this.clockSince = performance.now();
+    this.lastActivity = this.clockSince;
+    this.state = { visible: document.visibilityState !== 'hidden', idle: false };
+
+    document.addEventListener('visibilitychange', () => {
+      this.setState({ ...this.state, visible: document.visibilityState !== 'hidden' });
+    });
+    ACTIVITY_EVENTS.forEach((type) =>
+      window.addEventListener(type, this.handleActivity, { passive: true, capture: true })
+    );
+    this.scheduleIdleCheck(IDLE_AFTER_MS);
+  }
+
+  /** Current visibility and idleness. Stable between changes for useSyncExternalStore. */
+  getSnapshot = (): FrameSchedule => this.state;
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /** Shared animation clock in seconds. Slows down while idle and stops while hidden. */
+  now(): number {
+    return this.clockBase + ((performance.now() - this.clockSince) / 1000) * this.timeScale();
+  }
+
+  /**
+   * Calls `frame` on animation frames while the page is visible: every frame while the user is
+   * active, IDLE_FPS once idle. `frame` receives the shared-clock seconds since its previous
+   * call. Returns a function that stops the loop.
+   */
+  loop(frame: (delta: number) => void): () => void {
+    let handle: number | null = null;
+    let lastFrame = 0;
+    let lastClock = this.now();
+
+    const tick = (time: number) => {
+      handle = requestAnimationFrame(tick);
+      if (this.state.idle && time - lastFrame < 1000 / IDLE_FPS - FRAME_SLACK_MS) return;
+      lastFrame = time;
+      const clock = this.now();
+      frame(clock - lastClock);
+      lastClock = clock;
+    };
+
+    const sync = () => {
+      if (this.state.visible && handle === null) {
+        handle = requestAnimationFrame(tick);
+      } else if (!this.state.visible && handle !== null) {
+        cancelAnimationFrame(handle);
+        handle = null;
+      }
+    };
+
+    const unsubscribe = this.subscribe(sync);
+    sync();
+    return () => {
+      unsubscribe();
+      if (handle !== null) cancelAnimationFrame(handle);
+    };
+  }
+
+  private timeScale(): number {
+    if (!this.state.visible) return 0;
+    return this.state.idle ? IDLE_TIME_SCALE : 1;
+  }
+
+  private handleActivity = (): void => {
+    this.lastActivity = performance.now();
+    if (this.state.idle) {
+      this.setState({ ...this.state, idle: false });
+      this.scheduleIdleCheck(IDLE_AFTER_MS);
+    }
+  };
+
+  // One timer for the whole idle window instead of restarting it on every pointer move
+  private scheduleIdleCheck(delay: number): void {
+    if (this.idleTimeout) clearTimeout(this.idleTimeout);
+    this.idleTimeout = setTimeout(() => {
+      this.idleTimeout = null;
+      const quietFor = performance.now() - this.lastActivity;
+      if (quietFor >= IDLE_AFTER_MS) this.setState({ ...this.state, idle: true });
+      else this.scheduleIdleCheck(IDLE_AFTER_MS - quietFor);
+    }, delay);
+  }
+
+  private setState(next: FrameSchedule): void {
+    if (next.visible === this.state.visible && next.idle === this.state.idle) return;
+    // Fold the time run so far into the base before the rate changes
+    const now = performance.now();
+    this.clockBase += ((now - this.clockSince) / 1000) * this.timeScale();
+    this.clockSince = now;
+    console.log('[FrameScheduler]', next.visible ? (next.idle ? 'idle' : 'active') : 'hidden');
+    this.state = next;
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const frameScheduler = new FrameScheduler();
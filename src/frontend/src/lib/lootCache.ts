@@ -0,0 +1,35 @@
+// Loot cache opening rules, mirroring the land canister's processCache: a cache opens for
+// free once the open delay has passed since discovery, or earlier for charge from the first land.
+
+import { ECONOMY } from '@/config/economy';
+import type { LootCache, ModifierInstance } from '@/backend';
+
+/** When `cache` becomes free to open, in epoch milliseconds. */
+export function cacheReadyAt(cache: LootCache): number {
+  return Number(cache.discovered_at / BigInt(1_000_000)) + ECONOMY.cache.openDelayMs;
+}
+
+export function cacheTierColor(tier: number | bigint): string {
+  switch (Number(tier)) {
+    case 1:
+      return 'text-gray-400 border-gray-400/30';
+    case 2:
+      return 'text-blue-400 border-blue-400/30';
+    case 3:
+      return 'text-purple-400 border-purple-400/30';
+    default:
+      return 'text-white border-white/30';
+  }
+}
+
+/** Outcome of opening one cache in a batch. */
+export type CacheOpenOutcome =
+  | { cacheId: bigint; kind: 'opened'; modifier: ModifierInstance }
+  | { cacheId: bigint; kind: 'error'; message: string };
+
+export interface CacheBatchProgress {
+  completed: number;
+  total: number;
+  /** Cache being opened right now, null once the batch is done. */
+  currentCacheId: bigint | null;
+}
@@ -0,0 +1,172 @@
+// Persistent cache for 3D models and the KTX2 transcoder
+// Bodies live in Cache Storage under their URL plus a SHA-256 of the content; a small index
+// in localStorage tracks the current hash, validators and last use of each URL. Hits are
+// served immediately and revalidated in the background once per session, and the least
+// recently used entries are evicted once the cache grows past its size budget.
+
+const CACHE_NAME = 'cybergenesis-models-v2';
+// v1 keyed bodies by a URL fragment, which Cache Storage ignores
+const LEGACY_CACHE_NAMES = ['cybergenesis-models-v1'];
+const INDEX_STORAGE_KEY = 'cybergenesis-model-cache';
+const MAX_CACHE_BYTES = 400 * 1024 * 1024;
+
+interface ModelCacheEntry {
+  hash: string;
+  size: number;
+  etag: string | null;
+  lastModified: string | null;
+  lastUsed: number;
+}
+
+type ModelCacheIndex = Record<string, ModelCacheEntry>;
+
+function loadIndex(): ModelCacheIndex {
+  try {
+    return JSON.parse(localStorage.getItem(INDEX_STORAGE_KEY) ?? '{}') as ModelCacheIndex;
+  } catch {
+    return {};
+  }
+}
+
+// Cache Storage matches on the URL without its fragment, so the hash goes in the query to keep
+// each version under its own key
+function cacheKey(url: string, hash: string): string {
+  const key = new URL(url, window.location.href);
+  key.hash = '';
+  key.searchParams.set('sha256', hash);
+  return key.toString();
+}
+
+async function sha256(buffer: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', buffer);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+class ModelCache {
+  private index = loadIndex();
+  private inflight = new Map<string, Promise<ArrayBuffer>>();
+  private revalidated = new Set<string>();
+  private cache: Promise<Cache | null> | null = null;
+
+  /** Body of `url`, from the cache when present, otherwise from the network. */
+  fetch(url: string): Promise<ArrayBuffer> {
+    let pending = this.inflight.get(url);
+    if (!pending) {
+      pending = this.load(url).finally(() => this.inflight.delete(url));
+      this.inflight.set(url, pending);
+    }
+    return pending;
+  }
+
+  private async load(url: string): Promise<ArrayBuffer> {
+    const cache = await this.openCache();
+    const entry = this.index[url];
+    if (cache && entry) {
+      const cached = await cache.match(cacheKey(url, entry.hash));
+      if (cached) {
+        entry.lastUsed = Date.now();
+        this.saveIndex();
+        void this.revalidate(cache, url);
+        return cached.arrayBuffer();
+      }
+      delete this.index[url];
+      this.saveIndex();
+    }
+
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${url}: ${response.status}`);
+    }
+    const buffer = await response.arrayBuffer();
+    if (cache) {
+      void this.store(cache, url, buffer, response.headers);
+    }
+    return buffer;
+  }
+
+  // Conditional request so an unchanged model costs a 304; failures (e.g. offline) keep the copy
+  private async revalidate(cache: Cache, url: string): Promise<void> {
+    const entry = this.index[url];
+    if (!entry || this.revalidated.has(url)) return;
+    this.revalidated.add(url);
+
+    const headers: Record<string, string> = {};
+    if (entry.etag) headers['If-None-Match'] = entry.etag;
+    if (entry.lastModified) headers['If-Modified-Since'] = entry.lastModified;
+
+    try {
+      const response = await fetch(url, { headers, cache: 'no-cache' });
+      if (response.status === 304 || !response.ok) return;
+      await this.store(cache, url, await response.arrayBuffer(), response.headers);
+    } catch (error) {
+      console.warn('[ModelCache] Revalidation failed, keeping cached copy:', url, error);
+    }
+  }
+
+  private async store(cache: Cache, url: string, buffer: ArrayBuffer, headers: Headers): Promise<void> {
+    try {
+      const hash = await sha256(buffer);
+      const previous = this.index[url];
+      if (previous?.hash !== hash) {
+        await cache.put(cacheKey(url, hash), new Response(buffer.slice(0)));
+        if (previous) {
+          await cache.delete(cacheKey(url, previous.hash));
+          console.log('[ModelCache] Model changed upstream, cached new version:', url);
+        }
+      }
+      this.index[url] = {
+        hash,
+        size: buffer.byteLength,
+        etag: headers.get('ETag'),
+        lastModified: headers.get('Last-Modified'),
+        lastUsed: Date.now(),
+      };
+      this.saveIndex();
+      await this.evict(cache, url);
+    } catch (error) {
+      console.warn('[ModelCache] Failed to cache model:', url, error);
+    }
+  }
+
+  // Drops least recently used entries until the cache fits its budget, never evicting `keep`
+  private async evict(cache: Cache, keep: string): Promise<void> {
+    const entries = Object.entries(this.index).sort(([, a], [, b]) => a.lastUsed - b.lastUsed);
+    let total = entries.reduce((sum, [, entry]) => sum + entry.size, 0);
+
+    for (const [url, entry] of entries) {
+      if (total <= MAX_CACHE_BYTES) break;
+      if (url === keep) continue;
+      await cache.delete(cacheKey(url, entry.hash));
+      delete this.index[url];
+      total -= entry.size;
+      console.log('[ModelCache] Evicted:', url);
+    }
+    this.saveIndex();
+  }
+
+  // Cache Storage and SubtleCrypto need a secure context; without them every load goes to the network
+  private openCache(): Promise<Cache | null> {
+    if (!this.cache) {
+      this.cache =
+        typeof caches !== 'undefined' && typeof crypto !== 'undefined' && crypto.subtle
+          ? Promise.all(LEGACY_CACHE_NAMES.map((name) => caches.delete(name)))
+              .then(() => caches.open(CACHE_NAME))
+              .catch((error) => {
+                console.warn('[ModelCache] Cache Storage unavailable:', error);
+                return null;
+              })
+          : Promise.resolve(null);
+    }
+    return this.cache;
+  }
+
+  private saveIndex(): void {
+    try {
+      localStorage.setItem(INDEX_STORAGE_KEY, JSON.stringify(this.index));
+    } catch {
+      // The cached bodies stay usable for this session
+    }
+  }
+}
+
+export const modelCache = new ModelCache();
@@ -0,0 +1,107 @@
+// GLTF loading shared by the land scene and offscreen renders
+// Models ship KTX2-compressed textures, so every GLTFLoader gets a KTX2Loader configured
+// for the renderer it will draw with. Model files, the basis transcoder and the scene's HDRI
+// environment map all go through the persistent model cache, so a returning visitor loads
+// them without the network.
+
+import { LoaderUtils, LoadingManager, type WebGLRenderer } from 'three';
+import { GLTFLoader, type GLTF } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { KTX2Loader } from 'three/examples/jsm/loaders/KTX2Loader.js';
+import { RGBELoader } from 'three/examples/jsm/loaders/RGBELoader.js';
+import { modelCache } from './modelCache';
+
+// Basis transcoder matching the installed three release
+export const KTX2_TRANSCODER_PATH = 'https://cdn.jsdelivr.net/npm/three@0.176.0/examples/jsm/libs/basis/';
+const TRANSCODER_FILES = ['basis_transcoder.js', 'basis_transcoder.wasm'];
+
+// Loaders that fetch files themselves (the KTX2 transcoder, the HDRI) go through this
+// manager, which points those requests at cached copies
+const cachedFileUrls = new Map<string, string>();
+const preparedFiles = new Map<string, Promise<void>>();
+const modelLoadingManager = new LoadingManager();
+modelLoadingManager.setURLModifier((url) => cachedFileUrls.get(url) ?? url);
+
+/**
+ * Reads `url` through the model cache so loaders using the shared manager get the cached copy.
+ * Never rejects: without a cached copy the loader falls back to fetching `url` directly.
+ */
+export function prepareCachedFile(url: string): Promise<void> {
+  let prepared = preparedFiles.get(url);
+  if (!prepared) {
+    prepared = modelCache
+      .fetch(url)
+      .then((buffer) => {
+        cachedFileUrls.set(url, URL.createObjectURL(new Blob([buffer])));
+      })
+      .catch((error) => {
+        console.warn('[ModelLoader] Could not prepare cached file:', url, error);
+      });
+    preparedFiles.set(url, prepared);
+  }
+  return prepared;
+}
+
+function prepareTranscoder(): Promise<void> {
+  return Promise.all(TRANSCODER_FILES.map((file) => prepareCachedFile(KTX2_TRANSCODER_PATH + file))).then(
+    () => undefined
+  );
+}
+
+/** GLTFLoader that reads model files through the persistent model cache. */
+export class CachedGLTFLoader extends GLTFLoader {
+  constructor() {
+    super(modelLoadingManager);
+  }
+
+  override load(
+    url: string,
+    onLoad: (gltf: GLTF) => void,
+    _onProgress?: (event: ProgressEvent) => void,
+    onError?: (err: unknown) => void
+  ): void {
+    const resolvedUrl = this.manager.resolveURL(this.path + url);
+    const resourcePath = this.resourcePath || LoaderUtils.extractUrlBase(resolvedUrl);
+
+    this.manager.itemStart(resolvedUrl);
+    Promise.all([modelCache.fetch(resolvedUrl), prepareTranscoder()])
+      .then(([buffer]) => this.parseAsync(buffer, resourcePath))
+      .then(onLoad)
+      .catch((error) => {
+        onError?.(error);
+        this.manager.itemError(resolvedUrl);
+      })
+      .finally(() => this.manager.itemEnd(resolvedUrl));
+  }
+}
+
+/** RGBELoader whose requests resolve to copies made by `prepareCachedFile`. */
+export class CachedRGBELoader extends RGBELoader {
+  constructor() {
+    super(modelLoadingManager);
+  }
+}
+
+// Each KTX2Loader runs its own pool of transcoder workers, so a renderer shares one
+const ktx2Loaders = new WeakMap<WebGLRenderer, KTX2Loader>();
+
+/** The KTX2Loader shared by everything drawn with `renderer`; release it with `disposeKTX2Loader`. */
+export function getKTX2Loader(renderer: WebGLRenderer): KTX2Loader {
+  let loader = ktx2Loaders.get(renderer);
+  if (!loader) {
+    loader = new KTX2Loader(modelLoadingManager);
+    loader.setTranscoderPath(KTX2_TRANSCODER_PATH);
+    loader.detectSupport(renderer);
+    ktx2Loaders.set(renderer, loader);
+  }
+  return loader;
+}
+
+/** Stops the transcoder workers of `renderer`'s KTX2Loader once the renderer goes away. */
+export function disposeKTX2Loader(renderer: WebGLRenderer): void {
+  ktx2Loaders.get(renderer)?.dispose();
+  ktx2Loaders.delete(renderer);
+}
+
+export function configureGLTFLoader(loader: GLTFLoader, ktx2Loader: KTX2Loader): GLTFLoader {
+  return loader.setKTX2Loader(ktx2Loader);
+}
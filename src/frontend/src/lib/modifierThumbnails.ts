@@ -0,0 +1,128 @@
+// Modifier thumbnails rendered from each instance's GLB
+// Models are drawn one at a time into a single offscreen WebGL canvas and the resulting PNGs
+// are kept in IndexedDB by model URL, so each model is rendered once per browser.
+
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { BlobStore } from './blobStore';
+import { CachedGLTFLoader, configureGLTFLoader, getKTX2Loader } from './modelLoader';
+
+const THUMBNAIL_SIZE = 256;
+const CAMERA_FOV = 35;
+// Three-quarter view from above, so flat models still read as 3D
+const VIEW_DIRECTION = new THREE.Vector3(1, 0.8, 1).normalize();
+
+// Shown while a thumbnail renders, or when it cannot be rendered
+const TIER_IMAGES: Record<number, string> = {
+  1: '/assets/generated/tier1-crystal-mod.dim_200x200.png',
+  2: '/assets/generated/tier2-energy-orb-mod.dim_200x200.png',
+  3: '/assets/generated/tier3-quantum-portal-mod.dim_200x200.png',
+};
+
+export function modifierTierImage(tier: bigint | number): string {
+  return TIER_IMAGES[Math.min(Number(tier), 3)] ?? TIER_IMAGES[1];
+}
+
+function disposeObject(root: THREE.Object3D): void {
+  root.traverse((child) => {
+    if (!(child instanceof THREE.Mesh)) return;
+    child.geometry.dispose();
+    const materials: THREE.Material[] = Array.isArray(child.material) ? child.material : [child.material];
+    for (const material of materials) {
+      for (const value of Object.values(material)) {
+        if (value instanceof THREE.Texture) value.dispose();
+      }
+      material.dispose();
+    }
+  });
+}
+
+class ModifierThumbnailRenderer {
+  private store = new BlobStore('cybergenesis-thumbnails', 'thumbnails');
+  private urls = new Map<string, Promise<string>>();
+  private queue: Promise<unknown> = Promise.resolve();
+  private context: { renderer: THREE.WebGLRenderer; canvas: HTMLCanvasElement | OffscreenCanvas; loader: GLTFLoader } | null =
+    null;
+
+  /** Object URL of the PNG thumbnail for `modelUrl`, rendered on first request. */
+  get(modelUrl: string): Promise<string> {
+    let url = this.urls.get(modelUrl);
+    if (!url) {
+      url = this.load(modelUrl).catch((error) => {
+        // Forget the failure so a later request can retry
+        this.urls.delete(modelUrl);
+        throw error;
+      });
+      this.urls.set(modelUrl, url);
+    }
+    return url;
+  }
+
+  private async load(modelUrl: string): Promise<string> {
+    const cached = await this.store.get(modelUrl);
+    if (cached) return URL.createObjectURL(cached);
+
+    const rendered = this.queue.then(() => this.render(modelUrl));
+    this.queue = rendered.catch(() => undefined);
+    const png = await rendered;
+    await this.store.put(modelUrl, png);
+    return URL.createObjectURL(png);
+  }
+
+  private getContext() {
+    if (!this.context) {
+      const canvas =
+        typeof OffscreenCanvas !== 'undefined'
+          ? new OffscreenCanvas(THUMBNAIL_SIZE, THUMBNAIL_SIZE)
+          : Object.assign(document.createElement('canvas'), { width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE });
+      const renderer = new THREE.WebGLRenderer({ canvas, alpha: true, antialias: true, preserveDrawingBuffer: true });
+      renderer.setSize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, false);
+      renderer.setClearColor(0x000000, 0);
+      renderer.toneMapping = THREE.ACESFilmicToneMapping;
+      const loader = configureGLTFLoader(new CachedGLTFLoader(), getKTX2Loader(renderer));
+      this.context = { renderer, canvas, loader };
+    }
+    return this.context;
+  }
+
+  private async render(modelUrl: string): Promise<Blob> {
+    const { renderer, canvas, loader } = this.getContext();
+    const gltf = await loader.loadAsync(modelUrl);
+    const model = gltf.scene;
+
+    const scene = new THREE.Scene();
+    scene.add(new THREE.AmbientLight(0xffffff, 1.2));
+    const keyLight = new THREE.DirectionalLight(0xffffff, 2.5);
+    keyLight.position.set(3, 5, 4);
+    scene.add(keyLight);
+    scene.add(model);
+
+    model.updateMatrixWorld();
+    const box = new THREE.Box3().setFromObject(model);
+    const center = box.getCenter(new THREE.Vector3());
+    const size = box.getSize(new THREE.Vector3());
+    const maxDim = Math.max(size.x, size.y, size.z) || 1;
+    const distance = (maxDim / 2 / Math.tan((CAMERA_FOV * Math.PI) / 360)) * 1.4;
+
+    const camera = new THREE.PerspectiveCamera(CAMERA_FOV, 1, distance / 100, distance * 10);
+    camera.position.copy(center).addScaledVector(VIEW_DIRECTION, distance);
+    camera.lookAt(center);
+
+    try {
+      renderer.render(scene, camera);
+      return await (canvas instanceof HTMLCanvasElement
+        ? new Promise<Blob>((resolve, reject) =>
+            canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Thumbnail encoding failed'))), 'image/png')
+          )
+        : canvas.convertToBlob({ type: 'image/png' }));
+    } finally {
+      disposeObject(model);
+    }
+  }
+}
+
+const thumbnailRenderer = new ModifierThumbnailRenderer();
+
+export function getModifierThumbnail(modelUrl: string): Promise<string> {
+  return thumbnailRenderer.get(modelUrl);
+}
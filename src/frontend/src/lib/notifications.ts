@@ -0,0 +1,225 @@
+// Opt-in local notifications for claim cooldowns, loot caches and full charge
+// Alerts are computed from landData and the loot caches, timed in the page and shown through
+// a service worker registration so they still appear while the tab is in the background.
+
+import { ECONOMY } from '@/config/economy';
+import { t } from '@/i18n';
+import { msUntilFull } from './chargeModel';
+import { cacheReadyAt } from './lootCache';
+import type { LandData, LootCache } from '@/backend';
+
+export type GameNotificationKind = 'claimReady' | 'cacheReady' | 'chargeFull';
+
+export interface GameNotification {
+  /** Stable per subject, so a rescheduled alert replaces rather than duplicates the old one. */
+  tag: string;
+  kind: GameNotificationKind;
+  fireAt: number;
+  title: string;
+  body: string;
+  /** App path opened when the notification is clicked. */
+  url: string;
+}
+
+export interface NotificationSettings {
+  supported: boolean;
+  permission: NotificationPermission;
+  enabled: boolean;
+}
+
+// Served from public/, so it lives under the app's base path; its default scope follows
+const SERVICE_WORKER_URL = `${import.meta.env.BASE_URL}notification-sw.js`;
+const ENABLED_STORAGE_KEY = 'cybergenesis-notifications';
+// setTimeout fires immediately for delays above a signed 32-bit millisecond count
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+function landLabel(land: LandData): string {
+  return land.plotName || t('notifications.landFallback', { id: land.landId.toString() });
+}
+
+/** Upcoming alerts for `lands` and `caches`; anything already due at `nowMs` is left out. */
+export function buildNotificationSchedule(
+  lands: LandData[],
+  caches: LootCache[],
+  nowMs: number = Date.now()
+): GameNotification[] {
+  const schedule: GameNotification[] = [];
+
+  for (const land of lands) {
+    const id = land.landId.toString();
+    const claimAt = Number(land.lastClaimTime / BigInt(1_000_000)) + ECONOMY.claim.cooldownMs;
+    if (claimAt > nowMs) {
+      schedule.push({
+        tag: `claim-${id}`,
+        kind: 'claimReady',
+        fireAt: claimAt,
+        title: t('notifications.claimReady.title'),
+        body: t('notifications.claimReady.body', { land: landLabel(land) }),
+        url: `/land/${id}`,
+      });
+    }
+
+    const fullIn = msUntilFull(land, nowMs);
+    if (fullIn > 0) {
+      schedule.push({
+        tag: `charge-${id}`,
+        kind: 'chargeFull',
+        fireAt: nowMs + fullIn,
+        title: t('notifications.chargeFull.title'),
+        body: t('notifications.chargeFull.body', { land: landLabel(land), cap: Number(land.chargeCap) }),
+        url: `/land/${id}`,
+      });
+    }
+  }
+
+  for (const cache of caches) {
+    const readyAt = cacheReadyAt(cache);
+    if (cache.is_opened || readyAt <= nowMs) continue;
+    schedule.push({
+      tag: `cache-${cache.cache_id.toString()}`,
+      kind: 'cacheReady',
+      fireAt: readyAt,
+      title: t('notifications.cacheReady.title'),
+      body: t('notifications.cacheReady.body', { id: cache.cache_id.toString() }),
+      url: '/discovery',
+    });
+  }
+
+  return schedule.sort((a, b) => a.fireAt - b.fireAt);
+}
+
+function loadEnabled(): boolean {
+  try {
+    return localStorage.getItem(ENABLED_STORAGE_KEY) === 'true';
+  } catch {
+    return false;
+  }
+}
+
+function saveEnabled(enabled: boolean): void {
+  try {
+    localStorage.setItem(ENABLED_STORAGE_KEY, String(enabled));
+  } catch {
+    // Not persisted, but the choice still applies for this session
+  }
+}
+
+export class NotificationScheduler {
+  private settings: NotificationSettings;
+  private listeners = new Set<() => void>();
+  private timers = new Map<string, ReturnType<typeof setTimeout>>();
+  private pending: GameNotification[] = [];
+  private registration: Promise<ServiceWorkerRegistration | null> | null = null;
+
+  constructor() {
+    const supported = typeof window !== 'undefined' && 'Notification' in window;
+    this.settings = {
+      supported,
+      permission: supported ? Notification.permission : 'denied',
+      enabled: supported && Notification.permission === 'granted' && loadEnabled(),
+    };
+  }
+
+  /** Current settings. Stable between changes for useSyncExternalStore. */
+  getSnapshot = (): NotificationSettings => this.settings;
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /** Asks for permission if needed; resolves to whether notifications are now on. */
+  async enable(): Promise<boolean> {
+    if (!this.settings.supported) return false;
+
+    const permission =
+      Notification.permission === 'default' ? await Notification.requestPermission() : Notification.permission;
+    const enabled = permission === 'granted';
+    saveEnabled(enabled);
+    this.update({ permission, enabled });
+    if (enabled) {
+      void this.getRegistration();
+      this.arm();
+    }
+    return enabled;
+  }
+
+  disable(): void {
+    saveEnabled(false);
+    this.update({ enabled: false });
+    this.clearTimers();
+  }
+
+  /** Replaces every pending alert with `schedule`. Kept while disabled so enabling arms it. */
+  schedule(schedule: GameNotification[]): void {
+    this.pending = schedule;
+    this.arm();
+  }
+
+  private arm(): void {
+    this.clearTimers();
+    if (!this.settings.enabled) return;
+
+    const now = Date.now();
+    for (const notification of this.pending) {
+      const delay = notification.fireAt - now;
+      if (delay <= 0 || delay > MAX_TIMER_DELAY_MS) continue;
+      this.timers.set(
+        notification.tag,
+        setTimeout(() => {
+          this.timers.delete(notification.tag);
+          void this.show(notification);
+        }, delay)
+      );
+    }
+  }
+
+  private async show(notification: GameNotification): Promise<void> {
+    const options: NotificationOptions = {
+      body: notification.body,
+      tag: notification.tag,
+      data: { url: notification.url },
+    };
+    try {
+      const registration = await this.getRegistration();
+      if (registration) {
+        await registration.showNotification(notification.title, options);
+      } else {
+        new Notification(notification.title, options);
+      }
+    } catch (error) {
+      console.warn('[Notifications] Failed to show notification:', notification.tag, error);
+    }
+  }
+
+  // Registered on first use; without service worker support, alerts fall back to page notifications
+  private getRegistration(): Promise<ServiceWorkerRegistration | null> {
+    if (!this.registration) {
+      this.registration =
+        'serviceWorker' in navigator
+          ? navigator.serviceWorker
+              .register(SERVICE_WORKER_URL)
+              .then(() => navigator.serviceWorker.ready)
+              .catch((error) => {
+                console.warn('[Notifications] Service worker registration failed:', error);
+                return null;
+              })
+          : Promise.resolve(null);
+    }
+    return this.registration;
+  }
+
+  private clearTimers(): void {
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers.clear();
+  }
+
+  private update(changes: Partial<NotificationSettings>): void {
+    this.settings = { ...this.settings, ...changes };
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const notificationScheduler = new NotificationScheduler();
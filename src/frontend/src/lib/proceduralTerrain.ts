@@ -0,0 +1,358 @@
+// Procedural land terrain
+// Stand-in for a biome model that could not be loaded: a floating disc of terrain whose
+// heightfield, palette and glowing accents come from the biome, and whose exact shape comes
+// from a seed derived from the land. The same land therefore always gets the same terrain,
+// and no two lands look alike.
+
+import * as THREE from 'three';
+import type { Coordinates } from '@/backend';
+
+const RADIUS = 5;
+const RINGS = 48;
+const SEGMENTS = 96;
+const UNDERSIDE_DEPTH = 3.5;
+
+// FNV-1a over the land's identity; biome is included so a land changing biome changes shape
+export function terrainSeed(biome: string, landId?: bigint, coordinates?: Coordinates): number {
+  const key = `${biome}:${landId ?? ''}:${coordinates ? `${coordinates.lat.toFixed(4)},${coordinates.lon.toFixed(4)}` : ''}`;
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// mulberry32
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+interface Noise {
+  /** Fractal value noise in [0, 1]. */
+  fbm: (x: number, z: number, octaves?: number) => number;
+  /** Ridged fractal noise in [0, 1], sharp crests for mountain ranges. */
+  ridged: (x: number, z: number) => number;
+  random: () => number;
+}
+
+function createNoise(seed: number): Noise {
+  const lattice = (ix: number, iz: number): number => {
+    let h = (Math.imul(ix, 374761393) + Math.imul(iz, 668265263) + seed) | 0;
+    h = Math.imul(h ^ (h >>> 13), 1274126177);
+    return ((h ^ (h >>> 16)) >>> 0) / 4294967296;
+  };
+  const value = (x: number, z: number): number => {
+    const ix = Math.floor(x);
+    const iz = Math.floor(z);
+    const fx = x - ix;
+    const fz = z - iz;
+    const ux = fx * fx * (3 - 2 * fx);
+    const uz = fz * fz * (3 - 2 * fz);
+    const top = THREE.MathUtils.lerp(lattice(ix, iz), lattice(ix + 1, iz), ux);
+    const bottom = THREE.MathUtils.lerp(lattice(ix, iz + 1), lattice(ix + 1, iz + 1), ux);
+    return THREE.MathUtils.lerp(top, bottom, uz);
+  };
+  const fbm = (x: number, z: number, octaves = 5): number => {
+    let sum = 0;
+    let amplitude = 0.5;
+    let total = 0;
+    for (let i = 0; i < octaves; i++) {
+      sum += value(x, z) * amplitude;
+      total += amplitude;
+      x = x * 2 + 17.3;
+      z = z * 2 - 9.1;
+      amplitude *= 0.5;
+    }
+    return sum / total;
+  };
+  const ridged = (x: number, z: number): number => {
+    const n = 1 - Math.abs(fbm(x, z) * 2 - 1);
+    return n * n;
+  };
+  return { fbm, ridged, random: seededRandom(seed ^ 0x9e3779b9) };
+}
+
+type AccentShape = 'crystal' | 'orb' | 'pool';
+type AccentPlacement = 'peaks' | 'shore' | 'float' | 'center';
+
+interface TerrainAccent {
+  shape: AccentShape;
+  placement: AccentPlacement;
+  color: string;
+  /** Above the bloom threshold (2.1) to glow. */
+  intensity: number;
+  count: number;
+}
+
+interface BiomeTerrain {
+  /** Height in [0, 1] at (x, z) in [-1, 1]², before the rim falls away. */
+  height: (x: number, z: number, noise: Noise, r: number) => number;
+  amplitude: number;
+  /** Colour stops over normalised height. */
+  palette: Array<[number, string]>;
+  underside: string;
+  water?: { level: number; color: string; glow: string };
+  accents: TerrainAccent[];
+}
+
+function smoothstep(edge0: number, edge1: number, x: number): number {
+  const t = THREE.MathUtils.clamp((x - edge0) / (edge1 - edge0), 0, 1);
+  return t * t * (3 - 2 * t);
+}
+
+// Built per seed, so terrains with a direction (dunes, valleys) can orient it from the noise
+function biomeTerrain(biome: string, noise: Noise): BiomeTerrain {
+  const angle = noise.random() * Math.PI;
+  const along = (x: number, z: number) => x * Math.cos(angle) + z * Math.sin(angle);
+
+  switch (biome) {
+    case 'SNOW_PEAK':
+      return {
+        height: (x, z) => Math.pow(noise.ridged(x * 1.6, z * 1.6), 1.4) * 0.9 + noise.fbm(x * 3, z * 3) * 0.1,
+        amplitude: 3.2,
+        palette: [[0, '#4b5563'], [0.35, '#6b7280'], [0.55, '#e5e7eb'], [1, '#ffffff']],
+        underside: '#374151',
+        accents: [{ shape: 'crystal', placement: 'peaks', color: '#67e8f9', intensity: 3, count: 8 }],
+      };
+    case 'DESERT_DUNE':
+      return {
+        height: (x, z) => {
+          const ridge = 0.5 + 0.5 * Math.sin(along(x, z) * 9 + noise.fbm(x * 2, z * 2) * 4);
+          return ridge * ridge * 0.6 + noise.fbm(x * 1.5, z * 1.5) * 0.4;
+        },
+        amplitude: 1.2,
+        palette: [[0, '#b45309'], [0.4, '#d97706'], [0.75, '#fbbf24'], [1, '#fde68a']],
+        underside: '#78350f',
+        accents: [{ shape: 'orb', placement: 'peaks', color: '#f59e0b', intensity: 4, count: 5 }],
+      };
+    case 'ISLAND_ARCHIPELAGO':
+      return {
+        height: (x, z) => noise.fbm(x * 2.2, z * 2.2),
+        amplitude: 1.6,
+        palette: [[0, '#1e3a8a'], [0.44, '#0ea5e9'], [0.47, '#fde68a'], [0.55, '#22c55e'], [1, '#166534']],
+        underside: '#44403c',
+        water: { level: 0.46, color: '#0891b2', glow: '#22d3ee' },
+        accents: [{ shape: 'orb', placement: 'shore', color: '#22d3ee', intensity: 3, count: 10 }],
+      };
+    case 'VOLCANIC_CRAG':
+      return {
+        height: (x, z, _, r) => {
+          const crater = r < 0.22 ? (0.22 - r) * 2.5 : 0;
+          return THREE.MathUtils.clamp(1 - r * 1.1 - crater, 0, 1) * 0.85 + noise.fbm(x * 3, z * 3) * 0.15;
+        },
+        amplitude: 3,
+        palette: [[0, '#1c1917'], [0.5, '#292524'], [0.8, '#44403c'], [1, '#7f1d1d']],
+        underside: '#0c0a09',
+        accents: [
+          { shape: 'pool', placement: 'center', color: '#f97316', intensity: 6, count: 1 },
+          { shape: 'orb', placement: 'float', color: '#ef4444', intensity: 5, count: 6 },
+        ],
+      };
+    case 'MYTHIC_VOID':
+      return {
+        height: (x, z) => Math.floor(noise.fbm(x * 1.8, z * 1.8) * 6) / 6,
+        amplitude: 2,
+        palette: [[0, '#0f0720'], [0.4, '#2e1065'], [0.7, '#6d28d9'], [1, '#c026d3']],
+        underside: '#05010a',
+        accents: [{ shape: 'crystal', placement: 'float', color: '#d946ef', intensity: 6, count: 9 }],
+      };
+    case 'MYTHIC_AETHER':
+      return {
+        height: (x, z) => {
+          const n = noise.fbm(x * 1.6, z * 1.6);
+          return smoothstep(0.3, 0.7, n) * 0.7 + n * 0.3;
+        },
+        amplitude: 1.6,
+        palette: [[0, '#c7d2fe'], [0.5, '#e0e7ff'], [0.8, '#fde68a'], [1, '#fff7ed']],
+        underside: '#6366f1',
+        accents: [{ shape: 'crystal', placement: 'float', color: '#facc15', intensity: 5, count: 7 }],
+      };
+    case 'FOREST_VALLEY':
+    default:
+      return {
+        height: (x, z) => noise.fbm(x * 2, z * 2) * 0.6 + smoothstep(0, 0.6, Math.abs(along(x, z))) * 0.4,
+        amplitude: 1.8,
+        palette: [[0, '#14532d'], [0.45, '#15803d'], [0.8, '#22c55e'], [1, '#a3e635']],
+        underside: '#3f2d1f',
+        accents: [{ shape: 'orb', placement: 'float', color: '#a3e635', intensity: 3, count: 14 }],
+      };
+  }
+}
+
+function paletteColor(palette: BiomeTerrain['palette'], t: number, target: THREE.Color): THREE.Color {
+  const upper = palette.findIndex(([stop]) => stop >= t);
+  if (upper <= 0) return target.set(palette[Math.max(upper, 0)][1]);
+  const [fromStop, from] = palette[upper - 1];
+  const [toStop, to] = palette[upper];
+  return target.set(from).lerp(new THREE.Color(to), (t - fromStop) / (toStop - fromStop));
+}
+
+function accentGeometry(shape: AccentShape): THREE.BufferGeometry {
+  switch (shape) {
+    case 'crystal':
+      return new THREE.OctahedronGeometry(0.18).scale(1, 2.2, 1);
+    case 'pool':
+      return new THREE.CircleGeometry(RADIUS * 0.2, 32).rotateX(-Math.PI / 2);
+    case 'orb':
+      return new THREE.SphereGeometry(0.09, 12, 12);
+  }
+}
+
+/**
+ * Builds the terrain for `biome` from `seed`. Accent materials are listed in
+ * `userData.accentMaterials` (with their base intensity in `userData.baseEmissive`) so the
+ * scene can pulse them like the emissive parts of a real model.
+ */
+export function buildProceduralTerrain(biome: string, seed: number): THREE.Group {
+  const noise = createNoise(seed);
+  const terrain = biomeTerrain(biome, noise);
+  const group = new THREE.Group();
+  group.name = `ProceduralTerrain:${biome}`;
+
+  // Rim falls away to nothing, so the disc reads as a floating island
+  const heightAt = (x: number, z: number): number => {
+    const r = Math.min(Math.hypot(x, z), 1);
+    return terrain.height(x, z, noise, r) * (1 - smoothstep(0.75, 1, r));
+  };
+
+  // Polar grid: a centre vertex, then RINGS rings of SEGMENTS vertices
+  const positions: number[] = [0, heightAt(0, 0) * terrain.amplitude, 0];
+  const colors: number[] = [];
+  const color = new THREE.Color();
+  const heights: number[] = [heightAt(0, 0)];
+  for (let ring = 1; ring <= RINGS; ring++) {
+    const r = ring / RINGS;
+    for (let segment = 0; segment < SEGMENTS; segment++) {
+      const theta = (segment / SEGMENTS) * Math.PI * 2;
+      const x = Math.cos(theta) * r;
+      const z = Math.sin(theta) * r;
+      const h = heightAt(x, z);
+      heights.push(h);
+      positions.push(x * RADIUS, h * terrain.amplitude, z * RADIUS);
+    }
+  }
+  for (const h of heights) {
+    paletteColor(terrain.palette, h, color);
+    colors.push(color.r, color.g, color.b);
+  }
+
+  const indices: number[] = [];
+  const vertex = (ring: number, segment: number) => (ring === 0 ? 0 : 1 + (ring - 1) * SEGMENTS + (segment % SEGMENTS));
+  for (let segment = 0; segment < SEGMENTS; segment++) {
+    indices.push(0, vertex(1, segment + 1), vertex(1, segment));
+  }
+  for (let ring = 1; ring < RINGS; ring++) {
+    for (let segment = 0; segment < SEGMENTS; segment++) {
+      const a = vertex(ring, segment);
+      const b = vertex(ring, segment + 1);
+      const c = vertex(ring + 1, segment);
+      const d = vertex(ring + 1, segment + 1);
+      indices.push(a, b, c, b, d, c);
+    }
+  }
+
+  const surfaceGeometry = new THREE.BufferGeometry();
+  surfaceGeometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  surfaceGeometry.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
+  surfaceGeometry.setIndex(indices);
+  surfaceGeometry.computeVertexNormals();
+  const surface = new THREE.Mesh(
+    surfaceGeometry,
+    new THREE.MeshStandardMaterial({ vertexColors: true, roughness: 0.85, metalness: 0.05, flatShading: true })
+  );
+  group.add(surface);
+
+  // Rocky underside, jittered so the silhouette is not a perfect cone
+  const undersideGeometry = new THREE.ConeGeometry(RADIUS, UNDERSIDE_DEPTH, SEGMENTS, 6, true).rotateX(Math.PI);
+  const underside = undersideGeometry.getAttribute('position');
+  for (let i = 0; i < underside.count; i++) {
+    const y = underside.getY(i);
+    const depth = (UNDERSIDE_DEPTH / 2 - y) / UNDERSIDE_DEPTH;
+    if (depth < 0.05) continue;
+    const jitter = 1 + (noise.fbm(underside.getX(i) * 0.8, underside.getZ(i) * 0.8 + y) - 0.5) * 0.5 * depth;
+    underside.setXYZ(i, underside.getX(i) * jitter, y, underside.getZ(i) * jitter);
+  }
+  undersideGeometry.translate(0, -UNDERSIDE_DEPTH / 2, 0);
+  undersideGeometry.computeVertexNormals();
+  group.add(
+    new THREE.Mesh(
+      undersideGeometry,
+      new THREE.MeshStandardMaterial({ color: terrain.underside, roughness: 1, flatShading: true, side: THREE.DoubleSide })
+    )
+  );
+
+  if (terrain.water) {
+    const water = new THREE.Mesh(
+      new THREE.CircleGeometry(RADIUS * 0.97, SEGMENTS).rotateX(-Math.PI / 2),
+      new THREE.MeshStandardMaterial({
+        color: terrain.water.color,
+        emissive: terrain.water.glow,
+        emissiveIntensity: 0.6,
+        transparent: true,
+        opacity: 0.75,
+        roughness: 0.2,
+        metalness: 0.3,
+      })
+    );
+    water.position.y = terrain.water.level * terrain.amplitude;
+    group.add(water);
+  }
+
+  const accentMaterials: THREE.MeshStandardMaterial[] = [];
+  for (const accent of terrain.accents) {
+    const material = new THREE.MeshStandardMaterial({
+      color: accent.color,
+      emissive: accent.color,
+      emissiveIntensity: accent.intensity,
+      toneMapped: false,
+    });
+    material.userData.baseEmissive = accent.intensity;
+    accentMaterials.push(material);
+    const geometry = accentGeometry(accent.shape);
+
+    // Candidate spots inside the rim, ranked by how well they suit the placement
+    const candidates = Array.from({ length: 80 }, () => {
+      const r = Math.sqrt(noise.random()) * 0.8;
+      const theta = noise.random() * Math.PI * 2;
+      const x = Math.cos(theta) * r;
+      const z = Math.sin(theta) * r;
+      return { x, z, h: heightAt(x, z) };
+    });
+    const level = terrain.water?.level ?? 0;
+    const spots =
+      accent.placement === 'center'
+        ? [{ x: 0, z: 0, h: heightAt(0, 0) }]
+        : accent.placement === 'peaks'
+          ? candidates.sort((a, b) => b.h - a.h)
+          : accent.placement === 'shore'
+            ? candidates.sort((a, b) => Math.abs(a.h - level) - Math.abs(b.h - level))
+            : candidates;
+
+    for (const spot of spots.slice(0, accent.count)) {
+      const mesh = new THREE.Mesh(geometry, material);
+      const lift = accent.placement === 'float' ? 0.4 + noise.random() * 0.8 : accent.shape === 'pool' ? 0.02 : 0.15;
+      mesh.position.set(spot.x * RADIUS, Math.max(spot.h, level) * terrain.amplitude + lift, spot.z * RADIUS);
+      mesh.rotation.y = noise.random() * Math.PI;
+      group.add(mesh);
+    }
+  }
+  group.userData.accentMaterials = accentMaterials;
+
+  return group;
+}
+
+/** Releases the GPU resources of a terrain built by buildProceduralTerrain. */
+export function disposeProceduralTerrain(group: THREE.Group): void {
+  group.traverse((child) => {
+    if (!(child instanceof THREE.Mesh)) return;
+    child.geometry.dispose();
+    (Array.isArray(child.material) ? child.material : [child.material]).forEach((material) => material.dispose());
+  });
+}
@@ -0,0 +1,215 @@
+// Rendering quality tiers for the 3D scene and the animated page backgrounds
+// Each tier fixes how much work a frame costs: bloom, background FBM octaves, pixel ratio,
+// texture anisotropy and which 2D backgrounds animate. Auto starts from what the GPU looks
+// capable of and then follows the frame rate the land scene actually reaches.
+
+import { getGPUInfo, type GPUInfo } from './debugConfig';
+
+export type QualityTier = 'low' | 'medium' | 'high';
+export type QualityPreference = 'auto' | QualityTier;
+
+export const QUALITY_TIERS: QualityTier[] = ['low', 'medium', 'high'];
+export const QUALITY_PREFERENCES: QualityPreference[] = ['auto', ...QUALITY_TIERS];
+
+export interface QualitySettings {
+  bloom: boolean;
+  /** Bloom render target size as a share of the canvas. */
+  bloomResolution: number;
+  fbmOctaves: number;
+  maxPixelRatio: number;
+  /** Upper bound on texture anisotropy; the GPU's own maximum still applies. */
+  maxAnisotropy: number;
+  /** Animate the star field; otherwise only its gradient is drawn. */
+  cosmicBackground: boolean;
+  particleBackground: boolean;
+}
+
+export const QUALITY_SETTINGS: Record<QualityTier, QualitySettings> = {
+  low: {
+    bloom: false,
+    bloomResolution: 0,
+    fbmOctaves: 3,
+    maxPixelRatio: 1,
+    maxAnisotropy: 1,
+    cosmicBackground: false,
+    particleBackground: false,
+  },
+  medium: {
+    bloom: true,
+    bloomResolution: 0.25,
+    fbmOctaves: 4,
+    maxPixelRatio: 1.5,
+    maxAnisotropy: 4,
+    cosmicBackground: true,
+    particleBackground: false,
+  },
+  high: {
+    bloom: true,
+    bloomResolution: 0.5,
+    fbmOctaves: 6,
+    maxPixelRatio: 2,
+    maxAnisotropy: 16,
+    cosmicBackground: true,
+    particleBackground: true,
+  },
+};
+
+export interface RenderQuality {
+  preference: QualityPreference;
+  tier: QualityTier;
+  settings: QualitySettings;
+}
+
+const PREFERENCE_STORAGE_KEY = 'cybergenesis-render-quality';
+
+// Auto steps down after two slow samples in a row and only steps up after a sustained run of fast ones
+const SLOW_FPS = 30;
+const FAST_FPS = 55;
+const SLOW_SAMPLES_TO_STEP_DOWN = 2;
+const FAST_SAMPLES_TO_STEP_UP = 5;
+// Frames right after a tier change include shader recompiles and resized targets
+const SETTLE_MS = 3000;
+
+const SOFTWARE_GPU = /swiftshader|llvmpipe|softpipe|software|basic render/i;
+const LOW_END_GPU = /mali-[4t]|adreno \(tm\) [2-5]\d\d|powervr|videocore|intel\(r\) hd graphics(?! [5-9]\d\d)/i;
+const INTEGRATED_GPU = /intel|mali|adreno|apple gpu|powervr/i;
+
+function loadPreference(): QualityPreference {
+  try {
+    const stored = localStorage.getItem(PREFERENCE_STORAGE_KEY);
+    return QUALITY_PREFERENCES.includes(stored as QualityPreference) ? (stored as QualityPreference) : 'auto';
+  } catch {
+    return 'auto';
+  }
+}
+
+function savePreference(preference: QualityPreference): void {
+  try {
+    localStorage.setItem(PREFERENCE_STORAGE_KEY, preference);
+  } catch {
+    // Not persisted, but the choice still applies for this session
+  }
+}
+
+// A throwaway context is enough to read the renderer string, before any scene has mounted
+function probeGPU(): GPUInfo | null {
+  try {
+    const context = document.createElement('canvas').getContext('webgl');
+    if (!context) return null;
+    const info = getGPUInfo(context);
+    context.getExtension('WEBGL_lose_context')?.loseContext();
+    return info;
+  } catch {
+    return null;
+  }
+}
+
+// Tier Auto starts from, and the highest it will climb to
+function estimateTier(gpu: GPUInfo | null): QualityTier {
+  if (!gpu) return 'low';
+  if (SOFTWARE_GPU.test(gpu.renderer) || LOW_END_GPU.test(gpu.renderer)) return 'low';
+
+  const mobile = typeof window !== 'undefined' && window.matchMedia?.('(pointer: coarse)').matches;
+  if (mobile || INTEGRATED_GPU.test(gpu.renderer) || (navigator.hardwareConcurrency ?? 8) <= 4) return 'medium';
+  return 'high';
+}
+
+function tierIndex(tier: QualityTier): number {
+  return QUALITY_TIERS.indexOf(tier);
+}
+
+class RenderQualityManager {
+  private preference = loadPreference();
+  private autoTier: QualityTier;
+  private ceiling: QualityTier;
+  // Set when Auto climbs into a tier, so dropping out of it lowers the ceiling for the session
+  private climbed = false;
+  private slowSamples = 0;
+  private fastSamples = 0;
+  private settleUntil = 0;
+  private state: RenderQuality;
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    const gpu = typeof document !== 'undefined' ? probeGPU() : null;
+    this.ceiling = estimateTier(gpu);
+    this.autoTier = this.ceiling;
+    console.log('[RenderQuality] GPU:', gpu?.renderer ?? 'unavailable', '→ auto tier', this.autoTier);
+    this.state = this.resolve();
+  }
+
+  /** Current preference and effective tier. Stable between changes for useSyncExternalStore. */
+  getSnapshot = (): RenderQuality => this.state;
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  setPreference(preference: QualityPreference): void {
+    if (preference === this.preference) return;
+    this.preference = preference;
+    savePreference(preference);
+    this.resetSamples();
+    this.update();
+  }
+
+  /** Average frame rate over the last sample window. Only Auto reacts to it. */
+  reportFrameRate(fps: number): void {
+    if (this.preference !== 'auto' || performance.now() < this.settleUntil) return;
+
+    if (fps < SLOW_FPS) {
+      this.fastSamples = 0;
+      if (++this.slowSamples >= SLOW_SAMPLES_TO_STEP_DOWN) this.stepDown(fps);
+    } else if (fps > FAST_FPS) {
+      this.slowSamples = 0;
+      if (++this.fastSamples >= FAST_SAMPLES_TO_STEP_UP) this.stepUp(fps);
+    } else {
+      this.slowSamples = 0;
+      this.fastSamples = 0;
+    }
+  }
+
+  private stepDown(fps: number): void {
+    const index = tierIndex(this.autoTier);
+    if (index === 0) return this.resetSamples();
+    if (this.climbed) this.ceiling = QUALITY_TIERS[index - 1];
+    this.climbed = false;
+    this.autoTier = QUALITY_TIERS[index - 1];
+    console.log(`[RenderQuality] ${fps.toFixed(0)} fps, lowering auto tier to`, this.autoTier);
+    this.resetSamples();
+    this.update();
+  }
+
+  private stepUp(fps: number): void {
+    const index = tierIndex(this.autoTier);
+    if (index >= tierIndex(this.ceiling)) return this.resetSamples();
+    this.climbed = true;
+    this.autoTier = QUALITY_TIERS[index + 1];
+    console.log(`[RenderQuality] ${fps.toFixed(0)} fps, raising auto tier to`, this.autoTier);
+    this.resetSamples();
+    this.update();
+  }
+
+  private resetSamples(): void {
+    this.slowSamples = 0;
+    this.fastSamples = 0;
+    this.settleUntil = performance.now() + SETTLE_MS;
+  }
+
+  private resolve(): RenderQuality {
+    const tier = this.preference === 'auto' ? this.autoTier : this.preference;
+    return { preference: this.preference, tier, settings: QUALITY_SETTINGS[tier] };
+  }
+
+  private update(): void {
+    const next = this.resolve();
+    if (next.preference === this.state.preference && next.tier === this.state.tier) return;
+    this.state = next;
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const renderQuality = new RenderQualityManager();
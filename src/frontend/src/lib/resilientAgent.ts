@@ -0,0 +1,264 @@
+// Shared resilient HttpAgent for every canister actor
+// Scores gateways by measured latency, trips a circuit breaker on repeated failures and
+// retries idempotent requests (queries, read_state, status) on the next healthy gateway.
+
+import { HttpAgent, type Identity } from '@icp-sdk/core/agent';
+import type { CanisterRegistry } from '../config/canisters';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface GatewayHealth {
+  gateway: string;
+  circuit: CircuitState;
+  /** Smoothed round-trip latency, null until the gateway has answered once. */
+  latencyMs: number | null;
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  lastError: string | null;
+  lastCheckedAt: number | null;
+}
+
+const FAILURE_THRESHOLD = 3;
+const OPEN_CIRCUIT_MS = 30_000;
+const LATENCY_SMOOTHING = 0.3;
+// Untested gateways rank behind measured ones that answer within a second
+const UNKNOWN_LATENCY_MS = 1000;
+const MAX_QUERY_ATTEMPTS = 3;
+const PROBE_TIMEOUT_MS = 5000;
+
+interface GatewayEntry extends GatewayHealth {
+  openedAt: number | null;
+  /** Registry order, used to break latency ties in favour of the configured host. */
+  order: number;
+}
+
+export class GatewayPool {
+  private entries: GatewayEntry[];
+  private snapshot: GatewayHealth[];
+  private listeners = new Set<() => void>();
+
+  constructor(gateways: readonly string[]) {
+    this.entries = gateways.map((gateway, order) => ({
+      gateway,
+      order,
+      circuit: 'closed',
+      latencyMs: null,
+      successes: 0,
+      failures: 0,
+      consecutiveFailures: 0,
+      lastError: null,
+      lastCheckedAt: null,
+      openedAt: null,
+    }));
+    this.snapshot = this.buildSnapshot();
+  }
+
+  /** Health of every gateway, best first. Stable between changes for useSyncExternalStore. */
+  getSnapshot = (): GatewayHealth[] => this.snapshot;
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Gateways to try for the next request, best first. Open circuits move to half-open once
+   * their cool-down has passed; if every circuit is open, all gateways are returned anyway
+   * so a full outage still gets retried rather than failing without a request.
+   */
+  candidates(): string[] {
+    const now = Date.now();
+    let changed = false;
+    for (const entry of this.entries) {
+      if (entry.circuit === 'open' && entry.openedAt !== null && now - entry.openedAt >= OPEN_CIRCUIT_MS) {
+        entry.circuit = 'half-open';
+        changed = true;
+      }
+    }
+    if (changed) this.emit();
+
+    const ranked = this.ranked();
+    const available = ranked.filter((entry) => entry.circuit !== 'open');
+    return (available.length > 0 ? available : ranked).map((entry) => entry.gateway);
+  }
+
+  recordSuccess(gateway: string, latencyMs: number): void {
+    const entry = this.find(gateway);
+    if (!entry) return;
+    entry.latencyMs =
+      entry.latencyMs === null ? latencyMs : entry.latencyMs + LATENCY_SMOOTHING * (latencyMs - entry.latencyMs);
+    entry.successes += 1;
+    entry.consecutiveFailures = 0;
+    entry.circuit = 'closed';
+    entry.openedAt = null;
+    entry.lastCheckedAt = Date.now();
+    this.emit();
+  }
+
+  recordFailure(gateway: string, error: string): void {
+    const entry = this.find(gateway);
+    if (!entry) return;
+    entry.failures += 1;
+    entry.consecutiveFailures += 1;
+    entry.lastError = error;
+    entry.lastCheckedAt = Date.now();
+    // A failed half-open trial re-opens immediately
+    if (entry.circuit === 'half-open' || entry.consecutiveFailures >= FAILURE_THRESHOLD) {
+      if (entry.circuit !== 'open') {
+        console.warn(`[Gateways] Circuit opened for ${gateway}: ${error}`);
+      }
+      entry.circuit = 'open';
+      entry.openedAt = Date.now();
+    }
+    this.emit();
+  }
+
+  /** Hits /api/v2/status on every gateway to refresh latency scores. */
+  async probe(): Promise<GatewayHealth[]> {
+    await Promise.all(
+      this.entries.map(async ({ gateway }) => {
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS);
+        const startTime = performance.now();
+        try {
+          const response = await fetch(`${gateway}/api/v2/status`, { signal: controller.signal, cache: 'no-store' });
+          if (response.ok) {
+            this.recordSuccess(gateway, performance.now() - startTime);
+          } else {
+            this.recordFailure(gateway, `HTTP ${response.status}`);
+          }
+        } catch (error) {
+          this.recordFailure(gateway, controller.signal.aborted ? 'Timeout' : errorMessage(error));
+        } finally {
+          clearTimeout(timeoutId);
+        }
+      })
+    );
+    return this.snapshot;
+  }
+
+  private find(gateway: string): GatewayEntry | undefined {
+    return this.entries.find((entry) => entry.gateway === gateway);
+  }
+
+  private ranked(): GatewayEntry[] {
+    return [...this.entries].sort(
+      (a, b) => (a.latencyMs ?? UNKNOWN_LATENCY_MS) - (b.latencyMs ?? UNKNOWN_LATENCY_MS) || a.order - b.order
+    );
+  }
+
+  private buildSnapshot(): GatewayHealth[] {
+    return this.ranked().map(({ openedAt: _openedAt, order: _order, ...health }) => ({ ...health }));
+  }
+
+  private emit(): void {
+    this.snapshot = this.buildSnapshot();
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Queries, read_state (including update-call polling) and status are safe to repeat
+function isIdempotent(pathname: string): boolean {
+  return /\/(query|read_state|status)$/.test(pathname);
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * fetch() for HttpAgent that sends each request to the best-ranked gateway, records the
+ * outcome, and moves idempotent requests on to the next gateway when one fails.
+ */
+export function createResilientFetch(pool: GatewayPool): typeof fetch {
+  return async (input, init) => {
+    const url = new URL(input instanceof Request ? input.url : input.toString());
+    const candidates = pool.candidates();
+    const attempts = isIdempotent(url.pathname) ? candidates.slice(0, MAX_QUERY_ATTEMPTS) : candidates.slice(0, 1);
+
+    let lastError: unknown = null;
+    for (let index = 0; index < attempts.length; index++) {
+      const gateway = attempts[index];
+      const target = `${gateway}${url.pathname}${url.search}`;
+      const startTime = performance.now();
+      try {
+        const response = await fetch(input instanceof Request ? new Request(target, input) : target, init);
+        if (isRetryableStatus(response.status)) {
+          pool.recordFailure(gateway, `HTTP ${response.status}`);
+          if (index < attempts.length - 1) {
+            console.warn(`[Gateways] ${url.pathname} returned ${response.status} on ${gateway}, retrying on ${attempts[index + 1]}`);
+            continue;
+          }
+          return response;
+        }
+        pool.recordSuccess(gateway, performance.now() - startTime);
+        return response;
+      } catch (error) {
+        // The caller gave up; that says nothing about the gateway
+        if (init?.signal?.aborted) throw error;
+        pool.recordFailure(gateway, errorMessage(error));
+        lastError = error;
+        if (index < attempts.length - 1) {
+          console.warn(`[Gateways] ${url.pathname} failed on ${gateway}, retrying on ${attempts[index + 1]}`);
+        }
+      }
+    }
+    throw lastError;
+  };
+}
+
+const pools = new Map<string, GatewayPool>();
+const anonymousAgents = new Map<string, Promise<HttpAgent>>();
+// Keyed by the identity object so a fresh login (new delegation, same principal) gets a new agent
+const identityAgents = new WeakMap<Identity, Promise<HttpAgent>>();
+
+/** One pool per registry gateway list, shared by the agents and the diagnostics UI. */
+export function getGatewayPool(registry: CanisterRegistry): GatewayPool {
+  const key = registry.gateways.join(',');
+  let pool = pools.get(key);
+  if (!pool) {
+    pool = new GatewayPool(registry.gateways);
+    pools.set(key, pool);
+  }
+  return pool;
+}
+
+/**
+ * The HttpAgent shared by every actor signed by `identity` (anonymous when omitted).
+ * Local replicas get their root key fetched once here.
+ */
+export function getSharedAgent(registry: CanisterRegistry, identity?: Identity | null): Promise<HttpAgent> {
+  let agent = identity ? identityAgents.get(identity) : anonymousAgents.get(registry.host);
+  if (!agent) {
+    agent = (async () => {
+      const created = await HttpAgent.create({
+        host: registry.host,
+        identity: identity ?? undefined,
+        fetch: createResilientFetch(getGatewayPool(registry)),
+      });
+      if (registry.profile === 'local') {
+        try {
+          await created.fetchRootKey();
+        } catch (err) {
+          console.warn('[Gateways] Root key fetch failed. Check that the local replica is running.', err);
+        }
+      }
+      return created;
+    })();
+    // A failed creation must not poison later attempts
+    agent.catch(() => (identity ? identityAgents.delete(identity) : anonymousAgents.delete(registry.host)));
+    if (identity) {
+      identityAgents.set(identity, agent);
+    } else {
+      anonymousAgents.set(registry.host, agent);
+    }
+  }
+  return agent;
+}
@@ -0,0 +1,173 @@
+// Shareable land card
+// Composites a captured frame of the land scene with the plot's stats into a 1200×630 PNG
+// (the usual social preview size), drawn on a 2D canvas in the app's neon palette.
+
+import { biomeName, formatNumber, t, tierName } from '@/i18n';
+import type { LandData } from '@/backend';
+
+const CARD_WIDTH = 1200;
+const CARD_HEIGHT = 630;
+const SCENE_WIDTH = 700;
+const PANEL_X = 740;
+const PANEL_WIDTH = CARD_WIDTH - PANEL_X - 48;
+const TOP_MODIFIER_COUNT = 3;
+
+const CYAN = '#00ffff';
+const PURPLE = '#9933ff';
+const GREEN = '#00ff41';
+const TIER_COLORS: Record<number, string> = {
+  1: '#9ca3af',
+  2: '#60a5fa',
+  3: '#a855f7',
+  4: '#facc15',
+};
+
+// Canvas text does not wait for web fonts, so make sure both faces are ready before drawing
+async function loadFonts(): Promise<void> {
+  try {
+    await Promise.all([
+      document.fonts.load('700 44px Orbitron'),
+      document.fonts.load('400 20px "JetBrains Mono"'),
+    ]);
+  } catch {
+    // Falls back to the generic families below
+  }
+}
+
+function ellipsize(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string {
+  if (ctx.measureText(text).width <= maxWidth) return text;
+  let end = text.length;
+  while (end > 0 && ctx.measureText(`${text.slice(0, end)}…`).width > maxWidth) end--;
+  return `${text.slice(0, end)}…`;
+}
+
+function drawGlowText(ctx: CanvasRenderingContext2D, text: string, x: number, y: number, color: string, blur = 12) {
+  ctx.save();
+  ctx.fillStyle = color;
+  ctx.shadowColor = color;
+  ctx.shadowBlur = blur;
+  ctx.fillText(text, x, y);
+  ctx.restore();
+}
+
+// Scene frame scaled to cover the left of the card, fading into the panel background
+function drawScene(ctx: CanvasRenderingContext2D, frame: HTMLCanvasElement) {
+  const scale = Math.max(SCENE_WIDTH / frame.width, CARD_HEIGHT / frame.height);
+  const width = frame.width * scale;
+  const height = frame.height * scale;
+  ctx.drawImage(frame, (SCENE_WIDTH - width) / 2, (CARD_HEIGHT - height) / 2, width, height);
+
+  const fade = ctx.createLinearGradient(SCENE_WIDTH - 160, 0, SCENE_WIDTH, 0);
+  fade.addColorStop(0, 'rgba(13, 0, 26, 0)');
+  fade.addColorStop(1, 'rgba(13, 0, 26, 1)');
+  ctx.fillStyle = fade;
+  ctx.fillRect(SCENE_WIDTH - 160, 0, 160, CARD_HEIGHT);
+}
+
+function drawStat(ctx: CanvasRenderingContext2D, label: string, value: string, x: number, y: number, color: string) {
+  ctx.font = '400 16px "JetBrains Mono", monospace';
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.5)';
+  ctx.fillText(label, x, y);
+  ctx.font = '600 26px "JetBrains Mono", monospace';
+  drawGlowText(ctx, value, x, y + 32, color, 8);
+}
+
+/** Renders the share card for `land` around a captured scene frame and encodes it as PNG. */
+export async function composeShareCard(frame: HTMLCanvasElement, land: LandData): Promise<Blob> {
+  await loadFonts();
+
+  const canvas = document.createElement('canvas');
+  canvas.width = CARD_WIDTH;
+  canvas.height = CARD_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('2D canvas unavailable');
+
+  const background = ctx.createLinearGradient(0, 0, CARD_WIDTH, CARD_HEIGHT);
+  background.addColorStop(0, '#0a0015');
+  background.addColorStop(0.5, '#1a0033');
+  background.addColorStop(1, '#0d001a');
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, CARD_WIDTH, CARD_HEIGHT);
+
+  drawScene(ctx, frame);
+
+  ctx.textBaseline = 'alphabetic';
+  let y = 80;
+
+  ctx.font = '700 20px Orbitron, sans-serif';
+  drawGlowText(ctx, 'CYBERGENESIS', PANEL_X, y, CYAN);
+  y += 62;
+
+  ctx.font = '700 44px Orbitron, sans-serif';
+  drawGlowText(ctx, ellipsize(ctx, land.plotName || `#${land.landId}`, PANEL_WIDTH), PANEL_X, y, '#ffffff', 16);
+  y += 38;
+
+  ctx.font = '500 22px "JetBrains Mono", monospace';
+  drawGlowText(ctx, ellipsize(ctx, biomeName(land.biome), PANEL_WIDTH), PANEL_X, y, PURPLE, 10);
+  y += 56;
+
+  const coordinateFormat = { minimumFractionDigits: 2, maximumFractionDigits: 2 };
+  drawStat(ctx, t('land.info.level'), land.upgradeLevel.toString(), PANEL_X, y, '#ffffff');
+  drawStat(
+    ctx,
+    t('land.info.multiplier'),
+    t('common.multiplier', { value: formatNumber(land.baseTokenMultiplier) }),
+    PANEL_X + PANEL_WIDTH / 2,
+    y,
+    GREEN
+  );
+  y += 78;
+  drawStat(
+    ctx,
+    t('land.info.coordinates'),
+    `${formatNumber(land.coordinates.lat, coordinateFormat)}; ${formatNumber(land.coordinates.lon, coordinateFormat)}`,
+    PANEL_X,
+    y,
+    CYAN
+  );
+  y += 86;
+
+  const topModifiers = [...land.attachedModifications]
+    .sort((a, b) => b.multiplier_value - a.multiplier_value)
+    .slice(0, TOP_MODIFIER_COUNT);
+  if (topModifiers.length > 0) {
+    ctx.font = '700 16px Orbitron, sans-serif';
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.5)';
+    ctx.fillText(t('shareCard.topModifiers'), PANEL_X, y);
+    y += 34;
+
+    for (const modifier of topModifiers) {
+      const color = TIER_COLORS[Number(modifier.rarity_tier)] ?? TIER_COLORS[1];
+      const multiplier = t('common.multiplier', { value: formatNumber(modifier.multiplier_value) });
+      ctx.fillStyle = color;
+      ctx.shadowColor = color;
+      ctx.shadowBlur = 10;
+      ctx.beginPath();
+      ctx.arc(PANEL_X + 6, y - 7, 6, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.shadowBlur = 0;
+
+      ctx.font = '600 18px "JetBrains Mono", monospace';
+      const multiplierWidth = ctx.measureText(multiplier).width;
+      drawGlowText(ctx, multiplier, PANEL_X + PANEL_WIDTH - multiplierWidth, y, GREEN, 6);
+      ctx.font = '400 18px "JetBrains Mono", monospace';
+      ctx.fillStyle = '#ffffff';
+      const label = `${modifier.modifierType} · ${tierName(modifier.rarity_tier)}`;
+      ctx.fillText(ellipsize(ctx, label, PANEL_WIDTH - multiplierWidth - 36), PANEL_X + 22, y);
+      y += 32;
+    }
+  }
+
+  // Neon frame around the whole card
+  ctx.save();
+  ctx.strokeStyle = CYAN;
+  ctx.lineWidth = 3;
+  ctx.shadowColor = CYAN;
+  ctx.shadowBlur = 24;
+  ctx.strokeRect(12, 12, CARD_WIDTH - 24, CARD_HEIGHT - 24);
+  ctx.restore();
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png');
+  });
+}
@@ -0,0 +1,152 @@
+// Sun position and the scene lighting it implies
+// Solar elevation and azimuth follow the NOAA low-precision formulas (good to well under a
+// degree, plenty for lighting). Lighting is interpolated from a few elevation keyframes, so
+// a land goes through day, golden hour, twilight and night as the sun sets over it.
+
+const DEG = Math.PI / 180;
+
+export interface SolarPosition {
+  /** Angle above the horizon, in degrees; negative once the sun has set. */
+  elevation: number;
+  /** Compass bearing of the sun, in degrees clockwise from north. */
+  azimuth: number;
+}
+
+type Rgb = [number, number, number];
+
+export interface SunLighting {
+  /** Unit vector towards the key light, in scene space (+Y up, −Z north, +X east). */
+  direction: [number, number, number];
+  keyColor: string;
+  keyIntensity: number;
+  ambientIntensity: number;
+  /** 0 in full daylight, 1 in full night. */
+  night: number;
+  /** Background shader colours: base, highlight, accent, void. */
+  palette: [Rgb, Rgb, Rgb, Rgb];
+}
+
+function normalizeDegrees(degrees: number): number {
+  return ((degrees % 360) + 360) % 360;
+}
+
+export function solarPosition(date: Date, lat: number, lon: number): SolarPosition {
+  // Days since J2000.0
+  const n = date.getTime() / 86400000 + 2440587.5 - 2451545.0;
+
+  const meanLongitude = normalizeDegrees(280.46 + 0.9856474 * n);
+  const meanAnomaly = normalizeDegrees(357.528 + 0.9856003 * n) * DEG;
+  const eclipticLongitude =
+    (meanLongitude + 1.915 * Math.sin(meanAnomaly) + 0.02 * Math.sin(2 * meanAnomaly)) * DEG;
+  const obliquity = (23.439 - 0.0000004 * n) * DEG;
+
+  const rightAscension = Math.atan2(Math.cos(obliquity) * Math.sin(eclipticLongitude), Math.cos(eclipticLongitude));
+  const declination = Math.asin(Math.sin(obliquity) * Math.sin(eclipticLongitude));
+
+  const siderealDegrees = normalizeDegrees((18.697374558 + 24.06570982441908 * n) * 15 + lon);
+  const hourAngle = siderealDegrees * DEG - rightAscension;
+  const latitude = lat * DEG;
+
+  const elevation = Math.asin(
+    Math.sin(latitude) * Math.sin(declination) + Math.cos(latitude) * Math.cos(declination) * Math.cos(hourAngle)
+  );
+  const azimuth = Math.atan2(
+    -Math.sin(hourAngle),
+    Math.tan(declination) * Math.cos(latitude) - Math.sin(latitude) * Math.cos(hourAngle)
+  );
+
+  return { elevation: elevation / DEG, azimuth: normalizeDegrees(azimuth / DEG) };
+}
+
+/** Local mean solar time at `lon`, as hours since midnight. */
+export function localSolarHours(date: Date, lon: number): number {
+  const utcHours = date.getUTCHours() + date.getUTCMinutes() / 60;
+  return (((utcHours + lon / 15) % 24) + 24) % 24;
+}
+
+interface LightingKey {
+  elevation: number;
+  keyColor: Rgb;
+  keyIntensity: number;
+  ambientIntensity: number;
+  night: number;
+}
+
+// Noon matches the fixed lighting the scene used before it followed the sun
+const LIGHTING_KEYS: LightingKey[] = [
+  { elevation: -18, keyColor: [0.29, 0.36, 1.0], keyIntensity: 0.8, ambientIntensity: 0.12, night: 1 },
+  { elevation: -6, keyColor: [0.48, 0.42, 1.0], keyIntensity: 1.2, ambientIntensity: 0.18, night: 0.8 },
+  { elevation: 0, keyColor: [1.0, 0.48, 0.27], keyIntensity: 2.6, ambientIntensity: 0.25, night: 0.4 },
+  { elevation: 10, keyColor: [1.0, 0.82, 0.63], keyIntensity: 4.8, ambientIntensity: 0.35, night: 0.1 },
+  { elevation: 30, keyColor: [1.0, 1.0, 1.0], keyIntensity: Math.PI * 2, ambientIntensity: 0.4, night: 0 },
+];
+
+export const DAY_PALETTE: [Rgb, Rgb, Rgb, Rgb] = [
+  [0.2, 0.0, 0.4],
+  [0.0, 0.8, 1.0],
+  [0.9, 0.1, 0.4],
+  [0.0, 0.0, 0.05],
+];
+// At night the cyan cools to violet and the magenta accent runs hotter
+const NIGHT_PALETTE: [Rgb, Rgb, Rgb, Rgb] = [
+  [0.08, 0.0, 0.25],
+  [0.35, 0.2, 1.0],
+  [1.0, 0.05, 0.6],
+  [0.0, 0.0, 0.02],
+];
+const TWILIGHT_ACCENT: Rgb = [1.0, 0.4, 0.1];
+
+// Below this the key light is kept above the horizon, so the land is never lit from underneath
+const MIN_LIGHT_ELEVATION = 8;
+
+function mix(a: number, b: number, t: number): number {
+  return a + (b - a) * t;
+}
+
+function mixRgb(a: Rgb, b: Rgb, t: number): Rgb {
+  return [mix(a[0], b[0], t), mix(a[1], b[1], t), mix(a[2], b[2], t)];
+}
+
+function toHex(rgb: Rgb): string {
+  return `#${rgb.map((channel) => Math.round(Math.min(Math.max(channel, 0), 1) * 255).toString(16).padStart(2, '0')).join('')}`;
+}
+
+// Keyframes either side of `elevation` and the blend between them
+function lightingKeysAround(elevation: number): [LightingKey, LightingKey, number] {
+  const first = LIGHTING_KEYS[0];
+  const last = LIGHTING_KEYS[LIGHTING_KEYS.length - 1];
+  if (elevation <= first.elevation) return [first, first, 0];
+  if (elevation >= last.elevation) return [last, last, 0];
+
+  const upper = LIGHTING_KEYS.findIndex((key) => key.elevation >= elevation);
+  const a = LIGHTING_KEYS[upper - 1];
+  const b = LIGHTING_KEYS[upper];
+  return [a, b, (elevation - a.elevation) / (b.elevation - a.elevation)];
+}
+
+export function sunLighting({ elevation, azimuth }: SolarPosition): SunLighting {
+  const [a, b, t] = lightingKeysAround(elevation);
+
+  // After sunset the key light stands in for the moon, opposite the sun
+  const lightAzimuth = (elevation >= 0 ? azimuth : azimuth + 180) * DEG;
+  const lightElevation = Math.max(Math.abs(elevation), MIN_LIGHT_ELEVATION) * DEG;
+  const direction: [number, number, number] = [
+    Math.cos(lightElevation) * Math.sin(lightAzimuth),
+    Math.sin(lightElevation),
+    -Math.cos(lightElevation) * Math.cos(lightAzimuth),
+  ];
+
+  const night = mix(a.night, b.night, t);
+  const twilight = Math.max(0, 1 - Math.abs(elevation) / 8);
+  const palette = DAY_PALETTE.map((color, index) => mixRgb(color, NIGHT_PALETTE[index], night)) as SunLighting['palette'];
+  palette[2] = mixRgb(palette[2], TWILIGHT_ACCENT, twilight * 0.6);
+
+  return {
+    direction,
+    keyColor: toHex(mixRgb(a.keyColor, b.keyColor, t)),
+    keyIntensity: mix(a.keyIntensity, b.keyIntensity, t),
+    ambientIntensity: mix(a.ambientIntensity, b.ambientIntensity, t),
+    night,
+    palette,
+  };
+}
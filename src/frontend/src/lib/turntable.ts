@@ -0,0 +1,37 @@
+// Turntable recording settings
+// A turntable is one full, evenly paced orbit of the camera around the land, recorded from
+// the scene canvas to WebM. Since the path is a function of elapsed time alone, the clip
+// loops seamlessly and two recordings of the same land frame it identically.
+
+export const TURNTABLE_FPS = 30;
+export const TURNTABLE_DURATIONS = [4, 8, 12];
+export const DEFAULT_TURNTABLE_DURATION = 8;
+
+export type TurntableResolution = '720p' | '1080p' | 'square';
+
+export const TURNTABLE_RESOLUTIONS: Record<TurntableResolution, { width: number; height: number }> = {
+  '720p': { width: 1280, height: 720 },
+  '1080p': { width: 1920, height: 1080 },
+  square: { width: 1080, height: 1080 },
+};
+
+export interface TurntableOptions {
+  durationSeconds: number;
+  width: number;
+  height: number;
+}
+
+// Best WebM codec the browser can record, or null when it cannot record WebM at all
+const WEBM_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+export function pickTurntableMimeType(): string | null {
+  if (typeof MediaRecorder === 'undefined' || typeof HTMLCanvasElement.prototype.captureStream !== 'function') {
+    return null;
+  }
+  return WEBM_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? null;
+}
+
+// Roughly 0.12 bits per pixel per frame: ~7.5 Mbps at 1080p, enough for the bloom gradients
+export function turntableBitrate({ width, height }: TurntableOptions): number {
+  return Math.round(width * height * TURNTABLE_FPS * 0.12);
+}
@@ -0,0 +1,28 @@
+// WebGL availability and context-loss policy for the land scene
+// Browsers drop WebGL contexts when the GPU resets, the driver crashes or too many contexts
+// are open. The scene waits briefly for the browser to restore the context, then rebuilds the
+// renderer on a fresh canvas either way; repeated losses switch it to the 2D view instead.
+
+// How long to wait for webglcontextrestored before rebuilding on a new canvas anyway
+export const CONTEXT_RESTORE_TIMEOUT_MS = 4000;
+
+// More losses than this inside the window means the GPU cannot keep the scene alive
+export const MAX_CONTEXT_LOSSES = 3;
+export const CONTEXT_LOSS_WINDOW_MS = 60 * 1000;
+
+let available: boolean | null = null;
+
+/** Whether a WebGL context can be created at all. Probed once with a throwaway canvas. */
+export function isWebGLAvailable(): boolean {
+  if (available !== null) return available;
+  try {
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('webgl2') ?? canvas.getContext('webgl');
+    available = !!context;
+    context?.getExtension('WEBGL_lose_context')?.loseContext();
+  } catch {
+    available = false;
+  }
+  console.log('[WebGL] Available:', available);
+  return available;
+}
@@ -0,0 +1,109 @@
+// Reward yield projection for lands
+// Mirrors the land canister's claimRewards: one claim per cooldown, each costing charge and
+// paying baseReward * (upgradeLevel + 1) * baseTokenMultiplier raw token units (e8s). Attached
+// modifiers do not enter the claim, so they are not modelled.
+
+import { ECONOMY, upgradeCost } from '@/config/economy';
+import type { LandData } from '@/backend';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const PROJECTION_PERIODS = { daily: 1, weekly: 7, monthly: 30 } as const;
+export type ProjectionPeriod = keyof typeof PROJECTION_PERIODS;
+
+export interface YieldInputs {
+  upgradeLevel: number;
+  baseTokenMultiplier: number;
+  chargeCap: number;
+}
+
+export interface YieldProjection {
+  multiplier: number;
+  perClaim: number;
+  claimsPerDay: number;
+  daily: number;
+  weekly: number;
+  monthly: number;
+}
+
+export function yieldInputsFromLand(land: LandData): YieldInputs {
+  return {
+    upgradeLevel: Number(land.upgradeLevel),
+    baseTokenMultiplier: land.baseTokenMultiplier,
+    chargeCap: Number(land.chargeCap),
+  };
+}
+
+/** Tokens paid by a single claim, truncated like the canister's Float.toInt. */
+export function rewardPerClaim(inputs: YieldInputs): number {
+  return Math.trunc(ECONOMY.claim.baseReward * (inputs.upgradeLevel + 1) * inputs.baseTokenMultiplier);
+}
+
+/**
+ * Claims per day at steady state: the cooldown allows one a day, and charge regenerates far
+ * faster than claims spend it unless the cap is below a single claim's cost. Charge spent
+ * on discovery is not modelled.
+ */
+export function claimsPerDay(inputs: YieldInputs): number {
+  const { chargeCost, cooldownMs } = ECONOMY.claim;
+  if (inputs.chargeCap < chargeCost) return 0;
+  const cooldownClaims = DAY_MS / cooldownMs;
+  const chargeClaims = (ECONOMY.charge.regenPerMinute * DAY_MS) / 60_000 / chargeCost;
+  return Math.min(cooldownClaims, chargeClaims);
+}
+
+export function projectYield(inputs: YieldInputs): YieldProjection {
+  const perClaim = rewardPerClaim(inputs);
+  const perDay = claimsPerDay(inputs);
+  const daily = perClaim * perDay;
+  return {
+    multiplier: inputs.baseTokenMultiplier,
+    perClaim,
+    claimsPerDay: perDay,
+    daily,
+    weekly: daily * PROJECTION_PERIODS.weekly,
+    monthly: daily * PROJECTION_PERIODS.monthly,
+  };
+}
+
+/** Inputs after one more upgrade, or null at the maximum level. */
+export function withUpgrade(inputs: YieldInputs): YieldInputs | null {
+  if (inputs.upgradeLevel >= ECONOMY.upgrade.maxLevel) return null;
+  return { ...inputs, upgradeLevel: inputs.upgradeLevel + 1 };
+}
+
+/**
+ * Days until the next upgrade's extra yield covers its cost, or null when it never does
+ * (maximum level, or no claims possible).
+ */
+export function upgradePayoffDays(inputs: YieldInputs): number | null {
+  const upgraded = withUpgrade(inputs);
+  const cost = upgradeCost(inputs.upgradeLevel);
+  if (!upgraded || cost === null) return null;
+  const gain = projectYield(upgraded).daily - projectYield(inputs).daily;
+  return gain > 0 ? Number(cost) / gain : null;
+}
+
+export interface YieldScenario {
+  key: string;
+  inputs: YieldInputs;
+  /** Up-front cost subtracted at day 0, e.g. an upgrade. */
+  cost?: bigint;
+}
+
+/** Cumulative net earnings per scenario for each day from 0 to `days`, keyed by scenario key. */
+export function cumulativeYieldSeries(scenarios: YieldScenario[], days: number = PROJECTION_PERIODS.monthly) {
+  const dailyYields = scenarios.map((scenario) => ({
+    key: scenario.key,
+    daily: projectYield(scenario.inputs).daily,
+    cost: Number(scenario.cost ?? BigInt(0)),
+  }));
+
+  return Array.from({ length: days + 1 }, (_, day) => {
+    const point: Record<string, number> = { day };
+    for (const { key, daily, cost } of dailyYields) {
+      point[key] = daily * day - cost;
+    }
+    return point;
+  });
+}
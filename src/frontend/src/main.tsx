@@ -1,6 +1,7 @@
 import ReactDOM from 'react-dom/client';
 import { InternetIdentityProvider } from './hooks/useInternetIdentity';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { WalletProvider } from './contexts/WalletContext';
 import App from './App';
 import './index.css';
 
@@ -9,7 +10,9 @@ const queryClient = new QueryClient();
 ReactDOM.createRoot(document.getElementById('root')!).render(
     <QueryClientProvider client={queryClient}>
         <InternetIdentityProvider>
-            <App />
+            <WalletProvider>
+                <App />
+            </WalletProvider>
         </InternetIdentityProvider>
     </QueryClientProvider>
 );
@@ -1,73 +1,105 @@
+import { useMemo, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Sparkles, Star } from 'lucide-react';
-import { PLANNED_MODIFIER_CATALOG, PlannedModifier } from '../data/modifierCatalog';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Drawer, DrawerContent, DrawerDescription, DrawerHeader, DrawerTitle } from '@/components/ui/drawer';
+import { Loader2, Package, Sparkles, Star } from 'lucide-react';
+import {
+  useGetAllModifiers,
+  useGetLandData,
+  useGetModifierInventory,
+  useGetMyModifications,
+  useIsCallerAdmin,
+} from '../hooks/useQueries';
+import ModifierCatalogEditor from '../components/ModifierCatalogEditor';
+import ModifierThumbnail from '../components/ModifierThumbnail';
+import { useI18n } from '../hooks/useI18n';
+import { tierName } from '../i18n';
+import { buildCollection, ownedInstances, type CollectionEntry, type OwnedInstance } from '../lib/collection';
+
+type CollectionFilter = 'all' | 'owned' | 'missing';
+
+const FILTERS: CollectionFilter[] = ['all', 'owned', 'missing'];
+
+const getTierColor = (tier: number): string => {
+  switch (tier) {
+    case 1:
+      return 'text-gray-400';
+    case 2:
+      return 'text-blue-400';
+    case 3:
+      return 'text-purple-400';
+    case 4:
+      return 'text-yellow-400';
+    default:
+      return 'text-primary';
+  }
+};
+
+const getTierBorderClass = (tier: number): string => {
+  switch (tier) {
+    case 1:
+      return 'border-gray-500/30 hover:border-gray-400/50';
+    case 2:
+      return 'border-blue-500/30 hover:border-blue-400/50';
+    case 3:
+      return 'border-purple-500/30 hover:border-purple-400/50';
+    case 4:
+      return 'border-yellow-500/30 hover:border-yellow-400/50';
+    default:
+      return 'border-primary/30';
+  }
+};
+
+const getTierBadgeVariant = (tier: number): 'default' | 'secondary' | 'outline' | 'destructive' => {
+  switch (tier) {
+    case 1:
+      return 'outline';
+    case 2:
+      return 'secondary';
+    case 3:
+      return 'default';
+    case 4:
+      return 'destructive';
+    default:
+      return 'outline';
+  }
+};
+
+const getGlowFilter = (tier: number): string => {
+  switch (tier) {
+    case 1:
+      return 'drop-shadow(0 0 4px rgba(156, 163, 175, 0.3))';
+    case 2:
+      return 'drop-shadow(0 0 8px rgba(96, 165, 250, 0.5))';
+    case 3:
+      return 'drop-shadow(0 0 12px rgba(168, 85, 247, 0.6))';
+    case 4:
+      return 'drop-shadow(0 0 16px rgba(250, 204, 21, 0.8))';
+    default:
+      return 'drop-shadow(0 0 4px rgba(0, 243, 255, 0.3))';
+  }
+};
 
 export default function Collection() {
-  const getTierName = (tier: number): string => {
-    switch (tier) {
-      case 1:
-        return 'COMMON';
-      case 2:
-        return 'RARE';
-      case 3:
-        return 'LEGENDARY';
-      case 4:
-        return 'MYTHIC';
-      default:
-        return 'UNKNOWN';
-    }
-  };
-
-  const getTierColor = (tier: number): string => {
-    switch (tier) {
-      case 1:
-        return 'text-gray-400';
-      case 2:
-        return 'text-blue-400';
-      case 3:
-        return 'text-purple-400';
-      case 4:
-        return 'text-yellow-400';
-      default:
-        return 'text-primary';
-    }
-  };
-
-  const getTierBorderClass = (tier: number): string => {
-    switch (tier) {
-      case 1:
-        return 'border-gray-500/30 hover:border-gray-400/50';
-      case 2:
-        return 'border-blue-500/30 hover:border-blue-400/50 box-glow-blue';
-      case 3:
-        return 'border-purple-500/30 hover:border-purple-400/50 box-glow-purple';
-      case 4:
-        return 'border-yellow-500/30 hover:border-yellow-400/50 box-glow-gold';
-      default:
-        return 'border-primary/30';
-    }
-  };
-
-  const getTierBadgeVariant = (tier: number): 'default' | 'secondary' | 'outline' | 'destructive' => {
-    switch (tier) {
-      case 1:
-        return 'outline';
-      case 2:
-        return 'secondary';
-      case 3:
-        return 'default';
-      case 4:
-        return 'destructive';
-      default:
-        return 'outline';
-    }
-  };
-
-  const tierCounts = PLANNED_MODIFIER_CATALOG.reduce((acc, mod) => {
-    acc[mod.rarity_tier] = (acc[mod.rarity_tier] || 0) + 1;
-    return acc;
-  }, {} as Record<number, number>);
+  const { t, formatNumber } = useI18n();
+  const { data: catalog, isLoading: catalogLoading, error: catalogError } = useGetAllModifiers();
+  const { data: modifications } = useGetMyModifications();
+  const { data: inventory } = useGetModifierInventory();
+  const { data: lands } = useGetLandData();
+  const { data: isAdmin } = useIsCallerAdmin();
+  const [filter, setFilter] = useState<CollectionFilter>('all');
+  const [selected, setSelected] = useState<CollectionEntry | null>(null);
+
+  const collection = useMemo(
+    () => buildCollection(catalog ?? [], modifications ?? [], ownedInstances(inventory ?? [], lands ?? [])),
+    [catalog, modifications, inventory, lands]
+  );
+
+  const visibleEntries = collection.entries.filter((entry) =>
+    filter === 'owned' ? entry.copies > 0 : filter === 'missing' ? entry.copies === 0 : true
+  );
 
   return (
     <div className="space-y-6 animate-in fade-in slide-in-from-bottom duration-700">
@@ -76,167 +108,239 @@ export default function Collection() {
         <CardHeader>
           <CardTitle className="font-orbitron text-3xl text-glow-teal flex items-center gap-3">
             <Sparkles className="h-8 w-8" />
-            MODIFIER COLLECTION
+            {t('collection.title')}
           </CardTitle>
           <p className="font-jetbrains text-sm text-muted-foreground mt-2">
-            Explore the complete catalog of modifiers available in CyberGenesis. Collect them through loot cache discoveries.
+            {t('collection.description')}
           </p>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-4">
+          <p className="font-jetbrains text-sm text-white/70">
+            {t('collection.progress', {
+              owned: collection.owned,
+              total: collection.entries.length,
+              duplicates: collection.duplicates,
+            })}
+          </p>
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-            <div className="glassmorphism p-4 rounded-lg border border-gray-500/20 text-center">
-              <p className="font-jetbrains text-xs text-muted-foreground uppercase mb-1">Common</p>
-              <p className="font-orbitron text-2xl font-bold text-gray-400">{tierCounts[1] || 0}</p>
-            </div>
-            <div className="glassmorphism p-4 rounded-lg border border-blue-500/20 text-center">
-              <p className="font-jetbrains text-xs text-muted-foreground uppercase mb-1">Rare</p>
-              <p className="font-orbitron text-2xl font-bold text-blue-400">{tierCounts[2] || 0}</p>
-            </div>
-            <div className="glassmorphism p-4 rounded-lg border border-purple-500/20 text-center">
-              <p className="font-jetbrains text-xs text-muted-foreground uppercase mb-1">Legendary</p>
-              <p className="font-orbitron text-2xl font-bold text-purple-400">{tierCounts[3] || 0}</p>
-            </div>
-            <div className="glassmorphism p-4 rounded-lg border border-yellow-500/20 text-center">
-              <p className="font-jetbrains text-xs text-muted-foreground uppercase mb-1">Mythic</p>
-              <p className="font-orbitron text-2xl font-bold text-yellow-400">{tierCounts[4] || 0}</p>
-            </div>
+            {collection.tiers.map((tier) => (
+              <div key={tier.tier} className="glassmorphism p-4 rounded-lg border border-white/10 text-center space-y-2">
+                <p className="font-jetbrains text-xs text-muted-foreground uppercase">{tierName(tier.tier)}</p>
+                <p className={`font-orbitron text-2xl font-bold ${getTierColor(tier.tier)}`}>
+                  {formatNumber(tier.completion, { style: 'percent' })}
+                </p>
+                <Progress value={tier.completion * 100} />
+                <p className="font-jetbrains text-[10px] text-muted-foreground">
+                  {t('collection.tierOwned', { owned: tier.owned, total: tier.total })}
+                  {tier.duplicates > 0 && <> · {t('collection.duplicates', { count: tier.duplicates })}</>}
+                </p>
+              </div>
+            ))}
           </div>
         </CardContent>
       </Card>
 
       {/* Modifier Grid */}
       <Card className="glassmorphism border-accent/30">
-        <CardHeader>
+        <CardHeader className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
           <CardTitle className="font-orbitron text-2xl text-glow-green flex items-center gap-2">
             <Star className="h-6 w-6" />
-            ALL MODIFIERS ({PLANNED_MODIFIER_CATALOG.length})
+            {t('collection.allModifiers', { count: collection.entries.length })}
           </CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4">
-            {PLANNED_MODIFIER_CATALOG.map((modifier, index) => (
-              <ModifierCard key={modifier.id} modifier={modifier} index={index} />
+          <div className="flex gap-2">
+            {FILTERS.map((option) => (
+              <Button
+                key={option}
+                size="sm"
+                variant={filter === option ? 'default' : 'outline'}
+                onClick={() => setFilter(option)}
+                className="font-jetbrains text-xs"
+              >
+                {t(`collection.filter.${option}`)}
+              </Button>
             ))}
           </div>
+        </CardHeader>
+        <CardContent>
+          {catalogLoading ? (
+            <div className="flex items-center gap-2">
+              <Loader2 className="w-4 h-4 animate-spin text-primary" />
+              <span className="font-jetbrains text-white/70">{t('collection.loading')}</span>
+            </div>
+          ) : catalogError ? (
+            <p className="font-jetbrains text-red-400">{t('collection.loadError')}</p>
+          ) : visibleEntries.length === 0 ? (
+            <p className="font-jetbrains text-white/50 text-center py-4">{t('collection.empty')}</p>
+          ) : (
+            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4">
+              {visibleEntries.map((entry, index) => (
+                <ModifierCard
+                  key={entry.modifier.mod_id.toString()}
+                  entry={entry}
+                  index={index}
+                  onSelect={() => setSelected(entry)}
+                />
+              ))}
+            </div>
+          )}
         </CardContent>
       </Card>
+
+      {collection.unlisted.length > 0 && (
+        <Card className="glassmorphism border-primary/30">
+          <CardHeader>
+            <CardTitle className="font-orbitron text-xl flex items-center gap-2">
+              <Package className="h-5 w-5" />
+              {t('collection.unlisted', { count: collection.unlisted.length })}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {collection.unlisted.map((owned) => (
+              <OwnedInstanceRow key={owned.instance.modifierInstanceId.toString()} owned={owned} />
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {isAdmin && <ModifierCatalogEditor />}
+
+      <Drawer open={selected !== null} onOpenChange={(open) => !open && setSelected(null)}>
+        <DrawerContent className="glassmorphism">
+          {selected && <ModifierDetail entry={selected} />}
+        </DrawerContent>
+      </Drawer>
     </div>
   );
 }
 
 interface ModifierCardProps {
-  modifier: PlannedModifier;
+  entry: CollectionEntry;
   index: number;
+  onSelect: () => void;
 }
 
-function ModifierCard({ modifier, index }: ModifierCardProps) {
-  const getTierName = (tier: number): string => {
-    switch (tier) {
-      case 1:
-        return 'COMMON';
-      case 2:
-        return 'RARE';
-      case 3:
-        return 'LEGENDARY';
-      case 4:
-        return 'MYTHIC';
-      default:
-        return 'UNKNOWN';
-    }
-  };
-
-  const getTierColor = (tier: number): string => {
-    switch (tier) {
-      case 1:
-        return 'text-gray-400';
-      case 2:
-        return 'text-blue-400';
-      case 3:
-        return 'text-purple-400';
-      case 4:
-        return 'text-yellow-400';
-      default:
-        return 'text-primary';
-    }
-  };
-
-  const getTierBorderClass = (tier: number): string => {
-    switch (tier) {
-      case 1:
-        return 'border-gray-500/30 hover:border-gray-400/50';
-      case 2:
-        return 'border-blue-500/30 hover:border-blue-400/50';
-      case 3:
-        return 'border-purple-500/30 hover:border-purple-400/50';
-      case 4:
-        return 'border-yellow-500/30 hover:border-yellow-400/50';
-      default:
-        return 'border-primary/30';
-    }
-  };
-
-  const getTierBadgeVariant = (tier: number): 'default' | 'secondary' | 'outline' | 'destructive' => {
-    switch (tier) {
-      case 1:
-        return 'outline';
-      case 2:
-        return 'secondary';
-      case 3:
-        return 'default';
-      case 4:
-        return 'destructive';
-      default:
-        return 'outline';
-    }
-  };
-
-  const getGlowFilter = (tier: number): string => {
-    switch (tier) {
-      case 1:
-        return 'drop-shadow(0 0 4px rgba(156, 163, 175, 0.3))';
-      case 2:
-        return 'drop-shadow(0 0 8px rgba(96, 165, 250, 0.5))';
-      case 3:
-        return 'drop-shadow(0 0 12px rgba(168, 85, 247, 0.6))';
-      case 4:
-        return 'drop-shadow(0 0 16px rgba(250, 204, 21, 0.8))';
-      default:
-        return 'drop-shadow(0 0 4px rgba(0, 243, 255, 0.3))';
-    }
-  };
+function ModifierCard({ entry, index, onSelect }: ModifierCardProps) {
+  const { t } = useI18n();
+  const { modifier, copies } = entry;
+  const tier = Number(modifier.rarity_tier);
+  const owned = copies > 0;
 
   return (
     <div
-      className={`glassmorphism p-3 rounded-lg border ${getTierBorderClass(modifier.rarity_tier)} transition-all duration-300 cursor-pointer group hover:scale-105 hover:-translate-y-1 animate-in fade-in slide-in-from-bottom`}
+      onClick={onSelect}
+      className={`glassmorphism p-3 rounded-lg border ${getTierBorderClass(tier)} transition-all duration-300 cursor-pointer group hover:scale-105 hover:-translate-y-1 animate-in fade-in slide-in-from-bottom ${owned ? '' : 'opacity-40 grayscale'}`}
       style={{
         animationDelay: `${index * 20}ms`,
         animationDuration: '400ms',
       }}
     >
       <div className="flex flex-col items-center gap-2">
-        <img
-          src={modifier.asset_url}
-          alt={modifier.name}
-          className="w-16 h-16 object-contain transition-transform duration-300 group-hover:scale-110 group-hover:rotate-3"
-          style={{
-            filter: getGlowFilter(modifier.rarity_tier),
-          }}
-        />
-        <Badge 
-          variant={getTierBadgeVariant(modifier.rarity_tier)} 
+        <div className="relative">
+          <ModifierThumbnail
+            modelUrl={entry.instances[0]?.instance.model_url}
+            tier={tier}
+            fallbackSrc={modifier.asset_url}
+            alt={modifier.name}
+            className="w-16 h-16 object-contain transition-transform duration-300 group-hover:scale-110 group-hover:rotate-3"
+            style={{
+              filter: getGlowFilter(tier),
+            }}
+          />
+          {copies > 1 && (
+            <span className="absolute -top-1 -right-3 rounded-full bg-primary px-1.5 font-jetbrains text-[10px] text-black">
+              ×{copies}
+            </span>
+          )}
+        </div>
+        <Badge
+          variant={getTierBadgeVariant(tier)}
           className="font-jetbrains text-[10px] px-2 py-0"
         >
-          {getTierName(modifier.rarity_tier)}
+          {tierName(tier).toUpperCase()}
         </Badge>
         <div className="text-center w-full">
-          <p className={`font-orbitron text-xs font-bold ${getTierColor(modifier.rarity_tier)} truncate`}>
+          <p className={`font-orbitron text-xs font-bold ${getTierColor(tier)} truncate`}>
             {modifier.name}
           </p>
           <p className="font-jetbrains text-[10px] text-muted-foreground">
-            ID: {modifier.id}
+            {owned ? t('collection.modifierId', { id: modifier.mod_id.toString() }) : t('collection.missing')}
           </p>
         </div>
       </div>
     </div>
   );
 }
+
+function OwnedInstanceRow({ owned }: { owned: OwnedInstance }) {
+  const { t, formatNumber } = useI18n();
+  const { instance, landId } = owned;
+
+  return (
+    <div className="flex items-center justify-between gap-3 glassmorphism rounded-lg p-3 border border-white/10 font-jetbrains text-sm">
+      <ModifierThumbnail
+        modelUrl={instance.model_url}
+        tier={instance.rarity_tier}
+        alt={instance.modifierType}
+        className="w-10 h-10 object-contain"
+      />
+      <div className="flex-1">
+        <p className={getTierColor(Number(instance.rarity_tier))}>
+          {instance.modifierType} · {tierName(instance.rarity_tier)}
+        </p>
+        <p className="text-white/50 text-xs">
+          {t('collection.instanceId', { id: instance.modifierInstanceId.toString() })} ·{' '}
+          {landId === null
+            ? t('collection.inInventory')
+            : t('collection.attachedTo', { id: landId.toString() })}
+        </p>
+      </div>
+      <p className="text-[#00ff41]">{t('common.multiplier', { value: formatNumber(instance.multiplier_value) })}</p>
+    </div>
+  );
+}
+
+function ModifierDetail({ entry }: { entry: CollectionEntry }) {
+  const { t, formatNumber } = useI18n();
+  const { modifier, modifications, instances } = entry;
+  const tier = Number(modifier.rarity_tier);
+
+  return (
+    <div className="mx-auto w-full max-w-lg p-4 space-y-4">
+      <DrawerHeader className="items-center text-center">
+        <ModifierThumbnail
+          modelUrl={instances[0]?.instance.model_url}
+          tier={tier}
+          fallbackSrc={modifier.asset_url}
+          alt={modifier.name}
+          className="w-24 h-24 object-contain"
+          style={{ filter: getGlowFilter(tier) }}
+        />
+        <DrawerTitle className={`font-orbitron ${getTierColor(tier)}`}>{modifier.name}</DrawerTitle>
+        <DrawerDescription className="font-jetbrains">
+          {tierName(tier)} · {t('common.multiplier', { value: formatNumber(modifier.multiplier_value) })} ·{' '}
+          {t('collection.modifierId', { id: modifier.mod_id.toString() })}
+        </DrawerDescription>
+      </DrawerHeader>
+
+      <p className="font-jetbrains text-sm text-white/70">
+        {t('collection.copiesOwned', { count: entry.copies })}
+      </p>
+      <div className="space-y-2 max-h-[40vh] overflow-y-auto">
+        {instances.map((owned) => (
+          <OwnedInstanceRow key={owned.instance.modifierInstanceId.toString()} owned={owned} />
+        ))}
+        {modifications.map((modification, index) => (
+          <div
+            key={index}
+            className="flex items-center justify-between glassmorphism rounded-lg p-3 border border-white/10 font-jetbrains text-sm"
+          >
+            <p className="text-white/70">{t('collection.modification')}</p>
+            <p className="text-[#00ff41]">
+              {t('common.multiplier', { value: formatNumber(modification.multiplier_value) })}
+            </p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
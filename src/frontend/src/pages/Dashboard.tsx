@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
-import { useQuery } from '@tanstack/react-query';
-import { useActor } from '../hooks/useActor';
+import { useNavigate, useParams, useRouterState } from '@tanstack/react-router';
+import { useGetLandData } from '../hooks/useQueries';
 import LandDashboard from '../components/LandDashboard';
 import Discovery from '../components/Discovery';
 import Collection from './Collection';
@@ -10,30 +10,54 @@ import Governance from '../components/Governance';
 import MapView from '../components/MapView';
 import CubeVisualization from '../components/CubeVisualization';
 import LandSelector from '../components/LandSelector';
+import PlugWalletButton from '../components/PlugWalletButton';
+import NotificationToggle from '../components/NotificationToggle';
+import { useI18n } from '../hooks/useI18n';
+import { useNotificationScheduler } from '../hooks/useNotifications';
 import { Compass, Trophy, ShoppingCart, Vote, Map, BookOpen } from 'lucide-react';
-import type { LandData } from '../backend';
 
-type TabType = 'land' | 'discovery' | 'collection' | 'leaderboard' | 'marketplace' | 'governance' | 'map';
+export type TabType = 'land' | 'discovery' | 'collection' | 'leaderboard' | 'marketplace' | 'governance' | 'map';
+
+const TAB_PATHS = {
+  discovery: '/discovery',
+  collection: '/collection',
+  leaderboard: '/leaderboard',
+  marketplace: '/market',
+  governance: '/governance',
+  map: '/map',
+} as const;
+
+// Route params are plain strings; anything that is not a valid Nat id is treated as absent.
+function parseRouteId(value: string | undefined): bigint | null {
+  if (!value || !/^\d+$/.test(value)) return null;
+  return BigInt(value);
+}
 
 export default function Dashboard() {
-  const { actor } = useActor();
-  const [activeTab, setActiveTab] = useState<TabType>('land');
-  const [selectedLandIndex, setSelectedLandIndex] = useState(0);
-
-  const { data: lands, isLoading } = useQuery<LandData[]>({
-    queryKey: ['landData'],
-    queryFn: async () => {
-      if (!actor) throw new Error('Actor not initialized');
-      return actor.getLandData();
-    },
-    enabled: !!actor,
+  const navigate = useNavigate();
+  const { t } = useI18n();
+  useNotificationScheduler();
+  const activeTab = useRouterState({
+    select: (state) => state.matches[state.matches.length - 1]?.staticData.tab ?? 'land',
   });
+  const params = useParams({ strict: false });
+  const routeLandId = parseRouteId(params.landId);
+  const selectedProposalId = parseRouteId(params.proposalId);
+
+  // The last land opened on /land/:landId stays selected while other tabs are open.
+  const [selectedLandId, setSelectedLandId] = useState<bigint | null>(routeLandId);
+
+  const { data: lands, isLoading } = useGetLandData();
 
   useEffect(() => {
-    if (lands && lands.length > 0 && selectedLandIndex >= lands.length) {
-      setSelectedLandIndex(0);
+    if (routeLandId !== null) {
+      setSelectedLandId(routeLandId);
     }
-  }, [lands, selectedLandIndex]);
+  }, [routeLandId]);
+
+  const requestedLandId = routeLandId ?? selectedLandId;
+  const matchedLandIndex = lands && requestedLandId !== null ? lands.findIndex((land) => land.landId === requestedLandId) : -1;
+  const selectedLandIndex = matchedLandIndex >= 0 ? matchedLandIndex : 0;
 
   useEffect(() => {
     if (lands && lands.length > 0) {
@@ -53,7 +77,7 @@ export default function Dashboard() {
         <div className="min-h-screen flex items-center justify-center relative z-10">
           <div className="glassmorphism p-8 rounded-lg neon-border box-glow-cyan animate-pulse-glow">
             <div className="text-[#00ffff] text-xl animate-pulse font-orbitron text-glow-cyan">
-              Загрузка данных...
+              {t('dashboard.loading')}
             </div>
           </div>
         </div>
@@ -66,7 +90,7 @@ export default function Dashboard() {
       <div className="dashboard-container flex flex-col min-h-screen bg-transparent">
         <div className="min-h-screen flex items-center justify-center relative z-10">
           <div className="glassmorphism p-8 rounded-lg neon-border box-glow-gold">
-            <div className="text-red-400 text-xl font-orbitron">Земля не найдена</div>
+            <div className="text-red-400 text-xl font-orbitron">{t('dashboard.noLand')}</div>
           </div>
         </div>
       </div>
@@ -76,17 +100,37 @@ export default function Dashboard() {
   const currentLand = lands[selectedLandIndex];
 
   const tabs = [
-    { id: 'land' as TabType, icon: Compass, label: 'Земля' },
-    { id: 'discovery' as TabType, icon: BookOpen, label: 'Открытия' },
-    { id: 'collection' as TabType, icon: BookOpen, label: 'Коллекция' },
-    { id: 'leaderboard' as TabType, icon: Trophy, label: 'Рейтинг' },
-    { id: 'marketplace' as TabType, icon: ShoppingCart, label: 'Рынок' },
-    { id: 'governance' as TabType, icon: Vote, label: 'Управление' },
-    { id: 'map' as TabType, icon: Map, label: 'Карта' },
+    { id: 'land' as TabType, icon: Compass, label: t('dashboard.tabs.land') },
+    { id: 'discovery' as TabType, icon: BookOpen, label: t('dashboard.tabs.discovery') },
+    { id: 'collection' as TabType, icon: BookOpen, label: t('dashboard.tabs.collection') },
+    { id: 'leaderboard' as TabType, icon: Trophy, label: t('dashboard.tabs.leaderboard') },
+    { id: 'marketplace' as TabType, icon: ShoppingCart, label: t('dashboard.tabs.marketplace') },
+    { id: 'governance' as TabType, icon: Vote, label: t('dashboard.tabs.governance') },
+    { id: 'map' as TabType, icon: Map, label: t('dashboard.tabs.map') },
   ];
 
+  const openLand = (landId: bigint) => {
+    navigate({ to: '/land/$landId', params: { landId: landId.toString() } });
+  };
+
+  const handleTabClick = (tab: TabType) => {
+    if (tab === 'land') {
+      openLand(currentLand.landId);
+    } else {
+      navigate({ to: TAB_PATHS[tab] });
+    }
+  };
+
+  const handleSelectLand = (index: number) => {
+    const landId = lands[index].landId;
+    setSelectedLandId(landId);
+    if (activeTab === 'land') {
+      openLand(landId);
+    }
+  };
+
   const handleMapClose = () => {
-    setActiveTab('land');
+    openLand(currentLand.landId);
   };
 
   const isMapOpen = activeTab === 'map';
@@ -104,7 +148,7 @@ export default function Dashboard() {
               <LandSelector
                 lands={lands}
                 selectedIndex={selectedLandIndex}
-                onSelectLand={setSelectedLandIndex}
+                onSelectLand={handleSelectLand}
               />
             </div>
           )}
@@ -119,17 +163,25 @@ export default function Dashboard() {
                 flexDirection: 'column',
               }}
             >
-              <CubeVisualization biome={currentLand.biome} />
+              <CubeVisualization
+                biome={currentLand.biome}
+                modifiers={currentLand.attachedModifications}
+                land={currentLand}
+              />
             </div>
 
             <div className="space-y-4">
+              <div className="flex justify-end gap-2">
+                <NotificationToggle />
+                <PlugWalletButton />
+              </div>
               <nav className="grid grid-cols-2 gap-2">
                 {tabs.map((tab) => {
                   const Icon = tab.icon;
                   return (
                     <button
                       key={tab.id}
-                      onClick={() => setActiveTab(tab.id)}
+                      onClick={() => handleTabClick(tab.id)}
                       className={`
                         flex items-center justify-center gap-2 px-4 py-3 rounded-lg
                         transition-all duration-300 font-medium font-orbitron
@@ -155,7 +207,7 @@ export default function Dashboard() {
             {activeTab === 'collection' && <Collection />}
             {activeTab === 'leaderboard' && <Leaderboard />}
             {activeTab === 'marketplace' && <Marketplace />}
-            {activeTab === 'governance' && <Governance />}
+            {activeTab === 'governance' && <Governance selectedProposalId={selectedProposalId} />}
           </div>
         </div>
       </div>
@@ -3,10 +3,12 @@ import { useInternetIdentity } from '../hooks/useInternetIdentity';
 import CosmicBackground from '../components/CosmicBackground';
 import ParticleBackground from '../components/ParticleBackground';
 import { debugLog, debugError } from '../lib/debugConfig';
+import { useI18n } from '../hooks/useI18n';
 
 export default function LandingPage() {
   const { login, loginStatus } = useInternetIdentity();
   const [loginError, setLoginError] = useState<string | null>(null);
+  const { t } = useI18n();
 
   const handleLogin = async () => {
     try {
@@ -17,9 +19,9 @@ export default function LandingPage() {
       debugError('Login error', error);
       console.error('Login failed:', error);
       if (error.message === 'User is already authenticated') {
-        setLoginError('Вы уже вошли через Internet Identity');
+        setLoginError(t('landing.alreadyAuthenticated'));
       } else {
-        setLoginError('Ошибка входа. Пожалуйста, попробуйте снова.');
+        setLoginError(t('landing.loginFailed'));
       }
     }
   };
@@ -38,11 +40,11 @@ export default function LandingPage() {
         <div className="w-full max-w-4xl mx-auto text-center space-y-8">
           <div className="space-y-6 glassmorphism p-8 rounded-lg neon-border box-glow-cyan animate-slide-down">
             <h1 className="text-5xl md:text-6xl lg:text-7xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-green-400 via-cyan-400 to-purple-500 animate-pulse font-orbitron">
-              ПОЛУЧИТЕ СВОЙ УЧАСТОК ГЕНЕЗИСА
+              {t('landing.title')}
             </h1>
 
             <p className="text-xl md:text-2xl text-cyan-300 max-w-2xl mx-auto font-jetbrains text-glow-cyan">
-              Создайте уникальную виртуальную землю в киберпространстве
+              {t('landing.subtitle')}
             </p>
 
             <div className="pt-4">
@@ -59,7 +61,7 @@ export default function LandingPage() {
                   ${isLoggingIn ? 'animate-pulse' : ''}
                 `}
               >
-                {isLoggingIn ? 'Подключение...' : 'Подключить Internet Identity'}
+                {isLoggingIn ? t('landing.connecting') : t('landing.connect')}
               </button>
             </div>
 
@@ -80,25 +82,25 @@ export default function LandingPage() {
 
           <div className="glassmorphism p-6 rounded-lg neon-border box-glow-purple animate-slide-up">
             <p className="text-cyan-200 text-sm md:text-base font-jetbrains">
-              Войдите через Internet Identity для доступа к вашей виртуальной земле
+              {t('landing.loginHint')}
             </p>
           </div>
 
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-8">
             <div className="glassmorphism p-4 rounded-lg border border-cyan-500/30 box-glow-cyan">
               <div className="text-3xl mb-2">🌌</div>
-              <h3 className="text-cyan-400 font-orbitron text-sm mb-1">Космические биомы</h3>
-              <p className="text-cyan-200/70 text-xs font-jetbrains">7 уникальных типов земли</p>
+              <h3 className="text-cyan-400 font-orbitron text-sm mb-1">{t('landing.feature.biomes.title')}</h3>
+              <p className="text-cyan-200/70 text-xs font-jetbrains">{t('landing.feature.biomes.text', { count: 7 })}</p>
             </div>
             <div className="glassmorphism p-4 rounded-lg border border-purple-500/30 box-glow-purple">
               <div className="text-3xl mb-2">⚡</div>
-              <h3 className="text-purple-400 font-orbitron text-sm mb-1">Энергия и награды</h3>
-              <p className="text-purple-200/70 text-xs font-jetbrains">Зарабатывайте токены CBR</p>
+              <h3 className="text-purple-400 font-orbitron text-sm mb-1">{t('landing.feature.rewards.title')}</h3>
+              <p className="text-purple-200/70 text-xs font-jetbrains">{t('landing.feature.rewards.text')}</p>
             </div>
             <div className="glassmorphism p-4 rounded-lg border border-green-500/30 box-glow-green">
               <div className="text-3xl mb-2">🎮</div>
-              <h3 className="text-green-400 font-orbitron text-sm mb-1">3D визуализация</h3>
-              <p className="text-green-200/70 text-xs font-jetbrains">Интерактивные модели</p>
+              <h3 className="text-green-400 font-orbitron text-sm mb-1">{t('landing.feature.visual.title')}</h3>
+              <p className="text-green-200/70 text-xs font-jetbrains">{t('landing.feature.visual.text')}</p>
             </div>
           </div>
         </div>
@@ -0,0 +1,77 @@
+import type { Principal } from '@icp-sdk/core/principal';
+import { UserRole } from '../backend';
+
+// Mirror of src/backend/authorization/access-control.mo. Every simulated canister
+// owns one of these, exactly like every deployed canister owns its own state.
+
+export interface AccessControlState {
+  adminAssigned: boolean;
+  userRoles: Map<string, UserRole>;
+}
+
+export function initAccessControlState(): AccessControlState {
+  return {
+    adminAssigned: false,
+    userRoles: new Map(),
+  };
+}
+
+// First principal that calls this becomes admin, all other principals become users.
+export function initialize(state: AccessControlState, caller: Principal): void {
+  if (caller.isAnonymous()) return;
+  const key = caller.toText();
+  if (state.userRoles.has(key)) return;
+  if (!state.adminAssigned) {
+    state.userRoles.set(key, UserRole.admin);
+    state.adminAssigned = true;
+  } else {
+    state.userRoles.set(key, UserRole.user);
+  }
+}
+
+export function getUserRole(state: AccessControlState, caller: Principal): UserRole {
+  if (caller.isAnonymous()) {
+    return UserRole.guest;
+  }
+  const role = state.userRoles.get(caller.toText());
+  if (!role) {
+    throw new Error('User is not registered');
+  }
+  return role;
+}
+
+export function assignRole(state: AccessControlState, caller: Principal, user: Principal, role: UserRole): void {
+  if (!isAdmin(state, caller)) {
+    throw new Error('Unauthorized: Only admins can assign user roles');
+  }
+  state.userRoles.set(user.toText(), role);
+}
+
+export function hasPermission(state: AccessControlState, caller: Principal, requiredRole: UserRole): boolean {
+  const role = getUserRole(state, caller);
+  if (role === UserRole.admin) return true;
+  switch (requiredRole) {
+    case UserRole.admin:
+      return false;
+    case UserRole.user:
+      return role === UserRole.user;
+    case UserRole.guest:
+      return true;
+  }
+}
+
+export function isAdmin(state: AccessControlState, caller: Principal): boolean {
+  return getUserRole(state, caller) === UserRole.admin;
+}
+
+/** Throws the canister's trap message unless the caller holds `requiredRole`. */
+export function requirePermission(
+  state: AccessControlState,
+  caller: Principal,
+  requiredRole: UserRole,
+  message: string
+): void {
+  if (!hasPermission(state, caller, requiredRole)) {
+    throw new Error(message);
+  }
+}
@@ -0,0 +1,218 @@
+import type { Principal } from '@icp-sdk/core/principal';
+import { UserRole } from '../backend';
+import type { Asset, UserProfile, UserRole as AssetUserRole, assetBackendInterface } from '../asset-backend';
+import * as AccessControl from './accessControl';
+import { nowNanos, type SimulationWorld } from './world';
+
+const VALID_LAND_TYPES = [
+  'FOREST_VALLEY',
+  'ISLAND_ARCHIPELAGO',
+  'SNOW_PEAK',
+  'DESERT_DUNE',
+  'VOLCANIC_CRAG',
+  'MYTHIC_VOID',
+  'MYTHIC_AETHER',
+];
+
+const MAX_MODEL_SIZE_BYTES = 52_428_800; // 50MB
+
+function contentTypeFor(filename: string): string {
+  if (filename.endsWith('.glb')) return 'model/gltf-binary';
+  if (filename.endsWith('.obj')) return 'model/obj';
+  if (filename.endsWith('.png')) return 'image/png';
+  if (filename.endsWith('.jpg') || filename.endsWith('.jpeg')) return 'image/jpeg';
+  return 'application/octet-stream';
+}
+
+/**
+ * In-memory stand-in for the asset canister (src/backend/asset.mo). The hardcoded
+ * admin principal of the real canister is replaced by the simulation's seeded principal.
+ */
+export class SimulatedAssetCanister implements assetBackendInterface {
+  constructor(
+    private world: SimulationWorld,
+    private caller: Principal
+  ) {}
+
+  private get state() {
+    return this.world.state;
+  }
+
+  private require(role: UserRole, message: string): void {
+    AccessControl.requirePermission(this.state.access.asset, this.caller, role, message);
+  }
+
+  private get isAuthorizedAdminCaller(): boolean {
+    return this.caller.toText() === this.state.assetAdminPrincipal.toText();
+  }
+
+  private assetUrl(filename: string): string {
+    return `https://${this.world.canisterPrincipal('asset').toText()}.raw.ic0.app/${filename}`;
+  }
+
+  private putAsset(asset: Asset): void {
+    this.state.assets.set(asset.filename, asset);
+    this.state.assetVersions.set(asset.filename, nowNanos());
+  }
+
+  private requireGovernanceCaller(action: string): void {
+    const governance = this.state.assetGovernanceCanister;
+    if (!governance) {
+      throw new Error('Unauthorized: GovernanceCanister not configured. Admin must call setGovernanceCanister first.');
+    }
+    if (this.caller.toText() !== governance.toText()) {
+      throw new Error(`Unauthorized: Only the configured GovernanceCanister can ${action}`);
+    }
+  }
+
+  async initializeAccessControl(): Promise<void> {
+    if (!this.isAuthorizedAdminCaller) {
+      throw new Error('Unauthorized: Only the authorized admin principal can initialize access control');
+    }
+    AccessControl.initialize(this.state.access.asset, this.caller);
+  }
+
+  // asset-backend declares its own UserRole enum with the same string values as the land canister's.
+  async getCallerUserRole(): Promise<AssetUserRole> {
+    return AccessControl.getUserRole(this.state.access.asset, this.caller) as string as AssetUserRole;
+  }
+
+  async assignCallerUserRole(user: Principal, role: AssetUserRole): Promise<void> {
+    AccessControl.assignRole(this.state.access.asset, this.caller, user, role as string as UserRole);
+  }
+
+  async isCallerAdmin(): Promise<boolean> {
+    return AccessControl.isAdmin(this.state.access.asset, this.caller);
+  }
+
+  async isAuthorizedAdmin(principal: Principal): Promise<boolean> {
+    this.require(UserRole.guest, 'Unauthorized: Only authenticated users can check admin status');
+    return principal.toText() === this.state.assetAdminPrincipal.toText();
+  }
+
+  async getCallerUserProfile(): Promise<UserProfile | null> {
+    this.require(UserRole.user, 'Unauthorized: Only users can access profiles');
+    return this.state.assetUserProfiles.get(this.caller.toText()) ?? null;
+  }
+
+  async getUserProfile(user: Principal): Promise<UserProfile | null> {
+    if (this.caller.toText() !== user.toText() && !AccessControl.isAdmin(this.state.access.asset, this.caller)) {
+      throw new Error('Unauthorized: Can only view your own profile');
+    }
+    return this.state.assetUserProfiles.get(user.toText()) ?? null;
+  }
+
+  async saveCallerUserProfile(profile: UserProfile): Promise<void> {
+    this.require(UserRole.user, 'Unauthorized: Only users can save profiles');
+    this.state.assetUserProfiles.set(this.caller.toText(), { ...profile });
+  }
+
+  async setGovernanceCanister(governance: Principal): Promise<void> {
+    this.require(UserRole.admin, 'Unauthorized: Only admins can set governance canister');
+    this.state.assetGovernanceCanister = governance;
+  }
+
+  async uploadAsset(filename: string, data: Uint8Array): Promise<void> {
+    this.requireGovernanceCaller('upload assets');
+    if (filename.length === 0 || filename.length > 200) {
+      throw new Error('Invalid filename: Must be between 1 and 200 characters');
+    }
+    if (data.length === 0) {
+      throw new Error('Invalid asset data: Cannot be empty');
+    }
+    this.putAsset({ filename, data, contentType: contentTypeFor(filename) });
+  }
+
+  async uploadLandModel(landTypeName: string, modelData: Uint8Array): Promise<string> {
+    if (!this.isAuthorizedAdminCaller) {
+      throw new Error('Unauthorized: Only the authorized admin principal can upload GLB models');
+    }
+    if (!VALID_LAND_TYPES.includes(landTypeName)) {
+      throw new Error(
+        'Invalid land type: Must be one of FOREST_VALLEY, ISLAND_ARCHIPELAGO, SNOW_PEAK, DESERT_DUNE, VOLCANIC_CRAG, MYTHIC_VOID, or MYTHIC_AETHER'
+      );
+    }
+    if (modelData.length === 0) {
+      throw new Error('Invalid file data: Cannot be empty');
+    }
+    if (modelData.length > MAX_MODEL_SIZE_BYTES) {
+      throw new Error('File size exceeds 50 MB limit');
+    }
+
+    const filename = `${landTypeName}.glb`;
+    this.putAsset({ filename, data: modelData, contentType: 'model/gltf-binary' });
+    return this.assetUrl(filename);
+  }
+
+  async batchUploadAssets(assetList: Array<[string, Uint8Array]>): Promise<void> {
+    this.requireGovernanceCaller('batch upload assets');
+    if (assetList.length === 0) {
+      throw new Error('Invalid asset list: Must contain at least one asset');
+    }
+    for (const [filename, data] of assetList) {
+      if (filename.length === 0 || filename.length > 200) {
+        throw new Error('Invalid filename in batch: Must be between 1 and 200 characters');
+      }
+      if (data.length === 0) {
+        throw new Error('Invalid asset data in batch: Cannot be empty');
+      }
+      this.putAsset({ filename, data, contentType: contentTypeFor(filename) });
+    }
+  }
+
+  async deleteAsset(filename: string): Promise<void> {
+    this.requireGovernanceCaller('delete assets');
+    if (!this.state.assets.delete(filename)) {
+      throw new Error('Asset not found');
+    }
+    this.state.assetVersions.delete(filename);
+  }
+
+  async getAssetUrl(filename: string): Promise<string> {
+    this.require(UserRole.guest, 'Unauthorized: Only authenticated users can access asset URLs');
+    if (!this.state.assets.has(filename)) {
+      throw new Error('Asset not found');
+    }
+    return this.assetUrl(filename);
+  }
+
+  async getAsset(filename: string): Promise<Asset> {
+    this.require(UserRole.guest, 'Unauthorized: Only authenticated users can access asset data');
+    const asset = this.state.assets.get(filename);
+    if (!asset) {
+      throw new Error('Asset not found');
+    }
+    return asset;
+  }
+
+  async listAssets(): Promise<Array<string>> {
+    this.require(UserRole.guest, 'Unauthorized: Only authenticated users can list assets');
+    return Array.from(this.state.assets.keys());
+  }
+
+  async listGLBModels(): Promise<Array<[string, string]>> {
+    this.require(UserRole.guest, 'Unauthorized: Only authenticated users can list GLB models');
+    return Array.from(this.state.assets.keys())
+      .filter((filename) => filename.endsWith('.glb'))
+      .map((filename) => {
+        const version = this.state.assetVersions.get(filename);
+        const url = this.assetUrl(filename);
+        return [filename, version === undefined ? url : `${url}?v=${version}`];
+      });
+  }
+
+  async assetExists(filename: string): Promise<boolean> {
+    this.require(UserRole.guest, 'Unauthorized: Only authenticated users can check asset existence');
+    return this.state.assets.has(filename);
+  }
+
+  async adminGetAllAssets(): Promise<Array<[string, Asset]>> {
+    this.require(UserRole.admin, 'Unauthorized: Only admins can view all asset details');
+    return Array.from(this.state.assets.entries());
+  }
+
+  async adminGetAssetCount(): Promise<bigint> {
+    this.require(UserRole.admin, 'Unauthorized: Only admins can view asset count');
+    return BigInt(this.state.assets.size);
+  }
+}
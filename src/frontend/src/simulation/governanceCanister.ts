@@ -0,0 +1,145 @@
+import type { Principal } from '@icp-sdk/core/principal';
+import { UserRole } from '../backend';
+import type {
+  Proposal,
+  StakeResult,
+  Vote,
+  VoteResult,
+  governanceBackendInterface,
+} from '../governance-backend';
+import * as AccessControl from './accessControl';
+import { nowNanos, type SimulationWorld } from './world';
+
+/**
+ * In-memory stand-in for the governance canister (src/backend/governance.mo).
+ * Like the canister, staking only books the amount; no CBR leaves the ledger.
+ */
+export class SimulatedGovernanceCanister implements governanceBackendInterface {
+  constructor(
+    private world: SimulationWorld,
+    private caller: Principal
+  ) {}
+
+  private get state() {
+    return this.world.state;
+  }
+
+  private require(message: string): void {
+    AccessControl.requirePermission(this.state.access.governance, this.caller, UserRole.user, message);
+  }
+
+  private get stakedAmount(): bigint {
+    return this.state.stakedBalances.get(this.caller.toText()) ?? BigInt(0);
+  }
+
+  async initializeAccessControl(): Promise<void> {
+    AccessControl.initialize(this.state.access.governance, this.caller);
+  }
+
+  async stakeTokens(amount: bigint): Promise<StakeResult> {
+    this.require('Unauthorized: Only authenticated users can stake tokens');
+    if (amount === BigInt(0)) {
+      throw new Error('Invalid amount: Must stake more than 0 tokens');
+    }
+    const newStake = this.stakedAmount + amount;
+    this.state.stakedBalances.set(this.caller.toText(), newStake);
+    return { __kind__: 'success', success: { newStake } };
+  }
+
+  async unstakeTokens(amount: bigint): Promise<void> {
+    this.require('Unauthorized: Only authenticated users can unstake tokens');
+    const currentStake = this.stakedAmount;
+    if (amount > currentStake) {
+      throw new Error('Insufficient staked balance');
+    }
+    this.state.stakedBalances.set(this.caller.toText(), currentStake - amount);
+  }
+
+  async getStakedBalance(): Promise<bigint> {
+    this.require('Unauthorized: Only authenticated users can view staked balance');
+    return this.stakedAmount;
+  }
+
+  async createProposal(title: string, description: string): Promise<bigint> {
+    this.require('Unauthorized: Only authenticated users can create proposals');
+
+    const minimumStake = this.state.minimumStakeForProposal;
+    if (this.stakedAmount < minimumStake) {
+      throw new Error(`Insufficient stake: Must have at least ${minimumStake} tokens staked to create proposals`);
+    }
+    if (title.length === 0 || title.length > 100) {
+      throw new Error('Invalid title: Must be between 1 and 100 characters');
+    }
+    if (description.length === 0 || description.length > 1000) {
+      throw new Error('Invalid description: Must be between 1 and 1000 characters');
+    }
+
+    const proposalId = this.state.nextProposalId;
+    this.state.nextProposalId += BigInt(1);
+    this.state.proposals.set(proposalId, {
+      id: proposalId,
+      title,
+      description,
+      proposer: this.caller,
+      createdAt: nowNanos(),
+      votesYes: BigInt(0),
+      votesNo: BigInt(0),
+      isActive: true,
+    });
+    this.state.votes.set(proposalId, []);
+    return proposalId;
+  }
+
+  async vote(proposalId: bigint, choice: boolean): Promise<VoteResult> {
+    this.require('Unauthorized: Only authenticated users can vote');
+
+    const weight = this.stakedAmount;
+    if (weight === BigInt(0)) {
+      return { __kind__: 'notStaker', notStaker: null };
+    }
+
+    const proposal = this.state.proposals.get(proposalId);
+    if (!proposal) {
+      return { __kind__: 'proposalNotFound', proposalNotFound: null };
+    }
+    if (!proposal.isActive) {
+      return { __kind__: 'proposalNotActive', proposalNotActive: null };
+    }
+
+    const proposalVotes = this.state.votes.get(proposalId) ?? [];
+    if (proposalVotes.some((vote) => vote.voter.toText() === this.caller.toText())) {
+      return { __kind__: 'alreadyVoted', alreadyVoted: null };
+    }
+
+    this.state.votes.set(proposalId, [...proposalVotes, { voter: this.caller, proposalId, choice, weight }]);
+    this.state.proposals.set(
+      proposalId,
+      choice ? { ...proposal, votesYes: proposal.votesYes + weight } : { ...proposal, votesNo: proposal.votesNo + weight }
+    );
+    return { __kind__: 'success', success: { weight } };
+  }
+
+  async getProposal(proposalId: bigint): Promise<Proposal | null> {
+    this.require('Unauthorized: Only authenticated users can view proposals');
+    return this.state.proposals.get(proposalId) ?? null;
+  }
+
+  async getAllActiveProposals(): Promise<Array<Proposal>> {
+    this.require('Unauthorized: Only authenticated users can view proposals');
+    return Array.from(this.state.proposals.values()).filter((proposal) => proposal.isActive);
+  }
+
+  async getAllProposals(): Promise<Array<Proposal>> {
+    this.require('Unauthorized: Only authenticated users can view proposals');
+    return Array.from(this.state.proposals.values());
+  }
+
+  async getMyVotes(): Promise<Array<Vote>> {
+    this.require('Unauthorized: Only authenticated users can view their votes');
+    const myVotes: Vote[] = [];
+    for (const proposalVotes of this.state.votes.values()) {
+      myVotes.push(...proposalVotes.filter((vote) => vote.voter.toText() === this.caller.toText()));
+    }
+    return myVotes;
+  }
+}
@@ -0,0 +1,55 @@
+import { Ed25519KeyIdentity } from '@icp-sdk/core/identity';
+import { Principal } from '@icp-sdk/core/principal';
+import type { Identity } from '@icp-sdk/core/agent';
+
+export const SIMULATION_NETWORK = 'simulation';
+
+const DEFAULT_SIMULATION_SEED = 'cybergenesis-simulation';
+
+/**
+ * True when the build was started with `VITE_DFX_NETWORK=simulation` or `VITE_SIMULATION=true`.
+ * `env.json` can also select simulation at runtime, see `isSimulationMode` in config.ts.
+ */
+export function isSimulationFlagSet(): boolean {
+  return (
+    import.meta.env.VITE_DFX_NETWORK === SIMULATION_NETWORK ||
+    import.meta.env.VITE_SIMULATION === 'true'
+  );
+}
+
+export function getSimulationSeed(): string {
+  return import.meta.env.VITE_SIMULATION_SEED || DEFAULT_SIMULATION_SEED;
+}
+
+// Ed25519 needs exactly 32 seed bytes; repeat the text seed until they are filled.
+function seedBytes(seed: string): Uint8Array {
+  const encoded = new TextEncoder().encode(seed || DEFAULT_SIMULATION_SEED);
+  const bytes = new Uint8Array(32);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = encoded[i % encoded.length];
+  }
+  return bytes;
+}
+
+const identityCache = new Map<string, Ed25519KeyIdentity>();
+
+/**
+ * Deterministic identity derived from a text seed, so every simulation run
+ * (and every QA machine) logs in as the same principal.
+ */
+export function createSeededIdentity(seed: string): Ed25519KeyIdentity {
+  let identity = identityCache.get(seed);
+  if (!identity) {
+    identity = Ed25519KeyIdentity.generate(seedBytes(seed));
+    identityCache.set(seed, identity);
+  }
+  return identity;
+}
+
+export function getSimulationIdentity(): Ed25519KeyIdentity {
+  return createSeededIdentity(getSimulationSeed());
+}
+
+export function getCallerPrincipal(identity?: Identity | null): Principal {
+  return identity ? identity.getPrincipal() : Principal.anonymous();
+}
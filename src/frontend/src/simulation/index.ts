@@ -0,0 +1,38 @@
+import type { Identity } from '@icp-sdk/core/agent';
+import type { backendInterface } from '../backend';
+import type { tokenBackendInterface } from '../token-backend';
+import type { marketplaceBackendInterface } from '../marketplace-backend';
+import type { governanceBackendInterface } from '../governance-backend';
+import type { assetBackendInterface } from '../asset-backend';
+import { getCallerPrincipal } from './identity';
+import { SimulatedLandCanister } from './landCanister';
+import { SimulatedTokenCanister } from './tokenCanister';
+import { SimulatedMarketplaceCanister } from './marketplaceCanister';
+import { SimulatedGovernanceCanister } from './governanceCanister';
+import { SimulatedAssetCanister } from './assetCanister';
+import { getSimulationWorld } from './world';
+
+export { getSimulationWorld, SIMULATED_CANISTER_IDS } from './world';
+export { getSimulationIdentity, isSimulationFlagSet, SIMULATION_NETWORK } from './identity';
+
+// Each factory returns an actor bound to the caller, like `Actor.createActor` with an agent identity.
+
+export function createSimulatedBackend(identity?: Identity | null): backendInterface {
+  return new SimulatedLandCanister(getSimulationWorld(), getCallerPrincipal(identity));
+}
+
+export function createSimulatedTokenActor(identity?: Identity | null): tokenBackendInterface {
+  return new SimulatedTokenCanister(getSimulationWorld(), getCallerPrincipal(identity));
+}
+
+export function createSimulatedMarketplaceActor(identity?: Identity | null): marketplaceBackendInterface {
+  return new SimulatedMarketplaceCanister(getSimulationWorld(), getCallerPrincipal(identity));
+}
+
+export function createSimulatedGovernanceActor(identity?: Identity | null): governanceBackendInterface {
+  return new SimulatedGovernanceCanister(getSimulationWorld(), getCallerPrincipal(identity));
+}
+
+export function createSimulatedAssetActor(identity?: Identity | null): assetBackendInterface {
+  return new SimulatedAssetCanister(getSimulationWorld(), getCallerPrincipal(identity));
+}
@@ -0,0 +1,600 @@
+import type { Principal } from '@icp-sdk/core/principal';
+import {
+  UserRole,
+  type backendInterface,
+  type ClaimResult,
+  type Coordinates,
+  type DiscoverCacheResult,
+  type LandData,
+  type LootCache,
+  type Modification,
+  type Modifier,
+  type ModifierInstance,
+  type TopLandEntry,
+  type TransformationInput,
+  type TransformationOutput,
+  type UpgradeResult,
+  type UserProfile,
+} from '../backend';
+import * as AccessControl from './accessControl';
+import { SimulatedTokenCanister } from './tokenCanister';
+import { nowNanos, type SimulationWorld } from './world';
+
+// Constants copied from src/backend/main.mo
+const DAY_IN_NANOS = BigInt(86_400_000_000_000);
+const FOUR_HOURS_IN_NANOS = BigInt(14_400_000_000_000);
+const MINUTE_IN_NANOS = BigInt(60_000_000_000);
+const CLAIM_CHARGE_COST = BigInt(10);
+const CACHE_PROCESS_CHARGE_COST = BigInt(10);
+const MAX_UPGRADE_LEVEL = BigInt(5);
+const DISCOVERY_TIER_CHARGE: Record<string, bigint> = {
+  '1': BigInt(200),
+  '2': BigInt(500),
+  '3': BigInt(1000),
+};
+
+const BIOMES = [
+  'FOREST_VALLEY',
+  'ISLAND_ARCHIPELAGO',
+  'SNOW_PEAK',
+  'DESERT_DUNE',
+  'VOLCANIC_CRAG',
+  'MYTHIC_VOID',
+  'MYTHIC_AETHER',
+] as const;
+
+const AUTHORIZED_ADMIN_MESSAGE =
+  'Unauthorized: Only the authorized admin principal (whd5e-pbxhk-pp65k-hxqqx-edtrx-5b7xd-itunf-pz5f5-bzjut-dxkhy-4ae) can view cycle balances';
+
+export function hashPrincipal(principal: Principal): number {
+  let hash = 0;
+  for (const byte of principal.toUint8Array()) {
+    hash = (hash * 31 + byte) % 1000000;
+  }
+  return hash;
+}
+
+function getBiome(hash: number): string {
+  return BIOMES[hash % 7];
+}
+
+function generateCoordinates(hash: number): Coordinates {
+  return {
+    lat: (hash % 1800) / 10 - 90,
+    lon: (hash % 3600) / 10 - 180,
+  };
+}
+
+/** Charge regenerates by one point per full minute, capped at `chargeCap`. */
+export function updateCharge(land: LandData, currentTime: bigint = nowNanos()): LandData {
+  const minutesElapsed = (currentTime - land.lastChargeUpdate) / MINUTE_IN_NANOS;
+  const regenerated = land.cycleCharge + minutesElapsed;
+  return {
+    ...land,
+    cycleCharge: regenerated > land.chargeCap ? land.chargeCap : regenerated,
+    lastChargeUpdate: currentTime,
+  };
+}
+
+/** Builds a fresh plot the way `getLandData`/`mintLand` do, including the 0.5% MYTHIC_VOID roll. */
+export function createLandData(world: SimulationWorld, owner: Principal, hash: number): LandData {
+  const isMythicVoid = world.randomInt(200) === 0;
+  const landId = world.state.nextLandId;
+  world.state.nextLandId += BigInt(1);
+
+  return {
+    principal: owner,
+    coordinates: generateCoordinates(hash),
+    biome: isMythicVoid ? 'MYTHIC_VOID' : getBiome(hash),
+    upgradeLevel: BigInt(0),
+    lastClaimTime: BigInt(0),
+    plotName: 'My Plot',
+    decorationURL: undefined,
+    baseTokenMultiplier: isMythicVoid ? 1.25 : 1.0,
+    cycleCharge: BigInt(0),
+    chargeCap: BigInt(1000),
+    lastChargeUpdate: nowNanos(),
+    landId,
+    attachedModifications: [],
+  };
+}
+
+/** In-memory stand-in for the land canister (src/backend/main.mo). */
+export class SimulatedLandCanister implements backendInterface {
+  constructor(
+    private world: SimulationWorld,
+    private caller: Principal
+  ) {}
+
+  private get state() {
+    return this.world.state;
+  }
+
+  private require(role: UserRole, message: string): void {
+    AccessControl.requirePermission(this.state.access.land, this.caller, role, message);
+  }
+
+  private get callerKey(): string {
+    return this.caller.toText();
+  }
+
+  private findLandIndex(lands: LandData[], landId: bigint): number {
+    const index = lands.findIndex((land) => land.landId === landId);
+    if (index === -1) {
+      throw new Error(`Land with ID ${landId} not found`);
+    }
+    return index;
+  }
+
+  private replaceLand(owner: string, lands: LandData[], index: number, land: LandData): void {
+    this.state.landRegistry.set(
+      owner,
+      lands.map((existing, i) => (i === index ? land : existing))
+    );
+  }
+
+  async initializeAccessControl(): Promise<void> {
+    AccessControl.initialize(this.state.access.land, this.caller);
+  }
+
+  async getCallerUserRole(): Promise<UserRole> {
+    return AccessControl.getUserRole(this.state.access.land, this.caller);
+  }
+
+  async assignCallerUserRole(user: Principal, role: UserRole): Promise<void> {
+    AccessControl.assignRole(this.state.access.land, this.caller, user, role);
+  }
+
+  async isCallerAdmin(): Promise<boolean> {
+    return AccessControl.isAdmin(this.state.access.land, this.caller);
+  }
+
+  async getCallerUserProfile(): Promise<UserProfile | null> {
+    this.require(UserRole.user, 'Unauthorized: Only users can access profiles');
+    return this.state.userProfiles.get(this.callerKey) ?? null;
+  }
+
+  async getUserProfile(user: Principal): Promise<UserProfile | null> {
+    if (this.caller.toText() !== user.toText() && !AccessControl.isAdmin(this.state.access.land, this.caller)) {
+      throw new Error('Unauthorized: Can only view your own profile');
+    }
+    return this.state.userProfiles.get(user.toText()) ?? null;
+  }
+
+  async saveCallerUserProfile(profile: UserProfile): Promise<void> {
+    this.require(UserRole.user, 'Unauthorized: Only users can save profiles');
+    this.state.userProfiles.set(this.callerKey, { ...profile });
+  }
+
+  async getLandData(): Promise<Array<LandData>> {
+    this.require(UserRole.user, 'Unauthorized: Only users can access land data');
+
+    const existingLands = this.state.landRegistry.get(this.callerKey);
+    if (existingLands) {
+      return [...existingLands];
+    }
+
+    const newLand = createLandData(this.world, this.caller, hashPrincipal(this.caller));
+    this.state.landRegistry.set(this.callerKey, [newLand]);
+    return [newLand];
+  }
+
+  async getLandDataQuery(): Promise<Array<LandData> | null> {
+    this.require(UserRole.user, 'Unauthorized: Only users can query land data');
+    const lands = this.state.landRegistry.get(this.callerKey);
+    return lands ? [...lands] : null;
+  }
+
+  async adminGetLandData(user: Principal): Promise<Array<LandData> | null> {
+    this.require(UserRole.admin, "Unauthorized: Only admins can view other users' land data");
+    const lands = this.state.landRegistry.get(user.toText());
+    return lands ? [...lands] : null;
+  }
+
+  async mintLand(): Promise<LandData> {
+    this.require(UserRole.user, 'Unauthorized: Only users can mint new land');
+
+    const userTokens = this.state.landTokens.get(this.callerKey) ?? [];
+    if (userTokens.length === 0) {
+      throw new Error('No LandTokens available');
+    }
+    this.state.landTokens.set(this.callerKey, userTokens.slice(0, -1));
+
+    const hash = hashPrincipal(this.caller) + Number(this.state.nextLandId);
+    const newLand = createLandData(this.world, this.caller, hash);
+    const userLands = this.state.landRegistry.get(this.callerKey) ?? [];
+    this.state.landRegistry.set(this.callerKey, [...userLands, newLand]);
+    return newLand;
+  }
+
+  async claimRewards(landId: bigint): Promise<ClaimResult> {
+    this.require(UserRole.user, 'Unauthorized: Only users can claim rewards');
+
+    if (!this.state.tokenCanister) {
+      throw new Error('Configuration error: Token canister not set. Admin must call setTokenCanister first.');
+    }
+
+    const currentTime = nowNanos();
+    const lands = this.state.landRegistry.get(this.callerKey);
+    if (!lands) {
+      throw new Error('Land not found for principal');
+    }
+    const index = this.findLandIndex(lands, landId);
+    const updatedLand = updateCharge(lands[index], currentTime);
+
+    if (updatedLand.cycleCharge < CLAIM_CHARGE_COST) {
+      return {
+        __kind__: 'insufficientCharge',
+        insufficientCharge: { required: CLAIM_CHARGE_COST, current: updatedLand.cycleCharge },
+      };
+    }
+
+    const timeSinceLastClaim = currentTime - updatedLand.lastClaimTime;
+    if (timeSinceLastClaim < DAY_IN_NANOS) {
+      return {
+        __kind__: 'cooldown',
+        cooldown: { remainingTime: DAY_IN_NANOS - timeSinceLastClaim, currentBalance: BigInt(0) },
+      };
+    }
+
+    const baseReward = 100 * (Number(updatedLand.upgradeLevel) + 1);
+    const reward = BigInt(Math.abs(Math.trunc(baseReward * updatedLand.baseTokenMultiplier)));
+
+    try {
+      const landCanister = this.world.canisterPrincipal('land');
+      await new SimulatedTokenCanister(this.world, landCanister).mint(this.caller, reward);
+    } catch {
+      return { __kind__: 'mintFailed', mintFailed: 'Failed to mint tokens' };
+    }
+
+    this.replaceLand(this.callerKey, lands, index, {
+      ...updatedLand,
+      lastClaimTime: currentTime,
+      cycleCharge: updatedLand.cycleCharge - CLAIM_CHARGE_COST,
+    });
+
+    return {
+      __kind__: 'success',
+      success: { tokensClaimed: reward, newBalance: BigInt(0), nextClaimTime: currentTime + DAY_IN_NANOS },
+    };
+  }
+
+  async upgradePlot(landId: bigint, cost: bigint): Promise<UpgradeResult> {
+    this.require(UserRole.user, 'Unauthorized: Only users can upgrade plots');
+
+    const lands = this.state.landRegistry.get(this.callerKey);
+    if (!lands) {
+      throw new Error('Land not found for principal');
+    }
+    const index = this.findLandIndex(lands, landId);
+    const updatedLand = updateCharge(lands[index]);
+
+    if (updatedLand.upgradeLevel >= MAX_UPGRADE_LEVEL) {
+      return { __kind__: 'maxLevelReached', maxLevelReached: null };
+    }
+
+    // The canister does not debit tokens yet and rejects any non-zero cost.
+    if (cost > BigInt(0)) {
+      return { __kind__: 'insufficientTokens', insufficientTokens: { required: cost, current: BigInt(0) } };
+    }
+
+    const newLevel = updatedLand.upgradeLevel + BigInt(1);
+    this.replaceLand(this.callerKey, lands, index, { ...updatedLand, upgradeLevel: newLevel });
+    return { __kind__: 'success', success: { newLevel, remainingTokens: BigInt(0) } };
+  }
+
+  async updatePlotName(landId: bigint, name: string): Promise<void> {
+    this.require(UserRole.user, 'Unauthorized: Only users can update plot name');
+    if (name.length > 20) {
+      throw new Error('Plot name must be 20 characters or less');
+    }
+    const lands = this.state.landRegistry.get(this.callerKey);
+    if (!lands) {
+      throw new Error('Land not found for principal');
+    }
+    const index = this.findLandIndex(lands, landId);
+    this.replaceLand(this.callerKey, lands, index, { ...lands[index], plotName: name });
+  }
+
+  async updateDecoration(landId: bigint, url: string): Promise<void> {
+    this.require(UserRole.user, 'Unauthorized: Only users can update decoration');
+    if (url.length > 200) {
+      throw new Error('Decoration URL must be 200 characters or less');
+    }
+    const lands = this.state.landRegistry.get(this.callerKey);
+    if (!lands) {
+      throw new Error('Land not found for principal');
+    }
+    const index = this.findLandIndex(lands, landId);
+    this.replaceLand(this.callerKey, lands, index, { ...lands[index], decorationURL: url });
+  }
+
+  async setMarketplaceCanister(marketplace: Principal): Promise<void> {
+    this.require(UserRole.admin, 'Unauthorized: Only admins can set marketplace canister');
+    this.state.marketplaceCanister = marketplace;
+  }
+
+  async setGovernanceCanister(governance: Principal): Promise<void> {
+    this.require(UserRole.admin, 'Unauthorized: Only admins can set governance canister');
+    this.state.governanceCanister = governance;
+  }
+
+  async setTokenCanister(token: Principal): Promise<void> {
+    this.require(UserRole.admin, 'Unauthorized: Only admins can set token canister');
+    this.state.tokenCanister = token;
+  }
+
+  private requireMarketplaceCaller(action: string): void {
+    const marketplace = this.state.marketplaceCanister;
+    if (!marketplace) {
+      throw new Error(
+        'Unauthorized: Marketplace canister must be configured by admin before land transfers are enabled'
+      );
+    }
+    if (this.caller.toText() !== marketplace.toText()) {
+      throw new Error(`Unauthorized: Only the authorized marketplace canister can ${action}`);
+    }
+  }
+
+  async getLandOwner(landId: bigint): Promise<Principal | null> {
+    this.requireMarketplaceCaller('query land ownership');
+    for (const lands of this.state.landRegistry.values()) {
+      const land = lands.find((candidate) => candidate.landId === landId);
+      if (land) return land.principal;
+    }
+    return null;
+  }
+
+  async transferLand(to: Principal, landId: bigint): Promise<boolean> {
+    this.requireMarketplaceCaller('transfer land');
+
+    for (const [owner, lands] of this.state.landRegistry) {
+      const index = lands.findIndex((land) => land.landId === landId);
+      if (index === -1) continue;
+
+      this.state.landRegistry.set(
+        owner,
+        lands.filter((_, i) => i !== index)
+      );
+      const toLands = this.state.landRegistry.get(to.toText()) ?? [];
+      this.state.landRegistry.set(to.toText(), [...toLands, { ...lands[index], principal: to }]);
+      return true;
+    }
+    return false;
+  }
+
+  async getTopLands(limit: bigint): Promise<Array<TopLandEntry>> {
+    this.require(UserRole.user, 'Unauthorized: Only authenticated users can view leaderboard');
+
+    const entries: TopLandEntry[] = [];
+    for (const lands of this.state.landRegistry.values()) {
+      for (const land of lands) {
+        entries.push({
+          principal: land.principal,
+          plotName: land.plotName,
+          upgradeLevel: land.upgradeLevel,
+          tokenBalance: BigInt(0),
+        });
+      }
+    }
+    entries.sort((a, b) => {
+      if (a.upgradeLevel !== b.upgradeLevel) return a.upgradeLevel > b.upgradeLevel ? -1 : 1;
+      if (a.tokenBalance !== b.tokenBalance) return a.tokenBalance > b.tokenBalance ? -1 : 1;
+      return 0;
+    });
+    return entries.slice(0, Number(limit));
+  }
+
+  async discoverLootCache(tier: bigint): Promise<DiscoverCacheResult> {
+    this.require(UserRole.user, 'Unauthorized: Only users can discover loot caches');
+
+    const lands = this.state.landRegistry.get(this.callerKey);
+    if (!lands) {
+      throw new Error('Land not found for principal');
+    }
+
+    const updatedLand = updateCharge(lands[0]);
+    const requiredCharge = DISCOVERY_TIER_CHARGE[tier.toString()];
+    if (requiredCharge === undefined) {
+      throw new Error('Invalid tier: must be 1, 2, or 3');
+    }
+
+    if (updatedLand.cycleCharge < requiredCharge) {
+      return {
+        __kind__: 'insufficientCharge',
+        insufficientCharge: { required: requiredCharge, current: updatedLand.cycleCharge },
+      };
+    }
+
+    this.replaceLand(this.callerKey, lands, 0, {
+      ...updatedLand,
+      cycleCharge: updatedLand.cycleCharge - requiredCharge,
+    });
+
+    const newCache: LootCache = {
+      cache_id: this.state.nextCacheId,
+      tier,
+      owner: this.caller,
+      discovered_at: nowNanos(),
+      is_opened: false,
+    };
+    this.state.nextCacheId += BigInt(1);
+
+    const userCaches = this.state.lootCaches.get(this.callerKey) ?? [];
+    this.state.lootCaches.set(this.callerKey, [...userCaches, newCache]);
+    return { __kind__: 'success', success: newCache };
+  }
+
+  async processCache(cache_id: bigint): Promise<ModifierInstance> {
+    this.require(UserRole.user, 'Unauthorized: Only users can process caches');
+
+    const userCaches = this.state.lootCaches.get(this.callerKey);
+    if (!userCaches) {
+      throw new Error('No caches found for user');
+    }
+    const index = userCaches.findIndex((cache) => cache.cache_id === cache_id);
+    if (index === -1) {
+      throw new Error('Cache not found');
+    }
+    const cache = userCaches[index];
+    if (cache.owner.toText() !== this.callerKey) {
+      throw new Error("Unauthorized: You don't own this cache");
+    }
+    if (cache.is_opened) {
+      throw new Error('Cache already opened');
+    }
+
+    // Before the 4h delay a cache can still be opened by paying charge from the first land.
+    const canOpenWithTime = nowNanos() - cache.discovered_at >= FOUR_HOURS_IN_NANOS;
+    if (!canOpenWithTime) {
+      const lands = this.state.landRegistry.get(this.callerKey);
+      if (!lands) {
+        throw new Error('Land not found for principal');
+      }
+      const updatedLand = updateCharge(lands[0]);
+      if (updatedLand.cycleCharge < CACHE_PROCESS_CHARGE_COST) {
+        throw new Error('Cache cannot be opened yet: wait for cooldown or have sufficient charge');
+      }
+      this.replaceLand(this.callerKey, lands, 0, {
+        ...updatedLand,
+        cycleCharge: updatedLand.cycleCharge - CACHE_PROCESS_CHARGE_COST,
+      });
+    }
+
+    // Tier odds: 70% tier 1, 25% tier 2, 5% tier 3.
+    const roll = this.world.randomInt(100);
+    const tier = roll < 70 ? 1 : roll < 95 ? 2 : 3;
+    const multiplier = tier === 1 ? 1.1 : tier === 2 ? 1.25 : 1.5;
+
+    const newModifierInstance: ModifierInstance = {
+      modifierInstanceId: this.state.nextModifierInstanceId,
+      modifierType: 'GeneratedModifier',
+      rarity_tier: BigInt(tier),
+      multiplier_value: multiplier,
+      model_url: `https://assets.cybergenesis.io/models/tier${tier}.glb`,
+    };
+    this.state.nextModifierInstanceId += BigInt(1);
+
+    const inventory = this.state.playerInventory.get(this.callerKey) ?? [];
+    this.state.playerInventory.set(this.callerKey, [...inventory, newModifierInstance]);
+    this.state.lootCaches.set(
+      this.callerKey,
+      userCaches.map((existing, i) => (i === index ? { ...existing, is_opened: true } : existing))
+    );
+
+    return newModifierInstance;
+  }
+
+  async applyModifier(modifierInstanceId: bigint, landId: bigint): Promise<void> {
+    this.require(UserRole.user, 'Unauthorized: Only users can apply modifiers');
+
+    const userLands = this.state.landRegistry.get(this.callerKey);
+    if (!userLands) {
+      throw new Error('No lands found for user');
+    }
+    const index = this.findLandIndex(userLands, landId);
+
+    const inventory = this.state.playerInventory.get(this.callerKey);
+    if (!inventory) {
+      throw new Error('No modifier inventory found for user');
+    }
+    const modIndex = inventory.findIndex((modifier) => modifier.modifierInstanceId === modifierInstanceId);
+    if (modIndex === -1) {
+      throw new Error(`Modifier with ID ${modifierInstanceId} not found in inventory`);
+    }
+
+    this.state.playerInventory.set(
+      this.callerKey,
+      inventory.filter((_, i) => i !== modIndex)
+    );
+    const land = userLands[index];
+    this.replaceLand(this.callerKey, userLands, index, {
+      ...land,
+      attachedModifications: [...land.attachedModifications, inventory[modIndex]],
+    });
+  }
+
+  async useConsumableBuff(_item_id: bigint): Promise<void> {
+    this.require(UserRole.user, 'Unauthorized: Only users can use consumable buffs');
+    // Nothing grants buffs yet, so every caller hits the empty-inventory trap.
+    throw new Error('No consumable buffs found for user');
+  }
+
+  async getMyLootCaches(): Promise<Array<LootCache>> {
+    this.require(UserRole.user, 'Unauthorized: Only users can view their loot caches');
+    return [...(this.state.lootCaches.get(this.callerKey) ?? [])];
+  }
+
+  async getMyModifications(): Promise<Array<Modification>> {
+    this.require(UserRole.user, 'Unauthorized: Only users can view their modifications');
+    return [...(this.state.modifications.get(this.callerKey) ?? [])];
+  }
+
+  async getHighestRarityModification(): Promise<Modification | null> {
+    this.require(UserRole.user, 'Unauthorized: Only users can view their modifications');
+    const mods = this.state.modifications.get(this.callerKey) ?? [];
+    return mods.reduce<Modification | null>(
+      (highest, mod) => (!highest || mod.rarity_tier > highest.rarity_tier ? mod : highest),
+      null
+    );
+  }
+
+  async adminSetAllModifiers(modifier_list: Array<Modifier>): Promise<void> {
+    const governance = this.state.governanceCanister;
+    if (!governance) {
+      throw new Error(
+        'Unauthorized: GovernanceCanister not configured. Admin must call setGovernanceCanister first.'
+      );
+    }
+    if (this.caller.toText() !== governance.toText()) {
+      throw new Error('Unauthorized: Only the GovernanceCanister can set all modifiers');
+    }
+    if (modifier_list.length === 0) {
+      throw new Error('Invalid modifier list: Must contain at least one modifier');
+    }
+    this.state.modifiers = [...modifier_list];
+  }
+
+  async getAllModifiers(): Promise<Array<Modifier>> {
+    this.require(UserRole.user, 'Unauthorized: Only authenticated users can view modifier catalog');
+    return [...this.state.modifiers];
+  }
+
+  async getModifierById(mod_id: bigint): Promise<Modifier | null> {
+    this.require(UserRole.user, 'Unauthorized: Only authenticated users can query modifiers');
+    return this.state.modifiers.find((modifier) => modifier.mod_id === mod_id) ?? null;
+  }
+
+  async getModifiersByTier(tier: bigint): Promise<Array<Modifier>> {
+    this.require(UserRole.user, 'Unauthorized: Only authenticated users can query modifiers by tier');
+    return this.state.modifiers.filter((modifier) => modifier.rarity_tier === tier);
+  }
+
+  async getCurrentCbrBalance(): Promise<bigint> {
+    this.require(UserRole.user, 'Unauthorized: Only users can check their CBR balance');
+    // Same as the canister: balances live in the token canister only.
+    return BigInt(0);
+  }
+
+  async transform(input: TransformationInput): Promise<TransformationOutput> {
+    return { status: input.response.status, body: input.response.body, headers: [] };
+  }
+
+  private cycleBalance(canister: 'asset' | 'land'): string {
+    if (this.caller.toText() !== this.state.assetAdminPrincipal.toText()) {
+      throw new Error(AUTHORIZED_ADMIN_MESSAGE);
+    }
+    return JSON.stringify({
+      canister_id: this.world.canisterPrincipal(canister).toText(),
+      cycles: 5_000_000_000_000,
+    });
+  }
+
+  async getAssetCanisterCycleBalance(): Promise<string> {
+    return this.cycleBalance('asset');
+  }
+
+  async getLandCanisterCycleBalance(): Promise<string> {
+    return this.cycleBalance('land');
+  }
+}
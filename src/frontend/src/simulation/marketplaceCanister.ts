@@ -0,0 +1,176 @@
+import type { Principal } from '@icp-sdk/core/principal';
+import { UserRole } from '../backend';
+import type { BuyResult, Listing, marketplaceBackendInterface } from '../marketplace-backend';
+import { ItemType } from '../marketplace-backend.d';
+import * as AccessControl from './accessControl';
+import { SimulatedLandCanister } from './landCanister';
+import { SimulatedTokenCanister } from './tokenCanister';
+import type { SimulationWorld } from './world';
+
+/**
+ * In-memory stand-in for the marketplace canister (src/backend/marketplace.mo).
+ * Listed land is escrowed to the marketplace principal through the land canister's
+ * `transferLand`, and purchases move CBR through the token canister, exactly like
+ * the inter-canister calls in `listLand`/`buyLand`.
+ */
+export class SimulatedMarketplaceCanister implements marketplaceBackendInterface {
+  constructor(
+    private world: SimulationWorld,
+    private caller: Principal
+  ) {}
+
+  private get state() {
+    return this.world.state;
+  }
+
+  private require(role: UserRole, message: string): void {
+    AccessControl.requirePermission(this.state.access.marketplace, this.caller, role, message);
+  }
+
+  // The land canister only accepts transfers from the marketplace principal.
+  private landCanister(): SimulatedLandCanister {
+    return new SimulatedLandCanister(this.world, this.world.canisterPrincipal('marketplace'));
+  }
+
+  async initializeAccessControl(): Promise<void> {
+    AccessControl.initialize(this.state.access.marketplace, this.caller);
+  }
+
+  async list_item(item_id: bigint, item_type: ItemType, price: bigint): Promise<bigint> {
+    this.require(UserRole.user, 'Unauthorized: Only authenticated users can list land');
+
+    if (item_type !== ItemType.Land) {
+      throw new Error('Invalid item type: The marketplace canister only supports land listings');
+    }
+    if (price === BigInt(0)) {
+      throw new Error('Invalid price: Price must be greater than 0');
+    }
+
+    const landCanister = this.landCanister();
+    const currentOwner = await landCanister.getLandOwner(item_id);
+    if (!currentOwner) {
+      throw new Error('Land not found or ownership cannot be verified');
+    }
+    if (currentOwner.toText() !== this.caller.toText()) {
+      throw new Error("Unauthorized: You don't own this land");
+    }
+
+    for (const listing of this.state.listings.values()) {
+      if (listing.itemId === item_id && listing.isActive) {
+        throw new Error('Land is already listed');
+      }
+    }
+
+    const escrowed = await landCanister.transferLand(this.world.canisterPrincipal('marketplace'), item_id);
+    if (!escrowed) {
+      throw new Error('Failed to transfer land to marketplace escrow');
+    }
+
+    const listingId = this.state.nextListingId;
+    this.state.nextListingId += BigInt(1);
+    this.state.listings.set(listingId, {
+      listingId,
+      itemId: item_id,
+      itemType: ItemType.Land,
+      seller: this.caller,
+      price,
+      isActive: true,
+    });
+    return listingId;
+  }
+
+  async buy_item(listing_id: bigint): Promise<BuyResult> {
+    this.require(UserRole.user, 'Unauthorized: Only authenticated users can buy land');
+
+    const listing = this.state.listings.get(listing_id);
+    if (!listing) {
+      return { __kind__: 'listingNotFound', listingNotFound: null };
+    }
+    if (!listing.isActive) {
+      return { __kind__: 'listingNotActive', listingNotActive: null };
+    }
+    if (listing.seller.toText() === this.caller.toText()) {
+      return { __kind__: 'cannotBuyOwnListing', cannotBuyOwnListing: null };
+    }
+
+    // The buyer's balance is read and debited through the token canister as the buyer.
+    const tokenCanister = new SimulatedTokenCanister(this.world, this.caller);
+    const buyerBalance = await tokenCanister.icrc1_balance_of({ owner: this.caller, subaccount: [] });
+    if (buyerBalance < listing.price) {
+      return {
+        __kind__: 'insufficientFunds',
+        insufficientFunds: { required: listing.price, available: buyerBalance },
+      };
+    }
+
+    const transferResult = await tokenCanister.icrc1_transfer({
+      from: { owner: this.caller, subaccount: [] },
+      to: { owner: listing.seller, subaccount: [] },
+      amount: listing.price,
+      fee: null,
+      memo: null,
+      created_at_time: null,
+    });
+    if (transferResult.__kind__ === 'Err') {
+      return { __kind__: 'transferFailed', transferFailed: 'Token transfer failed' };
+    }
+
+    const delivered = await this.landCanister().transferLand(this.caller, listing.itemId);
+    if (!delivered) {
+      // Refund the buyer. The ledger only lets an owner debit their own account, so this
+      // moves the balances directly instead of issuing a transfer on the seller's behalf.
+      this.state.balances.set(
+        listing.seller.toText(),
+        (this.state.balances.get(listing.seller.toText()) ?? BigInt(0)) - listing.price
+      );
+      this.state.balances.set(
+        this.caller.toText(),
+        (this.state.balances.get(this.caller.toText()) ?? BigInt(0)) + listing.price
+      );
+      return { __kind__: 'transferFailed', transferFailed: 'NFT transfer failed - tokens refunded' };
+    }
+
+    this.state.listings.set(listing_id, { ...listing, isActive: false });
+    return {
+      __kind__: 'success',
+      success: { buyer: this.caller, seller: listing.seller, price: listing.price },
+    };
+  }
+
+  async cancelListing(listingId: bigint): Promise<void> {
+    this.require(UserRole.user, 'Unauthorized: Only authenticated users can cancel listings');
+
+    const listing = this.state.listings.get(listingId);
+    if (!listing) {
+      throw new Error('Listing not found');
+    }
+    if (listing.seller.toText() !== this.caller.toText()) {
+      throw new Error('Unauthorized: Only the seller can cancel this listing');
+    }
+    if (!listing.isActive) {
+      throw new Error('Listing is already inactive');
+    }
+
+    const returned = await this.landCanister().transferLand(this.caller, listing.itemId);
+    if (!returned) {
+      throw new Error('Failed to return land to seller');
+    }
+    this.state.listings.set(listingId, { ...listing, isActive: false });
+  }
+
+  async getActiveListing(listingId: bigint): Promise<Listing | null> {
+    this.require(UserRole.guest, 'Unauthorized: Only authenticated users can browse marketplace');
+    const listing = this.state.listings.get(listingId);
+    return listing && listing.isActive ? listing : null;
+  }
+
+  async getAllActiveListings(): Promise<Array<Listing>> {
+    this.require(UserRole.guest, 'Unauthorized: Only authenticated users can browse marketplace catalog');
+    return Array.from(this.state.listings.values()).filter((listing) => listing.isActive);
+  }
+
+  async getUserListings(user: Principal): Promise<Array<Listing>> {
+    this.require(UserRole.user, 'Unauthorized: Only authenticated users can view their listings');
+    return Array.from(this.state.listings.values()).filter((listing) => listing.seller.toText() === user.toText());
+  }
+}
@@ -0,0 +1,146 @@
+import type { Principal } from '@icp-sdk/core/principal';
+import { UserRole, type Modifier, type ModifierInstance } from '../backend';
+import { ItemType } from '../marketplace-backend.d';
+import { PLANNED_MODIFIER_CATALOG } from '../data/modifierCatalog';
+import { createSeededIdentity } from './identity';
+import { createLandData, hashPrincipal } from './landCanister';
+import { NANOS_PER_MILLI, nowNanos, type SimulationWorld } from './world';
+
+const CBR = BigInt(100_000_000); // 1 CBR in raw units (8 decimals)
+
+const TIER_MULTIPLIERS: Record<number, number> = { 1: 1.1, 2: 1.25, 3: 1.5, 4: 2.0 };
+
+interface SeedNeighbour {
+  seed: string;
+  name: string;
+  plotName: string;
+  upgradeLevel: number;
+  stake: bigint;
+}
+
+// A few other players so the leaderboard, marketplace and governance tabs have content.
+const NEIGHBOURS: SeedNeighbour[] = [
+  { seed: 'neighbour-nova', name: 'Nova', plotName: 'Neon Terraces', upgradeLevel: 4, stake: BigInt(5000) },
+  { seed: 'neighbour-vex', name: 'Vex', plotName: 'Glitch Harbor', upgradeLevel: 2, stake: BigInt(1500) },
+  { seed: 'neighbour-iris', name: 'Iris', plotName: 'Aether Spire', upgradeLevel: 1, stake: BigInt(0) },
+];
+
+function registerUser(world: SimulationWorld, principal: Principal): void {
+  const key = principal.toText();
+  for (const canister of ['token', 'marketplace', 'governance', 'asset'] as const) {
+    if (!world.state.access[canister].userRoles.has(key)) {
+      world.state.access[canister].userRoles.set(key, UserRole.user);
+    }
+  }
+}
+
+function hoursAgo(hours: number): bigint {
+  return nowNanos() - BigInt(Math.round(hours * 3_600_000)) * NANOS_PER_MILLI;
+}
+
+/**
+ * Puts the world into the state a freshly deployed network would be in after a few days
+ * of play. The seeded player is deliberately not registered on the land canister, so the
+ * first `initializeAccessControl` call makes them admin, as on a fresh deploy.
+ */
+export function seedWorld(world: SimulationWorld): void {
+  const state = world.state;
+  const player = world.player;
+
+  // Deployment wiring normally done by the admin after install.
+  state.tokenCanister = world.canisterPrincipal('token');
+  state.marketplaceCanister = world.canisterPrincipal('marketplace');
+  state.governanceCanister = world.canisterPrincipal('governance');
+  state.authorizedMinters = [world.canisterPrincipal('land')];
+  state.access.asset.userRoles.set(player.toText(), UserRole.admin);
+  state.access.asset.adminAssigned = true;
+
+  state.modifiers = PLANNED_MODIFIER_CATALOG.map<Modifier>((entry) => ({
+    mod_id: BigInt(entry.id),
+    name: entry.name,
+    rarity_tier: BigInt(entry.rarity_tier),
+    multiplier_value: TIER_MULTIPLIERS[entry.rarity_tier],
+    asset_url: entry.asset_url,
+  }));
+
+  // The player: one plot with enough charge for a tier 1 discovery and a claim ready to go.
+  registerUser(world, player);
+  const playerLand = {
+    ...createLandData(world, player, hashPrincipal(player)),
+    plotName: 'Sim Plot',
+    cycleCharge: BigInt(640),
+    lastClaimTime: hoursAgo(25),
+  };
+  state.landRegistry.set(player.toText(), [playerLand]);
+  state.balances.set(player.toText(), BigInt(1000) * CBR);
+  state.landTokens.set(player.toText(), [{ token_id: BigInt(0), rarity: 'Rare' }]);
+
+  // One cache past the 4h free-open delay and one still pending.
+  state.lootCaches.set(player.toText(), [
+    { cache_id: BigInt(0), tier: BigInt(1), owner: player, discovered_at: hoursAgo(5), is_opened: false },
+    { cache_id: BigInt(1), tier: BigInt(2), owner: player, discovered_at: hoursAgo(1), is_opened: false },
+  ]);
+  state.nextCacheId = BigInt(2);
+
+  const starterModifier: ModifierInstance = {
+    modifierInstanceId: BigInt(0),
+    modifierType: 'GeneratedModifier',
+    rarity_tier: BigInt(2),
+    multiplier_value: 1.25,
+    model_url: 'https://assets.cybergenesis.io/models/tier2.glb',
+  };
+  state.playerInventory.set(player.toText(), [starterModifier]);
+  state.nextModifierInstanceId = BigInt(1);
+
+  // Neighbours, registered as users everywhere.
+  const neighbours = NEIGHBOURS.map((neighbour) => {
+    const principal = createSeededIdentity(neighbour.seed).getPrincipal();
+    registerUser(world, principal);
+    state.access.land.userRoles.set(principal.toText(), UserRole.user);
+    state.userProfiles.set(principal.toText(), { name: neighbour.name });
+
+    const land = {
+      ...createLandData(world, principal, hashPrincipal(principal)),
+      plotName: neighbour.plotName,
+      upgradeLevel: BigInt(neighbour.upgradeLevel),
+      cycleCharge: BigInt(300),
+      lastClaimTime: hoursAgo(6),
+    };
+    state.landRegistry.set(principal.toText(), [land]);
+    state.balances.set(principal.toText(), BigInt(250) * CBR);
+    if (neighbour.stake > BigInt(0)) {
+      state.stakedBalances.set(principal.toText(), neighbour.stake);
+    }
+    return { principal, land };
+  });
+
+  // One neighbour plot already escrowed by the marketplace.
+  const seller = neighbours[2];
+  const marketplace = world.canisterPrincipal('marketplace');
+  state.landRegistry.set(seller.principal.toText(), []);
+  state.landRegistry.set(marketplace.toText(), [{ ...seller.land, principal: marketplace }]);
+  state.listings.set(BigInt(0), {
+    listingId: BigInt(0),
+    itemId: seller.land.landId,
+    itemType: ItemType.Land,
+    seller: seller.principal,
+    price: BigInt(400) * CBR,
+    isActive: true,
+  });
+  state.nextListingId = BigInt(1);
+
+  // One open proposal with a vote already cast.
+  const proposer = neighbours[0].principal;
+  state.proposals.set(BigInt(0), {
+    id: BigInt(0),
+    title: 'Raise tier 3 discovery charge to 1200',
+    description: 'Tier 3 caches are opened too often. Raising the charge cost keeps Legendary modifiers rare.',
+    proposer,
+    createdAt: hoursAgo(2),
+    votesYes: BigInt(5000),
+    votesNo: BigInt(0),
+    isActive: true,
+  });
+  state.votes.set(BigInt(0), [{ voter: proposer, proposalId: BigInt(0), choice: true, weight: BigInt(5000) }]);
+  state.nextProposalId = BigInt(1);
+}
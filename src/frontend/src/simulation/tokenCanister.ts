@@ -0,0 +1,145 @@
+import { Principal } from '@icp-sdk/core/principal';
+import { UserRole } from '../backend';
+import type {
+  Account,
+  MetadataValue,
+  TransferArgs,
+  TransferResult,
+  tokenBackendInterface,
+} from '../token-backend';
+import * as AccessControl from './accessControl';
+import type { SimulationWorld } from './world';
+
+/** In-memory stand-in for the CBR ICRC-1 ledger (src/backend/cyber_token.mo). */
+export class SimulatedTokenCanister implements tokenBackendInterface {
+  constructor(
+    private world: SimulationWorld,
+    private caller: Principal
+  ) {}
+
+  private get state() {
+    return this.world.state;
+  }
+
+  private require(role: UserRole, message: string): void {
+    AccessControl.requirePermission(this.state.access.token, this.caller, role, message);
+  }
+
+  private balanceOf(owner: Principal): bigint {
+    return this.state.balances.get(owner.toText()) ?? BigInt(0);
+  }
+
+  async initializeAccessControl(): Promise<void> {
+    AccessControl.initialize(this.state.access.token, this.caller);
+  }
+
+  async getCallerUserRole(): Promise<string> {
+    return AccessControl.getUserRole(this.state.access.token, this.caller);
+  }
+
+  async assignCallerUserRole(user: Principal, role: string): Promise<void> {
+    AccessControl.assignRole(this.state.access.token, this.caller, user, role as UserRole);
+  }
+
+  async isCallerAdmin(): Promise<boolean> {
+    return AccessControl.isAdmin(this.state.access.token, this.caller);
+  }
+
+  async icrc1_balance_of(account: Account): Promise<bigint> {
+    return this.balanceOf(account.owner);
+  }
+
+  async icrc1_transfer(args: TransferArgs): Promise<TransferResult> {
+    if (!AccessControl.hasPermission(this.state.access.token, this.caller, UserRole.user)) {
+      return {
+        __kind__: 'Err',
+        Err: {
+          __kind__: 'GenericError',
+          GenericError: {
+            error_code: BigInt(1),
+            message: 'Unauthorized: Only authenticated users can transfer tokens',
+          },
+        },
+      };
+    }
+
+    if (args.from.owner.toText() !== this.caller.toText()) {
+      return {
+        __kind__: 'Err',
+        Err: {
+          __kind__: 'GenericError',
+          GenericError: {
+            error_code: BigInt(2),
+            message: "Unauthorized: Cannot transfer from another user's account",
+          },
+        },
+      };
+    }
+
+    const fromBalance = this.balanceOf(args.from.owner);
+    if (fromBalance < args.amount) {
+      return { __kind__: 'Err', Err: { __kind__: 'InsufficientFunds', InsufficientFunds: { balance: fromBalance } } };
+    }
+
+    // The canister reads both balances up front, which lets a self-transfer mint `amount`;
+    // reading the recipient after the debit keeps simulated supply honest.
+    this.state.balances.set(args.from.owner.toText(), fromBalance - args.amount);
+    this.state.balances.set(args.to.owner.toText(), this.balanceOf(args.to.owner) + args.amount);
+    return { __kind__: 'Ok', Ok: args.amount };
+  }
+
+  async icrc1_metadata(): Promise<Array<[string, MetadataValue]>> {
+    return [
+      ['icrc1:name', { __kind__: 'Text', Text: 'CYBER' }],
+      ['icrc1:symbol', { __kind__: 'Text', Text: 'CBR' }],
+      ['icrc1:decimals', { __kind__: 'Nat', Nat: BigInt(8) }],
+      ['icrc1:fee', { __kind__: 'Nat', Nat: BigInt(0) }],
+    ];
+  }
+
+  async icrc1_total_supply(): Promise<bigint> {
+    let total = BigInt(0);
+    for (const balance of this.state.balances.values()) {
+      total += balance;
+    }
+    return total;
+  }
+
+  async addAuthorizedMinter(minter: Principal): Promise<void> {
+    this.require(UserRole.admin, 'Unauthorized: Only admins can add authorized minters');
+    if (this.state.authorizedMinters.some((existing) => existing.toText() === minter.toText())) {
+      throw new Error('Minter already authorized');
+    }
+    this.state.authorizedMinters = [...this.state.authorizedMinters, minter];
+  }
+
+  async removeAuthorizedMinter(minter: Principal): Promise<void> {
+    this.require(UserRole.admin, 'Unauthorized: Only admins can remove authorized minters');
+    this.state.authorizedMinters = this.state.authorizedMinters.filter(
+      (existing) => existing.toText() !== minter.toText()
+    );
+  }
+
+  async mint(to: Principal, amount: bigint): Promise<void> {
+    const isAuthorized = this.state.authorizedMinters.some((minter) => minter.toText() === this.caller.toText());
+    if (!isAuthorized) {
+      throw new Error('Unauthorized: Only authorized minter canisters can mint tokens');
+    }
+    this.state.balances.set(to.toText(), this.balanceOf(to) + amount);
+  }
+
+  async getCanisterTokenBalance(): Promise<bigint> {
+    this.require(UserRole.admin, 'Unauthorized: Only admins can view canister token balance');
+    return this.balanceOf(this.world.canisterPrincipal('token'));
+  }
+
+  async adminGetAllBalances(): Promise<Array<[Principal, bigint]>> {
+    this.require(UserRole.admin, 'Unauthorized: Only admins can view all balances');
+    return Array.from(this.state.balances.entries()).map(([owner, balance]) => [Principal.fromText(owner), balance]);
+  }
+
+  async getAuthorizedMinters(): Promise<Array<Principal>> {
+    this.require(UserRole.admin, 'Unauthorized: Only admins can view authorized minters');
+    return [...this.state.authorizedMinters];
+  }
+}
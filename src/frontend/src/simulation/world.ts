@@ -0,0 +1,223 @@
+import { Principal } from '@icp-sdk/core/principal';
+import type {
+  LandData,
+  LootCache,
+  Modification,
+  Modifier,
+  ModifierInstance,
+  UserProfile,
+} from '../backend';
+import type { Listing } from '../marketplace-backend';
+import type { Proposal, Vote } from '../governance-backend';
+import type { Asset } from '../asset-backend';
+import { IC_CANISTER_IDS, type CanisterName } from '../config/canisters';
+import { initAccessControlState, type AccessControlState } from './accessControl';
+import { createSeededIdentity, getSimulationSeed } from './identity';
+import { seedWorld } from './seed';
+
+// Production canister IDs from the ic profile, reused so simulated principals look like the real ones in the UI.
+export const SIMULATED_CANISTER_IDS: Readonly<Record<CanisterName, string>> = IC_CANISTER_IDS;
+
+export type SimulatedCanister = CanisterName;
+
+export const NANOS_PER_MILLI = BigInt(1_000_000);
+
+export function nowNanos(): bigint {
+  return BigInt(Date.now()) * NANOS_PER_MILLI;
+}
+
+export interface LandToken {
+  token_id: bigint;
+  rarity: string;
+}
+
+export interface SimulationState {
+  access: Record<SimulatedCanister, AccessControlState>;
+
+  // Land canister (main.mo)
+  landRegistry: Map<string, LandData[]>;
+  userProfiles: Map<string, UserProfile>;
+  lootCaches: Map<string, LootCache[]>;
+  modifications: Map<string, Modification[]>;
+  landTokens: Map<string, LandToken[]>;
+  playerInventory: Map<string, ModifierInstance[]>;
+  modifiers: Modifier[];
+  nextLandId: bigint;
+  nextCacheId: bigint;
+  nextModifierInstanceId: bigint;
+  marketplaceCanister: Principal | null;
+  governanceCanister: Principal | null;
+  tokenCanister: Principal | null;
+
+  // Token canister (cyber_token.mo)
+  balances: Map<string, bigint>;
+  authorizedMinters: Principal[];
+
+  // Marketplace canister (marketplace.mo)
+  listings: Map<bigint, Listing>;
+  nextListingId: bigint;
+
+  // Governance canister (governance.mo)
+  stakedBalances: Map<string, bigint>;
+  proposals: Map<bigint, Proposal>;
+  votes: Map<bigint, Vote[]>;
+  nextProposalId: bigint;
+  minimumStakeForProposal: bigint;
+
+  // Asset canister (asset.mo)
+  assets: Map<string, Asset>;
+  assetVersions: Map<string, bigint>;
+  assetUserProfiles: Map<string, UserProfile>;
+  assetGovernanceCanister: Principal | null;
+  assetAdminPrincipal: Principal;
+}
+
+function createEmptyState(assetAdminPrincipal: Principal): SimulationState {
+  return {
+    access: {
+      land: initAccessControlState(),
+      asset: initAccessControlState(),
+      token: initAccessControlState(),
+      marketplace: initAccessControlState(),
+      governance: initAccessControlState(),
+    },
+    landRegistry: new Map(),
+    userProfiles: new Map(),
+    lootCaches: new Map(),
+    modifications: new Map(),
+    landTokens: new Map(),
+    playerInventory: new Map(),
+    modifiers: [],
+    nextLandId: BigInt(0),
+    nextCacheId: BigInt(0),
+    nextModifierInstanceId: BigInt(0),
+    marketplaceCanister: null,
+    governanceCanister: null,
+    tokenCanister: null,
+    balances: new Map(),
+    authorizedMinters: [],
+    listings: new Map(),
+    nextListingId: BigInt(0),
+    stakedBalances: new Map(),
+    proposals: new Map(),
+    votes: new Map(),
+    nextProposalId: BigInt(0),
+    minimumStakeForProposal: BigInt(1000),
+    assets: new Map(),
+    assetVersions: new Map(),
+    assetUserProfiles: new Map(),
+    assetGovernanceCanister: null,
+    assetAdminPrincipal,
+  };
+}
+
+// Small deterministic PRNG (mulberry32) so a given seed always rolls the same loot.
+function createRandom(seed: string): () => number {
+  let h = 1779033703 ^ seed.length;
+  for (let i = 0; i < seed.length; i++) {
+    h = Math.imul(h ^ seed.charCodeAt(i), 3432918353);
+    h = (h << 13) | (h >>> 19);
+  }
+  let a = h >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * In-memory replacement for the deployed canisters. Each simulated canister reads
+ * and writes its own slice of `state`; the world also owns the simulated clock offset.
+ */
+export class SimulationWorld {
+  readonly seed: string;
+  readonly player: Principal;
+  state: SimulationState;
+  /** Total time skipped with `advanceTime`, in milliseconds. */
+  warpedMs = 0;
+
+  private random: () => number;
+  private listeners = new Set<() => void>();
+
+  constructor(seed: string) {
+    this.seed = seed;
+    this.player = createSeededIdentity(seed).getPrincipal();
+    this.random = createRandom(seed);
+    this.state = createEmptyState(this.player);
+    seedWorld(this);
+  }
+
+  canisterPrincipal(canister: SimulatedCanister): Principal {
+    return Principal.fromText(SIMULATED_CANISTER_IDS[canister]);
+  }
+
+  /** Uniform integer in `[0, bound)`, like `Random.Finite.range` is used in the canisters. */
+  randomInt(bound: number): number {
+    return Math.floor(this.random() * bound);
+  }
+
+  /**
+   * Skips `ms` milliseconds of simulated time. Stored timestamps are moved into the past
+   * rather than moving the clock forward, so UI code comparing against `Date.now()`
+   * sees the same cooldowns and regen the simulated canisters do.
+   */
+  advanceTime(ms: number): void {
+    const delta = BigInt(Math.floor(ms)) * NANOS_PER_MILLI;
+    const state = this.state;
+
+    for (const [owner, lands] of state.landRegistry) {
+      state.landRegistry.set(
+        owner,
+        lands.map((land) => ({
+          ...land,
+          lastChargeUpdate: land.lastChargeUpdate - delta,
+          lastClaimTime: land.lastClaimTime === BigInt(0) ? land.lastClaimTime : land.lastClaimTime - delta,
+        }))
+      );
+    }
+
+    for (const [owner, caches] of state.lootCaches) {
+      state.lootCaches.set(
+        owner,
+        caches.map((cache) => ({ ...cache, discovered_at: cache.discovered_at - delta }))
+      );
+    }
+
+    for (const [id, proposal] of state.proposals) {
+      state.proposals.set(id, { ...proposal, createdAt: proposal.createdAt - delta });
+    }
+
+    this.warpedMs += ms;
+    this.notify();
+  }
+
+  reset(): void {
+    this.random = createRandom(this.seed);
+    this.state = createEmptyState(this.player);
+    this.warpedMs = 0;
+    seedWorld(this);
+    this.notify();
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+let worldInstance: SimulationWorld | null = null;
+
+export function getSimulationWorld(): SimulationWorld {
+  if (!worldInstance) {
+    worldInstance = new SimulationWorld(getSimulationSeed());
+  }
+  return worldInstance;
+}